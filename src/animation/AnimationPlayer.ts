@@ -0,0 +1,402 @@
+/**
+ * Stateful sprite animation player driven by Fixed delta time
+ * 由定点增量时间驱动的有状态精灵动画播放器
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+import { AnimationFrame, SpriteAnimation } from '../interfaces/IGameRenderer';
+
+/**
+ * Order in which a clip's frames are played
+ * 片段帧的播放顺序
+ */
+export type AnimationPlaybackMode = 'forward' | 'reverse' | 'pingPong';
+
+/**
+ * Options for playing or queueing a clip
+ * 播放或排队片段的选项
+ */
+export interface AnimationPlayOptions {
+  mode?: AnimationPlaybackMode; // Default 'forward'
+  loop?: boolean; // Defaults to the animation's own loop flag
+  speed?: Fixed; // Multiplier on top of the animation's playbackSpeed, default 1
+  restart?: boolean; // Restart when the same clip is already playing, default false
+}
+
+/**
+ * Event emitted when playback enters a frame with a registered event
+ * 播放进入注册了事件的帧时发出的事件
+ */
+export interface AnimationFrameEvent {
+  name: string;
+  animation: SpriteAnimation;
+  frame: number;
+}
+
+interface AnimationClip {
+  animation: SpriteAnimation;
+  mode: AnimationPlaybackMode;
+  loop: boolean;
+  speed: Fixed;
+}
+
+/**
+ * Plays sprite animations with play/pause/stop/seek, reverse and ping-pong playback,
+ * a clip queue, frame events and completion callbacks
+ * 播放精灵动画，支持播放/暂停/停止/跳转、倒放和往返播放、片段队列、帧事件和完成回调
+ *
+ * Transitions are immediate: a new clip replaces the current one without blending. A queued
+ * clip starts when the current one completes, or at the end of the current cycle if it loops.
+ * 过渡是即时的：新片段直接替换当前片段而不混合。排队的片段在当前片段完成时开始，
+ * 若当前片段循环，则在当前周期结束时开始。
+ */
+export class AnimationPlayer {
+  private animations = new Map<string, SpriteAnimation>();
+  private frameEvents = new Map<string, Map<number, string[]>>();
+  private frameEventListeners = new Set<(event: AnimationFrameEvent) => void>();
+  private completeListeners = new Set<(animation: SpriteAnimation) => void>();
+  private clip: AnimationClip | null = null;
+  private clipQueue: AnimationClip[] = [];
+  private position = 0;
+  private frameTime = Fixed.ZERO;
+  private playing = false;
+  private paused = false;
+  private enteredFrame = false;
+
+  constructor(animations: Iterable<SpriteAnimation> = []) {
+    for (const animation of animations) {
+      this.addAnimation(animation);
+    }
+  }
+
+  // ===== Clips =====
+  // 片段
+
+  addAnimation(animation: SpriteAnimation): void {
+    this.animations.set(animation.name, animation);
+  }
+
+  getAnimation(name: string): SpriteAnimation | undefined {
+    return this.animations.get(name);
+  }
+
+  /**
+   * Register an event emitted whenever playback enters a frame of an animation
+   * 注册在播放进入动画某一帧时发出的事件
+   */
+  addFrameEvent(animationName: string, frame: number, eventName: string): void {
+    let events = this.frameEvents.get(animationName);
+    if (!events) {
+      events = new Map();
+      this.frameEvents.set(animationName, events);
+    }
+    events.set(frame, [...(events.get(frame) || []), eventName]);
+  }
+
+  // ===== Listeners =====
+  // 监听器
+
+  /**
+   * Listen for frame events; returns a function that removes the listener
+   * 监听帧事件；返回移除监听器的函数
+   */
+  onFrameEvent(listener: (event: AnimationFrameEvent) => void): () => void {
+    this.frameEventListeners.add(listener);
+    return () => this.frameEventListeners.delete(listener);
+  }
+
+  /**
+   * Listen for clips completing; returns a function that removes the listener
+   * 监听片段完成；返回移除监听器的函数
+   */
+  onComplete(listener: (animation: SpriteAnimation) => void): () => void {
+    this.completeListeners.add(listener);
+    return () => this.completeListeners.delete(listener);
+  }
+
+  // ===== Playback Control =====
+  // 播放控制
+
+  /**
+   * Play a clip immediately, clearing the queue
+   * 立即播放片段并清空队列
+   */
+  play(animation: string | SpriteAnimation, options: AnimationPlayOptions = {}): void {
+    const clip = this.createClip(animation, options);
+    this.clipQueue = [];
+    this.paused = false;
+
+    if (
+      !options.restart &&
+      this.playing &&
+      this.clip &&
+      this.clip.animation === clip.animation &&
+      this.clip.mode === clip.mode
+    ) {
+      this.clip = clip;
+      return;
+    }
+    this.startClip(clip);
+  }
+
+  /**
+   * Queue a clip to play after the current one, or play it now if nothing is playing
+   * 将片段排在当前片段之后播放，若没有正在播放的片段则立即播放
+   */
+  queue(animation: string | SpriteAnimation, options: AnimationPlayOptions = {}): void {
+    const clip = this.createClip(animation, options);
+    if (!this.playing) {
+      this.startClip(clip);
+      return;
+    }
+    this.clipQueue.push(clip);
+  }
+
+  clearQueue(): void {
+    this.clipQueue = [];
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  /**
+   * Stop playback and rewind to the first frame of the cycle
+   * 停止播放并回到周期的第一帧
+   */
+  stop(): void {
+    this.playing = false;
+    this.paused = false;
+    this.clipQueue = [];
+    this.position = 0;
+    this.frameTime = Fixed.ZERO;
+  }
+
+  /**
+   * Jump to a time within the current clip's cycle, without emitting events
+   * 跳转到当前片段周期内的某一时间，不发出事件
+   */
+  seek(time: Fixed): void {
+    if (!this.clip) return;
+
+    const cycleLength = this.getCycleLength(this.clip);
+    let remaining = time.lessThan(Fixed.ZERO) ? Fixed.ZERO : time;
+    const cycleDuration = this.getCycleDuration(this.clip);
+    if (this.clip.loop && cycleDuration.greaterThan(Fixed.ZERO)) {
+      const cycles = remaining.divide(cycleDuration).floor();
+      remaining = remaining.subtract(cycles.multiply(cycleDuration));
+    }
+
+    this.position = 0;
+    while (this.position < cycleLength - 1) {
+      const duration = this.getFrameDuration(this.clip, this.position);
+      if (remaining.lessThan(duration)) break;
+      remaining = remaining.subtract(duration);
+      this.position++;
+    }
+    const lastDuration = this.getFrameDuration(this.clip, this.position);
+    this.frameTime = remaining.greaterThan(lastDuration) ? lastDuration : remaining;
+    this.enteredFrame = true;
+  }
+
+  /**
+   * Jump to the start of a frame of the current clip, without emitting events
+   * 跳转到当前片段某一帧的开头，不发出事件
+   */
+  seekFrame(frame: number): void {
+    if (!this.clip) return;
+
+    const cycleLength = this.getCycleLength(this.clip);
+    for (let position = 0; position < cycleLength; position++) {
+      if (this.getFrameIndex(this.clip, position) === frame) {
+        this.position = position;
+        this.frameTime = Fixed.ZERO;
+        this.enteredFrame = true;
+        return;
+      }
+    }
+    throw new Error(`Frame ${frame} is out of range for animation "${this.clip.animation.name}"`);
+  }
+
+  /**
+   * Advance playback, emitting frame events and completion callbacks
+   * 推进播放，发出帧事件和完成回调
+   */
+  update(deltaTime: Fixed): void {
+    if (!this.clip || !this.playing || this.paused) return;
+
+    if (!this.enteredFrame) {
+      this.enteredFrame = true;
+      this.emitFrameEvents();
+    }
+
+    this.frameTime = this.frameTime.add(
+      deltaTime.multiply(this.clip.speed).multiply(this.clip.animation.playbackSpeed)
+    );
+
+    // Zero-length frames are stepped over, but at most one cycle's worth per update
+    let zeroSteps = 0;
+    while (this.playing && this.clip) {
+      const duration = this.getFrameDuration(this.clip, this.position);
+      if (this.frameTime.lessThan(duration)) break;
+      if (!duration.greaterThan(Fixed.ZERO) && ++zeroSteps > this.getCycleLength(this.clip)) break;
+
+      this.frameTime = this.frameTime.subtract(duration);
+      this.advanceFrame();
+    }
+  }
+
+  // ===== State =====
+  // 状态
+
+  getCurrentAnimation(): SpriteAnimation | null {
+    return this.clip ? this.clip.animation : null;
+  }
+
+  getCurrentFrame(): AnimationFrame | null {
+    if (!this.clip) return null;
+    return this.clip.animation.frames[this.getFrameIndex(this.clip, this.position)] || null;
+  }
+
+  /**
+   * Index of the displayed frame within the animation's frames
+   * 当前显示帧在动画帧列表中的索引
+   */
+  getCurrentFrameIndex(): number {
+    return this.clip ? this.getFrameIndex(this.clip, this.position) : -1;
+  }
+
+  /**
+   * Time elapsed since the start of the current cycle
+   * 自当前周期开始以来经过的时间
+   */
+  getTime(): Fixed {
+    if (!this.clip) return Fixed.ZERO;
+    let time = this.frameTime;
+    for (let position = 0; position < this.position; position++) {
+      time = time.add(this.getFrameDuration(this.clip, position));
+    }
+    return time;
+  }
+
+  isPlaying(): boolean {
+    return this.playing && !this.paused;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // ===== Internal =====
+  // 内部
+
+  private createClip(
+    animation: string | SpriteAnimation,
+    options: AnimationPlayOptions
+  ): AnimationClip {
+    const resolved = typeof animation === 'string' ? this.animations.get(animation) : animation;
+    if (!resolved) {
+      throw new Error(`Unknown animation: ${animation}`);
+    }
+    if (options.speed && options.speed.lessThan(Fixed.ZERO)) {
+      throw new Error('Animation speed must not be negative; use the reverse mode instead');
+    }
+
+    return {
+      animation: resolved,
+      mode: options.mode || 'forward',
+      loop: options.loop ?? resolved.loop,
+      speed: options.speed || Fixed.ONE
+    };
+  }
+
+  private startClip(clip: AnimationClip): void {
+    this.clip = clip;
+    this.position = 0;
+    this.frameTime = Fixed.ZERO;
+    this.playing = clip.animation.frames.length > 0;
+    this.enteredFrame = false;
+  }
+
+  private advanceFrame(): void {
+    const clip = this.clip as AnimationClip;
+    if (this.position + 1 < this.getCycleLength(clip)) {
+      this.position++;
+      this.emitFrameEvents();
+      return;
+    }
+
+    // End of cycle: hand over to a queued clip, loop, or complete
+    const next = this.clipQueue.shift();
+    if (next) {
+      const leftover = this.frameTime;
+      this.emitComplete(clip.animation);
+      this.startClip(next);
+      this.frameTime = leftover;
+      this.enteredFrame = true;
+      this.emitFrameEvents();
+    } else if (clip.loop) {
+      this.position = 0;
+      this.emitFrameEvents();
+    } else {
+      this.frameTime = this.getFrameDuration(clip, this.position);
+      this.playing = false;
+      this.emitComplete(clip.animation);
+    }
+  }
+
+  private getCycleLength(clip: AnimationClip): number {
+    const count = clip.animation.frames.length;
+    return clip.mode === 'pingPong' && count > 1 ? count * 2 - 2 : count;
+  }
+
+  private getCycleDuration(clip: AnimationClip): Fixed {
+    let total = Fixed.ZERO;
+    for (let position = 0; position < this.getCycleLength(clip); position++) {
+      total = total.add(this.getFrameDuration(clip, position));
+    }
+    return total;
+  }
+
+  private getFrameIndex(clip: AnimationClip, position: number): number {
+    const count = clip.animation.frames.length;
+    switch (clip.mode) {
+      case 'reverse':
+        return count - 1 - position;
+      case 'pingPong':
+        return position < count ? position : count * 2 - 2 - position;
+      default:
+        return position;
+    }
+  }
+
+  private getFrameDuration(clip: AnimationClip, position: number): Fixed {
+    const frame = clip.animation.frames[this.getFrameIndex(clip, position)];
+    return frame ? frame.duration : Fixed.ZERO;
+  }
+
+  private emitFrameEvents(): void {
+    const clip = this.clip;
+    if (!clip || this.frameEventListeners.size === 0) return;
+
+    const frame = this.getFrameIndex(clip, this.position);
+    const names = this.frameEvents.get(clip.animation.name)?.get(frame);
+    if (!names) return;
+
+    for (const name of names) {
+      for (const listener of Array.from(this.frameEventListeners)) {
+        listener({ name, animation: clip.animation, frame });
+      }
+    }
+  }
+
+  private emitComplete(animation: SpriteAnimation): void {
+    for (const listener of Array.from(this.completeListeners)) {
+      listener(animation);
+    }
+  }
+}
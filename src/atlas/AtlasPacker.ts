@@ -0,0 +1,509 @@
+/**
+ * Texture atlas packer with MaxRects and skyline placement
+ * 使用MaxRects和天际线放置的纹理图集打包器
+ */
+
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { PixelData } from '../software/SoftwareFramebuffer';
+
+/**
+ * Placement algorithm used by the atlas packer
+ * 图集打包器使用的放置算法
+ */
+export type AtlasPackingAlgorithm = 'maxRects' | 'skyline';
+
+/**
+ * Named image to pack, with optional RGBA8 pixels to composite into the page
+ * 要打包的命名图像，可选携带要合成到页面中的RGBA8像素
+ */
+export interface AtlasImage {
+  name: string;
+  width: number;
+  height: number;
+  pixels?: PixelData;
+}
+
+/**
+ * Atlas packer options
+ * 图集打包器选项
+ */
+export interface AtlasPackerOptions {
+  maxWidth?: number; // Maximum page width in pixels, default 2048
+  maxHeight?: number; // Maximum page height in pixels, default 2048
+  padding?: number; // Empty pixels between regions, default 0
+  extrude?: number; // Edge pixels repeated around each region, default 0
+  allowRotation?: boolean; // Allow 90 degree rotation for a tighter fit, default false
+  algorithm?: AtlasPackingAlgorithm; // Default 'maxRects'
+  powerOfTwo?: boolean; // Round page sizes up to powers of two, default false
+}
+
+/**
+ * Packed region of one image
+ * 单个图像的打包区域
+ *
+ * `rect` excludes padding and extrusion and can be passed to drawTextureRegion,
+ * drawSpriteFromAtlas and createAnimation as is. Rotated regions are stored turned 90 degrees
+ * clockwise, so their rect has width and height swapped.
+ * `rect` 不包含间距和挤出像素，可直接传给drawTextureRegion、drawSpriteFromAtlas和createAnimation。
+ * 旋转的区域以顺时针旋转90度存储，因此其矩形的宽高互换。
+ */
+export interface AtlasRegion {
+  name: string;
+  page: number;
+  rect: FixedRect;
+  rotated: boolean;
+}
+
+/**
+ * One atlas page; `pixels` is present when any image packed into it carried pixels
+ * 一个图集页面；当打包进该页的任一图像携带像素时存在 `pixels`
+ */
+export interface AtlasPage {
+  width: number;
+  height: number;
+  regions: AtlasRegion[];
+  pixels?: PixelData;
+}
+
+/**
+ * Result of packing a set of images
+ * 打包一组图像的结果
+ */
+export interface AtlasLayout {
+  pages: AtlasPage[];
+  regions: Map<string, AtlasRegion>;
+}
+
+interface Placement {
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PackingBin {
+  insert(width: number, height: number, allowRotation: boolean): Placement | null;
+}
+
+/**
+ * Packs named image sizes into one or more atlas pages
+ * 将命名图像尺寸打包到一个或多个图集页面中
+ */
+export class AtlasPacker {
+  private readonly options: Required<AtlasPackerOptions>;
+
+  constructor(options: AtlasPackerOptions = {}) {
+    this.options = {
+      maxWidth: options.maxWidth ?? 2048,
+      maxHeight: options.maxHeight ?? 2048,
+      padding: options.padding ?? 0,
+      extrude: options.extrude ?? 0,
+      allowRotation: options.allowRotation ?? false,
+      algorithm: options.algorithm ?? 'maxRects',
+      powerOfTwo: options.powerOfTwo ?? false
+    };
+
+    const { maxWidth, maxHeight, padding, extrude, powerOfTwo } = this.options;
+    if (!isPositiveInteger(maxWidth) || !isPositiveInteger(maxHeight)) {
+      throw new Error(`Invalid atlas page size: ${maxWidth}x${maxHeight}`);
+    }
+    if (!isNonNegativeInteger(padding) || !isNonNegativeInteger(extrude)) {
+      throw new Error(`Invalid atlas padding or extrusion: ${padding}, ${extrude}`);
+    }
+    if (powerOfTwo && (!isPowerOfTwo(maxWidth) || !isPowerOfTwo(maxHeight))) {
+      throw new Error(`Power-of-two atlas pages need a power-of-two maximum size`);
+    }
+  }
+
+  /**
+   * Pack images into pages, largest first
+   * 按从大到小的顺序将图像打包到页面中
+   */
+  pack(images: AtlasImage[]): AtlasLayout {
+    const { maxWidth, maxHeight, padding, extrude, allowRotation } = this.options;
+    const names = new Set<string>();
+    for (const image of images) {
+      this.validateImage(image, names);
+    }
+
+    // Padding is added after every cell, so the bin is widened by one padding to absorb the last
+    const binWidth = maxWidth + padding;
+    const binHeight = maxHeight + padding;
+    const order = images
+      .map((image, index) => ({ image, index }))
+      .sort(
+        (a, b) =>
+          Math.max(b.image.width, b.image.height) - Math.max(a.image.width, a.image.height) ||
+          b.image.width * b.image.height - a.image.width * a.image.height ||
+          a.index - b.index
+      );
+
+    const bins: PackingBin[] = [];
+    const placements: Array<{ page: number; placement: Placement }> = new Array(images.length);
+    for (const { image, index } of order) {
+      const cellWidth = image.width + extrude * 2 + padding;
+      const cellHeight = image.height + extrude * 2 + padding;
+      const fitsUpright = cellWidth <= binWidth && cellHeight <= binHeight;
+      const fitsRotated = allowRotation && cellHeight <= binWidth && cellWidth <= binHeight;
+      if (!fitsUpright && !fitsRotated) {
+        throw new Error(
+          `Image "${image.name}" (${image.width}x${image.height}) does not fit in a ` +
+            `${maxWidth}x${maxHeight} atlas page`
+        );
+      }
+
+      let placed: { page: number; placement: Placement } | null = null;
+      for (let page = 0; page < bins.length && !placed; page++) {
+        const placement = bins[page].insert(cellWidth, cellHeight, allowRotation);
+        if (placement) {
+          placed = { page, placement };
+        }
+      }
+      if (!placed) {
+        const bin = this.createBin(binWidth, binHeight);
+        bins.push(bin);
+        const placement = bin.insert(cellWidth, cellHeight, allowRotation);
+        if (!placement) {
+          throw new Error(`Image "${image.name}" could not be placed on an empty atlas page`);
+        }
+        placed = { page: bins.length - 1, placement };
+      }
+      placements[index] = placed;
+    }
+
+    return this.buildLayout(images, placements, bins.length);
+  }
+
+  private validateImage(image: AtlasImage, names: Set<string>): void {
+    if (names.has(image.name)) {
+      throw new Error(`Duplicate atlas image name: ${image.name}`);
+    }
+    names.add(image.name);
+
+    if (!isPositiveInteger(image.width) || !isPositiveInteger(image.height)) {
+      throw new Error(
+        `Invalid size for atlas image "${image.name}": ${image.width}x${image.height}`
+      );
+    }
+    if (
+      image.pixels &&
+      (image.pixels.width !== image.width || image.pixels.height !== image.height)
+    ) {
+      throw new Error(`Pixel data size does not match atlas image "${image.name}"`);
+    }
+  }
+
+  private createBin(width: number, height: number): PackingBin {
+    return this.options.algorithm === 'skyline'
+      ? new SkylineBin(width, height)
+      : new MaxRectsBin(width, height);
+  }
+
+  private buildLayout(
+    images: AtlasImage[],
+    placements: Array<{ page: number; placement: Placement }>,
+    pageCount: number
+  ): AtlasLayout {
+    const { extrude, powerOfTwo } = this.options;
+    const pages: AtlasPage[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      pages.push({ width: 0, height: 0, regions: [] });
+    }
+
+    const regions = new Map<string, AtlasRegion>();
+    images.forEach((image, index) => {
+      const { page, placement } = placements[index];
+      const width = placement.rotated ? image.height : image.width;
+      const height = placement.rotated ? image.width : image.height;
+      const region: AtlasRegion = {
+        name: image.name,
+        page,
+        rect: new FixedRect(
+          new Fixed(placement.x + extrude),
+          new Fixed(placement.y + extrude),
+          new Fixed(width),
+          new Fixed(height)
+        ),
+        rotated: placement.rotated
+      };
+
+      const atlasPage = pages[page];
+      atlasPage.regions.push(region);
+      atlasPage.width = Math.max(atlasPage.width, placement.x + width + extrude * 2);
+      atlasPage.height = Math.max(atlasPage.height, placement.y + height + extrude * 2);
+      regions.set(image.name, region);
+    });
+
+    for (const page of pages) {
+      if (powerOfTwo) {
+        page.width = nextPowerOfTwo(page.width);
+        page.height = nextPowerOfTwo(page.height);
+      }
+    }
+
+    images.forEach((image, index) => {
+      if (!image.pixels) return;
+      const { page, placement } = placements[index];
+      const atlasPage = pages[page];
+      if (!atlasPage.pixels) {
+        atlasPage.pixels = {
+          width: atlasPage.width,
+          height: atlasPage.height,
+          data: new Uint8ClampedArray(atlasPage.width * atlasPage.height * 4)
+        };
+      }
+      blitImage(atlasPage.pixels, image.pixels, placement, extrude);
+    });
+
+    return { pages, regions };
+  }
+}
+
+// ===== Placement Bins =====
+// 放置容器
+
+/**
+ * MaxRects bin using the best short side fit heuristic
+ * 使用最佳短边适配启发式的MaxRects容器
+ */
+class MaxRectsBin implements PackingBin {
+  private freeRects: Rect[];
+
+  constructor(width: number, height: number) {
+    this.freeRects = [{ x: 0, y: 0, width, height }];
+  }
+
+  insert(width: number, height: number, allowRotation: boolean): Placement | null {
+    let best: Rect | null = null;
+    let bestRotated = false;
+    let bestShortSide = Infinity;
+    let bestLongSide = Infinity;
+
+    for (const [w, h, rotated] of orientations(width, height, allowRotation)) {
+      for (const free of this.freeRects) {
+        if (w > free.width || h > free.height) continue;
+        const leftoverX = free.width - w;
+        const leftoverY = free.height - h;
+        const shortSide = Math.min(leftoverX, leftoverY);
+        const longSide = Math.max(leftoverX, leftoverY);
+        if (shortSide < bestShortSide || (shortSide === bestShortSide && longSide < bestLongSide)) {
+          best = { x: free.x, y: free.y, width: w, height: h };
+          bestRotated = rotated;
+          bestShortSide = shortSide;
+          bestLongSide = longSide;
+        }
+      }
+    }
+    if (!best) return null;
+
+    this.place(best);
+    return { x: best.x, y: best.y, rotated: bestRotated };
+  }
+
+  private place(node: Rect): void {
+    const next: Rect[] = [];
+    for (const free of this.freeRects) {
+      if (
+        node.x >= free.x + free.width ||
+        node.x + node.width <= free.x ||
+        node.y >= free.y + free.height ||
+        node.y + node.height <= free.y
+      ) {
+        next.push(free);
+        continue;
+      }
+
+      // Split the intersected free rect into up to four maximal rects around the node
+      if (node.y > free.y) {
+        next.push({ x: free.x, y: free.y, width: free.width, height: node.y - free.y });
+      }
+      if (node.y + node.height < free.y + free.height) {
+        next.push({
+          x: free.x,
+          y: node.y + node.height,
+          width: free.width,
+          height: free.y + free.height - (node.y + node.height)
+        });
+      }
+      if (node.x > free.x) {
+        next.push({ x: free.x, y: free.y, width: node.x - free.x, height: free.height });
+      }
+      if (node.x + node.width < free.x + free.width) {
+        next.push({
+          x: node.x + node.width,
+          y: free.y,
+          width: free.x + free.width - (node.x + node.width),
+          height: free.height
+        });
+      }
+    }
+
+    // Drop free rects contained in another one, keeping the first of identical rects
+    this.freeRects = next.filter(
+      (rect, i) =>
+        !next.some(
+          (other, j) =>
+            i !== j && containsRect(other, rect) && (j < i || !containsRect(rect, other))
+        )
+    );
+  }
+}
+
+/**
+ * Skyline bin using the bottom-left heuristic
+ * 使用左下启发式的天际线容器
+ */
+class SkylineBin implements PackingBin {
+  private readonly width: number;
+  private readonly height: number;
+  private skyline: Array<{ x: number; y: number; width: number }>;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.skyline = [{ x: 0, y: 0, width }];
+  }
+
+  insert(width: number, height: number, allowRotation: boolean): Placement | null {
+    let best: (Placement & { index: number; width: number; height: number }) | null = null;
+    let bestTop = Infinity;
+    let bestSegmentWidth = Infinity;
+
+    for (const [w, h, rotated] of orientations(width, height, allowRotation)) {
+      for (let i = 0; i < this.skyline.length; i++) {
+        const y = this.fit(i, w, h);
+        if (y < 0) continue;
+        const top = y + h;
+        if (top < bestTop || (top === bestTop && this.skyline[i].width < bestSegmentWidth)) {
+          best = { index: i, x: this.skyline[i].x, y, width: w, height: h, rotated };
+          bestTop = top;
+          bestSegmentWidth = this.skyline[i].width;
+        }
+      }
+    }
+    if (!best) return null;
+
+    this.place(best.index, best.x, best.y + best.height, best.width);
+    return { x: best.x, y: best.y, rotated: best.rotated };
+  }
+
+  // Lowest y at which a w x h rect starting at segment `index` rests on the skyline, or -1
+  private fit(index: number, width: number, height: number): number {
+    const x = this.skyline[index].x;
+    if (x + width > this.width) return -1;
+
+    let remaining = width;
+    let y = 0;
+    for (let i = index; remaining > 0; i++) {
+      y = Math.max(y, this.skyline[i].y);
+      if (y + height > this.height) return -1;
+      remaining -= this.skyline[i].width;
+    }
+    return y;
+  }
+
+  private place(index: number, x: number, top: number, width: number): void {
+    this.skyline.splice(index, 0, { x, y: top, width });
+
+    // Trim the segments now covered by the new one
+    for (let i = index + 1; i < this.skyline.length; i++) {
+      const previous = this.skyline[i - 1];
+      const segment = this.skyline[i];
+      const overlap = previous.x + previous.width - segment.x;
+      if (overlap <= 0) break;
+      segment.x += overlap;
+      segment.width -= overlap;
+      if (segment.width > 0) break;
+      this.skyline.splice(i, 1);
+      i--;
+    }
+
+    // Merge neighbours at the same height
+    for (let i = 0; i < this.skyline.length - 1; i++) {
+      if (this.skyline[i].y === this.skyline[i + 1].y) {
+        this.skyline[i].width += this.skyline[i + 1].width;
+        this.skyline.splice(i + 1, 1);
+        i--;
+      }
+    }
+  }
+}
+
+// ===== Pixel Compositing =====
+// 像素合成
+
+// Copy an image into the page, turned 90 degrees clockwise when rotated, repeating edge pixels
+// `extrude` times around it
+function blitImage(
+  page: PixelData,
+  image: PixelData,
+  placement: Placement,
+  extrude: number
+): void {
+  const width = placement.rotated ? image.height : image.width;
+  const height = placement.rotated ? image.width : image.height;
+
+  for (let dy = -extrude; dy < height + extrude; dy++) {
+    const y = Math.min(height - 1, Math.max(0, dy));
+    for (let dx = -extrude; dx < width + extrude; dx++) {
+      const x = Math.min(width - 1, Math.max(0, dx));
+      const sourceX = placement.rotated ? y : x;
+      const sourceY = placement.rotated ? image.height - 1 - x : y;
+      const source = (sourceY * image.width + sourceX) * 4;
+      const target =
+        ((placement.y + extrude + dy) * page.width + placement.x + extrude + dx) * 4;
+      page.data[target] = image.data[source];
+      page.data[target + 1] = image.data[source + 1];
+      page.data[target + 2] = image.data[source + 2];
+      page.data[target + 3] = image.data[source + 3];
+    }
+  }
+}
+
+function orientations(
+  width: number,
+  height: number,
+  allowRotation: boolean
+): Array<[number, number, boolean]> {
+  return allowRotation && width !== height
+    ? [
+        [width, height, false],
+        [height, width, true]
+      ]
+    : [[width, height, false]];
+}
+
+function containsRect(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function isPositiveInteger(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: number): boolean {
+  return Number.isInteger(value) && value >= 0;
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let result = 1;
+  while (result < value) {
+    result *= 2;
+  }
+  return result;
+}
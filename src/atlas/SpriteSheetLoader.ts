@@ -0,0 +1,257 @@
+/**
+ * Loaders for TexturePacker and Aseprite JSON sprite sheets
+ * TexturePacker和Aseprite JSON精灵表加载器
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { ITexture } from '../types/RenderTypes';
+import { AnimationFrame, SpriteAnimation } from '../interfaces/IGameRenderer';
+
+/**
+ * Rectangle as written by TexturePacker and Aseprite
+ * TexturePacker和Aseprite写出的矩形
+ */
+export interface SpriteSheetRectData {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * One frame entry of a TexturePacker or Aseprite JSON export
+ * TexturePacker或Aseprite JSON导出中的一个帧条目
+ *
+ * `frame` has the upright width and height even when the frame is stored rotated.
+ * 即使帧以旋转方式存储，`frame` 也是正向的宽高。
+ */
+export interface SpriteSheetFrameData {
+  filename?: string; // Present in array exports
+  frame: SpriteSheetRectData;
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: SpriteSheetRectData;
+  sourceSize?: { w: number; h: number };
+  duration?: number; // milliseconds, Aseprite only
+}
+
+/**
+ * Aseprite frame tag
+ * Aseprite帧标签
+ */
+export interface AsepriteFrameTagData {
+  name: string;
+  from: number;
+  to: number;
+  direction?: 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+  repeat?: string | number; // Play count, absent or 0 loops forever
+}
+
+/**
+ * TexturePacker or Aseprite JSON export, in hash or array form
+ * 哈希或数组形式的TexturePacker或Aseprite JSON导出
+ */
+export interface SpriteSheetData {
+  frames: Record<string, SpriteSheetFrameData> | SpriteSheetFrameData[];
+  animations?: Record<string, string[]>; // Named frame lists, as written by TexturePacker
+  meta?: {
+    image?: string;
+    size?: { w: number; h: number };
+    frameTags?: AsepriteFrameTagData[];
+  };
+}
+
+/**
+ * Sprite sheet loader options
+ * 精灵表加载器选项
+ */
+export interface SpriteSheetLoaderOptions {
+  frameDuration?: Fixed; // Duration of frames without one, in seconds, default 0.1
+  loop?: boolean; // Whether animations loop, default true
+}
+
+/**
+ * Frames and animations loaded from a sprite sheet, bound to one texture
+ * 从精灵表加载的帧和动画，绑定到一个纹理
+ */
+export interface SpriteSheet {
+  texture: ITexture;
+  frames: Map<string, AnimationFrame>;
+  animations: Map<string, SpriteAnimation>;
+}
+
+/**
+ * Load a TexturePacker JSON export (hash or array)
+ * 加载TexturePacker JSON导出（哈希或数组）
+ *
+ * Animations come from the `animations` section when present; otherwise frames are grouped by
+ * name with the extension and trailing frame number removed, so `walk_01.png` and
+ * `walk_02.png` form the `walk` animation.
+ * 存在 `animations` 部分时从中获取动画；否则按去除扩展名和末尾帧号后的名称对帧分组，
+ * 因此 `walk_01.png` 和 `walk_02.png` 组成 `walk` 动画。
+ */
+export function loadTexturePackerSheet(
+  data: SpriteSheetData,
+  texture: ITexture,
+  options: SpriteSheetLoaderOptions = {}
+): SpriteSheet {
+  const entries = parseFrames(data, texture, options);
+  const frames = new Map(entries);
+  const loop = options.loop ?? true;
+  const animations = new Map<string, SpriteAnimation>();
+
+  if (data.animations) {
+    for (const [name, frameNames] of Object.entries(data.animations)) {
+      const animationFrames = frameNames.map(frameName => {
+        const frame = frames.get(frameName);
+        if (!frame) {
+          throw new Error(`Animation "${name}" references unknown frame "${frameName}"`);
+        }
+        return frame;
+      });
+      animations.set(name, createSpriteAnimation(name, animationFrames, loop));
+    }
+    return { texture, frames, animations };
+  }
+
+  const groups = new Map<string, Array<{ index: number; frame: AnimationFrame }>>();
+  for (const [frameName, frame] of entries) {
+    const match = /^(.*?)[-_ .]?(\d+)$/.exec(frameName.replace(/\.[^./]+$/, ''));
+    const name = match && match[1] ? match[1] : frameName.replace(/\.[^./]+$/, '');
+    const index = match ? parseInt(match[2], 10) : 0;
+    const group = groups.get(name) || [];
+    group.push({ index, frame });
+    groups.set(name, group);
+  }
+  for (const [name, group] of groups) {
+    group.sort((a, b) => a.index - b.index);
+    const animationFrames = group.map(entry => entry.frame);
+    animations.set(name, createSpriteAnimation(name, animationFrames, loop));
+  }
+
+  return { texture, frames, animations };
+}
+
+/**
+ * Load an Aseprite JSON export (hash or array), using frame tags and their directions as
+ * animations and per-frame durations
+ * 加载Aseprite JSON导出（哈希或数组），以帧标签及其方向作为动画，并使用逐帧时长
+ *
+ * Without frame tags all frames form a single animation named after the sheet image, or
+ * `default`. A finite tag `repeat` count unrolls the frames and disables looping.
+ * 没有帧标签时，所有帧组成一个以精灵表图像命名（或名为 `default`）的动画。
+ * 标签的有限 `repeat` 次数会展开帧并禁用循环。
+ */
+export function loadAsepriteSheet(
+  data: SpriteSheetData,
+  texture: ITexture,
+  options: SpriteSheetLoaderOptions = {}
+): SpriteSheet {
+  const entries = parseFrames(data, texture, options);
+  const frames = new Map(entries);
+  const ordered = entries.map(([, frame]) => frame);
+  const loop = options.loop ?? true;
+  const animations = new Map<string, SpriteAnimation>();
+  const tags = data.meta?.frameTags || [];
+
+  if (tags.length === 0) {
+    const image = data.meta?.image;
+    const name = image ? image.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '') : 'default';
+    animations.set(name, createSpriteAnimation(name, ordered, loop));
+    return { texture, frames, animations };
+  }
+
+  for (const tag of tags) {
+    if (tag.from < 0 || tag.to >= ordered.length || tag.from > tag.to) {
+      throw new Error(`Frame tag "${tag.name}" has an invalid range: ${tag.from}-${tag.to}`);
+    }
+
+    const forward = ordered.slice(tag.from, tag.to + 1);
+    const backward = [...forward].reverse();
+    let cycle: AnimationFrame[];
+    switch (tag.direction || 'forward') {
+      case 'reverse':
+        cycle = backward;
+        break;
+      case 'pingpong':
+        cycle = [...forward, ...backward.slice(1, -1)];
+        break;
+      case 'pingpong_reverse':
+        cycle = [...backward, ...forward.slice(1, -1)];
+        break;
+      default:
+        cycle = forward;
+    }
+
+    const repeat = tag.repeat === undefined ? 0 : Number(tag.repeat);
+    if (repeat > 0) {
+      const unrolled: AnimationFrame[] = [];
+      for (let i = 0; i < repeat; i++) {
+        unrolled.push(...cycle);
+      }
+      animations.set(tag.name, createSpriteAnimation(tag.name, unrolled, false));
+    } else {
+      animations.set(tag.name, createSpriteAnimation(tag.name, cycle, loop));
+    }
+  }
+
+  return { texture, frames, animations };
+}
+
+function createSpriteAnimation(
+  name: string,
+  frames: AnimationFrame[],
+  loop: boolean
+): SpriteAnimation {
+  return { name, frames, loop, playbackSpeed: Fixed.ONE };
+}
+
+// Parse frames in file order, as [name, frame] pairs
+function parseFrames(
+  data: SpriteSheetData,
+  texture: ITexture,
+  options: SpriteSheetLoaderOptions
+): Array<[string, AnimationFrame]> {
+  if (!data || typeof data.frames !== 'object' || data.frames === null) {
+    throw new Error('Sprite sheet data has no frames');
+  }
+
+  const defaultDuration = options.frameDuration || new Fixed(0.1);
+  const entries: Array<[string, SpriteSheetFrameData]> = Array.isArray(data.frames)
+    ? data.frames.map((frame, index) => [frame.filename ?? String(index), frame])
+    : Object.entries(data.frames);
+
+  return entries.map(([name, entry]) => {
+    if (!entry.frame) {
+      throw new Error(`Sprite sheet frame "${name}" has no frame rectangle`);
+    }
+
+    const { x, y, w, h } = entry.frame;
+    const rotated = entry.rotated === true;
+    const frame: AnimationFrame = {
+      texture,
+      sourceRect: new FixedRect(
+        new Fixed(x),
+        new Fixed(y),
+        new Fixed(rotated ? h : w),
+        new Fixed(rotated ? w : h)
+      ),
+      duration: entry.duration !== undefined ? new Fixed(entry.duration / 1000) : defaultDuration
+    };
+
+    if (rotated) {
+      frame.rotated = true;
+    }
+    if (entry.trimmed && entry.spriteSourceSize) {
+      frame.offset = new FixedVector2(
+        new Fixed(entry.spriteSourceSize.x),
+        new Fixed(entry.spriteSourceSize.y)
+      );
+    }
+    const sourceSize = entry.sourceSize;
+    if (sourceSize && (entry.trimmed || sourceSize.w !== w || sourceSize.h !== h)) {
+      frame.sourceSize = new FixedVector2(new Fixed(sourceSize.w), new Fixed(sourceSize.h));
+    }
+    return [name, frame];
+  });
+}
@@ -9,17 +9,53 @@ import {
   IGameRenderer,
   AnimationFrame,
   SpriteAnimation,
+  NineSliceInsets,
   ParticleConfig,
   LightConfig,
+  Occluder,
   PostProcessEffect,
   CameraConfig
 } from '../interfaces/IGameRenderer';
 import {
   Color,
   ITexture,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
   TextureStyle,
-  RenderLayer
+  Transform2D,
+  Matrix2x3,
+  RenderState,
+  RenderLayer,
+  BatchBreakReason,
+  FillRule,
+  Paint
 } from '../types/RenderTypes';
+import { SpriteBatcher, SpriteBatch } from '../batching/SpriteBatcher';
+import { AnimationPlayer } from '../animation/AnimationPlayer';
+import { ParticleSystem, ParticleSystemOptions } from '../particles/ParticleSystem';
+import { LightMap, createLightMap, sampleLighting } from '../lighting/Lighting';
+import { OccluderSegment, getOccluderSegments } from '../lighting/Shadows';
+import {
+  Tilemap,
+  TileChunkEntry,
+  TILE_FLIP_HORIZONTAL,
+  TILE_FLIP_VERTICAL,
+  TILE_FLIP_DIAGONAL
+} from '../tilemap/Tilemap';
+
+/**
+ * Draw queued by deferred rendering together with the state it was issued under
+ * 延迟渲染排队的绘制及其发出时的状态
+ */
+interface DeferredDraw {
+  state: RenderState;
+  matrix: Matrix2x3;
+  transform: Transform2D;
+  sequence: number;
+  batched: boolean;
+  draw: () => void;
+}
 
 /**
  * Abstract base game renderer class
@@ -27,6 +63,8 @@ import {
  */
 export abstract class BaseGameRenderer extends BaseRenderer implements IGameRenderer {
   protected lights = new Map<string, LightConfig>();
+  protected occluders = new Map<string, Occluder>();
+  protected occluderSegments: OccluderSegment[] | null = null;
   protected layers = new Map<string, RenderLayer>();
   protected postProcessEffects = new Map<string, PostProcessEffect>();
   protected camera: CameraConfig = {
@@ -38,6 +76,106 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
   protected lightingEnabled = false;
   protected batchingEnabled = false;
   protected lightIdCounter = 0;
+  protected occluderIdCounter = 0;
+  protected deferredRendering = false;
+  protected deferredDraws: DeferredDraw[] = [];
+  // Last state sent to the backend, which lags currentRenderState while deferring
+  protected appliedRenderState: RenderState = this.currentRenderState;
+  protected spriteBatcher = new SpriteBatcher(batch => this.submitSpriteBatch(batch));
+  protected boundTexture: ITexture | null = null;
+
+  beginFrame(): void {
+    this.boundTexture = null;
+    super.beginFrame();
+  }
+
+  endFrame(): void {
+    this.flushDeferredDraws();
+    this.spriteBatcher.flush();
+    if (this.lightingEnabled) {
+      this.onDrawLightMap(this.getLightMap());
+    }
+    super.endFrame();
+  }
+
+  setRenderState(state: RenderState): void {
+    if (this.deferredRendering) {
+      // Queued draws snapshot the state, which flushDeferredDraws applies to the backend
+      this.currentRenderState = { ...state };
+      return;
+    }
+    this.applyRenderState({ ...state });
+  }
+
+  // ===== Drawing Primitives =====
+  // 绘制原语
+
+  drawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.submitDraw(() => super.drawLine(start, end, style));
+  }
+
+  drawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.submitDraw(() => super.drawCircle(center, radius, style));
+  }
+
+  drawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.submitDraw(() => super.drawRect(bounds, style));
+  }
+
+  drawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.submitDraw(() => super.drawPolygon(vertices, style));
+  }
+
+  drawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.submitDraw(() => super.drawEllipse(bounds, style));
+  }
+
+  fillPath(paint: Paint, fillRule: FillRule = 'nonzero'): void {
+    // The path keeps being built after this call, so deferred draws take a snapshot
+    const path = this.currentPath.clone();
+    this.submitDraw(() => this.fillVectorPath(path, paint, fillRule));
+  }
+
+  strokePath(style: LineStyle): void {
+    const path = this.currentPath.clone();
+    this.submitDraw(() => this.strokeVectorPath(path, style));
+  }
+
+  drawText(text: string, position: FixedVector2, style: TextStyle): void {
+    if (style.bitmapFont) {
+      // Glyphs go through drawTextureRegion, so they are deferred and batched one by one
+      super.drawText(text, position, style);
+      return;
+    }
+    this.submitDraw(() => super.drawText(text, position, style));
+  }
+
+  drawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    if (!this.batchingEnabled) {
+      this.submitDraw(() => super.drawTexture(texture, position, style));
+      return;
+    }
+
+    const width = new Fixed(texture.width);
+    const height = new Fixed(texture.height);
+    const sourceRect = new FixedRect(Fixed.ZERO, Fixed.ZERO, width, height);
+    const destRect = new FixedRect(position.x, position.y, width, height);
+    this.submitDraw(() => this.batchSprite(texture, sourceRect, destRect, style), true);
+  }
+
+  drawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    if (!this.batchingEnabled) {
+      this.submitDraw(() => super.drawTextureRegion(texture, sourceRect, destRect, style));
+      return;
+    }
+
+    this.submitDraw(() => this.batchSprite(texture, sourceRect, destRect, style), true);
+  }
 
   // ===== Sprite and Animation System =====
   // 精灵和动画系统
@@ -47,11 +185,233 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
     position: FixedVector2,
     currentTime: Fixed,
     style?: TextureStyle
+  ): void;
+  drawSprite(player: AnimationPlayer, position: FixedVector2, style?: TextureStyle): void;
+  drawSprite(
+    source: SpriteAnimation | AnimationPlayer,
+    position: FixedVector2,
+    timeOrStyle?: Fixed | TextureStyle,
+    style?: TextureStyle
   ): void {
-    const frame = this.getCurrentAnimationFrame(animation, currentTime);
+    if (source instanceof AnimationPlayer) {
+      const frame = source.getCurrentFrame();
+      if (frame) {
+        this.drawAnimationFrame(frame, position, timeOrStyle as TextureStyle | undefined);
+      }
+      return;
+    }
+
+    const frame = this.getCurrentAnimationFrame(source, timeOrStyle as Fixed);
     if (frame) {
+      this.drawAnimationFrame(frame, position, style);
+    }
+  }
+
+  drawAnimationFrame(frame: AnimationFrame, position: FixedVector2, style?: TextureStyle): void {
+    if (!frame.offset && !frame.sourceSize && !frame.rotated) {
       this.drawSpriteFromAtlas(frame.texture, frame.sourceRect, position, style);
+      return;
+    }
+
+    const width = frame.rotated ? frame.sourceRect.height : frame.sourceRect.width;
+    const height = frame.rotated ? frame.sourceRect.width : frame.sourceRect.height;
+    const sourceSize = frame.sourceSize || new FixedVector2(width, height);
+    const offset = frame.offset || FixedVector2.ZERO;
+    const anchor = style?.anchor || FixedVector2.ZERO;
+
+    // Flipping mirrors the trimmed region within the untrimmed frame as well as the image
+    const offsetX = style?.flipX ? sourceSize.x.subtract(offset.x).subtract(width) : offset.x;
+    const offsetY = style?.flipY ? sourceSize.y.subtract(offset.y).subtract(height) : offset.y;
+    const x = offsetX.subtract(anchor.x.multiply(sourceSize.x));
+    const y = offsetY.subtract(anchor.y.multiply(sourceSize.y));
+
+    const regionStyle: TextureStyle = {
+      ...(style?.tint && { tint: style.tint }),
+      ...(style?.opacity !== undefined && { opacity: style.opacity })
+    };
+
+    this.pushTransform(
+      new Transform2D(position, style?.rotation || Fixed.ZERO, style?.scale || FixedVector2.ONE)
+    );
+    if (frame.rotated) {
+      // Turning the stored region back counter-clockwise about its top-left corner moves it up by
+      // its upright height, and the upright axes swap with the stored ones
+      this.drawTextureRegion(
+        frame.texture,
+        frame.sourceRect,
+        new FixedRect(x, y.add(height), frame.sourceRect.width, frame.sourceRect.height),
+        {
+          ...regionStyle,
+          rotation: new Fixed(-Math.PI / 2),
+          ...(style?.flipY && { flipX: true }),
+          ...(style?.flipX && { flipY: true })
+        }
+      );
+    } else {
+      this.drawTextureRegion(frame.texture, frame.sourceRect, new FixedRect(x, y, width, height), {
+        ...regionStyle,
+        ...(style?.flipX && { flipX: true }),
+        ...(style?.flipY && { flipY: true })
+      });
+    }
+    this.popTransform();
+  }
+
+  drawNineSlice(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    insets: NineSliceInsets,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    const { left, top, right, bottom } = insets;
+    if (
+      left.lessThan(Fixed.ZERO) ||
+      top.lessThan(Fixed.ZERO) ||
+      right.lessThan(Fixed.ZERO) ||
+      bottom.lessThan(Fixed.ZERO) ||
+      left.add(right).greaterThan(sourceRect.width) ||
+      top.add(bottom).greaterThan(sourceRect.height)
+    ) {
+      throw new Error('Nine-slice insets must be non-negative and fit within the source rect');
+    }
+
+    // Pieces are placed between shared edges so neighbours meet exactly at fractional sizes
+    const sourceX = sliceEdges(sourceRect.x, sourceRect.width, left, right);
+    const sourceY = sliceEdges(sourceRect.y, sourceRect.height, top, bottom);
+    const [destLeft, destRight] = fitInsets(left, right, destRect.width);
+    const [destTop, destBottom] = fitInsets(top, bottom, destRect.height);
+    const destX = sliceEdges(Fixed.ZERO, destRect.width, destLeft, destRight);
+    const destY = sliceEdges(Fixed.ZERO, destRect.height, destTop, destBottom);
+
+    this.drawPieces(texture, destRect, style, drawPiece => {
+      for (let row = 0; row < 3; row++) {
+        for (let column = 0; column < 3; column++) {
+          drawPiece(
+            new FixedRect(
+              sourceX[column],
+              sourceY[row],
+              sourceX[column + 1].subtract(sourceX[column]),
+              sourceY[row + 1].subtract(sourceY[row])
+            ),
+            destX[column],
+            destY[row],
+            destX[column + 1],
+            destY[row + 1]
+          );
+        }
+      }
+    });
+  }
+
+  drawTiledTexture(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    tileScale: FixedVector2,
+    offset: FixedVector2,
+    style?: TextureStyle
+  ): void {
+    const tileWidth = sourceRect.width.multiply(tileScale.x);
+    const tileHeight = sourceRect.height.multiply(tileScale.y);
+    if (!tileWidth.greaterThan(Fixed.ZERO) || !tileHeight.greaterThan(Fixed.ZERO)) {
+      throw new Error('Tiled texture requires a positive tile size');
     }
+
+    // First tile edge at or before the left/top of destRect, in destRect-local units
+    const startX = offset.x.subtract(offset.x.divide(tileWidth).floor().multiply(tileWidth));
+    const startY = offset.y.subtract(offset.y.divide(tileHeight).floor().multiply(tileHeight));
+    const firstX = startX.greaterThan(Fixed.ZERO) ? startX.subtract(tileWidth) : startX;
+    const firstY = startY.greaterThan(Fixed.ZERO) ? startY.subtract(tileHeight) : startY;
+
+    this.drawPieces(texture, destRect, style, drawPiece => {
+      for (let row = 0; ; row++) {
+        const tileTop = firstY.add(tileHeight.multiply(new Fixed(row)));
+        if (!tileTop.lessThan(destRect.height)) break;
+        const tileBottom = tileTop.add(tileHeight);
+        const y0 = tileTop.lessThan(Fixed.ZERO) ? Fixed.ZERO : tileTop;
+        const y1 = tileBottom.greaterThan(destRect.height) ? destRect.height : tileBottom;
+
+        for (let column = 0; ; column++) {
+          const tileLeft = firstX.add(tileWidth.multiply(new Fixed(column)));
+          if (!tileLeft.lessThan(destRect.width)) break;
+          const tileRight = tileLeft.add(tileWidth);
+          const x0 = tileLeft.lessThan(Fixed.ZERO) ? Fixed.ZERO : tileLeft;
+          const x1 = tileRight.greaterThan(destRect.width) ? destRect.width : tileRight;
+
+          // Partial tiles sample the matching part of the source
+          const u0 = x0.subtract(tileLeft).divide(tileScale.x);
+          const u1 = x1.subtract(tileLeft).divide(tileScale.x);
+          const v0 = y0.subtract(tileTop).divide(tileScale.y);
+          const v1 = y1.subtract(tileTop).divide(tileScale.y);
+          drawPiece(
+            new FixedRect(
+              sourceRect.x.add(u0),
+              sourceRect.y.add(v0),
+              u1.subtract(u0),
+              v1.subtract(v0)
+            ),
+            x0,
+            y0,
+            x1,
+            y1
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Draw texture pieces laid out in destRect-local space, applying the style's anchor,
+   * rotation and scale to the whole; flips mirror the layout as well as each piece
+   * 绘制在destRect局部空间中布局的纹理片段，将样式的锚点、旋转和缩放应用于整体；翻转同时镜像布局和每个片段
+   */
+  protected drawPieces(
+    texture: ITexture,
+    destRect: FixedRect,
+    style: TextureStyle | undefined,
+    layout: (
+      drawPiece: (sourceRect: FixedRect, x0: Fixed, y0: Fixed, x1: Fixed, y1: Fixed) => void
+    ) => void
+  ): void {
+    const anchor = style?.anchor || FixedVector2.ZERO;
+    const originX = anchor.x.multiply(destRect.width);
+    const originY = anchor.y.multiply(destRect.height);
+    const pieceStyle: TextureStyle = {
+      ...(style?.tint && { tint: style.tint }),
+      ...(style?.opacity !== undefined && { opacity: style.opacity }),
+      ...(style?.flipX && { flipX: true }),
+      ...(style?.flipY && { flipY: true })
+    };
+
+    this.pushTransform(
+      new Transform2D(
+        new FixedVector2(destRect.x, destRect.y),
+        style?.rotation || Fixed.ZERO,
+        style?.scale || FixedVector2.ONE
+      )
+    );
+    layout((sourceRect, x0, y0, x1, y1) => {
+      if (!x1.greaterThan(x0) || !y1.greaterThan(y0)) return;
+      if (!sourceRect.width.greaterThan(Fixed.ZERO) || !sourceRect.height.greaterThan(Fixed.ZERO)) {
+        return;
+      }
+
+      const left = style?.flipX ? destRect.width.subtract(x1) : x0;
+      const top = style?.flipY ? destRect.height.subtract(y1) : y0;
+      this.drawTextureRegion(
+        texture,
+        sourceRect,
+        new FixedRect(
+          left.subtract(originX),
+          top.subtract(originY),
+          x1.subtract(x0),
+          y1.subtract(y0)
+        ),
+        pieceStyle
+      );
+    });
+    this.popTransform();
   }
 
   drawSpriteFromAtlas(
@@ -69,6 +429,63 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
     this.drawTextureRegion(texture, sourceRect, destRect, style);
   }
 
+  drawTilemap(tilemap: Tilemap, position: FixedVector2 = FixedVector2.ZERO): void {
+    for (const layer of tilemap.layers) {
+      if (layer.type !== 'tile' || !layer.visible || layer.opacity <= 0) continue;
+
+      this.pushTransform(new Transform2D(position.add(layer.offset), Fixed.ZERO, FixedVector2.ONE));
+      if (!this.currentMatrix.determinant().equals(Fixed.ZERO)) {
+        const localView = this.currentMatrix.invert().transformBounds(this.getViewBounds());
+        for (const chunk of tilemap.getChunksInRect(layer, localView)) {
+          // Chunks only narrow the search; tiles of a visible chunk may still be off screen
+          for (const entry of chunk.entries) {
+            if (entry.bounds.intersects(localView)) {
+              this.drawTile(tilemap, entry, layer.opacity);
+            }
+          }
+        }
+      }
+      this.popTransform();
+    }
+  }
+
+  /**
+   * Draw one cached tile, turning flip flags into texture flips and a quarter turn
+   * 绘制一个缓存图块，将翻转标志转换为纹理翻转和四分之一旋转
+   */
+  protected drawTile(tilemap: Tilemap, entry: TileChunkEntry, opacity: number): void {
+    const sourceRect = entry.animated ? tilemap.getTileSourceRect(entry.gid) : entry.sourceRect;
+    if (!sourceRect) return;
+
+    const flipHorizontal = (entry.gid & TILE_FLIP_HORIZONTAL) !== 0;
+    const flipVertical = (entry.gid & TILE_FLIP_VERTICAL) !== 0;
+    const { destRect } = entry;
+    const style: TextureStyle = opacity < 1 ? { opacity } : {};
+
+    if ((entry.gid & TILE_FLIP_DIAGONAL) === 0) {
+      this.drawTextureRegion(entry.tileset.texture, sourceRect, destRect, {
+        ...style,
+        ...(flipHorizontal && { flipX: true }),
+        ...(flipVertical && { flipY: true })
+      });
+      return;
+    }
+
+    // Swapping axes is a horizontal flip followed by a quarter turn counter-clockwise about the
+    // bottom-left corner; Tiled applies the horizontal and vertical flags after the swap
+    this.drawTextureRegion(
+      entry.tileset.texture,
+      sourceRect,
+      new FixedRect(destRect.x, destRect.y.add(destRect.height), destRect.width, destRect.height),
+      {
+        ...style,
+        rotation: new Fixed(-Math.PI / 2),
+        ...(!flipVertical && { flipX: true }),
+        ...(flipHorizontal && { flipY: true })
+      }
+    );
+  }
+
   createAnimation(
     name: string,
     texture: ITexture,
@@ -124,20 +541,21 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
   // ===== Particle System =====
   // 粒子系统
 
-  createParticleSystem(config: ParticleConfig): unknown {
-    return this.onCreateParticleSystem(config);
+  createParticleSystem(config: ParticleConfig, options?: ParticleSystemOptions): ParticleSystem {
+    return new ParticleSystem(config, options);
   }
 
-  updateParticleSystem(system: unknown, deltaTime: Fixed): void {
-    this.onUpdateParticleSystem(system, deltaTime);
+  updateParticleSystem(system: ParticleSystem, deltaTime: Fixed): void {
+    system.update(deltaTime);
   }
 
-  drawParticleSystem(system: unknown): void {
-    this.onDrawParticleSystem(system);
+  drawParticleSystem(system: ParticleSystem): void {
+    // Particles go through drawTexture, so they are culled, batched and recorded like sprites
+    system.draw(this);
   }
 
-  destroyParticleSystem(system: unknown): void {
-    this.onDestroyParticleSystem(system);
+  destroyParticleSystem(system: ParticleSystem): void {
+    system.clear();
   }
 
   // ===== Lighting System =====
@@ -176,6 +594,69 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
     this.onLightingEnabledChanged(enabled);
   }
 
+  addOccluder(occluder: Occluder): string {
+    const id = `occluder_${this.occluderIdCounter++}`;
+    this.occluders.set(id, occluder);
+    this.occluderSegments = null;
+    return id;
+  }
+
+  removeOccluder(occluderId: string): void {
+    if (this.occluders.delete(occluderId)) {
+      this.occluderSegments = null;
+    }
+  }
+
+  updateOccluder(occluderId: string, occluder: Occluder): void {
+    if (this.occluders.has(occluderId)) {
+      this.occluders.set(occluderId, occluder);
+      this.occluderSegments = null;
+    }
+  }
+
+  clearOccluders(): void {
+    this.occluders.clear();
+    this.occluderSegments = null;
+  }
+
+  sampleLight(worldPos: FixedVector2): Color {
+    return sampleLighting(
+      this.lights.values(),
+      this.ambientLight,
+      worldPos,
+      this.getOccluderSegments()
+    );
+  }
+
+  getLightMap(): LightMap {
+    return createLightMap(
+      this.lights,
+      this.ambientLight,
+      this.getViewBounds(),
+      this.getOccluderSegments()
+    );
+  }
+
+  /**
+   * Edges of all occluders, rebuilt after occluders change
+   * 所有遮挡体的边，在遮挡体变化后重新构建
+   */
+  protected getOccluderSegments(): OccluderSegment[] {
+    if (!this.occluderSegments) {
+      const segments: OccluderSegment[] = [];
+      this.occluders.forEach(occluder => segments.push(...getOccluderSegments(occluder)));
+      this.occluderSegments = segments;
+    }
+    return this.occluderSegments;
+  }
+
+  /**
+   * Render the light map over the finished frame; backends that can composite it override
+   * this, the default leaves the frame unlit
+   * 将光照贴图渲染到完成的帧上；能够合成光照的后端重写此方法，默认实现不对帧进行光照
+   */
+  protected onDrawLightMap(_lightMap: LightMap): void {}
+
   // ===== Layer Management =====
   // 层管理
 
@@ -217,6 +698,114 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
     return Array.from(this.layers.values()).sort((a, b) => a.depth - b.depth);
   }
 
+  // ===== Deferred Rendering =====
+  // 延迟渲染
+
+  setDeferredRendering(enabled: boolean): void {
+    if (!enabled) {
+      this.flushDeferredDraws();
+    }
+    this.deferredRendering = enabled;
+    if (!enabled && this.appliedRenderState !== this.currentRenderState) {
+      this.applyRenderState(this.currentRenderState);
+    }
+  }
+
+  isDeferredRendering(): boolean {
+    return this.deferredRendering;
+  }
+
+  flushDeferredDraws(): void {
+    if (this.deferredDraws.length === 0) return;
+
+    const queue = this.deferredDraws;
+    this.deferredDraws = [];
+
+    // Layers are resolved at flush time so depth and visibility changes made mid-frame apply
+    const entries = queue
+      .map(draw => ({ draw, layer: this.resolveLayer(draw.state) }))
+      .filter(entry => !entry.layer || entry.layer.visible);
+    entries.sort(
+      (a, b) =>
+        (a.layer ? a.layer.depth : 0) - (b.layer ? b.layer.depth : 0) ||
+        (a.draw.state.sortKey || 0) - (b.draw.state.sortKey || 0) ||
+        a.draw.sequence - b.draw.sequence
+    );
+
+    const savedState = this.currentRenderState;
+    const savedMatrix = this.currentMatrix;
+    const savedTransform = this.currentTransform;
+
+    for (const { draw } of entries) {
+      if (draw.state !== this.appliedRenderState) {
+        this.applyRenderState(draw.state);
+      }
+      this.setDrawTransform(draw.matrix, draw.transform);
+      this.executeDraw(draw.draw, draw.batched);
+    }
+
+    // Batches end under the last draw's state, which the backend keeps until the next flush
+    // or until deferring is turned off
+    this.spriteBatcher.flush();
+    this.currentRenderState = savedState;
+    this.setDrawTransform(savedMatrix, savedTransform);
+  }
+
+  /**
+   * Run a draw now, or queue it with a snapshot of the current state and transform
+   * 立即执行绘制，或连同当前状态和变换的快照一起排队
+   */
+  protected submitDraw(draw: () => void, batched: boolean = false): void {
+    if (!this.deferredRendering) {
+      this.executeDraw(draw, batched);
+      return;
+    }
+
+    // State and matrix objects are replaced rather than mutated, so references are snapshots
+    this.deferredDraws.push({
+      state: this.currentRenderState,
+      matrix: this.currentMatrix,
+      transform: this.currentTransform,
+      sequence: this.deferredDraws.length,
+      batched,
+      draw
+    });
+  }
+
+  /**
+   * Make a state snapshot current and send it to the backend, breaking the sprite batch when
+   * the change requires it
+   * 将状态快照设为当前状态并发送到后端，在状态变化需要时打断精灵批次
+   */
+  protected applyRenderState(state: RenderState): void {
+    const reason = this.spriteBatcher.getStateChangeReason(state);
+    if (reason) {
+      this.breakSpriteBatch(reason);
+    }
+    this.currentRenderState = state;
+    this.appliedRenderState = state;
+    this.onSetRenderState(state);
+  }
+
+  protected executeDraw(draw: () => void, batched: boolean): void {
+    if (!batched) {
+      this.breakSpriteBatch('primitive');
+    }
+    draw();
+  }
+
+  protected setDrawTransform(matrix: Matrix2x3, transform: Transform2D): void {
+    if (matrix === this.currentMatrix) return;
+    this.currentMatrix = matrix;
+    this.currentTransform = transform;
+    this.applyTransform(transform);
+  }
+
+  protected resolveLayer(state: RenderState): RenderLayer | undefined {
+    if (!state.layer) return undefined;
+    return this.layers.get(state.layer.id) || state.layer;
+  }
+
   // ===== Camera System =====
   // 相机系统
 
@@ -339,13 +928,86 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
 
   endBatch(): void {
     this.batchingEnabled = false;
+    this.spriteBatcher.flush();
     this.onEndBatch();
   }
 
   flushBatch(): void {
+    this.breakSpriteBatch('flush');
     this.onFlushBatch();
   }
 
+  /**
+   * Add a textured quad to the pending sprite batch, emitting the batch first if incompatible
+   * 将纹理四边形加入待处理精灵批次，不兼容时先输出该批次
+   */
+  protected batchSprite(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    const origin = new FixedVector2(destRect.x, destRect.y);
+    const bounds = this.getTextureBounds(origin, destRect.width, destRect.height, style);
+    if (this.cullDraw(bounds)) return;
+
+    const reason = this.spriteBatcher.getBreakReason(texture, this.currentRenderState);
+    if (reason) {
+      this.breakSpriteBatch(reason);
+    }
+    this.spriteBatcher.add(
+      texture,
+      sourceRect,
+      destRect,
+      style,
+      this.currentRenderState,
+      this.currentMatrix,
+      this.currentTransform
+    );
+  }
+
+  protected breakSpriteBatch(reason: BatchBreakReason): void {
+    if (this.spriteBatcher.isEmpty()) return;
+    this.statistics.batchBreaks[reason]++;
+    this.spriteBatcher.flush();
+  }
+
+  protected submitSpriteBatch(batch: SpriteBatch): void {
+    this.incrementDrawCall();
+    if (batch.texture !== this.boundTexture) {
+      this.incrementTextureBinding();
+      this.boundTexture = batch.texture;
+    }
+    this.statistics.vertices += batch.quadCount * 4;
+    this.statistics.triangles += batch.quadCount * 2;
+    this.onDrawSpriteBatch(batch);
+  }
+
+  /**
+   * Draw a sprite batch; GPU backends override this to upload the vertices and indices, the
+   * default draws the sprites one by one through onDrawTextureRegion
+   * 绘制精灵批次；GPU后端重写此方法以上传顶点和索引，默认实现通过onDrawTextureRegion逐个绘制精灵
+   */
+  protected onDrawSpriteBatch(batch: SpriteBatch): void {
+    const savedMatrix = this.currentMatrix;
+    const savedTransform = this.currentTransform;
+    let appliedState = this.currentRenderState;
+
+    for (const sprite of batch.sprites) {
+      if (sprite.state !== appliedState) {
+        this.onSetRenderState(sprite.state);
+        appliedState = sprite.state;
+      }
+      this.setDrawTransform(sprite.matrix, sprite.transform);
+      this.onDrawTextureRegion(batch.texture, sprite.sourceRect, sprite.destRect, sprite.style);
+    }
+
+    if (appliedState !== this.currentRenderState) {
+      this.onSetRenderState(this.currentRenderState);
+    }
+    this.setDrawTransform(savedMatrix, savedTransform);
+  }
+
   // ===== Advanced Features =====
   // 高级功能
 
@@ -354,6 +1016,9 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
   }
 
   setRenderTexture(texture: ITexture | null): void {
+    // Queued draws and batches belong to the previous target
+    this.flushDeferredDraws();
+    this.spriteBatcher.flush();
     this.setRenderTarget(texture);
   }
 
@@ -364,10 +1029,6 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
   // ===== Abstract Methods for Subclasses =====
   // 子类的抽象方法
 
-  protected abstract onCreateParticleSystem(config: ParticleConfig): unknown;
-  protected abstract onUpdateParticleSystem(system: unknown, deltaTime: Fixed): void;
-  protected abstract onDrawParticleSystem(system: unknown): void;
-  protected abstract onDestroyParticleSystem(system: unknown): void;
   protected abstract onLightAdded(id: string, light: LightConfig): void;
   protected abstract onLightRemoved(id: string): void;
   protected abstract onLightUpdated(id: string, light: LightConfig): void;
@@ -388,3 +1049,18 @@ export abstract class BaseGameRenderer extends BaseRenderer implements IGameRend
   protected abstract onCreateRenderTexture(width: number, height: number): ITexture;
   protected abstract onCaptureFrame(): ITexture;
 }
+
+// Edges of a three-part slice along one axis: start, start + near, end - far, end
+function sliceEdges(start: Fixed, size: Fixed, near: Fixed, far: Fixed): Fixed[] {
+  const end = start.add(size);
+  return [start, start.add(near), end.subtract(far), end];
+}
+
+// Shrink a pair of insets proportionally when they do not fit in the destination size
+function fitInsets(near: Fixed, far: Fixed, size: Fixed): [Fixed, Fixed] {
+  const total = near.add(far);
+  if (!total.greaterThan(size)) return [near, far];
+
+  const fittedNear = near.multiply(size).divide(total);
+  return [fittedNear, size.subtract(fittedNear)];
+}
@@ -11,14 +11,32 @@ import {
   LineStyle,
   ShapeStyle,
   TextStyle,
+  TextBlockStyle,
   TextureStyle,
   Transform2D,
+  Matrix2x3,
   ITexture,
   RenderStatistics,
   Viewport,
   RenderState,
-  BlendMode
+  BlendMode,
+  FillRule,
+  StrokeUnit,
+  Paint,
+  boundsOfPoints
 } from '../types/RenderTypes';
+import { BitmapFont } from '../text/BitmapFont';
+import { VectorPath } from '../path/VectorPath';
+import { flattenPath, DEFAULT_PATH_TOLERANCE } from '../path/PathFlattener';
+import {
+  TriangleMesh,
+  groupContours,
+  triangulateContours,
+  getEllipseSegmentCount
+} from '../path/Tessellation';
+import { strokePolyline, getStrokeOptions } from '../path/Stroker';
+import { isGradient, getShapeFillPaint, toLocalGradient } from '../paint/Gradient';
+import { layoutTextBlock, TextBlockLayout } from '../text/TextLayout';
 
 /**
  * Abstract base renderer class implementing common functionality
@@ -27,20 +45,18 @@ import {
 export abstract class BaseRenderer implements IRenderer {
   protected transformStack: Transform2D[] = [];
   protected currentTransform: Transform2D = Transform2D.identity();
+  protected matrixStack: Matrix2x3[] = [];
+  protected currentMatrix: Matrix2x3 = Matrix2x3.identity();
   protected renderStateStack: RenderState[] = [];
   protected currentRenderState: RenderState = {
     blendMode: BlendMode.Normal,
     opacity: 1.0
   };
-  protected statistics: RenderStatistics = {
-    drawCalls: 0,
-    triangles: 0,
-    vertices: 0,
-    textureBinds: 0,
-    frameTime: 0
-  };
+  protected statistics: RenderStatistics = createEmptyStatistics();
+  protected cullingEnabled = false;
   protected viewport: Viewport = { x: 0, y: 0, width: 800, height: 600 };
   protected frameStartTime: number = 0;
+  protected currentPath = new VectorPath();
 
   // ===== Lifecycle Management =====
   // 生命周期管理
@@ -71,14 +87,19 @@ export abstract class BaseRenderer implements IRenderer {
 
   pushTransform(transform: Transform2D): void {
     this.transformStack.push(this.currentTransform);
-    this.currentTransform = this.currentTransform.multiply(transform);
+    this.matrixStack.push(this.currentMatrix);
+    // Compose matrices so nested transforms keep full precision instead of re-decomposing
+    this.currentMatrix = this.currentMatrix.multiply(transform.toMatrix());
+    this.currentTransform = this.currentMatrix.decompose();
     this.applyTransform(this.currentTransform);
   }
 
   popTransform(): void {
     const previous = this.transformStack.pop();
-    if (previous) {
+    const previousMatrix = this.matrixStack.pop();
+    if (previous && previousMatrix) {
       this.currentTransform = previous;
+      this.currentMatrix = previousMatrix;
       this.applyTransform(this.currentTransform);
     }
   }
@@ -87,54 +108,174 @@ export abstract class BaseRenderer implements IRenderer {
     return this.currentTransform;
   }
 
+  /**
+   * Get the current combined transform as an affine matrix
+   * 以仿射矩阵形式获取当前组合变换
+   */
+  getCurrentMatrix(): Matrix2x3 {
+    return this.currentMatrix;
+  }
+
   // ===== Basic Drawing Primitives =====
   // 基础绘制原语
 
   drawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    const padding = this.getScreenStrokeWidth(style.thickness, style.strokeUnit);
+    if (this.cullDraw(boundsOfPoints([start, end]), padding)) return;
     this.incrementDrawCall();
+    this.addGeometry(4, 2);
     this.onDrawLine(start, end, style);
   }
 
-  drawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+  drawCircle(center: FixedVector2, radius: Fixed, shapeStyle: ShapeStyle): void {
+    const style = this.resolveShapeStyle(shapeStyle);
+    const diameter = radius.multiply(Fixed.TWO);
+    const bounds = new FixedRect(
+      center.x.subtract(radius),
+      center.y.subtract(radius),
+      diameter,
+      diameter
+    );
+    if (this.cullDraw(bounds, this.getStrokeThickness(style))) return;
     this.incrementDrawCall();
+    this.addShapeGeometry(getEllipseSegmentCount(radius.toNumber() * this.getPixelScale()), style);
     this.onDrawCircle(center, radius, style);
   }
 
-  drawRect(bounds: FixedRect, style: ShapeStyle): void {
+  drawRect(bounds: FixedRect, shapeStyle: ShapeStyle): void {
+    const style = this.resolveShapeStyle(shapeStyle);
+    if (this.cullDraw(bounds, this.getStrokeThickness(style))) return;
     this.incrementDrawCall();
+    this.addShapeGeometry(4, style);
     this.onDrawRect(bounds, style);
   }
 
-  drawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+  drawPolygon(vertices: FixedVector2[], shapeStyle: ShapeStyle): void {
+    const style = this.resolveShapeStyle(shapeStyle);
+    if (this.cullDraw(boundsOfPoints(vertices), this.getStrokeThickness(style))) return;
     this.incrementDrawCall();
-    this.statistics.vertices += vertices.length;
-    this.statistics.triangles += Math.max(0, vertices.length - 2);
+    this.addShapeGeometry(vertices.length, style);
     this.onDrawPolygon(vertices, style);
   }
 
-  drawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+  drawEllipse(bounds: FixedRect, shapeStyle: ShapeStyle): void {
+    const style = this.resolveShapeStyle(shapeStyle);
+    if (this.cullDraw(bounds, this.getStrokeThickness(style))) return;
     this.incrementDrawCall();
+    const radius = Math.max(bounds.width.toNumber(), bounds.height.toNumber()) / 2;
+    this.addShapeGeometry(getEllipseSegmentCount(radius * this.getPixelScale()), style);
     this.onDrawEllipse(bounds, style);
   }
 
+  // ===== Path Drawing =====
+  // 路径绘制
+
+  beginPath(): void {
+    this.currentPath = new VectorPath();
+  }
+
+  moveTo(point: FixedVector2): void {
+    this.currentPath.moveTo(point);
+  }
+
+  lineTo(point: FixedVector2): void {
+    this.currentPath.lineTo(point);
+  }
+
+  quadraticCurveTo(control: FixedVector2, point: FixedVector2): void {
+    this.currentPath.quadraticCurveTo(control, point);
+  }
+
+  bezierCurveTo(control1: FixedVector2, control2: FixedVector2, point: FixedVector2): void {
+    this.currentPath.bezierCurveTo(control1, control2, point);
+  }
+
+  arc(
+    center: FixedVector2,
+    radius: Fixed,
+    startAngle: Fixed,
+    endAngle: Fixed,
+    counterclockwise = false
+  ): void {
+    this.currentPath.arc(center, radius, startAngle, endAngle, counterclockwise);
+  }
+
+  arcTo(point1: FixedVector2, point2: FixedVector2, radius: Fixed): void {
+    this.currentPath.arcTo(point1, point2, radius);
+  }
+
+  closePath(): void {
+    this.currentPath.closePath();
+  }
+
+  fillPath(paint: Paint, fillRule: FillRule = 'nonzero'): void {
+    this.fillVectorPath(this.currentPath, paint, fillRule);
+  }
+
+  strokePath(style: LineStyle): void {
+    this.strokeVectorPath(this.currentPath, style);
+  }
+
   // ===== Text Rendering =====
   // 文本渲染
 
   drawText(text: string, position: FixedVector2, style: TextStyle): void {
+    if (style.bitmapFont) {
+      this.drawBitmapText(text, position, style, style.bitmapFont);
+      return;
+    }
     this.incrementDrawCall();
+    // One quad per visible glyph
+    let glyphs = 0;
+    for (const char of text) {
+      if (!/\s/.test(char)) glyphs++;
+    }
+    this.addGeometry(glyphs * 4, glyphs * 2);
     this.onDrawText(text, position, style);
   }
 
   measureText(text: string, style: TextStyle): FixedVector2 {
+    if (style.bitmapFont) {
+      return style.bitmapFont.measureText(text, style.fontSize);
+    }
     return this.onMeasureText(text, style);
   }
 
+  drawTextBlock(text: string, position: FixedVector2, style: TextBlockStyle): void {
+    const layout = this.layoutTextBlock(text, style);
+    for (const line of layout.lines) {
+      for (const run of line.runs) {
+        const origin = new FixedVector2(position.x.add(run.x), position.y.add(run.y));
+        this.drawText(run.text, origin, run.style);
+      }
+    }
+  }
+
+  measureTextBlock(text: string, style: TextBlockStyle): FixedVector2 {
+    const layout = this.layoutTextBlock(text, style);
+    return new FixedVector2(layout.width, layout.height);
+  }
+
+  /**
+   * Lay out a text block using this renderer's text measurement
+   * 使用此渲染器的文本测量布局文本块
+   */
+  layoutTextBlock(text: string, style: TextBlockStyle): TextBlockLayout {
+    const measure = (runText: string, runStyle: TextStyle): Fixed =>
+      this.measureText(runText, runStyle).x;
+    return layoutTextBlock(text, style, measure);
+  }
+
   // ===== Texture Rendering =====
   // 纹理渲染
 
   drawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    const width = new Fixed(texture.width);
+    const height = new Fixed(texture.height);
+    if (this.cullDraw(this.getTextureBounds(position, width, height, style))) return;
     this.incrementDrawCall();
     this.incrementTextureBinding();
+    this.addGeometry(4, 2);
     this.onDrawTexture(texture, position, style);
   }
 
@@ -144,8 +285,12 @@ export abstract class BaseRenderer implements IRenderer {
     destRect: FixedRect,
     style?: TextureStyle
   ): void {
+    const origin = new FixedVector2(destRect.x, destRect.y);
+    const bounds = this.getTextureBounds(origin, destRect.width, destRect.height, style);
+    if (this.cullDraw(bounds)) return;
     this.incrementDrawCall();
     this.incrementTextureBinding();
+    this.addGeometry(4, 2);
     this.onDrawTextureRegion(texture, sourceRect, destRect, style);
   }
 
@@ -194,17 +339,22 @@ export abstract class BaseRenderer implements IRenderer {
   // 统计信息
 
   getStatistics(): RenderStatistics {
-    return { ...this.statistics };
+    return { ...this.statistics, batchBreaks: { ...this.statistics.batchBreaks } };
   }
 
   resetStatistics(): void {
-    this.statistics = {
-      drawCalls: 0,
-      triangles: 0,
-      vertices: 0,
-      textureBinds: 0,
-      frameTime: 0
-    };
+    this.statistics = createEmptyStatistics();
+  }
+
+  // ===== Culling =====
+  // 剔除
+
+  setCullingEnabled(enabled: boolean): void {
+    this.cullingEnabled = enabled;
+  }
+
+  isCullingEnabled(): boolean {
+    return this.cullingEnabled;
   }
 
   // ===== Utility Methods =====
@@ -234,23 +384,221 @@ export abstract class BaseRenderer implements IRenderer {
     this.statistics.textureBinds++;
   }
 
-  protected transformPoint(point: FixedVector2): FixedVector2 {
-    return this.currentTransform.transformPoint(point);
+  protected addGeometry(vertices: number, triangles: number): void {
+    this.statistics.vertices += vertices;
+    this.statistics.triangles += triangles;
+  }
+
+  /**
+   * Count a shape outline of the given vertex count: the fill as the ear-clipped polygon and
+   * the stroke as one quad per edge sharing its corner vertices
+   * 统计给定顶点数的形状轮廓：填充按耳切多边形计，描边按每边一个共享角顶点的四边形计
+   */
+  protected addShapeGeometry(vertexCount: number, style: ShapeStyle): void {
+    if (getShapeFillPaint(style) && vertexCount >= 3) {
+      this.addGeometry(vertexCount, vertexCount - 2);
+    }
+    if (style.strokeColor && vertexCount >= 2) {
+      this.addGeometry(vertexCount * 2, vertexCount * 2);
+    }
+  }
+
+  /**
+   * Draw text as bitmap font glyphs; the baseline refers to the first line for 'alphabetic' and
+   * to the whole block for 'top', 'middle' and 'bottom'
+   * 以位图字体字形绘制文本；'alphabetic' 基线指第一行，'top'、'middle'、'bottom' 指整个文本块
+   */
+  protected drawBitmapText(
+    text: string,
+    position: FixedVector2,
+    style: TextStyle,
+    font: BitmapFont
+  ): void {
+    const layout = font.layoutText(text, style.fontSize, style.textAlign);
+    let offsetY: Fixed;
+    switch (style.textBaseline || 'alphabetic') {
+      case 'top':
+        offsetY = Fixed.ZERO;
+        break;
+      case 'middle':
+        offsetY = layout.height.divide(Fixed.TWO).negate();
+        break;
+      case 'bottom':
+        offsetY = layout.height.negate();
+        break;
+      default:
+        offsetY = font.getBaseline(style.fontSize).negate();
+    }
+
+    const glyphStyle: TextureStyle = { tint: style.color };
+    for (const placement of layout.glyphs) {
+      const { destRect } = placement;
+      this.drawTextureRegion(
+        placement.texture,
+        placement.sourceRect,
+        new FixedRect(
+          position.x.add(destRect.x),
+          position.y.add(offsetY).add(destRect.y),
+          destRect.width,
+          destRect.height
+        ),
+        glyphStyle
+      );
+    }
+  }
+
+  protected fillVectorPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    if (path.isEmpty() || this.cullDraw(path.getBounds())) return;
+    this.incrementDrawCall();
+    // Ear clipping yields n + 2h - 2 triangles for each region of n vertices and h holes
+    for (const group of groupContours(flattenPath(path, this.getPathTolerance()), fillRule)) {
+      const vertexCount = group.holes.reduce((sum, hole) => sum + hole.length, group.outer.length);
+      this.addGeometry(vertexCount, vertexCount + group.holes.length * 2 - 2);
+    }
+    this.onFillPath(path, this.resolvePaint(paint), fillRule);
   }
 
-  protected getViewBounds(): FixedRect {
-    // Convert viewport to world coordinates
-    const topLeft = this.screenToWorld(new FixedVector2(this.viewport.x, this.viewport.y));
-    const bottomRight = this.screenToWorld(
-      new FixedVector2(this.viewport.x + this.viewport.width, this.viewport.y + this.viewport.height)
+  protected strokeVectorPath(path: VectorPath, style: LineStyle): void {
+    const padding = this.getScreenStrokeWidth(style.thickness, style.strokeUnit);
+    if (path.isEmpty() || this.cullDraw(path.getBounds(), padding)) return;
+    this.incrementDrawCall();
+    for (const contour of flattenPath(path, this.getPathTolerance())) {
+      const count = contour.points.length;
+      this.addGeometry(count * 2, (contour.closed ? count : count - 1) * 2);
+    }
+    this.onStrokePath(path, style);
+  }
+
+  /**
+   * Path flattening tolerance in local units, DEFAULT_PATH_TOLERANCE pixels at the current zoom
+   * 以局部单位表示的路径展平容差，即当前缩放下DEFAULT_PATH_TOLERANCE个像素
+   */
+  protected getPathTolerance(): Fixed {
+    const tolerance = DEFAULT_PATH_TOLERANCE / this.getPixelScale();
+    return new Fixed(Number.isFinite(tolerance) ? tolerance : DEFAULT_PATH_TOLERANCE);
+  }
+
+  /**
+   * Screen pixels per local unit at the current transform and zoom
+   * 当前变换和缩放下每个局部单位对应的屏幕像素数
+   */
+  protected getPixelScale(): number {
+    const origin = this.screenToWorld(FixedVector2.ZERO);
+    const unitX = this.screenToWorld(new FixedVector2(Fixed.ONE, Fixed.ZERO)).subtract(origin);
+    const unitY = this.screenToWorld(new FixedVector2(Fixed.ZERO, Fixed.ONE)).subtract(origin);
+    const worldPerPixel = Math.max(
+      Math.hypot(unitX.x.toNumber(), unitX.y.toNumber()),
+      Math.hypot(unitY.x.toNumber(), unitY.y.toNumber())
+    );
+
+    const { a, b, c, d } = this.currentMatrix;
+    const localScale = Math.sqrt(
+      Math.abs(a.toNumber() * d.toNumber() - b.toNumber() * c.toNumber())
     );
-    
-    return new FixedRect(
-      topLeft.x,
-      topLeft.y,
-      bottomRight.x.subtract(topLeft.x),
-      bottomRight.y.subtract(topLeft.y)
+    const scale = (localScale || 1) / worldPerPixel;
+    return Number.isFinite(scale) && scale > 0 ? scale : 1;
+  }
+
+  protected transformPoint(point: FixedVector2): FixedVector2 {
+    return this.currentMatrix.transformPoint(point);
+  }
+
+  protected transformVector(vector: FixedVector2): FixedVector2 {
+    return this.currentMatrix.transformVector(vector);
+  }
+
+  protected getViewBounds(screenPadding: Fixed = Fixed.ZERO): FixedRect {
+    // Convert all four viewport corners to world coordinates so a rotated camera is covered
+    const left = new Fixed(this.viewport.x).subtract(screenPadding);
+    const top = new Fixed(this.viewport.y).subtract(screenPadding);
+    const right = new Fixed(this.viewport.x + this.viewport.width).add(screenPadding);
+    const bottom = new Fixed(this.viewport.y + this.viewport.height).add(screenPadding);
+
+    return boundsOfPoints([
+      this.screenToWorld(new FixedVector2(left, top)),
+      this.screenToWorld(new FixedVector2(right, top)),
+      this.screenToWorld(new FixedVector2(right, bottom)),
+      this.screenToWorld(new FixedVector2(left, bottom))
+    ]);
+  }
+
+  /**
+   * Skip a draw whose local bounds are outside the view when culling is enabled
+   * 启用剔除时跳过局部包围盒位于视图之外的绘制
+   *
+   * Strokes are in screen pixels, so half the stroke thickness pads the view instead of the bounds.
+   * 描边以屏幕像素为单位，因此用描边粗细的一半扩展视图而非包围盒。
+   */
+  protected cullDraw(localBounds: FixedRect, strokeThickness: Fixed = Fixed.ZERO): boolean {
+    if (!this.cullingEnabled) return false;
+
+    const worldBounds = this.currentMatrix.transformBounds(localBounds);
+    const viewBounds = this.getViewBounds(strokeThickness.divide(Fixed.TWO));
+    if (boundsOverlap(worldBounds, viewBounds)) return false;
+
+    this.statistics.culledDrawCalls++;
+    return true;
+  }
+
+  /**
+   * Local bounds of a texture quad drawn at origin with the given size and style
+   * 以给定尺寸和样式在原点绘制的纹理四边形的局部包围盒
+   */
+  protected getTextureBounds(
+    origin: FixedVector2,
+    width: Fixed,
+    height: Fixed,
+    style?: TextureStyle
+  ): FixedRect {
+    const scale = style?.scale || FixedVector2.ONE;
+    const anchor = style?.anchor || FixedVector2.ZERO;
+    const drawnWidth = width.multiply(scale.x);
+    const drawnHeight = height.multiply(scale.y);
+    const quad = new FixedRect(
+      anchor.x.multiply(drawnWidth).negate(),
+      anchor.y.multiply(drawnHeight).negate(),
+      drawnWidth,
+      drawnHeight
     );
+    return new Transform2D(origin, style?.rotation || Fixed.ZERO).toMatrix().transformBounds(quad);
+  }
+
+  private getStrokeThickness(style: ShapeStyle): Fixed {
+    if (!style.strokeColor) return Fixed.ZERO;
+    return this.getScreenStrokeWidth(style.strokeThickness || Fixed.ONE, style.strokeUnit);
+  }
+
+  /**
+   * Express world-space fill gradients in the current local space, so hooks only see local ones
+   * 将世界空间的填充渐变表示到当前局部空间，使钩子只会收到局部渐变
+   */
+  private resolveShapeStyle(style: ShapeStyle): ShapeStyle {
+    const gradient = style.fillGradient;
+    if (!gradient || gradient.space !== 'world') return style;
+    return { ...style, fillGradient: toLocalGradient(gradient, this.currentMatrix) };
+  }
+
+  private resolvePaint(paint: Paint): Paint {
+    return isGradient(paint) ? toLocalGradient(paint, this.currentMatrix) : paint;
+  }
+
+  private getScreenStrokeWidth(thickness: Fixed, unit?: StrokeUnit): Fixed {
+    return unit === 'world' ? new Fixed(thickness.toNumber() * this.getPixelScale()) : thickness;
+  }
+
+  /**
+   * Stroke a polyline into triangles in local units, converting screen-unit widths and dashes
+   * at the current zoom
+   * 将折线描边为局部单位的三角形，并按当前缩放转换屏幕单位的宽度和虚线
+   */
+  protected tessellateStroke(
+    points: readonly FixedVector2[],
+    closed: boolean,
+    style: LineStyle
+  ): TriangleMesh {
+    const scale = style.strokeUnit === 'world' ? 1 : 1 / this.getPixelScale();
+    const tolerance = this.getPathTolerance().toNumber();
+    return strokePolyline(points, closed, getStrokeOptions(style, scale, tolerance));
   }
 
   protected screenToWorld(screenPos: FixedVector2): FixedVector2 {
@@ -258,6 +606,49 @@ export abstract class BaseRenderer implements IRenderer {
     return screenPos;
   }
 
+  // ===== Path Hooks =====
+  // 路径钩子
+
+  /**
+   * Fill a path by flattening and triangulating it with holes and the fill rule applied
+   * 将路径展平并三角剖分进行填充，同时应用孔洞和填充规则
+   */
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    const mesh = triangulateContours(flattenPath(path, this.getPathTolerance()), fillRule);
+    this.onDrawTriangles(mesh, paint);
+  }
+
+  /**
+   * Draw a triangle mesh; GPU backends override this to upload the vertices and indices, the
+   * default draws each triangle through onDrawPolygon
+   * 绘制三角形网格；GPU后端重写此方法以上传顶点和索引，默认实现通过onDrawPolygon逐个绘制三角形
+   */
+  protected onDrawTriangles(mesh: TriangleMesh, paint: Paint): void {
+    const { vertices, indices } = mesh;
+    const style: ShapeStyle = isGradient(paint) ? { fillGradient: paint } : { fillColor: paint };
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const triangle = [vertices[indices[i]], vertices[indices[i + 1]], vertices[indices[i + 2]]];
+      this.onDrawPolygon(triangle, style);
+    }
+  }
+
+  /**
+   * Stroke a path by flattening it and tessellating the stroke with joins, caps and dashes
+   * 将路径展平并细分描边（含连接、端点和虚线）进行描边
+   */
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    const vertices: FixedVector2[] = [];
+    const indices: number[] = [];
+    for (const contour of flattenPath(path, this.getPathTolerance())) {
+      const mesh = this.tessellateStroke(contour.points, contour.closed, style);
+      for (const index of mesh.indices) {
+        indices.push(vertices.length + index);
+      }
+      vertices.push(...mesh.vertices);
+    }
+    this.onDrawTriangles({ vertices, indices }, style.color);
+  }
+
   // ===== Abstract Methods for Subclasses =====
   // 子类的抽象方法
 
@@ -290,3 +681,33 @@ export abstract class BaseRenderer implements IRenderer {
     capabilities: string[];
   };
 }
+
+function createEmptyStatistics(): RenderStatistics {
+  return {
+    drawCalls: 0,
+    triangles: 0,
+    vertices: 0,
+    textureBinds: 0,
+    culledDrawCalls: 0,
+    batchBreaks: {
+      texture: 0,
+      blendMode: 0,
+      clip: 0,
+      layer: 0,
+      capacity: 0,
+      primitive: 0,
+      flush: 0
+    },
+    frameTime: 0
+  };
+}
+
+// Inclusive overlap test, so zero-sized bounds such as axis-aligned lines are not culled
+function boundsOverlap(a: FixedRect, b: FixedRect): boolean {
+  return (
+    a.x.lessThanOrEqual(b.x.add(b.width)) &&
+    b.x.lessThanOrEqual(a.x.add(a.width)) &&
+    a.y.lessThanOrEqual(b.y.add(b.height)) &&
+    b.y.lessThanOrEqual(a.y.add(a.height))
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * Core sprite batcher accumulating textured quads into vertex and index arrays
+ * 将纹理四边形累积到顶点和索引数组中的核心精灵批处理器
+ */
+
+import { FixedRect } from '@esengine/nova-ecs-math';
+import {
+  ITexture,
+  TextureStyle,
+  Transform2D,
+  Matrix2x3,
+  RenderState,
+  BatchBreakReason
+} from '../types/RenderTypes';
+
+/**
+ * Floats per batched vertex: x, y, u, v, r, g, b, a
+ * 每个批处理顶点的浮点数：x, y, u, v, r, g, b, a
+ */
+export const SPRITE_VERTEX_STRIDE = 8;
+
+/**
+ * Default maximum number of quads in one batch, within 16-bit index range
+ * 单个批次的默认最大四边形数，处于16位索引范围内
+ */
+export const DEFAULT_MAX_BATCH_QUADS = 2048;
+
+/**
+ * Sprite recorded into a batch, kept for backends that draw sprites one by one
+ * 记录到批次中的精灵，供逐个绘制精灵的后端使用
+ */
+export interface BatchedSprite {
+  sourceRect: FixedRect;
+  destRect: FixedRect;
+  style?: TextureStyle;
+  state: RenderState;
+  matrix: Matrix2x3;
+  transform: Transform2D;
+}
+
+/**
+ * Ready-made batch of quads sharing one texture, blend mode, clip rect and layer
+ * 共享同一纹理、混合模式、裁剪矩形和层的现成四边形批次
+ *
+ * Vertices are in world space with the transform applied; UVs are normalized and the color is
+ * the tint with opacity folded into alpha (not premultiplied). Quads are two triangles
+ * (0, 1, 2) and (0, 2, 3) over corners top-left, top-right, bottom-right, bottom-left.
+ * 顶点位于已应用变换的世界空间；UV已归一化，颜色为着色并将不透明度乘入alpha（非预乘）。
+ * 每个四边形由左上、右上、右下、左下四个角的两个三角形(0, 1, 2)和(0, 2, 3)组成。
+ */
+export interface SpriteBatch {
+  texture: ITexture;
+  state: RenderState;
+  vertices: Float32Array;
+  indices: Uint16Array;
+  quadCount: number;
+  sprites: BatchedSprite[];
+}
+
+/**
+ * Accumulates consecutive compatible quads and emits them as a SpriteBatch
+ * 累积连续的兼容四边形并将其作为SpriteBatch输出
+ */
+export class SpriteBatcher {
+  private readonly maxQuads: number;
+  private readonly vertices: Float32Array;
+  private readonly indices: Uint16Array;
+  private readonly onFlush: (batch: SpriteBatch) => void;
+  private texture: ITexture | null = null;
+  private state: RenderState | null = null;
+  private sprites: BatchedSprite[] = [];
+
+  constructor(onFlush: (batch: SpriteBatch) => void, maxQuads: number = DEFAULT_MAX_BATCH_QUADS) {
+    if (maxQuads < 1 || maxQuads * 4 > 65536) {
+      throw new Error(`Batch size must be between 1 and 16384 quads: ${maxQuads}`);
+    }
+
+    this.onFlush = onFlush;
+    this.maxQuads = maxQuads;
+    this.vertices = new Float32Array(maxQuads * 4 * SPRITE_VERTEX_STRIDE);
+    this.indices = new Uint16Array(maxQuads * 6);
+    for (let quad = 0; quad < maxQuads; quad++) {
+      const vertex = quad * 4;
+      this.indices.set(
+        [vertex, vertex + 1, vertex + 2, vertex, vertex + 2, vertex + 3],
+        quad * 6
+      );
+    }
+  }
+
+  get quadCount(): number {
+    return this.sprites.length;
+  }
+
+  isEmpty(): boolean {
+    return this.sprites.length === 0;
+  }
+
+  /**
+   * Get why a quad with this texture and state cannot join the pending batch, or null if it can
+   * 获取使用此纹理和状态的四边形无法加入待处理批次的原因，可以加入时返回null
+   */
+  getBreakReason(texture: ITexture, state: RenderState): BatchBreakReason | null {
+    if (!this.texture || !this.state) return null;
+    if (this.sprites.length >= this.maxQuads) return 'capacity';
+    if (texture !== this.texture) return 'texture';
+    return getStateBreakReason(this.state, state);
+  }
+
+  /**
+   * Get why the pending batch must be emitted before switching to this state, or null
+   * 获取切换到此状态前必须输出待处理批次的原因，无需输出时返回null
+   */
+  getStateChangeReason(state: RenderState): BatchBreakReason | null {
+    return this.state ? getStateBreakReason(this.state, state) : null;
+  }
+
+  /**
+   * Append a textured quad; the caller must flush first when getBreakReason is not null
+   * 追加纹理四边形；当getBreakReason不为null时调用方必须先刷新
+   */
+  add(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style: TextureStyle | undefined,
+    state: RenderState,
+    matrix: Matrix2x3,
+    transform: Transform2D
+  ): void {
+    if (!this.texture) {
+      this.texture = texture;
+      this.state = state;
+    }
+
+    const width = destRect.width.toNumber() * (style?.scale ? style.scale.x.toNumber() : 1);
+    const height = destRect.height.toNumber() * (style?.scale ? style.scale.y.toNumber() : 1);
+    const left = -(style?.anchor ? style.anchor.x.toNumber() : 0) * width;
+    const top = -(style?.anchor ? style.anchor.y.toNumber() : 0) * height;
+    const angle = style?.rotation ? style.rotation.toNumber() : 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const originX = destRect.x.toNumber();
+    const originY = destRect.y.toNumber();
+    const a = matrix.a.toNumber();
+    const b = matrix.b.toNumber();
+    const c = matrix.c.toNumber();
+    const d = matrix.d.toNumber();
+    const tx = matrix.tx.toNumber();
+    const ty = matrix.ty.toNumber();
+
+    // A flip mirrors the image within the same quad, so only the UVs swap
+    let u0 = sourceRect.x.toNumber() / texture.width;
+    let v0 = sourceRect.y.toNumber() / texture.height;
+    let u1 = u0 + sourceRect.width.toNumber() / texture.width;
+    let v1 = v0 + sourceRect.height.toNumber() / texture.height;
+    if (style?.flipX) [u0, u1] = [u1, u0];
+    if (style?.flipY) [v0, v1] = [v1, v0];
+
+    const tint = style?.tint;
+    const red = tint ? tint.r : 1;
+    const green = tint ? tint.g : 1;
+    const blue = tint ? tint.b : 1;
+    const alpha = (tint ? tint.a : 1) * (style?.opacity ?? 1) * state.opacity;
+
+    const corners = [
+      [left, top, u0, v0],
+      [left + width, top, u1, v0],
+      [left + width, top + height, u1, v1],
+      [left, top + height, u0, v1]
+    ];
+    let offset = this.sprites.length * 4 * SPRITE_VERTEX_STRIDE;
+    for (const [x, y, u, v] of corners) {
+      const localX = originX + x * cos - y * sin;
+      const localY = originY + x * sin + y * cos;
+      this.vertices[offset++] = a * localX + c * localY + tx;
+      this.vertices[offset++] = b * localX + d * localY + ty;
+      this.vertices[offset++] = u;
+      this.vertices[offset++] = v;
+      this.vertices[offset++] = red;
+      this.vertices[offset++] = green;
+      this.vertices[offset++] = blue;
+      this.vertices[offset++] = alpha;
+    }
+
+    this.sprites.push({ sourceRect, destRect, state, matrix, transform, ...(style && { style }) });
+  }
+
+  /**
+   * Emit the pending batch, if any
+   * 输出待处理批次（如果有）
+   */
+  flush(): void {
+    if (!this.texture || !this.state) return;
+
+    const quadCount = this.sprites.length;
+    const batch: SpriteBatch = {
+      texture: this.texture,
+      state: this.state,
+      vertices: this.vertices.slice(0, quadCount * 4 * SPRITE_VERTEX_STRIDE),
+      indices: this.indices.slice(0, quadCount * 6),
+      quadCount,
+      sprites: this.sprites
+    };
+
+    this.texture = null;
+    this.state = null;
+    this.sprites = [];
+    this.onFlush(batch);
+  }
+}
+
+/**
+ * Get why two render states cannot share a batch, or null if they can; opacity is baked into
+ * vertex colors and never breaks a batch
+ * 获取两个渲染状态无法共享批次的原因，可以共享时返回null；不透明度已写入顶点颜色，不会打断批次
+ */
+export function getStateBreakReason(
+  batchState: RenderState,
+  state: RenderState
+): BatchBreakReason | null {
+  if (state.blendMode !== batchState.blendMode) return 'blendMode';
+  if (!sameClipRect(batchState.clipRect, state.clipRect)) return 'clip';
+  if ((batchState.layer && batchState.layer.id) !== (state.layer && state.layer.id)) {
+    return 'layer';
+  }
+  return null;
+}
+
+function sameClipRect(a?: FixedRect, b?: FixedRect): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.x.equals(b.x) && a.y.equals(b.y) && a.width.equals(b.width) && a.height.equals(b.height)
+  );
+}
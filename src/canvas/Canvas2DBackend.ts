@@ -0,0 +1,451 @@
+/**
+ * Shared Canvas 2D drawing backend used by the Canvas 2D renderers
+ * Canvas 2D渲染器共用的Canvas 2D绘制后端
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  Matrix2x3,
+  ITexture,
+  RenderState,
+  BlendMode,
+  FillRule,
+  Paint,
+  Gradient,
+  DEFAULT_MITER_LIMIT
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { getShapeStrokeStyle } from '../path/Stroker';
+import { isGradient, getShapeFillPaint, getGradientAverageColor } from '../paint/Gradient';
+import { ICanvasContext2D, ICanvasGradient } from './ICanvasContext2D';
+
+/**
+ * 2D affine matrix in canvas `setTransform` order (a, b, c, d, e, f)
+ * canvas `setTransform` 顺序的2D仿射矩阵（a, b, c, d, e, f）
+ */
+export type CanvasMatrix = [number, number, number, number, number, number];
+
+const IDENTITY_MATRIX: CanvasMatrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * BlendMode to globalCompositeOperation mapping
+ * BlendMode到globalCompositeOperation的映射
+ */
+export const CANVAS_COMPOSITE_OPERATIONS: Record<BlendMode, string> = {
+  [BlendMode.Normal]: 'source-over',
+  [BlendMode.Add]: 'lighter',
+  [BlendMode.Multiply]: 'multiply',
+  [BlendMode.Screen]: 'screen',
+  [BlendMode.Overlay]: 'overlay',
+  [BlendMode.Darken]: 'darken',
+  [BlendMode.Lighten]: 'lighten'
+};
+
+/**
+ * Draws primitives on a 2D context with the conventions shared by every Canvas renderer
+ * 使用所有Canvas渲染器共享的约定在2D上下文上绘制图元
+ *
+ * Strokes are drawn with thickness and dashes in screen pixels unless their `strokeUnit` is
+ * 'world', `clipRect` is in screen pixels, and texture anchors are fractions of the drawn size.
+ * 除非 `strokeUnit` 为 'world'，描边粗细和虚线以屏幕像素为单位，`clipRect` 以屏幕像素为单位，
+ * 纹理锚点为绘制尺寸的比例。
+ */
+export class Canvas2DBackend {
+  private context: ICanvasContext2D;
+  private viewMatrix: CanvasMatrix = IDENTITY_MATRIX;
+  private localMatrix: CanvasMatrix = IDENTITY_MATRIX;
+  private renderState: RenderState = { blendMode: BlendMode.Normal, opacity: 1 };
+  private clipSaved = false;
+
+  constructor(context: ICanvasContext2D) {
+    this.context = context;
+  }
+
+  getContext(): ICanvasContext2D {
+    return this.context;
+  }
+
+  setContext(context: ICanvasContext2D): void {
+    if (this.clipSaved) {
+      this.context.restore();
+    }
+    this.context = context;
+    this.clipSaved = false;
+    this.setRenderState(this.renderState);
+  }
+
+  setViewMatrix(matrix: CanvasMatrix): void {
+    this.viewMatrix = matrix;
+    this.applyMatrix();
+  }
+
+  setLocalMatrix(matrix: Matrix2x3): void {
+    this.localMatrix = matrixToCanvasMatrix(matrix);
+    this.applyMatrix();
+  }
+
+  setRenderState(state: RenderState): void {
+    const ctx = this.context;
+    if (this.clipSaved) {
+      ctx.restore();
+      this.clipSaved = false;
+    }
+
+    if (state.clipRect) {
+      ctx.save();
+      this.clipSaved = true;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.beginPath();
+      ctx.rect(
+        state.clipRect.x.toNumber(),
+        state.clipRect.y.toNumber(),
+        state.clipRect.width.toNumber(),
+        state.clipRect.height.toNumber()
+      );
+      ctx.clip();
+    }
+
+    this.renderState = { ...state };
+    ctx.globalAlpha = state.opacity;
+    ctx.globalCompositeOperation = CANVAS_COMPOSITE_OPERATIONS[state.blendMode];
+    this.applyMatrix();
+  }
+
+  clear(color: Color): void {
+    const ctx = this.context;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (color.a > 0) {
+      ctx.globalAlpha = 1;
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = colorToCss(color);
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    ctx.restore();
+  }
+
+  drawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.moveTo(start.x.toNumber(), start.y.toNumber());
+    ctx.lineTo(end.x.toNumber(), end.y.toNumber());
+    this.applyStroke(style);
+  }
+
+  drawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.arc(center.x.toNumber(), center.y.toNumber(), radius.toNumber(), 0, Math.PI * 2);
+    ctx.closePath();
+    this.fillAndStroke(style);
+  }
+
+  drawRect(bounds: FixedRect, style: ShapeStyle): void {
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.rect(
+      bounds.x.toNumber(),
+      bounds.y.toNumber(),
+      bounds.width.toNumber(),
+      bounds.height.toNumber()
+    );
+    this.fillAndStroke(style);
+  }
+
+  drawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    if (vertices.length < 2) return;
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.moveTo(vertices[0].x.toNumber(), vertices[0].y.toNumber());
+    for (let i = 1; i < vertices.length; i++) {
+      ctx.lineTo(vertices[i].x.toNumber(), vertices[i].y.toNumber());
+    }
+    ctx.closePath();
+    this.fillAndStroke(style);
+  }
+
+  drawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    const ctx = this.context;
+    const radiusX = bounds.width.toNumber() / 2;
+    const radiusY = bounds.height.toNumber() / 2;
+    ctx.beginPath();
+    ctx.ellipse(
+      bounds.x.toNumber() + radiusX,
+      bounds.y.toNumber() + radiusY,
+      radiusX,
+      radiusY,
+      0,
+      0,
+      Math.PI * 2
+    );
+    ctx.closePath();
+    this.fillAndStroke(style);
+  }
+
+  fillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.tracePath(path);
+    this.context.fillStyle = this.createFillStyle(paint);
+    this.context.fill(fillRule);
+  }
+
+  strokePath(path: VectorPath, style: LineStyle): void {
+    this.tracePath(path);
+    this.applyStroke(style);
+  }
+
+  drawText(text: string, position: FixedVector2, style: TextStyle): void {
+    const ctx = this.context;
+    this.applyFont(style);
+    ctx.fillStyle = colorToCss(style.color);
+    ctx.fillText(text, position.x.toNumber(), position.y.toNumber());
+  }
+
+  measureText(text: string, style: TextStyle): FixedVector2 {
+    this.applyFont(style);
+    const metrics = this.context.measureText(text);
+    const ascent = metrics.actualBoundingBoxAscent;
+    const descent = metrics.actualBoundingBoxDescent;
+    const height =
+      ascent !== undefined && descent !== undefined ? ascent + descent : style.fontSize.toNumber();
+    return new FixedVector2(new Fixed(metrics.width), new Fixed(height));
+  }
+
+  /**
+   * Draw a texture region into a world-space quad at origin
+   * 将纹理区域绘制到原点处的世界空间四边形中
+   *
+   * Only the tint alpha is applied; RGB tinting needs an offscreen pass the context may not have.
+   * 仅应用着色的alpha；RGB着色需要上下文可能不具备的离屏处理。
+   */
+  drawImage(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    origin: FixedVector2,
+    width: number,
+    height: number,
+    style?: TextureStyle
+  ): void {
+    const ctx = this.context;
+    const scaleX = style?.scale ? style.scale.x.toNumber() : 1;
+    const scaleY = style?.scale ? style.scale.y.toNumber() : 1;
+    const anchorX = style?.anchor ? style.anchor.x.toNumber() : 0;
+    const anchorY = style?.anchor ? style.anchor.y.toNumber() : 0;
+    const tintAlpha = style?.tint ? style.tint.a : 1;
+
+    ctx.save();
+    ctx.globalAlpha = this.renderState.opacity * (style?.opacity ?? 1) * tintAlpha;
+    ctx.translate(origin.x.toNumber(), origin.y.toNumber());
+    if (style?.rotation) {
+      ctx.rotate(style.rotation.toNumber());
+    }
+    ctx.scale(scaleX * (style?.flipX ? -1 : 1), scaleY * (style?.flipY ? -1 : 1));
+
+    // Mirror the anchor offset so a flipped sprite keeps its anchor point in place
+    const offsetX = style?.flipX ? (anchorX - 1) * width : -anchorX * width;
+    const offsetY = style?.flipY ? (anchorY - 1) * height : -anchorY * height;
+    ctx.drawImage(
+      texture.source,
+      sourceRect.x.toNumber(),
+      sourceRect.y.toNumber(),
+      sourceRect.width.toNumber(),
+      sourceRect.height.toNumber(),
+      offsetX,
+      offsetY,
+      width,
+      height
+    );
+    ctx.restore();
+  }
+
+  private applyMatrix(): void {
+    const [a, b, c, d, e, f] = multiplyCanvasMatrices(this.viewMatrix, this.localMatrix);
+    this.context.setTransform(a, b, c, d, e, f);
+  }
+
+  private applyFont(style: TextStyle): void {
+    const ctx = this.context;
+    ctx.font = [
+      style.fontStyle || 'normal',
+      style.fontWeight || 'normal',
+      `${style.fontSize.toNumber()}px`,
+      style.fontFamily || 'sans-serif'
+    ].join(' ');
+    ctx.textAlign = style.textAlign || 'left';
+    ctx.textBaseline = style.textBaseline || 'alphabetic';
+  }
+
+  private fillAndStroke(style: ShapeStyle): void {
+    const fill = getShapeFillPaint(style);
+    if (fill) {
+      this.context.fillStyle = this.createFillStyle(fill);
+      this.context.fill();
+    }
+    const strokeStyle = getShapeStrokeStyle(style);
+    if (strokeStyle) {
+      this.applyStroke(strokeStyle);
+    }
+  }
+
+  private createFillStyle(paint: Paint): unknown {
+    if (!isGradient(paint)) return colorToCss(paint);
+
+    const gradient = this.createGradient(paint);
+    if (!gradient) return colorToCss(getGradientAverageColor(paint));
+    const stops = [...paint.stops].sort((a, b) => a.offset - b.offset);
+    for (const stop of stops) {
+      gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), colorToCss(stop.color));
+    }
+    return gradient;
+  }
+
+  private createGradient(gradient: Gradient): ICanvasGradient | null {
+    const ctx = this.context;
+    switch (gradient.type) {
+      case 'linear':
+        return ctx.createLinearGradient(
+          gradient.start.x.toNumber(),
+          gradient.start.y.toNumber(),
+          gradient.end.x.toNumber(),
+          gradient.end.y.toNumber()
+        );
+      case 'radial': {
+        const x = gradient.center.x.toNumber();
+        const y = gradient.center.y.toNumber();
+        return ctx.createRadialGradient(x, y, 0, x, y, gradient.radius.toNumber());
+      }
+      case 'conic':
+        if (!ctx.createConicGradient) return null;
+        return ctx.createConicGradient(
+          gradient.startAngle.toNumber(),
+          gradient.center.x.toNumber(),
+          gradient.center.y.toNumber()
+        );
+    }
+  }
+
+  private tracePath(path: VectorPath): void {
+    const ctx = this.context;
+    ctx.beginPath();
+    for (const command of path.getCommands()) {
+      switch (command.type) {
+        case 'moveTo':
+          ctx.moveTo(command.point.x.toNumber(), command.point.y.toNumber());
+          break;
+        case 'lineTo':
+          ctx.lineTo(command.point.x.toNumber(), command.point.y.toNumber());
+          break;
+        case 'quadraticCurveTo':
+          ctx.quadraticCurveTo(
+            command.control.x.toNumber(),
+            command.control.y.toNumber(),
+            command.point.x.toNumber(),
+            command.point.y.toNumber()
+          );
+          break;
+        case 'bezierCurveTo':
+          ctx.bezierCurveTo(
+            command.control1.x.toNumber(),
+            command.control1.y.toNumber(),
+            command.control2.x.toNumber(),
+            command.control2.y.toNumber(),
+            command.point.x.toNumber(),
+            command.point.y.toNumber()
+          );
+          break;
+        case 'arc':
+          ctx.arc(
+            command.center.x.toNumber(),
+            command.center.y.toNumber(),
+            command.radius.toNumber(),
+            command.startAngle.toNumber(),
+            command.endAngle.toNumber(),
+            command.counterclockwise
+          );
+          break;
+        case 'closePath':
+          ctx.closePath();
+          break;
+      }
+    }
+  }
+
+  private applyStroke(style: LineStyle): void {
+    // Stroke in screen space so thickness and dashes are in pixels regardless of zoom;
+    // world-unit strokes are scaled by the current transform instead
+    const ctx = this.context;
+    let scale = 1;
+    if (style.strokeUnit === 'world') {
+      const [a, b, c, d] = multiplyCanvasMatrices(this.viewMatrix, this.localMatrix);
+      scale = Math.sqrt(Math.abs(a * d - b * c));
+    }
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.strokeStyle = colorToCss(style.color);
+    ctx.lineWidth = style.thickness.toNumber() * scale;
+    ctx.lineJoin = style.lineJoin || 'miter';
+    ctx.lineCap = style.lineCap || 'butt';
+    ctx.miterLimit = style.miterLimit ? style.miterLimit.toNumber() : DEFAULT_MITER_LIMIT;
+    const dashes = style.dashPattern || [];
+    ctx.setLineDash(dashes.map(dash => dash.toNumber() * scale));
+    ctx.lineDashOffset = style.dashOffset ? style.dashOffset.toNumber() * scale : 0;
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+/**
+ * Convert a color to a CSS rgba() string
+ * 将颜色转换为CSS rgba()字符串
+ */
+export function colorToCss(color: Color): string {
+  const channel = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${color.a})`;
+}
+
+/**
+ * Convert an affine matrix to a canvas matrix
+ * 将仿射矩阵转换为canvas矩阵
+ */
+export function matrixToCanvasMatrix(matrix: Matrix2x3): CanvasMatrix {
+  return [
+    matrix.a.toNumber(),
+    matrix.b.toNumber(),
+    matrix.c.toNumber(),
+    matrix.d.toNumber(),
+    matrix.tx.toNumber(),
+    matrix.ty.toNumber()
+  ];
+}
+
+/**
+ * Convert a transform to a canvas matrix
+ * 将变换转换为canvas矩阵
+ */
+export function transformToCanvasMatrix(transform: Transform2D): CanvasMatrix {
+  return matrixToCanvasMatrix(transform.toMatrix());
+}
+
+/**
+ * Multiply two canvas matrices, applying `right` first
+ * 两个canvas矩阵相乘，先应用 `right`
+ */
+export function multiplyCanvasMatrices(left: CanvasMatrix, right: CanvasMatrix): CanvasMatrix {
+  const [a1, b1, c1, d1, e1, f1] = left;
+  const [a2, b2, c2, d2, e2, f2] = right;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
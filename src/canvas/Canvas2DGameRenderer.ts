@@ -0,0 +1,333 @@
+/**
+ * Canvas 2D game renderer
+ * Canvas 2D游戏渲染器
+ */
+
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BaseGameRenderer } from '../base/BaseGameRenderer';
+import { LightConfig, PostProcessEffect, CameraConfig } from '../interfaces/IGameRenderer';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  RenderLayer,
+  FillRule,
+  Paint,
+  Matrix2x3,
+  BlendMode
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { LightMap, getLightGradient } from '../lighting/Lighting';
+import { ICanvasContext2D } from './ICanvasContext2D';
+import { Canvas2DBackend, CanvasMatrix } from './Canvas2DBackend';
+
+/**
+ * Canvas 2D game renderer options
+ * Canvas 2D游戏渲染器选项
+ */
+export interface Canvas2DGameRendererOptions {
+  /**
+   * Create an offscreen context, required for render textures, frame capture and lighting
+   * 创建离屏上下文，渲染纹理、帧捕获和光照需要此项
+   */
+  createContext?: (width: number, height: number) => ICanvasContext2D;
+}
+
+/**
+ * Game renderer drawing onto any CanvasRenderingContext2D-compatible context
+ * 在任意兼容CanvasRenderingContext2D的上下文上绘制的游戏渲染器
+ *
+ * Render textures use contexts from `createContext`; their `ITexture.source` is the
+ * offscreen canvas, so they can be drawn like any other image. The view follows the camera
+ * alone; `setViewMatrix` is not supported and has no effect.
+ * 渲染纹理使用 `createContext` 创建的上下文；其 `ITexture.source` 为离屏画布，可像其他图像一样绘制。
+ * 视图仅跟随相机；不支持 `setViewMatrix`，调用无效。
+ */
+export class Canvas2DGameRenderer extends BaseGameRenderer {
+  protected backend: Canvas2DBackend;
+  protected screenContext: ICanvasContext2D;
+  protected renderTarget: ITexture | null = null;
+  protected renderTextureContexts = new Map<ITexture, ICanvasContext2D>();
+  protected options: Canvas2DGameRendererOptions;
+  protected lightBackend: Canvas2DBackend | null = null;
+
+  constructor(context: ICanvasContext2D, options: Canvas2DGameRendererOptions = {}) {
+    super();
+    this.screenContext = context;
+    this.options = options;
+    this.backend = new Canvas2DBackend(context);
+    this.viewport = { x: 0, y: 0, width: context.canvas.width, height: context.canvas.height };
+    this.backend.setViewMatrix(this.getCameraMatrix());
+  }
+
+  /**
+   * Get the context currently drawn to
+   * 获取当前绘制的上下文
+   */
+  getContext(): ICanvasContext2D {
+    return this.backend.getContext();
+  }
+
+  dispose(): void {
+    this.renderTarget = null;
+    this.renderTextureContexts.clear();
+    this.backend.setContext(this.screenContext);
+  }
+
+  getRenderTarget(): unknown {
+    return this.renderTarget;
+  }
+
+  setRenderTarget(target: unknown): void {
+    if (target === null || target === undefined) {
+      this.renderTarget = null;
+      this.backend.setContext(this.screenContext);
+      return;
+    }
+
+    const context = this.renderTextureContexts.get(target as ITexture);
+    if (!context) {
+      throw new Error('Render target must be a texture created by createRenderTexture');
+    }
+    this.renderTarget = target as ITexture;
+    this.backend.setContext(context);
+  }
+
+  /**
+   * Camera transform mapping world space to canvas pixels, matching worldToScreen
+   * 将世界空间映射到画布像素的相机变换，与worldToScreen一致
+   */
+  protected getCameraMatrix(): CanvasMatrix {
+    const zoom = this.camera.zoom.toNumber();
+    const angle = this.camera.rotation.toNumber();
+    const a = Math.cos(angle) * zoom;
+    const b = Math.sin(angle) * zoom;
+    const px = this.camera.position.x.toNumber();
+    const py = this.camera.position.y.toNumber();
+    const cx = this.viewport.width / 2;
+    const cy = this.viewport.height / 2;
+    return [a, b, -b, a, cx - (a * px - b * py), cy - (b * px + a * py)];
+  }
+
+  // ===== Base Renderer Hooks =====
+  // 基础渲染器钩子
+
+  protected onBeginFrame(): void {
+    this.backend.setRenderState(this.currentRenderState);
+  }
+
+  protected onEndFrame(): void {
+    // Canvas output is presented by the browser or read back by the caller
+  }
+
+  protected onClear(color: Color): void {
+    this.backend.clear(color);
+  }
+
+  protected onSetViewMatrix(_matrix: FixedMatrix2x2): void {
+    // Unsupported, the backend view is the camera matrix
+  }
+
+  protected applyTransform(_transform: Transform2D): void {
+    this.backend.setLocalMatrix(this.currentMatrix);
+  }
+
+  protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.backend.drawLine(start, end, style);
+  }
+
+  protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.backend.drawCircle(center, radius, style);
+  }
+
+  protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.backend.drawRect(bounds, style);
+  }
+
+  protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.backend.drawPolygon(vertices, style);
+  }
+
+  protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.backend.drawEllipse(bounds, style);
+  }
+
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.backend.fillPath(path, paint, fillRule);
+  }
+
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    this.backend.strokePath(path, style);
+  }
+
+  protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
+    this.backend.drawText(text, position, style);
+  }
+
+  protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
+    return this.backend.measureText(text, style);
+  }
+
+  protected onDrawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    this.backend.drawImage(
+      texture,
+      new FixedRect(Fixed.ZERO, Fixed.ZERO, new Fixed(texture.width), new Fixed(texture.height)),
+      position,
+      texture.width,
+      texture.height,
+      style
+    );
+  }
+
+  protected onDrawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    this.backend.drawImage(
+      texture,
+      sourceRect,
+      new FixedVector2(destRect.x, destRect.y),
+      destRect.width.toNumber(),
+      destRect.height.toNumber(),
+      style
+    );
+  }
+
+  protected onSetRenderState(state: RenderState): void {
+    this.backend.setRenderState(state);
+  }
+
+  protected onSetViewport(_viewport: Viewport): void {
+    this.backend.setViewMatrix(this.getCameraMatrix());
+  }
+
+  protected onSupportsFeature(feature: string): boolean {
+    return this.onGetRendererInfo().capabilities.includes(feature);
+  }
+
+  protected onGetRendererInfo(): {
+    name: string;
+    version: string;
+    vendor?: string;
+    capabilities: string[];
+  } {
+    const capabilities = [
+      'canvas2d',
+      'blend-modes',
+      'clip-rect',
+      'dash-pattern',
+      'gradients',
+      'text',
+      'camera'
+    ];
+    if (this.options.createContext) {
+      capabilities.push('render-texture', 'lighting');
+    }
+    return {
+      name: 'Canvas2DGameRenderer',
+      version: '1.0.0',
+      vendor: 'esengine',
+      capabilities
+    };
+  }
+
+  // ===== Game Renderer Hooks =====
+  // 游戏渲染器钩子
+
+  protected onLightAdded(_id: string, _light: LightConfig): void {}
+  protected onLightRemoved(_id: string): void {}
+  protected onLightUpdated(_id: string, _light: LightConfig): void {}
+  protected onAmbientLightChanged(_color: Color): void {}
+  protected onLightingEnabledChanged(_enabled: boolean): void {}
+
+  /**
+   * Add the lights, clipped to their visibility polygons, into an offscreen canvas filled with
+   * the ambient color, then multiply it over the target
+   * 在以环境光颜色填充的离屏画布中叠加裁剪到可见性多边形的光源，然后将其正片叠底到目标上
+   */
+  protected onDrawLightMap(lightMap: LightMap): void {
+    const target = this.backend.getContext();
+    const { width, height } = target.canvas;
+    let lights = this.lightBackend;
+    const canvas = lights && lights.getContext().canvas;
+    if (!lights || !canvas || canvas.width !== width || canvas.height !== height) {
+      lights = new Canvas2DBackend(this.createOffscreenContext(width, height));
+      this.lightBackend = lights;
+    }
+
+    lights.clear({ ...lightMap.ambient, a: 1 });
+    lights.setViewMatrix(this.getCameraMatrix());
+    lights.setLocalMatrix(Matrix2x3.identity());
+    lights.setRenderState({ blendMode: BlendMode.Add, opacity: 1 });
+    for (const { light, visibility } of lightMap.lights) {
+      const style = { fillGradient: getLightGradient(light) };
+      if (visibility) {
+        lights.drawPolygon(visibility, style);
+      } else {
+        lights.drawCircle(light.position, light.radius, style);
+      }
+    }
+
+    target.save();
+    target.setTransform(1, 0, 0, 1, 0, 0);
+    target.globalAlpha = 1;
+    target.globalCompositeOperation = 'multiply';
+    target.drawImage(lights.getContext().canvas, 0, 0, width, height, 0, 0, width, height);
+    target.restore();
+  }
+  protected onLayerCreated(_layer: RenderLayer): void {}
+  protected onLayerRemoved(_id: string): void {}
+  protected onLayerVisibilityChanged(_id: string, _visible: boolean): void {}
+  protected onLayerDepthChanged(_id: string, _depth: number): void {}
+
+  protected onCameraChanged(_config: CameraConfig): void {
+    this.backend.setViewMatrix(this.getCameraMatrix());
+  }
+
+  protected onPostProcessEffectAdded(_effect: PostProcessEffect): void {}
+  protected onPostProcessEffectRemoved(_name: string): void {}
+  protected onPostProcessEffectEnabledChanged(_name: string, _enabled: boolean): void {}
+  protected onPostProcessEffectUpdated(_name: string, _effect: PostProcessEffect): void {}
+  protected onBeginBatch(): void {}
+  protected onEndBatch(): void {}
+  protected onFlushBatch(): void {}
+
+  protected onCreateRenderTexture(width: number, height: number): ITexture {
+    const context = this.createOffscreenContext(width, height);
+    const texture: ITexture = { width, height, isLoaded: true, source: context.canvas };
+    this.renderTextureContexts.set(texture, context);
+    return texture;
+  }
+
+  protected onCaptureFrame(): ITexture {
+    const source = this.backend.getContext().canvas;
+    const context = this.createOffscreenContext(source.width, source.height);
+    context.drawImage(
+      source,
+      0,
+      0,
+      source.width,
+      source.height,
+      0,
+      0,
+      source.width,
+      source.height
+    );
+    return { width: source.width, height: source.height, isLoaded: true, source: context.canvas };
+  }
+
+  protected createOffscreenContext(width: number, height: number): ICanvasContext2D {
+    if (!this.options.createContext) {
+      throw new Error('Canvas2DGameRenderer requires the createContext option for offscreen rendering');
+    }
+    return this.options.createContext(width, height);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Canvas 2D debug renderer
+ * Canvas 2D调试渲染器
+ */
+
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BaseDebugRenderer } from '../base/BaseDebugRenderer';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  FillRule,
+  Paint
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { ICanvasContext2D } from './ICanvasContext2D';
+import { Canvas2DBackend } from './Canvas2DBackend';
+
+/**
+ * Debug renderer drawing onto any CanvasRenderingContext2D-compatible context
+ * 在任意兼容CanvasRenderingContext2D的上下文上绘制的调试渲染器
+ *
+ * Coordinates are canvas pixels; `setViewMatrix` is not supported and has no effect, so
+ * move the view with pushTransform instead.
+ * 坐标为画布像素；不支持 `setViewMatrix`，调用无效，请改用pushTransform移动视图。
+ */
+export class Canvas2DRenderer extends BaseDebugRenderer {
+  protected backend: Canvas2DBackend;
+  protected screenContext: ICanvasContext2D;
+  protected renderTarget: ICanvasContext2D | null = null;
+
+  constructor(context: ICanvasContext2D) {
+    super();
+    this.screenContext = context;
+    this.backend = new Canvas2DBackend(context);
+    this.viewport = { x: 0, y: 0, width: context.canvas.width, height: context.canvas.height };
+  }
+
+  /**
+   * Get the context currently drawn to
+   * 获取当前绘制的上下文
+   */
+  getContext(): ICanvasContext2D {
+    return this.backend.getContext();
+  }
+
+  dispose(): void {
+    this.renderTarget = null;
+    this.backend.setContext(this.screenContext);
+  }
+
+  getRenderTarget(): unknown {
+    return this.renderTarget;
+  }
+
+  /**
+   * Set another 2D context as render target, or null for the screen context
+   * 将另一个2D上下文设为渲染目标，null表示屏幕上下文
+   */
+  setRenderTarget(target: unknown): void {
+    this.renderTarget = (target as ICanvasContext2D | null) || null;
+    this.backend.setContext(this.renderTarget || this.screenContext);
+  }
+
+  // ===== Base Renderer Hooks =====
+  // 基础渲染器钩子
+
+  protected onBeginFrame(): void {
+    this.backend.setRenderState(this.currentRenderState);
+  }
+
+  protected onEndFrame(): void {
+    // Canvas output is presented by the browser or read back by the caller
+  }
+
+  protected onClear(color: Color): void {
+    this.backend.clear(color);
+  }
+
+  protected onSetViewMatrix(_matrix: FixedMatrix2x2): void {
+    // Unsupported, drawing uses canvas pixels and the transform stack
+  }
+
+  protected applyTransform(_transform: Transform2D): void {
+    this.backend.setLocalMatrix(this.currentMatrix);
+  }
+
+  protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.backend.drawLine(start, end, style);
+  }
+
+  protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.backend.drawCircle(center, radius, style);
+  }
+
+  protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.backend.drawRect(bounds, style);
+  }
+
+  protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.backend.drawPolygon(vertices, style);
+  }
+
+  protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.backend.drawEllipse(bounds, style);
+  }
+
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.backend.fillPath(path, paint, fillRule);
+  }
+
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    this.backend.strokePath(path, style);
+  }
+
+  protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
+    this.backend.drawText(text, position, style);
+  }
+
+  protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
+    return this.backend.measureText(text, style);
+  }
+
+  protected onDrawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    this.backend.drawImage(
+      texture,
+      new FixedRect(Fixed.ZERO, Fixed.ZERO, new Fixed(texture.width), new Fixed(texture.height)),
+      position,
+      texture.width,
+      texture.height,
+      style
+    );
+  }
+
+  protected onDrawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    this.backend.drawImage(
+      texture,
+      sourceRect,
+      new FixedVector2(destRect.x, destRect.y),
+      destRect.width.toNumber(),
+      destRect.height.toNumber(),
+      style
+    );
+  }
+
+  protected onSetRenderState(state: RenderState): void {
+    this.backend.setRenderState(state);
+  }
+
+  protected onSetViewport(_viewport: Viewport): void {
+    // The canvas size defines the drawable area
+  }
+
+  protected onSupportsFeature(feature: string): boolean {
+    return this.onGetRendererInfo().capabilities.includes(feature);
+  }
+
+  protected onGetRendererInfo(): {
+    name: string;
+    version: string;
+    vendor?: string;
+    capabilities: string[];
+  } {
+    return {
+      name: 'Canvas2DRenderer',
+      version: '1.0.0',
+      vendor: 'esengine',
+      capabilities: [
+        'canvas2d',
+        'debug',
+        'blend-modes',
+        'clip-rect',
+        'dash-pattern',
+        'gradients',
+        'text'
+      ]
+    };
+  }
+
+  // ===== Debug Renderer Hooks =====
+  // 调试渲染器钩子
+
+  protected onTakeScreenshot(): Promise<Blob | null> {
+    return canvasToBlob(this.backend.getContext());
+  }
+}
+
+/**
+ * Read a context's canvas back as a PNG blob when the canvas supports it
+ * 在画布支持时将上下文的画布读取为PNG blob
+ */
+export function canvasToBlob(context: ICanvasContext2D): Promise<Blob | null> {
+  const canvas = context.canvas;
+  if (canvas.convertToBlob) {
+    return canvas.convertToBlob({ type: 'image/png' });
+  }
+  if (canvas.toBlob) {
+    const toBlob = canvas.toBlob.bind(canvas);
+    return new Promise(resolve => toBlob(resolve, 'image/png'));
+  }
+  return Promise.resolve(null);
+}
@@ -0,0 +1,113 @@
+/**
+ * Minimal CanvasRenderingContext2D-shaped interface used by the Canvas 2D backend
+ * Canvas 2D后端使用的最小CanvasRenderingContext2D形状接口
+ */
+
+/**
+ * Canvas owning a 2D context
+ * 拥有2D上下文的画布
+ */
+export interface ICanvasLike {
+  width: number;
+  height: number;
+  toBlob?(callback: (blob: Blob | null) => void, type?: string): void;
+  convertToBlob?(options?: { type?: string }): Promise<Blob>;
+}
+
+/**
+ * Gradient fill style created by the context
+ * 由上下文创建的渐变填充样式
+ */
+export interface ICanvasGradient {
+  addColorStop(offset: number, color: string): void;
+}
+
+/**
+ * Subset of CanvasRenderingContext2D required for rendering, satisfied by browser canvas,
+ * OffscreenCanvas and Node canvas implementations or stub contexts
+ * 渲染所需的CanvasRenderingContext2D子集，浏览器画布、OffscreenCanvas、Node画布实现或桩上下文均可满足
+ */
+export interface ICanvasContext2D {
+  readonly canvas: ICanvasLike;
+
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  lineJoin: string;
+  lineCap: string;
+  miterLimit: number;
+  lineDashOffset: number;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+
+  save(): void;
+  restore(): void;
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ): void;
+  fill(fillRule?: 'nonzero' | 'evenodd'): void;
+  stroke(): void;
+  clip(): void;
+  setLineDash(segments: number[]): void;
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): ICanvasGradient;
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): ICanvasGradient;
+  // Missing from older contexts, which fill conic gradients with their average color
+  createConicGradient?(startAngle: number, x: number, y: number): ICanvasGradient;
+
+  clearRect(x: number, y: number, width: number, height: number): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  fillText(text: string, x: number, y: number): void;
+  measureText(text: string): {
+    width: number;
+    actualBoundingBoxAscent?: number;
+    actualBoundingBoxDescent?: number;
+  };
+  drawImage(
+    image: unknown,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+}
@@ -13,19 +13,33 @@ export type {
   LineStyle,
   ShapeStyle,
   TextStyle,
+  TextBlockStyle,
   TextureStyle,
   GridStyle,
   ITexture,
   RenderStatistics,
   Viewport,
   RenderState,
-  RenderLayer
+  RenderLayer,
+  BatchBreakReason,
+  FillRule,
+  StrokeUnit,
+  GradientStop,
+  GradientSpace,
+  LinearGradient,
+  RadialGradient,
+  ConicGradient,
+  Gradient,
+  Paint
 } from './types/RenderTypes';
 
 export {
   ColorUtils,
   Transform2D,
-  BlendMode
+  Matrix2x3,
+  boundsOfPoints,
+  BlendMode,
+  DEFAULT_MITER_LIMIT
 } from './types/RenderTypes';
 
 // ===== Renderer Interfaces =====
@@ -49,8 +63,15 @@ export type {
   IGameRenderer,
   AnimationFrame,
   SpriteAnimation,
+  NineSliceInsets,
   ParticleConfig,
+  ParticleEmitterShape,
+  ParticleBurst,
+  ParticleCurveKey,
+  ParticleCurve,
+  ParticleSubEmitter,
   LightConfig,
+  Occluder,
   PostProcessEffect,
   CameraConfig
 } from './interfaces/IGameRenderer';
@@ -73,6 +94,257 @@ export { BaseDebugRenderer } from './base/BaseDebugRenderer';
 export { BaseGameRenderer } from './base/BaseGameRenderer';
 export { BasePhysicsDebugRenderer } from './base/BasePhysicsDebugRenderer';
 
+// ===== Batching =====
+// 批处理
+
+export {
+  SpriteBatcher,
+  getStateBreakReason,
+  SPRITE_VERTEX_STRIDE,
+  DEFAULT_MAX_BATCH_QUADS
+} from './batching/SpriteBatcher';
+export type { SpriteBatch, BatchedSprite } from './batching/SpriteBatcher';
+
+// ===== Texture Atlases =====
+// 纹理图集
+
+export { AtlasPacker } from './atlas/AtlasPacker';
+export { loadTexturePackerSheet, loadAsepriteSheet } from './atlas/SpriteSheetLoader';
+export type {
+  SpriteSheet,
+  SpriteSheetData,
+  SpriteSheetFrameData,
+  SpriteSheetRectData,
+  AsepriteFrameTagData,
+  SpriteSheetLoaderOptions
+} from './atlas/SpriteSheetLoader';
+export type {
+  AtlasPackingAlgorithm,
+  AtlasImage,
+  AtlasPackerOptions,
+  AtlasRegion,
+  AtlasPage,
+  AtlasLayout
+} from './atlas/AtlasPacker';
+
+// ===== Animation =====
+// 动画
+
+export { AnimationPlayer } from './animation/AnimationPlayer';
+export type {
+  AnimationPlaybackMode,
+  AnimationPlayOptions,
+  AnimationFrameEvent
+} from './animation/AnimationPlayer';
+
+// ===== Particles =====
+// 粒子
+
+export { ParticleSystem, evaluateParticleCurve } from './particles/ParticleSystem';
+export { SeededRandom } from './particles/SeededRandom';
+export type { Particle, ParticleSystemOptions } from './particles/ParticleSystem';
+export {
+  loadParticleEffect,
+  saveParticleEffect,
+  migrateParticleEffect,
+  PARTICLE_EFFECT_VERSION
+} from './particles/ParticleEffectLoader';
+export type {
+  ParticleEffectData,
+  ParticleEmitterData,
+  ParticleEmitterShapeData,
+  ParticleBurstData,
+  ParticleVectorData
+} from './particles/ParticleEffectLoader';
+
+// ===== Lighting =====
+// 光照
+
+export {
+  getLightAttenuation,
+  getLightBounds,
+  cullLights,
+  sampleLighting,
+  createLightMap,
+  sampleLightMap,
+  createLightMapSampler,
+  getLightGradient
+} from './lighting/Lighting';
+export type { LightMap, LightMapEntry, LightMapSampler } from './lighting/Lighting';
+export {
+  getOccluderSegments,
+  getLightVisibility,
+  hasLineOfSight,
+  isPointInPolygon
+} from './lighting/Shadows';
+export type { OccluderSegment } from './lighting/Shadows';
+
+// ===== Tilemaps =====
+// 瓦片地图
+
+export {
+  Tilemap,
+  TILE_FLIP_HORIZONTAL,
+  TILE_FLIP_VERTICAL,
+  TILE_FLIP_DIAGONAL,
+  TILE_GID_MASK,
+  DEFAULT_TILEMAP_CHUNK_SIZE
+} from './tilemap/Tilemap';
+export { loadTiledMap } from './tilemap/TiledLoader';
+export type {
+  Tileset,
+  TileAnimationFrame,
+  TileLayer,
+  ObjectLayer,
+  TilemapLayer,
+  TilemapObject,
+  TilemapProperties,
+  TileChunk,
+  TileChunkEntry
+} from './tilemap/Tilemap';
+export type {
+  TiledMapData,
+  TiledLayerData,
+  TiledChunkData,
+  TiledObjectData,
+  TiledTilesetData,
+  TiledPropertyData,
+  TiledLoaderOptions
+} from './tilemap/TiledLoader';
+
+// ===== Paths =====
+// 路径
+
+export { VectorPath, getArcSweep, getArcPoint } from './path/VectorPath';
+export { flattenPath, DEFAULT_PATH_TOLERANCE } from './path/PathFlattener';
+export {
+  triangulatePolygon,
+  triangulateContours,
+  groupContours,
+  getEllipseSegmentCount
+} from './path/Tessellation';
+export {
+  strokePolyline,
+  dashPolyline,
+  getStrokeOptions,
+  getShapeStrokeStyle
+} from './path/Stroker';
+export type { PathCommand, PathBuilder } from './path/VectorPath';
+export type { PathContour } from './path/PathFlattener';
+export type { TriangleMesh, ContourGroup } from './path/Tessellation';
+export type { StrokeOptions } from './path/Stroker';
+
+// ===== Paint =====
+// 颜料
+
+export {
+  isGradient,
+  getGradientColor,
+  createGradientSampler,
+  sampleGradient,
+  getGradientAverageColor,
+  toLocalGradient,
+  getGradientVertexColors,
+  createGradientTexture,
+  getShapeFillPaint
+} from './paint/Gradient';
+export type { GradientSampler } from './paint/Gradient';
+
+// ===== Text =====
+// 文本
+
+export { BitmapFont, BITMAP_FONT_FALLBACK_CHAR } from './text/BitmapFont';
+export { parseBMFont, loadBMFont } from './text/BMFontLoader';
+export type {
+  BitmapGlyph,
+  BitmapKerning,
+  BitmapFontData,
+  BitmapGlyphPlacement,
+  BitmapTextLayout
+} from './text/BitmapFont';
+export type { BMFontData, BMFontJsonData } from './text/BMFontLoader';
+export {
+  layoutTextBlock,
+  parseTextMarkup,
+  DEFAULT_LINE_HEIGHT_FACTOR,
+  DEFAULT_ASCENT_FACTOR
+} from './text/TextLayout';
+export type {
+  TextMeasureFunction,
+  TextSpan,
+  TextRun,
+  TextLine,
+  TextBlockLayout
+} from './text/TextLayout';
+export { getLineBreakClass, isWideCharacter, findLineBreaks } from './text/LineBreaker';
+export type { LineBreakClass, LineBreakOpportunity } from './text/LineBreaker';
+
+// ===== Recording =====
+// 命令记录
+
+export type {
+  DrawCommand,
+  DrawCommandType,
+  ClearCommand,
+  LineCommand,
+  CircleCommand,
+  RectCommand,
+  PolygonCommand,
+  EllipseCommand,
+  FillPathCommand,
+  StrokePathCommand,
+  TextCommand,
+  TextureCommand,
+  TextureRegionCommand,
+  RenderStateCommand,
+  TransformCommand,
+  ViewportCommand,
+  SerializedDisplayList,
+  SerializedTextureRef
+} from './recording/DrawCommands';
+
+export { DisplayList, DISPLAY_LIST_VERSION } from './recording/DisplayList';
+export type { TextureResolver } from './recording/DisplayList';
+
+export { RecordingRenderer } from './recording/RecordingRenderer';
+export { DisplayListRecorder, estimateTextSize } from './recording/DisplayListRecorder';
+export type { RecordingRendererOptions } from './recording/DisplayListRecorder';
+export { RecordingDebugRenderer } from './recording/RecordingDebugRenderer';
+
+// ===== Software Rendering =====
+// 软件渲染
+
+export {
+  SoftwareFramebuffer,
+  isPixelData,
+  createPixelTexture
+} from './software/SoftwareFramebuffer';
+export type { PixelData } from './software/SoftwareFramebuffer';
+export { SoftwareRenderer } from './software/SoftwareRenderer';
+
+// ===== SVG Export =====
+// SVG导出
+
+export { SvgRenderer } from './svg/SvgRenderer';
+export type { SvgRendererOptions } from './svg/SvgRenderer';
+
+// ===== Canvas 2D =====
+// Canvas 2D
+
+export type { ICanvasContext2D, ICanvasLike, ICanvasGradient } from './canvas/ICanvasContext2D';
+export {
+  Canvas2DBackend,
+  CANVAS_COMPOSITE_OPERATIONS,
+  colorToCss,
+  matrixToCanvasMatrix,
+  transformToCanvasMatrix,
+  multiplyCanvasMatrices
+} from './canvas/Canvas2DBackend';
+export type { CanvasMatrix } from './canvas/Canvas2DBackend';
+export { Canvas2DRenderer, canvasToBlob } from './canvas/Canvas2DRenderer';
+export { Canvas2DGameRenderer } from './canvas/Canvas2DGameRenderer';
+export type { Canvas2DGameRendererOptions } from './canvas/Canvas2DGameRenderer';
+
 // ===== Re-export Dependencies =====
 // 重新导出依赖
 
@@ -5,7 +5,11 @@
 
 import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
 import { IRenderer } from './IRenderer';
-import { Color, ITexture, TextureStyle, RenderLayer } from '../types/RenderTypes';
+import { Color, ITexture, TextureStyle, RenderLayer, GradientStop } from '../types/RenderTypes';
+import { AnimationPlayer } from '../animation/AnimationPlayer';
+import { Tilemap } from '../tilemap/Tilemap';
+import { ParticleSystem, ParticleSystemOptions } from '../particles/ParticleSystem';
+import { LightMap } from '../lighting/Lighting';
 
 /**
  * Sprite animation frame
@@ -13,9 +17,11 @@ import { Color, ITexture, TextureStyle, RenderLayer } from '../types/RenderTypes
  */
 export interface AnimationFrame {
   texture: ITexture;
-  sourceRect: FixedRect;
+  sourceRect: FixedRect; // Region in the texture, with width and height swapped when rotated
   duration: Fixed; // in seconds
-  offset?: FixedVector2;
+  offset?: FixedVector2; // Position of a trimmed region within the untrimmed frame
+  sourceSize?: FixedVector2; // Untrimmed frame size
+  rotated?: boolean; // Stored turned 90 degrees clockwise in the texture
 }
 
 /**
@@ -29,6 +35,17 @@ export interface SpriteAnimation {
   playbackSpeed: Fixed; // multiplier for frame durations
 }
 
+/**
+ * Nine-slice border widths, in source texture pixels
+ * 九宫格边框宽度，以源纹理像素为单位
+ */
+export interface NineSliceInsets {
+  left: Fixed;
+  top: Fixed;
+  right: Fixed;
+  bottom: Fixed;
+}
+
 /**
  * Particle system configuration
  * 粒子系统配置
@@ -47,6 +64,67 @@ export interface ParticleConfig {
   gravity: FixedVector2;
   fadeIn: Fixed; // fade in duration
   fadeOut: Fixed; // fade out duration
+  shape?: ParticleEmitterShape; // Default point
+  bursts?: ParticleBurst[];
+  colorOverLifetime?: GradientStop[]; // Replaces startColor/endColor, offsets are normalized age
+  sizeOverLifetime?: ParticleCurve; // Multiplier on the startSize to endSize interpolation
+  velocityOverLifetime?: ParticleCurve; // Multiplier on velocity when moving particles
+  rotationOverLifetime?: ParticleCurve; // Radians added to the simulated rotation
+  startRotation?: Fixed; // Radians
+  rotationVariation?: Fixed; // Random +/- range added to startRotation
+  angularVelocity?: Fixed; // Radians per second
+  angularVelocityVariation?: Fixed;
+  drag?: Fixed; // Fraction of velocity lost per second, independent of the update step
+  subEmitters?: ParticleSubEmitter[];
+}
+
+/**
+ * Area particles are emitted from, relative to the emitter position
+ * 粒子发射的区域，相对于发射器位置
+ */
+export type ParticleEmitterShape =
+  | { type: 'point' }
+  | { type: 'circle'; radius: Fixed } // Uniform over the disc
+  | { type: 'ring'; innerRadius: Fixed; outerRadius: Fixed } // Radius uniform between the two
+  | { type: 'rect'; width: Fixed; height: Fixed } // Centered on the emitter
+  | { type: 'line'; start: FixedVector2; end: FixedVector2 }
+  | { type: 'polygonEdge'; vertices: FixedVector2[] }; // Uniform along the closed outline
+
+/**
+ * Particles emitted at once at a point in the emitter's timeline, optionally repeating
+ * 在发射器时间线某时刻一次性发射的粒子，可重复
+ */
+export interface ParticleBurst {
+  time: Fixed; // Seconds since the system was created or cleared
+  count: number;
+  cycles?: number; // Default 1, Infinity repeats forever
+  interval?: Fixed; // Seconds between cycles, default 1
+}
+
+/**
+ * Curve key at a normalized particle age from 0 (emitted) to 1 (dying)
+ * 位于归一化粒子年龄（0为发射，1为消亡）处的曲线关键点
+ */
+export interface ParticleCurveKey {
+  time: Fixed;
+  value: Fixed;
+}
+
+/**
+ * Piecewise-linear curve over particle lifetime, held constant beyond the first and last key
+ * 粒子生命周期上的分段线性曲线，在首尾关键点之外保持不变
+ */
+export type ParticleCurve = ParticleCurveKey[];
+
+/**
+ * Child system emitting particles where a parent particle dies; its own emissionRate and
+ * bursts are not used
+ * 在父粒子消亡处发射粒子的子系统；其自身的emissionRate和爆发不会被使用
+ */
+export interface ParticleSubEmitter {
+  config: ParticleConfig;
+  count: number; // Particles emitted per death
+  inheritVelocity?: Fixed; // Fraction of the dying particle's velocity added, default 0
 }
 
 /**
@@ -62,6 +140,16 @@ export interface LightConfig {
   castShadows: boolean;
 }
 
+/**
+ * Geometry that blocks shadow-casting lights, with the same shapes as physics colliders
+ * 阻挡投射阴影光源的几何体，形状与物理碰撞器相同
+ */
+export type Occluder =
+  | { type: 'polygon'; vertices: FixedVector2[] } // Closed outline
+  | { type: 'segment'; start: FixedVector2; end: FixedVector2 }
+  | { type: 'circle'; center: FixedVector2; radius: Fixed } // Blocks as a 16-sided polygon
+  | { type: 'box'; center: FixedVector2; size: FixedVector2; rotation: Fixed };
+
 /**
  * Post-processing effect configuration
  * 后处理效果配置
@@ -105,6 +193,12 @@ export interface IGameRenderer extends IRenderer {
     style?: TextureStyle
   ): void;
 
+  /**
+   * Draw the current frame of an animation player, which tracks playback time itself
+   * 绘制动画播放器的当前帧，播放时间由播放器自行跟踪
+   */
+  drawSprite(player: AnimationPlayer, position: FixedVector2, style?: TextureStyle): void;
+
   /**
    * Draw a static sprite from texture atlas
    * 从纹理图集绘制静态精灵
@@ -116,6 +210,46 @@ export interface IGameRenderer extends IRenderer {
     style?: TextureStyle
   ): void;
 
+  /**
+   * Draw a single animation frame, restoring trimmed and rotated frames to their untrimmed
+   * upright placement; the anchor is relative to the untrimmed frame size
+   * 绘制单个动画帧，将裁剪和旋转的帧还原到未裁剪的正向位置；锚点相对于未裁剪的帧尺寸
+   */
+  drawAnimationFrame(frame: AnimationFrame, position: FixedVector2, style?: TextureStyle): void;
+
+  /**
+   * Draw a texture region stretched over destRect with its borders kept at their source size;
+   * borders shrink proportionally when destRect is smaller than they are
+   * 将纹理区域拉伸绘制到destRect，边框保持源尺寸；destRect小于边框时边框按比例缩小
+   */
+  drawNineSlice(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    insets: NineSliceInsets,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void;
+
+  /**
+   * Fill destRect with repeated copies of a texture region, cutting partial tiles at the edges;
+   * offset scrolls the pattern in destination units
+   * 用纹理区域的重复副本填充destRect，在边缘裁切不完整的图块；offset以目标单位滚动图案
+   */
+  drawTiledTexture(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    tileScale: FixedVector2,
+    offset: FixedVector2,
+    style?: TextureStyle
+  ): void;
+
+  /**
+   * Draw the visible tile layers of a tilemap, skipping cached chunks outside the view
+   * 绘制瓦片地图的可见图块层，跳过视图外的缓存分块
+   */
+  drawTilemap(tilemap: Tilemap, position?: FixedVector2): void;
+
   /**
    * Create sprite animation from texture atlas
    * 从纹理图集创建精灵动画
@@ -132,28 +266,28 @@ export interface IGameRenderer extends IRenderer {
   // 粒子系统
 
   /**
-   * Create a particle system
-   * 创建粒子系统
+   * Create a deterministic particle system; the same seed gives the same particles everywhere
+   * 创建确定性粒子系统；相同种子在任何地方都产生相同的粒子
    */
-  createParticleSystem(config: ParticleConfig): unknown; // Returns platform-specific particle system
+  createParticleSystem(config: ParticleConfig, options?: ParticleSystemOptions): ParticleSystem;
 
   /**
    * Update particle system
    * 更新粒子系统
    */
-  updateParticleSystem(system: unknown, deltaTime: Fixed): void;
+  updateParticleSystem(system: ParticleSystem, deltaTime: Fixed): void;
 
   /**
    * Draw particle system
    * 绘制粒子系统
    */
-  drawParticleSystem(system: unknown): void;
+  drawParticleSystem(system: ParticleSystem): void;
 
   /**
    * Destroy particle system
    * 销毁粒子系统
    */
-  destroyParticleSystem(system: unknown): void;
+  destroyParticleSystem(system: ParticleSystem): void;
 
   // ===== Lighting System =====
   // 光照系统
@@ -188,6 +322,42 @@ export interface IGameRenderer extends IRenderer {
    */
   setLightingEnabled(enabled: boolean): void;
 
+  /**
+   * Add geometry that casts shadows from lights with castShadows set
+   * 添加为设置了castShadows的光源投射阴影的几何体
+   */
+  addOccluder(occluder: Occluder): string; // Returns occluder ID
+
+  /**
+   * Remove an occluder
+   * 移除遮挡体
+   */
+  removeOccluder(occluderId: string): void;
+
+  /**
+   * Replace the geometry of an occluder
+   * 替换遮挡体的几何形状
+   */
+  updateOccluder(occluderId: string, occluder: Occluder): void;
+
+  /**
+   * Remove all occluders
+   * 移除所有遮挡体
+   */
+  clearOccluders(): void;
+
+  /**
+   * Light reaching a world position, for gameplay checks such as stealth
+   * 到达世界坐标位置的光照，用于潜行等游戏逻辑检测
+   */
+  sampleLight(worldPos: FixedVector2): Color;
+
+  /**
+   * Describe the ambient color and the lights reaching the current view
+   * 描述环境光颜色以及到达当前视图的光源
+   */
+  getLightMap(): LightMap;
+
   // ===== Layer Management =====
   // 层管理
 
@@ -221,6 +391,28 @@ export interface IGameRenderer extends IRenderer {
    */
   getLayers(): RenderLayer[];
 
+  // ===== Deferred Rendering =====
+  // 延迟渲染
+
+  /**
+   * Enable/disable deferred rendering, which queues draws and emits them at endFrame
+   * sorted by layer depth and sort key, dropping draws on hidden layers
+   * 启用/禁用延迟渲染：绘制会被排队，并在endFrame时按层深度和排序键排序后输出，隐藏层上的绘制会被丢弃
+   */
+  setDeferredRendering(enabled: boolean): void;
+
+  /**
+   * Check if deferred rendering is enabled
+   * 检查是否启用了延迟渲染
+   */
+  isDeferredRendering(): boolean;
+
+  /**
+   * Sort and emit all queued draws immediately
+   * 立即排序并输出所有排队的绘制
+   */
+  flushDeferredDraws(): void;
+
   // ===== Camera System =====
   // 相机系统
 
@@ -285,8 +477,9 @@ export interface IGameRenderer extends IRenderer {
   // 批量渲染
 
   /**
-   * Begin batch rendering for optimization
-   * 开始批量渲染以进行优化
+   * Begin batch rendering for optimization; consecutive texture and sprite draws are merged
+   * into sprite batches until endBatch
+   * 开始批量渲染以进行优化；在endBatch之前，连续的纹理和精灵绘制会合并为精灵批次
    */
   beginBatch(): void;
 
@@ -9,12 +9,15 @@ import {
   LineStyle,
   ShapeStyle,
   TextStyle,
+  TextBlockStyle,
   TextureStyle,
   Transform2D,
   ITexture,
   RenderStatistics,
   Viewport,
-  RenderState
+  RenderState,
+  FillRule,
+  Paint
 } from '../types/RenderTypes';
 
 /**
@@ -109,6 +112,75 @@ export interface IRenderer {
    */
   drawEllipse(_bounds: FixedRect, _style: ShapeStyle): void;
 
+  // ===== Path Drawing =====
+  // 路径绘制
+
+  /**
+   * Start a new empty path, discarding the current one
+   * 开始新的空路径，丢弃当前路径
+   */
+  beginPath(): void;
+
+  /**
+   * Start a new subpath at a point
+   * 在某点开始新的子路径
+   */
+  moveTo(_point: FixedVector2): void;
+
+  /**
+   * Add a straight line from the current point
+   * 从当前点添加直线
+   */
+  lineTo(_point: FixedVector2): void;
+
+  /**
+   * Add a quadratic Bézier curve from the current point
+   * 从当前点添加二次贝塞尔曲线
+   */
+  quadraticCurveTo(_control: FixedVector2, _point: FixedVector2): void;
+
+  /**
+   * Add a cubic Bézier curve from the current point
+   * 从当前点添加三次贝塞尔曲线
+   */
+  bezierCurveTo(_control1: FixedVector2, _control2: FixedVector2, _point: FixedVector2): void;
+
+  /**
+   * Add a circular arc, joined to the current point by a straight line; angles are in radians
+   * 添加圆弧，并以直线连接到当前点；角度以弧度为单位
+   */
+  arc(
+    _center: FixedVector2,
+    _radius: Fixed,
+    _startAngle: Fixed,
+    _endAngle: Fixed,
+    _counterclockwise?: boolean
+  ): void;
+
+  /**
+   * Add an arc rounding the corner at point1 between the current point and point2
+   * 添加圆化当前点与point2之间位于point1处拐角的圆弧
+   */
+  arcTo(_point1: FixedVector2, _point2: FixedVector2, _radius: Fixed): void;
+
+  /**
+   * Close the current subpath with a line back to its start
+   * 以回到起点的直线闭合当前子路径
+   */
+  closePath(): void;
+
+  /**
+   * Fill the current path with a color or gradient; open subpaths are closed implicitly
+   * 使用颜色或渐变填充当前路径；未闭合的子路径会被隐式闭合
+   */
+  fillPath(_paint: Paint, _fillRule?: FillRule): void;
+
+  /**
+   * Stroke the current path with joins, caps and dashes from the line style
+   * 使用线条样式中的连接、端点和虚线描边当前路径
+   */
+  strokePath(_style: LineStyle): void;
+
   // ===== Text Rendering =====
   // 文本渲染
 
@@ -124,6 +196,18 @@ export interface IRenderer {
    */
   measureText(_text: string, _style: TextStyle): FixedVector2;
 
+  /**
+   * Draw a wrapped, aligned and optionally marked-up text block with its top-left at position
+   * 绘制自动换行、对齐并可带标记的文本块，其左上角位于position
+   */
+  drawTextBlock(_text: string, _position: FixedVector2, _style: TextBlockStyle): void;
+
+  /**
+   * Measure the size of a text block as drawTextBlock would lay it out
+   * 按drawTextBlock的布局方式测量文本块尺寸
+   */
+  measureTextBlock(_text: string, _style: TextBlockStyle): FixedVector2;
+
   // ===== Texture Rendering =====
   // 纹理渲染
 
@@ -216,6 +300,21 @@ export interface IRenderer {
    */
   resetStatistics(): void;
 
+  // ===== Culling =====
+  // 剔除
+
+  /**
+   * Enable or disable skipping draws whose world bounds lie outside the view
+   * 启用或禁用跳过世界包围盒位于视图之外的绘制
+   */
+  setCullingEnabled(_enabled: boolean): void;
+
+  /**
+   * Check if culling is enabled
+   * 检查是否启用了剔除
+   */
+  isCullingEnabled(): boolean;
+
   // ===== Utility Methods =====
   // 工具方法
 
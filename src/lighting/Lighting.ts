@@ -0,0 +1,252 @@
+/**
+ * Core 2D lighting: falloff, light sampling, culling and light maps
+ * 核心2D光照：衰减、光照采样、剔除和光照贴图
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { Color, GradientStop, RadialGradient } from '../types/RenderTypes';
+import { LightConfig } from '../interfaces/IGameRenderer';
+import { OccluderSegment, getLightVisibility, isPointInPolygon } from './Shadows';
+
+/**
+ * Light that reaches the view, with its world-space bounds
+ * 到达视图的光源及其世界空间包围盒
+ */
+export interface LightMapEntry {
+  id: string;
+  light: LightConfig;
+  bounds: FixedRect;
+  visibility?: FixedVector2[]; // Lit polygon of a shadow-casting light, else the whole circle
+}
+
+/**
+ * Description of the light reaching the view, for backends to render and multiply over the scene
+ * 到达视图的光照描述，供后端渲染并正片叠底到场景上
+ *
+ * Backends fill the view with the ambient color, add each light's gradient inside its radius or
+ * visibility polygon, clamp to 1 and multiply the result over the scene.
+ * 后端用环境光颜色填充视图，在每个光源半径或可见性多边形内叠加其渐变，截断到1后正片叠底到场景上。
+ */
+export interface LightMap {
+  ambient: Color;
+  bounds: FixedRect; // World-space view bounds
+  lights: LightMapEntry[];
+  occluders: OccluderSegment[];
+}
+
+/**
+ * Light level lookup at a world point given as plain numbers
+ * 以普通数值给出世界坐标点的光照查询
+ */
+export type LightMapSampler = (x: number, y: number) => Color;
+
+// Gradient stops used to approximate quadratic falloff
+const QUADRATIC_FALLOFF_STOPS = 8;
+
+/**
+ * Fraction of a light's intensity reaching a distance, zero at and beyond the radius
+ * 光源强度到达某距离时的比例，在半径处及以外为零
+ *
+ * `constant` is full strength inside the radius, `linear` is 1 - d/r and `quadratic` is
+ * (1 - d/r)², which fades in quickly near the edge.
+ * `constant` 在半径内为全强度，`linear` 为 1 - d/r，`quadratic` 为 (1 - d/r)²，在边缘附近更快衰减。
+ */
+export function getLightAttenuation(light: LightConfig, distance: Fixed): Fixed {
+  if (!distance.lessThan(light.radius)) return Fixed.ZERO;
+  if (light.falloff === 'constant') return Fixed.ONE;
+
+  const remaining = Fixed.ONE.subtract(distance.divide(light.radius));
+  return light.falloff === 'linear' ? remaining : remaining.multiply(remaining);
+}
+
+/**
+ * World-space bounds of the area a light reaches
+ * 光源照射区域的世界空间包围盒
+ */
+export function getLightBounds(light: LightConfig): FixedRect {
+  const diameter = light.radius.multiply(Fixed.TWO);
+  return new FixedRect(
+    light.position.x.subtract(light.radius),
+    light.position.y.subtract(light.radius),
+    diameter,
+    diameter
+  );
+}
+
+/**
+ * Lights that can brighten the view, in insertion order
+ * 可照亮视图的光源，按插入顺序
+ *
+ * Lights with no radius or intensity are dropped along with those outside the view. Lights
+ * that cast shadows get the visibility polygon left by the occluders.
+ * 没有半径或强度的光源与视图外的光源一同被丢弃。投射阴影的光源会得到遮挡体留下的可见性多边形。
+ */
+export function cullLights(
+  lights: ReadonlyMap<string, LightConfig>,
+  viewBounds: FixedRect,
+  occluders: readonly OccluderSegment[] = []
+): LightMapEntry[] {
+  const visible: LightMapEntry[] = [];
+  lights.forEach((light, id) => {
+    if (!Fixed.ZERO.lessThan(light.radius) || !Fixed.ZERO.lessThan(light.intensity)) return;
+    const bounds = getLightBounds(light);
+    if (!bounds.intersects(viewBounds)) return;
+
+    const visibility = getLightVisibility(light, occluders);
+    visible.push(visibility ? { id, light, bounds, visibility } : { id, light, bounds });
+  });
+  return visible;
+}
+
+/**
+ * Light reaching a world point: the ambient color plus every light, each channel clamped to 1
+ * 到达世界坐标点的光照：环境光加上所有光源，每个通道截断到1
+ *
+ * Evaluated in fixed-point math, so gameplay checks such as stealth agree on every client.
+ * Shadow-casting lights only reach points inside the same visibility polygon the light map
+ * fills. Light colors are scaled by intensity; their alpha is not used.
+ * 以定点数学计算，因此潜行检测等游戏逻辑在所有客户端上结果一致。投射阴影的光源仅照亮光照贴图
+ * 所填充的同一可见性多边形内的点。光源颜色按强度缩放，不使用其alpha。
+ */
+export function sampleLighting(
+  lights: Iterable<LightConfig>,
+  ambient: Color,
+  point: FixedVector2,
+  occluders: readonly OccluderSegment[] = []
+): Color {
+  let r = new Fixed(ambient.r);
+  let g = new Fixed(ambient.g);
+  let b = new Fixed(ambient.b);
+
+  for (const light of lights) {
+    const distance = getLength(point.subtract(light.position));
+    const strength = getLightAttenuation(light, distance).multiply(light.intensity);
+    if (strength.equals(Fixed.ZERO)) continue;
+    const visibility = getLightVisibility(light, occluders);
+    if (visibility && !isPointInPolygon(visibility, point)) continue;
+    r = r.add(new Fixed(light.color.r).multiply(strength));
+    g = g.add(new Fixed(light.color.g).multiply(strength));
+    b = b.add(new Fixed(light.color.b).multiply(strength));
+  }
+  return { r: clampChannel(r), g: clampChannel(g), b: clampChannel(b), a: 1 };
+}
+
+/**
+ * Describe the light reaching the view
+ * 描述到达视图的光照
+ */
+export function createLightMap(
+  lights: ReadonlyMap<string, LightConfig>,
+  ambient: Color,
+  viewBounds: FixedRect,
+  occluders: readonly OccluderSegment[] = []
+): LightMap {
+  return {
+    ambient: { ...ambient },
+    bounds: viewBounds,
+    lights: cullLights(lights, viewBounds, occluders),
+    occluders: [...occluders]
+  };
+}
+
+/**
+ * Light of a light map at a world point
+ * 光照贴图在世界坐标点的光照
+ */
+export function sampleLightMap(lightMap: LightMap, point: FixedVector2): Color {
+  const lights = lightMap.lights.map(entry => entry.light);
+  return sampleLighting(lights, lightMap.ambient, point, lightMap.occluders);
+}
+
+/**
+ * Create a fast floating-point light lookup for rasterizing a light map per pixel
+ * 创建快速的浮点光照查询，用于逐像素光栅化光照贴图
+ */
+export function createLightMapSampler(lightMap: LightMap): LightMapSampler {
+  const lights = lightMap.lights.map(({ light, visibility }) => {
+    const intensity = light.intensity.toNumber();
+    return {
+      visibility: visibility && visibility.map(point => [point.x.toNumber(), point.y.toNumber()]),
+      x: light.position.x.toNumber(),
+      y: light.position.y.toNumber(),
+      radius: light.radius.toNumber(),
+      falloff: light.falloff,
+      r: light.color.r * intensity,
+      g: light.color.g * intensity,
+      b: light.color.b * intensity
+    };
+  });
+  const ambient = lightMap.ambient;
+
+  return (x, y) => {
+    let r = ambient.r;
+    let g = ambient.g;
+    let b = ambient.b;
+    for (const light of lights) {
+      const distance = Math.hypot(x - light.x, y - light.y);
+      if (distance >= light.radius) continue;
+      if (light.visibility && !isInsidePolygon(light.visibility, x, y)) continue;
+      const strength = attenuate(light.falloff, distance / light.radius);
+      r += light.r * strength;
+      g += light.g * strength;
+      b += light.b * strength;
+    }
+    return { r: Math.min(1, r), g: Math.min(1, g), b: Math.min(1, b), a: 1 };
+  };
+}
+
+/**
+ * World-space radial gradient of a light, to be added inside its radius
+ * 光源的世界空间径向渐变，在其半径内叠加绘制
+ *
+ * Linear and constant falloff are exact; quadratic falloff is approximated with several stops.
+ * 线性和恒定衰减是精确的；二次衰减用多个停靠点近似。
+ */
+export function getLightGradient(light: LightConfig): RadialGradient {
+  const intensity = light.intensity.toNumber();
+  const count = light.falloff === 'quadratic' ? QUADRATIC_FALLOFF_STOPS : 1;
+  const stops: GradientStop[] = [];
+  for (let i = 0; i <= count; i++) {
+    const offset = i / count;
+    const strength = attenuate(light.falloff, offset) * intensity;
+    stops.push({
+      offset,
+      color: {
+        r: Math.min(1, light.color.r * strength),
+        g: Math.min(1, light.color.g * strength),
+        b: Math.min(1, light.color.b * strength),
+        a: 1
+      }
+    });
+  }
+  return { type: 'radial', center: light.position, radius: light.radius, stops, space: 'world' };
+}
+
+// Attenuation at a normalized distance inside the radius
+function attenuate(falloff: LightConfig['falloff'], t: number): number {
+  if (falloff === 'constant') return 1;
+  return falloff === 'linear' ? 1 - t : (1 - t) * (1 - t);
+}
+
+// Even-odd test matching isPointInPolygon, on plain numbers
+function isInsidePolygon(polygon: number[][], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [ax, ay] = polygon[i];
+    const [bx, by] = polygon[j];
+    if (y < ay === y < by) continue;
+    if (x < ax + ((y - ay) * (bx - ax)) / (by - ay)) inside = !inside;
+  }
+  return inside;
+}
+
+// Vector length in fixed point, measured along its own direction
+function getLength(vector: FixedVector2): Fixed {
+  if (vector.x.equals(Fixed.ZERO) && vector.y.equals(Fixed.ZERO)) return Fixed.ZERO;
+  const unit = vector.normalize();
+  return vector.x.multiply(unit.x).add(vector.y.multiply(unit.y));
+}
+
+function clampChannel(value: Fixed): number {
+  return Math.min(1, Math.max(0, value.toNumber()));
+}
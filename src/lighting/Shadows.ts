@@ -0,0 +1,277 @@
+/**
+ * Occluder geometry and per-light visibility polygons for 2D shadows
+ * 2D阴影的遮挡几何体与逐光源可见性多边形
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { LightConfig, Occluder } from '../interfaces/IGameRenderer';
+
+/**
+ * Edge that blocks light
+ * 阻挡光线的边
+ */
+export interface OccluderSegment {
+  start: FixedVector2;
+  end: FixedVector2;
+}
+
+// Subdivisions per side of the square whose normalized perimeter gives evenly spread directions
+const CIRCLE_OCCLUDER_SUBDIVISIONS = 4;
+const LIGHT_RAY_SUBDIVISIONS = 16;
+
+// Sideways offset of the rays cast just past each occluder corner
+const CORNER_RAY_OFFSET = new Fixed(1 / 4096);
+
+// Directions built in fixed point from the unit square, so every client casts identical rays
+const CIRCLE_OCCLUDER_DIRECTIONS = createDirections(CIRCLE_OCCLUDER_SUBDIVISIONS);
+const LIGHT_RAY_DIRECTIONS = createDirections(LIGHT_RAY_SUBDIVISIONS);
+
+// Angles for rotating boxes, reduced in fixed point before the sine and cosine series
+const PI = new Fixed(Math.PI);
+const HALF_PI = PI.divide(Fixed.TWO);
+const TWO_PI = PI.multiply(Fixed.TWO);
+// Divisors of the nested Taylor series terms, accurate to Q16.16 within a quarter turn
+const SINE_SERIES = [6, 20, 42, 72, 110].map(divisor => new Fixed(divisor));
+const COSINE_SERIES = [2, 12, 30, 56, 90].map(divisor => new Fixed(divisor));
+
+/**
+ * Edges of an occluder; polygon, circle and box outlines are closed
+ * 遮挡体的边；多边形、圆形和盒形轮廓是闭合的
+ */
+export function getOccluderSegments(occluder: Occluder): OccluderSegment[] {
+  switch (occluder.type) {
+    case 'segment':
+      return [{ start: occluder.start, end: occluder.end }];
+    case 'polygon':
+      return getOutlineSegments(occluder.vertices);
+    case 'circle':
+      return getOutlineSegments(
+        CIRCLE_OCCLUDER_DIRECTIONS.map(direction =>
+          occluder.center.add(direction.multiply(occluder.radius))
+        )
+      );
+    case 'box': {
+      // Rotated in fixed point like the rays, so every client gets the same corners
+      const [sin, cos] = getSinCos(occluder.rotation);
+      const halfWidth = occluder.size.x.divide(Fixed.TWO);
+      const halfHeight = occluder.size.y.divide(Fixed.TWO);
+      const corners = [
+        [halfWidth.negate(), halfHeight.negate()],
+        [halfWidth, halfHeight.negate()],
+        [halfWidth, halfHeight],
+        [halfWidth.negate(), halfHeight]
+      ].map(([x, y]) =>
+        occluder.center.add(
+          new FixedVector2(
+            x.multiply(cos).subtract(y.multiply(sin)),
+            x.multiply(sin).add(y.multiply(cos))
+          )
+        )
+      );
+      return getOutlineSegments(corners);
+    }
+  }
+}
+
+/**
+ * Area a light reaches around occluders, as a polygon clipped to the light radius
+ * 光源绕过遮挡体所照亮的区域，为裁剪到光源半径内的多边形
+ *
+ * Rays are cast at every occluder corner, just either side of it, and at 64 directions around
+ * the light, all in fixed-point math. Returns undefined when the light does not cast shadows or
+ * no occluder reaches it, in which case the whole circle is lit.
+ * 在每个遮挡体角点及其两侧略偏处、以及光源周围64个方向上投射光线，全部使用定点数学。
+ * 光源不投射阴影或没有遮挡体到达它时返回undefined，此时整个圆都被照亮。
+ */
+export function getLightVisibility(
+  light: LightConfig,
+  occluders: readonly OccluderSegment[]
+): FixedVector2[] | undefined {
+  if (!light.castShadows) return undefined;
+
+  const origin = light.position;
+  const nearby = occluders.filter(segment => segmentReaches(segment, origin, light.radius));
+  if (nearby.length === 0) return undefined;
+
+  const directions = [...LIGHT_RAY_DIRECTIONS];
+  for (const segment of nearby) {
+    for (const corner of [segment.start, segment.end]) {
+      const offset = corner.subtract(origin);
+      if (offset.x.equals(Fixed.ZERO) && offset.y.equals(Fixed.ZERO)) continue;
+      const direction = offset.normalize();
+      const side = new FixedVector2(direction.y.negate(), direction.x).multiply(CORNER_RAY_OFFSET);
+      directions.push(
+        direction,
+        direction.add(side).normalize(),
+        direction.subtract(side).normalize()
+      );
+    }
+  }
+
+  const angles = directions.map(getPseudoAngle);
+  const order = directions.map((_, i) => i).sort((a, b) => compareFixed(angles[a], angles[b]));
+
+  const polygon: FixedVector2[] = [];
+  for (const i of order) {
+    const ray = directions[i].multiply(light.radius);
+    let nearest = Fixed.ONE;
+    for (const segment of nearby) {
+      const t = intersectRay(origin, ray, segment);
+      if (t && t.lessThan(nearest)) nearest = t;
+    }
+
+    const point = origin.add(ray.multiply(nearest));
+    const previous = polygon[polygon.length - 1];
+    if (!previous || !previous.x.equals(point.x) || !previous.y.equals(point.y)) {
+      polygon.push(point);
+    }
+  }
+  return polygon;
+}
+
+/**
+ * Check whether the straight line between two points crosses no occluder
+ * 检查两点之间的直线是否未穿过任何遮挡体
+ *
+ * Touching an occluder at either end point does not block the line.
+ * 在任一端点处接触遮挡体不会阻挡该直线。
+ */
+export function hasLineOfSight(
+  from: FixedVector2,
+  to: FixedVector2,
+  occluders: readonly OccluderSegment[]
+): boolean {
+  const ray = to.subtract(from);
+  for (const segment of occluders) {
+    const t = intersectRay(from, ray, segment);
+    if (t && Fixed.ZERO.lessThan(t) && t.lessThan(Fixed.ONE)) return false;
+  }
+  return true;
+}
+
+/**
+ * Even-odd test of a point against a polygon in fixed-point math
+ * 以定点数学对点与多边形进行奇偶规则测试
+ */
+export function isPointInPolygon(polygon: readonly FixedVector2[], point: FixedVector2): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (point.y.lessThan(a.y) === point.y.lessThan(b.y)) continue;
+    const slope = b.x.subtract(a.x).divide(b.y.subtract(a.y));
+    const crossing = a.x.add(point.y.subtract(a.y).multiply(slope));
+    if (point.x.lessThan(crossing)) inside = !inside;
+  }
+  return inside;
+}
+
+// Closed outline through the vertices
+function getOutlineSegments(vertices: readonly FixedVector2[]): OccluderSegment[] {
+  return vertices.map((start, i) => ({ start, end: vertices[(i + 1) % vertices.length] }));
+}
+
+// Fraction of the ray where it meets the segment, or null when they do not meet ahead
+function intersectRay(
+  origin: FixedVector2,
+  ray: FixedVector2,
+  segment: OccluderSegment
+): Fixed | null {
+  const edge = segment.end.subtract(segment.start);
+  const denominator = cross(ray, edge);
+  if (denominator.equals(Fixed.ZERO)) return null;
+
+  const toStart = segment.start.subtract(origin);
+  const t = cross(toStart, edge).divide(denominator);
+  const u = cross(toStart, ray).divide(denominator);
+  if (t.lessThan(Fixed.ZERO) || u.lessThan(Fixed.ZERO) || u.greaterThan(Fixed.ONE)) return null;
+  return t;
+}
+
+// Whether a segment's bounds overlap the square around a light
+function segmentReaches(segment: OccluderSegment, origin: FixedVector2, radius: Fixed): boolean {
+  const { start, end } = segment;
+  const left = origin.x.subtract(radius);
+  const right = origin.x.add(radius);
+  const top = origin.y.subtract(radius);
+  const bottom = origin.y.add(radius);
+  return !(
+    (start.x.lessThan(left) && end.x.lessThan(left)) ||
+    (start.x.greaterThan(right) && end.x.greaterThan(right)) ||
+    (start.y.lessThan(top) && end.y.lessThan(top)) ||
+    (start.y.greaterThan(bottom) && end.y.greaterThan(bottom))
+  );
+}
+
+// Monotonic stand-in for the angle of a direction, in [0, 4) without trigonometry
+function getPseudoAngle(direction: FixedVector2): Fixed {
+  const { x, y } = direction;
+  if (!y.lessThan(Fixed.ZERO)) {
+    return !x.lessThan(Fixed.ZERO)
+      ? y.divide(x.add(y))
+      : Fixed.ONE.subtract(x.divide(y.subtract(x)));
+  }
+  return x.lessThan(Fixed.ZERO)
+    ? Fixed.TWO.subtract(y.divide(x.negate().subtract(y)))
+    : new Fixed(3).add(x.divide(x.subtract(y)));
+}
+
+// Unit directions through evenly spaced points on the square perimeter, in order around it
+function createDirections(subdivisions: number): FixedVector2[] {
+  const directions: FixedVector2[] = [];
+  for (let k = 0; k < subdivisions; k++) {
+    const step = -1 + (2 * k) / subdivisions;
+    directions.push(new FixedVector2(new Fixed(1), new Fixed(step)));
+  }
+  for (let k = 0; k < subdivisions; k++) {
+    const step = 1 - (2 * k) / subdivisions;
+    directions.push(new FixedVector2(new Fixed(step), new Fixed(1)));
+  }
+  for (let k = 0; k < subdivisions; k++) {
+    const step = 1 - (2 * k) / subdivisions;
+    directions.push(new FixedVector2(new Fixed(-1), new Fixed(step)));
+  }
+  for (let k = 0; k < subdivisions; k++) {
+    const step = -1 + (2 * k) / subdivisions;
+    directions.push(new FixedVector2(new Fixed(step), new Fixed(-1)));
+  }
+  return directions.map(direction => direction.normalize());
+}
+
+// Sine and cosine of an angle in radians, folded into [-π/2, π/2] where the series converge
+function getSinCos(angle: Fixed): [Fixed, Fixed] {
+  const turns = angle.add(PI).divide(TWO_PI).floor();
+  let x = angle.subtract(turns.multiply(TWO_PI));
+  let cosineSign = Fixed.ONE;
+  if (x.greaterThan(HALF_PI)) {
+    x = PI.subtract(x);
+    cosineSign = cosineSign.negate();
+  } else if (x.lessThan(HALF_PI.negate())) {
+    x = PI.negate().subtract(x);
+    cosineSign = cosineSign.negate();
+  }
+
+  const squared = x.multiply(x);
+  return [
+    x.multiply(evaluateSeries(squared, SINE_SERIES)),
+    cosineSign.multiply(evaluateSeries(squared, COSINE_SERIES))
+  ];
+}
+
+// 1 - x²/d0 (1 - x²/d1 (1 - ...)), evaluated from the innermost term
+function evaluateSeries(squared: Fixed, divisors: readonly Fixed[]): Fixed {
+  let value = Fixed.ONE;
+  for (let i = divisors.length - 1; i >= 0; i--) {
+    value = Fixed.ONE.subtract(squared.multiply(value).divide(divisors[i]));
+  }
+  return value;
+}
+
+function cross(a: FixedVector2, b: FixedVector2): Fixed {
+  return a.x.multiply(b.y).subtract(a.y.multiply(b.x));
+}
+
+function compareFixed(a: Fixed, b: Fixed): number {
+  if (a.lessThan(b)) return -1;
+  return b.lessThan(a) ? 1 : 0;
+}
@@ -0,0 +1,235 @@
+/**
+ * Gradient evaluation, space conversion and baking for backends without native gradients
+ * 渐变求值、空间转换，以及为不支持原生渐变的后端进行烘焙
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import {
+  Color,
+  ColorUtils,
+  Gradient,
+  GradientStop,
+  ITexture,
+  Matrix2x3,
+  Paint,
+  ShapeStyle
+} from '../types/RenderTypes';
+import { SoftwareFramebuffer, createPixelTexture } from '../software/SoftwareFramebuffer';
+
+/**
+ * Gradient color lookup at a point given as plain numbers
+ * 以普通数值给出点坐标的渐变颜色查询
+ */
+export type GradientSampler = (x: number, y: number) => Color;
+
+// Samples taken along a gradient when averaging its color
+const AVERAGE_SAMPLES = 32;
+
+/**
+ * Check whether a paint is a gradient rather than a solid color
+ * 检查颜料是否为渐变而非纯色
+ */
+export function isGradient(paint: Paint): paint is Gradient {
+  return 'type' in paint;
+}
+
+/**
+ * Color of the stops at a position, clamped to the first and last stop
+ * 停靠点在某位置的颜色，超出范围时取首尾停靠点
+ */
+export function getGradientColor(stops: readonly GradientStop[], t: number): Color {
+  if (stops.length === 0) return ColorUtils.TRANSPARENT;
+  if (t <= stops[0].offset) return stops[0].color;
+
+  for (let i = 1; i < stops.length; i++) {
+    const previous = stops[i - 1];
+    const stop = stops[i];
+    if (t < stop.offset) {
+      const span = stop.offset - previous.offset;
+      if (span <= 0) return stop.color;
+      return ColorUtils.lerp(previous.color, stop.color, (t - previous.offset) / span);
+    }
+  }
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * Create a fast color lookup for a gradient in its own coordinate space
+ * 为渐变创建在其自身坐标空间中的快速颜色查询
+ *
+ * Stops are sorted by offset. Degenerate gradients, a zero-length line or zero radius, paint
+ * nothing, as in canvas.
+ * 停靠点按偏移排序。退化渐变（零长度直线或零半径）与canvas一样不绘制任何内容。
+ */
+export function createGradientSampler(gradient: Gradient): GradientSampler {
+  const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+  const transparent = (): Color => ColorUtils.TRANSPARENT;
+
+  switch (gradient.type) {
+    case 'linear': {
+      const sx = gradient.start.x.toNumber();
+      const sy = gradient.start.y.toNumber();
+      const dx = gradient.end.x.toNumber() - sx;
+      const dy = gradient.end.y.toNumber() - sy;
+      const lengthSquared = dx * dx + dy * dy;
+      if (lengthSquared === 0) return transparent;
+      return (x, y) => getGradientColor(stops, ((x - sx) * dx + (y - sy) * dy) / lengthSquared);
+    }
+    case 'radial': {
+      const cx = gradient.center.x.toNumber();
+      const cy = gradient.center.y.toNumber();
+      const radius = gradient.radius.toNumber();
+      if (radius <= 0) return transparent;
+      return (x, y) => getGradientColor(stops, Math.hypot(x - cx, y - cy) / radius);
+    }
+    case 'conic': {
+      const cx = gradient.center.x.toNumber();
+      const cy = gradient.center.y.toNumber();
+      const start = gradient.startAngle.toNumber();
+      const turn = Math.PI * 2;
+      return (x, y) => {
+        const angle = Math.atan2(y - cy, x - cx) - start;
+        return getGradientColor(stops, (((angle / turn) % 1) + 1) % 1);
+      };
+    }
+  }
+}
+
+/**
+ * Color of a gradient at a point
+ * 渐变在某点的颜色
+ */
+export function sampleGradient(gradient: Gradient, point: FixedVector2): Color {
+  return createGradientSampler(gradient)(point.x.toNumber(), point.y.toNumber());
+}
+
+/**
+ * Mean color along a gradient, a solid stand-in for backends that cannot draw one
+ * 沿渐变的平均颜色，作为无法绘制渐变的后端的纯色替代
+ */
+export function getGradientAverageColor(gradient: Gradient): Color {
+  const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+  const sum = { r: 0, g: 0, b: 0, a: 0 };
+  for (let i = 0; i < AVERAGE_SAMPLES; i++) {
+    const color = getGradientColor(stops, (i + 0.5) / AVERAGE_SAMPLES);
+    sum.r += color.r;
+    sum.g += color.g;
+    sum.b += color.b;
+    sum.a += color.a;
+  }
+  return {
+    r: sum.r / AVERAGE_SAMPLES,
+    g: sum.g / AVERAGE_SAMPLES,
+    b: sum.b / AVERAGE_SAMPLES,
+    a: sum.a / AVERAGE_SAMPLES
+  };
+}
+
+/**
+ * Express a world-space gradient in the local space of a local-to-world matrix
+ * 将世界空间渐变表示到局部到世界矩阵的局部空间中
+ *
+ * Linear gradients convert exactly. Radial and conic gradients keep their circular shape, so
+ * they are exact for rotation, translation and uniform scale only.
+ * 线性渐变精确转换。径向和锥形渐变保持圆形，因此仅对旋转、平移和等比缩放精确。
+ */
+export function toLocalGradient(gradient: Gradient, localToWorld: Matrix2x3): Gradient {
+  if (gradient.space !== 'world') return gradient;
+
+  const a = localToWorld.a.toNumber();
+  const b = localToWorld.b.toNumber();
+  const c = localToWorld.c.toNumber();
+  const d = localToWorld.d.toNumber();
+  const determinant = a * d - b * c;
+  if (determinant === 0) return { ...gradient, space: 'local' };
+  const worldToLocal = localToWorld.invert();
+
+  switch (gradient.type) {
+    case 'linear': {
+      // The gradient parameter is linear in local coordinates with direction Lᵀ(end - start)
+      const dx = gradient.end.x.toNumber() - gradient.start.x.toNumber();
+      const dy = gradient.end.y.toNumber() - gradient.start.y.toNumber();
+      const lengthSquared = dx * dx + dy * dy || 1;
+      const gx = (a * dx + b * dy) / lengthSquared;
+      const gy = (c * dx + d * dy) / lengthSquared;
+      const scale = 1 / (gx * gx + gy * gy || 1);
+      const start = worldToLocal.transformPoint(gradient.start);
+      const end = new FixedVector2(
+        new Fixed(start.x.toNumber() + gx * scale),
+        new Fixed(start.y.toNumber() + gy * scale)
+      );
+      return { ...gradient, start, end, space: 'local' };
+    }
+    case 'radial':
+      return {
+        ...gradient,
+        center: worldToLocal.transformPoint(gradient.center),
+        radius: new Fixed(gradient.radius.toNumber() / Math.sqrt(Math.abs(determinant))),
+        space: 'local'
+      };
+    case 'conic':
+      return {
+        ...gradient,
+        center: worldToLocal.transformPoint(gradient.center),
+        startAngle: new Fixed(gradient.startAngle.toNumber() - Math.atan2(b, a)),
+        space: 'local'
+      };
+  }
+}
+
+/**
+ * Bake a gradient into per-vertex colors, for meshes drawn with vertex color interpolation
+ * 将渐变烘焙为逐顶点颜色，用于以顶点颜色插值绘制的网格
+ *
+ * Interpolation is exact for two-stop linear gradients; other gradients need finely divided
+ * meshes or a texture from createGradientTexture.
+ * 对双停靠点线性渐变插值是精确的；其他渐变需要细分的网格或createGradientTexture生成的纹理。
+ */
+export function getGradientVertexColors(
+  gradient: Gradient,
+  vertices: readonly FixedVector2[]
+): Color[] {
+  const sample = createGradientSampler(gradient);
+  return vertices.map(vertex => sample(vertex.x.toNumber(), vertex.y.toNumber()));
+}
+
+/**
+ * Bake the part of a gradient covering the bounds into a pixel texture
+ * 将渐变覆盖包围盒的部分烘焙为像素纹理
+ */
+export function createGradientTexture(
+  gradient: Gradient,
+  bounds: FixedRect,
+  width: number,
+  height: number
+): ITexture {
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Gradient texture size must be positive, got ${width}x${height}`);
+  }
+
+  const sample = createGradientSampler(gradient);
+  const framebuffer = new SoftwareFramebuffer(width, height);
+  const x0 = bounds.x.toNumber();
+  const y0 = bounds.y.toNumber();
+  const stepX = bounds.width.toNumber() / width;
+  const stepY = bounds.height.toNumber() / height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = sample(x0 + (x + 0.5) * stepX, y0 + (y + 0.5) * stepY);
+      const i = (y * width + x) * 4;
+      framebuffer.data[i] = color.r * 255;
+      framebuffer.data[i + 1] = color.g * 255;
+      framebuffer.data[i + 2] = color.b * 255;
+      framebuffer.data[i + 3] = color.a * 255;
+    }
+  }
+  return createPixelTexture(framebuffer);
+}
+
+/**
+ * Fill paint of a shape style, the gradient taking precedence over the solid color
+ * 形状样式的填充颜料，渐变优先于纯色
+ */
+export function getShapeFillPaint(style: ShapeStyle): Paint | undefined {
+  return style.fillGradient || style.fillColor;
+}
@@ -0,0 +1,504 @@
+/**
+ * Versioned JSON interchange format for particle effects
+ * 粒子效果的版本化JSON交换格式
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { Color, ITexture, GradientStop } from '../types/RenderTypes';
+import {
+  ParticleConfig,
+  ParticleEmitterShape,
+  ParticleBurst,
+  ParticleCurve,
+  ParticleSubEmitter
+} from '../interfaces/IGameRenderer';
+
+/**
+ * Current particle effect format version
+ * 当前粒子效果格式版本
+ */
+export const PARTICLE_EFFECT_VERSION = 1;
+
+/**
+ * 2D vector in the particle effect format
+ * 粒子效果格式中的二维向量
+ */
+export interface ParticleVectorData {
+  x: number;
+  y: number;
+}
+
+/**
+ * Emitter shape in the particle effect format, with the fields of ParticleEmitterShape
+ * 粒子效果格式中的发射器形状，字段与ParticleEmitterShape相同
+ */
+export type ParticleEmitterShapeData =
+  | { type: 'point' }
+  | { type: 'circle'; radius: number }
+  | { type: 'ring'; innerRadius: number; outerRadius: number }
+  | { type: 'rect'; width: number; height: number }
+  | { type: 'line'; start: ParticleVectorData; end: ParticleVectorData }
+  | { type: 'polygonEdge'; vertices: ParticleVectorData[] };
+
+/**
+ * Burst in the particle effect format; JSON has no Infinity, so endless bursts are 'infinite'
+ * 粒子效果格式中的爆发；JSON没有Infinity，因此无限重复的爆发写为 'infinite'
+ */
+export interface ParticleBurstData {
+  time: number;
+  count: number;
+  cycles?: number | 'infinite';
+  interval?: number;
+}
+
+/**
+ * Emitter settings in the particle effect format, mirroring ParticleConfig
+ * 粒子效果格式中的发射器设置，与ParticleConfig对应
+ *
+ * Fixed values are plain numbers, which convert back to the same Fixed values exactly.
+ * 定点数值以普通数字存储，可精确转换回相同的定点数值。
+ */
+export interface ParticleEmitterData {
+  texture: string; // Name passed to the texture resolver
+  maxParticles: number;
+  emissionRate: number;
+  lifetime: number;
+  startColor: Color;
+  endColor: Color;
+  startSize: number;
+  endSize: number;
+  startVelocity: ParticleVectorData;
+  velocityVariation: ParticleVectorData;
+  gravity: ParticleVectorData;
+  fadeIn: number;
+  fadeOut: number;
+  shape?: ParticleEmitterShapeData;
+  bursts?: ParticleBurstData[];
+  colorOverLifetime?: GradientStop[];
+  sizeOverLifetime?: Array<{ time: number; value: number }>;
+  velocityOverLifetime?: Array<{ time: number; value: number }>;
+  rotationOverLifetime?: Array<{ time: number; value: number }>;
+  startRotation?: number;
+  rotationVariation?: number;
+  angularVelocity?: number;
+  angularVelocityVariation?: number;
+  drag?: number;
+  subEmitters?: Array<{ emitter: ParticleEmitterData; count: number; inheritVelocity?: number }>;
+}
+
+/**
+ * Particle effect document
+ * 粒子效果文档
+ */
+export interface ParticleEffectData {
+  version: number;
+  name?: string;
+  emitter: ParticleEmitterData;
+}
+
+type MigrationStep = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Upgrade from each older format version to the next, keyed by the version the step reads.
+// Version 1 is the first release of the format, so there is nothing to upgrade yet.
+const MIGRATIONS: Record<number, MigrationStep> = {};
+
+const SHAPE_TYPES = ['point', 'circle', 'ring', 'rect', 'line', 'polygonEdge'];
+
+/**
+ * Upgrade a particle effect document of any supported version to the current version
+ * 将任何受支持版本的粒子效果文档升级到当前版本
+ */
+export function migrateParticleEffect(data: unknown): ParticleEffectData {
+  let document = readObject(data, 'effect');
+  let version = readInteger(document.version, 'version');
+  if (version > PARTICLE_EFFECT_VERSION) {
+    throw new Error(
+      `Particle effect version ${version} is newer than the supported version ` +
+        `${PARTICLE_EFFECT_VERSION}`
+    );
+  }
+
+  while (version < PARTICLE_EFFECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Particle effect version ${version} is no longer supported`);
+    }
+    document = migrate(document);
+    version++;
+  }
+  return { ...document, version } as unknown as ParticleEffectData;
+}
+
+/**
+ * Load a particle effect from JSON text or parsed data, migrating older versions and
+ * resolving texture names
+ * 从JSON文本或已解析数据加载粒子效果，迁移旧版本并解析纹理名称
+ *
+ * Invalid documents throw an error naming the offending field, such as
+ * `emitter.bursts[0].count`.
+ * 无效文档会抛出指明出错字段的错误，例如 `emitter.bursts[0].count`。
+ */
+export function loadParticleEffect(
+  source: string | ParticleEffectData,
+  getTexture: (name: string) => ITexture
+): ParticleConfig {
+  let data: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`Particle effect is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const effect = migrateParticleEffect(data);
+  if (effect.name !== undefined && typeof effect.name !== 'string') {
+    fail('name', `must be a string, got ${describe(effect.name)}`);
+  }
+  return readEmitter(effect.emitter, 'emitter', getTexture);
+}
+
+/**
+ * Save a particle config as a current-version particle effect document
+ * 将粒子配置保存为当前版本的粒子效果文档
+ */
+export function saveParticleEffect(
+  config: ParticleConfig,
+  getTextureName: (texture: ITexture) => string,
+  name?: string
+): ParticleEffectData {
+  return {
+    version: PARTICLE_EFFECT_VERSION,
+    ...(name === undefined ? {} : { name }),
+    emitter: writeEmitter(config, getTextureName)
+  };
+}
+
+// ===== Reading =====
+// 读取
+
+function readEmitter(
+  value: unknown,
+  path: string,
+  getTexture: (name: string) => ITexture
+): ParticleConfig {
+  const data = readObject(value, path);
+  const textureName = data.texture;
+  if (typeof textureName !== 'string' || textureName === '') {
+    fail(`${path}.texture`, `must be a texture name, got ${describe(textureName)}`);
+  }
+
+  const config: ParticleConfig = {
+    texture: getTexture(textureName),
+    maxParticles: readInteger(data.maxParticles, `${path}.maxParticles`),
+    emissionRate: readFixed(data.emissionRate, `${path}.emissionRate`),
+    lifetime: readFixed(data.lifetime, `${path}.lifetime`),
+    startColor: readColor(data.startColor, `${path}.startColor`),
+    endColor: readColor(data.endColor, `${path}.endColor`),
+    startSize: readFixed(data.startSize, `${path}.startSize`),
+    endSize: readFixed(data.endSize, `${path}.endSize`),
+    startVelocity: readVector(data.startVelocity, `${path}.startVelocity`),
+    velocityVariation: readVector(data.velocityVariation, `${path}.velocityVariation`),
+    gravity: readVector(data.gravity, `${path}.gravity`),
+    fadeIn: readFixed(data.fadeIn, `${path}.fadeIn`),
+    fadeOut: readFixed(data.fadeOut, `${path}.fadeOut`)
+  };
+
+  if (data.shape !== undefined) {
+    config.shape = readShape(data.shape, `${path}.shape`);
+  }
+  if (data.bursts !== undefined) {
+    config.bursts = readArray(data.bursts, `${path}.bursts`).map((burst, i) =>
+      readBurst(burst, `${path}.bursts[${i}]`)
+    );
+  }
+  if (data.colorOverLifetime !== undefined) {
+    const stops = readArray(data.colorOverLifetime, `${path}.colorOverLifetime`);
+    config.colorOverLifetime = stops.map((stop, i) => {
+      const stopPath = `${path}.colorOverLifetime[${i}]`;
+      const entry = readObject(stop, stopPath);
+      return {
+        offset: readNumber(entry.offset, `${stopPath}.offset`),
+        color: readColor(entry.color, `${stopPath}.color`)
+      };
+    });
+  }
+  if (data.sizeOverLifetime !== undefined) {
+    config.sizeOverLifetime = readCurve(data.sizeOverLifetime, `${path}.sizeOverLifetime`);
+  }
+  if (data.velocityOverLifetime !== undefined) {
+    const curvePath = `${path}.velocityOverLifetime`;
+    config.velocityOverLifetime = readCurve(data.velocityOverLifetime, curvePath);
+  }
+  if (data.rotationOverLifetime !== undefined) {
+    const curvePath = `${path}.rotationOverLifetime`;
+    config.rotationOverLifetime = readCurve(data.rotationOverLifetime, curvePath);
+  }
+  for (const key of [
+    'startRotation',
+    'rotationVariation',
+    'angularVelocity',
+    'angularVelocityVariation',
+    'drag'
+  ] as const) {
+    if (data[key] !== undefined) {
+      config[key] = readFixed(data[key], `${path}.${key}`);
+    }
+  }
+  if (data.subEmitters !== undefined) {
+    config.subEmitters = readArray(data.subEmitters, `${path}.subEmitters`).map((sub, i) =>
+      readSubEmitter(sub, `${path}.subEmitters[${i}]`, getTexture)
+    );
+  }
+  return config;
+}
+
+function readShape(value: unknown, path: string): ParticleEmitterShape {
+  const data = readObject(value, path);
+  switch (data.type) {
+    case 'point':
+      return { type: 'point' };
+    case 'circle':
+      return { type: 'circle', radius: readFixed(data.radius, `${path}.radius`) };
+    case 'ring':
+      return {
+        type: 'ring',
+        innerRadius: readFixed(data.innerRadius, `${path}.innerRadius`),
+        outerRadius: readFixed(data.outerRadius, `${path}.outerRadius`)
+      };
+    case 'rect':
+      return {
+        type: 'rect',
+        width: readFixed(data.width, `${path}.width`),
+        height: readFixed(data.height, `${path}.height`)
+      };
+    case 'line':
+      return {
+        type: 'line',
+        start: readVector(data.start, `${path}.start`),
+        end: readVector(data.end, `${path}.end`)
+      };
+    case 'polygonEdge':
+      return {
+        type: 'polygonEdge',
+        vertices: readArray(data.vertices, `${path}.vertices`).map((vertex, i) =>
+          readVector(vertex, `${path}.vertices[${i}]`)
+        )
+      };
+    default:
+      return fail(
+        `${path}.type`,
+        `must be one of ${SHAPE_TYPES.join(', ')}, got ${describe(data.type)}`
+      );
+  }
+}
+
+function readBurst(value: unknown, path: string): ParticleBurst {
+  const data = readObject(value, path);
+  const burst: ParticleBurst = {
+    time: readFixed(data.time, `${path}.time`),
+    count: readInteger(data.count, `${path}.count`)
+  };
+  if (data.cycles === 'infinite') {
+    burst.cycles = Infinity;
+  } else if (data.cycles !== undefined) {
+    burst.cycles = readInteger(data.cycles, `${path}.cycles`);
+  }
+  if (data.interval !== undefined) {
+    burst.interval = readFixed(data.interval, `${path}.interval`);
+  }
+  return burst;
+}
+
+function readCurve(value: unknown, path: string): ParticleCurve {
+  return readArray(value, path).map((key, i) => {
+    const keyPath = `${path}[${i}]`;
+    const data = readObject(key, keyPath);
+    return {
+      time: readFixed(data.time, `${keyPath}.time`),
+      value: readFixed(data.value, `${keyPath}.value`)
+    };
+  });
+}
+
+function readSubEmitter(
+  value: unknown,
+  path: string,
+  getTexture: (name: string) => ITexture
+): ParticleSubEmitter {
+  const data = readObject(value, path);
+  const sub: ParticleSubEmitter = {
+    config: readEmitter(data.emitter, `${path}.emitter`, getTexture),
+    count: readInteger(data.count, `${path}.count`)
+  };
+  if (data.inheritVelocity !== undefined) {
+    sub.inheritVelocity = readFixed(data.inheritVelocity, `${path}.inheritVelocity`);
+  }
+  return sub;
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    fail(path, `must be an object, got ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(path, `must be an array, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(path, `must be a finite number, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function readInteger(value: unknown, path: string): number {
+  const n = readNumber(value, path);
+  if (!Number.isInteger(n) || n < 0) {
+    fail(path, `must be a non-negative integer, got ${n}`);
+  }
+  return n;
+}
+
+function readFixed(value: unknown, path: string): Fixed {
+  return new Fixed(readNumber(value, path));
+}
+
+function readVector(value: unknown, path: string): FixedVector2 {
+  const data = readObject(value, path);
+  return new FixedVector2(readFixed(data.x, `${path}.x`), readFixed(data.y, `${path}.y`));
+}
+
+function readColor(value: unknown, path: string): Color {
+  const data = readObject(value, path);
+  return {
+    r: readNumber(data.r, `${path}.r`),
+    g: readNumber(data.g, `${path}.g`),
+    b: readNumber(data.b, `${path}.b`),
+    a: readNumber(data.a, `${path}.a`)
+  };
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid particle effect: ${path} ${message}`);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return 'an array';
+  if (value === null || typeof value !== 'object') return String(value);
+  return 'an object';
+}
+
+// ===== Writing =====
+// 写入
+
+function writeEmitter(
+  config: ParticleConfig,
+  getTextureName: (texture: ITexture) => string
+): ParticleEmitterData {
+  const data: ParticleEmitterData = {
+    texture: getTextureName(config.texture),
+    maxParticles: config.maxParticles,
+    emissionRate: config.emissionRate.toNumber(),
+    lifetime: config.lifetime.toNumber(),
+    startColor: { ...config.startColor },
+    endColor: { ...config.endColor },
+    startSize: config.startSize.toNumber(),
+    endSize: config.endSize.toNumber(),
+    startVelocity: writeVector(config.startVelocity),
+    velocityVariation: writeVector(config.velocityVariation),
+    gravity: writeVector(config.gravity),
+    fadeIn: config.fadeIn.toNumber(),
+    fadeOut: config.fadeOut.toNumber()
+  };
+
+  if (config.shape) {
+    data.shape = writeShape(config.shape);
+  }
+  if (config.bursts) {
+    data.bursts = config.bursts.map(writeBurst);
+  }
+  if (config.colorOverLifetime) {
+    data.colorOverLifetime = config.colorOverLifetime.map(stop => ({
+      offset: stop.offset,
+      color: { ...stop.color }
+    }));
+  }
+  if (config.sizeOverLifetime) {
+    data.sizeOverLifetime = writeCurve(config.sizeOverLifetime);
+  }
+  if (config.velocityOverLifetime) {
+    data.velocityOverLifetime = writeCurve(config.velocityOverLifetime);
+  }
+  if (config.rotationOverLifetime) {
+    data.rotationOverLifetime = writeCurve(config.rotationOverLifetime);
+  }
+  for (const key of [
+    'startRotation',
+    'rotationVariation',
+    'angularVelocity',
+    'angularVelocityVariation',
+    'drag'
+  ] as const) {
+    const value = config[key];
+    if (value) {
+      data[key] = value.toNumber();
+    }
+  }
+  if (config.subEmitters) {
+    data.subEmitters = config.subEmitters.map(sub => ({
+      emitter: writeEmitter(sub.config, getTextureName),
+      count: sub.count,
+      ...(sub.inheritVelocity && { inheritVelocity: sub.inheritVelocity.toNumber() })
+    }));
+  }
+  return data;
+}
+
+function writeShape(shape: ParticleEmitterShape): ParticleEmitterShapeData {
+  switch (shape.type) {
+    case 'point':
+      return { type: 'point' };
+    case 'circle':
+      return { type: 'circle', radius: shape.radius.toNumber() };
+    case 'ring':
+      return {
+        type: 'ring',
+        innerRadius: shape.innerRadius.toNumber(),
+        outerRadius: shape.outerRadius.toNumber()
+      };
+    case 'rect':
+      return { type: 'rect', width: shape.width.toNumber(), height: shape.height.toNumber() };
+    case 'line':
+      return { type: 'line', start: writeVector(shape.start), end: writeVector(shape.end) };
+    case 'polygonEdge':
+      return { type: 'polygonEdge', vertices: shape.vertices.map(writeVector) };
+  }
+}
+
+function writeBurst(burst: ParticleBurst): ParticleBurstData {
+  const data: ParticleBurstData = { time: burst.time.toNumber(), count: burst.count };
+  if (burst.cycles !== undefined) {
+    data.cycles = burst.cycles === Infinity ? 'infinite' : burst.cycles;
+  }
+  if (burst.interval) {
+    data.interval = burst.interval.toNumber();
+  }
+  return data;
+}
+
+function writeCurve(curve: ParticleCurve): Array<{ time: number; value: number }> {
+  return curve.map(key => ({ time: key.time.toNumber(), value: key.value.toNumber() }));
+}
+
+function writeVector(vector: FixedVector2): ParticleVectorData {
+  return { x: vector.x.toNumber(), y: vector.y.toNumber() };
+}
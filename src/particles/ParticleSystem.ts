@@ -0,0 +1,580 @@
+/**
+ * Deterministic reference particle system simulated in fixed-point math
+ * 以定点数学模拟的确定性参考粒子系统
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { IRenderer } from '../interfaces/IRenderer';
+import {
+  ParticleConfig,
+  ParticleEmitterShape,
+  ParticleCurve,
+  ParticleBurst
+} from '../interfaces/IGameRenderer';
+import { Color, ColorUtils, GradientStop, TextureStyle } from '../types/RenderTypes';
+import { getGradientColor } from '../paint/Gradient';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Simulated state of one live particle
+ * 单个存活粒子的模拟状态
+ */
+export interface Particle {
+  position: FixedVector2;
+  velocity: FixedVector2;
+  rotation: Fixed; // Radians, without rotationOverLifetime
+  angularVelocity: Fixed;
+  age: Fixed; // Seconds since the particle was emitted
+  lifetime: Fixed;
+}
+
+/**
+ * Particle system creation options
+ * 粒子系统创建选项
+ */
+export interface ParticleSystemOptions {
+  seed?: number; // Default 1
+  position?: FixedVector2; // Emitter position, default origin
+  emitting?: boolean; // Default true
+}
+
+// Gravity and drag of one step; damping is null without drag
+interface StepForces {
+  gravity: FixedVector2;
+  damping: Fixed | null;
+}
+
+const PARTICLE_ANCHOR = new FixedVector2(new Fixed(0.5), new Fixed(0.5));
+
+// Rejection sampling of the unit disc gives up after this many misses, which never happens
+// in practice but keeps the loop bounded
+const MAX_DISC_SAMPLES = 64;
+
+// Binary places of a step's fractional seconds resolved by the drag roots, as in Q16.16
+const DRAG_ROOT_COUNT = 16;
+
+/**
+ * Value of a lifetime curve at a normalized age
+ * 生命周期曲线在归一化年龄处的值
+ */
+export function evaluateParticleCurve(curve: ParticleCurve, t: Fixed): Fixed {
+  if (curve.length === 0) return Fixed.ONE;
+  if (!curve[0].time.lessThan(t)) return curve[0].value;
+
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1];
+    const key = curve[i];
+    if (t.lessThan(key.time)) {
+      const span = key.time.subtract(previous.time);
+      if (!span.greaterThan(Fixed.ZERO)) return key.value;
+      const f = t.subtract(previous.time).divide(span);
+      return previous.value.add(key.value.subtract(previous.value).multiply(f));
+    }
+  }
+  return curve[curve.length - 1].value;
+}
+
+/**
+ * Simulates a ParticleConfig with fixed-point math, a seeded random generator and a pool of
+ * at most maxParticles particles
+ * 使用定点数学、带种子随机数生成器和最多maxParticles个粒子的对象池模拟ParticleConfig
+ *
+ * The same seed, config and sequence of update calls give bit-identical particles on every
+ * client, so lockstep games can compare getStateHash. Particles move in world space from the
+ * emitter position at the time they are emitted and are drawn oldest first, followed by the
+ * particles of sub-emitters.
+ * 相同的种子、配置和update调用序列在每个客户端上产生逐位相同的粒子，因此锁步游戏可以比较
+ * getStateHash。粒子从发射时的发射器位置出发在世界空间中运动，并按从旧到新的顺序绘制，
+ * 之后绘制子发射器的粒子。
+ */
+export class ParticleSystem {
+  readonly config: ParticleConfig;
+  position: FixedVector2;
+  emitting: boolean;
+
+  private random: SeededRandom;
+  private pool: Particle[] = [];
+  private count = 0;
+  private emissionDebt = Fixed.ZERO;
+  private elapsed = Fixed.ZERO;
+  private burstCycles: number[];
+  private colorStops: GradientStop[] | null;
+  private curves: {
+    size: ParticleCurve | null;
+    velocity: ParticleCurve | null;
+    rotation: ParticleCurve | null;
+  };
+  private edgeLengths: Fixed[] = [];
+  // (1 - drag)^(1/2), ^(1/4) and so on, null unless drag is between 0 and 1
+  private dragRoots: Fixed[] | null = null;
+  private subEmitters: ParticleSystem[];
+
+  constructor(config: ParticleConfig, options: ParticleSystemOptions = {}) {
+    if (config.maxParticles < 0 || !Number.isInteger(config.maxParticles)) {
+      throw new Error(`maxParticles must be a non-negative integer, got ${config.maxParticles}`);
+    }
+    this.config = config;
+    this.position = options.position || FixedVector2.ZERO;
+    this.emitting = options.emitting ?? true;
+    this.random = new SeededRandom(options.seed ?? 1);
+
+    this.burstCycles = (config.bursts || []).map(() => 0);
+    this.colorStops = config.colorOverLifetime
+      ? [...config.colorOverLifetime].sort((a, b) => a.offset - b.offset)
+      : null;
+    this.curves = {
+      size: sortCurve(config.sizeOverLifetime),
+      velocity: sortCurve(config.velocityOverLifetime),
+      rotation: sortCurve(config.rotationOverLifetime)
+    };
+    if (config.shape?.type === 'polygonEdge') {
+      this.edgeLengths = getEdgeLengths(config.shape.vertices);
+    }
+    const drag = config.drag || Fixed.ZERO;
+    if (drag.greaterThan(Fixed.ZERO) && drag.lessThan(Fixed.ONE)) {
+      this.dragRoots = getRepeatedRoots(Fixed.ONE.subtract(drag), DRAG_ROOT_COUNT);
+    }
+    // Children draw their seeds from the parent so the whole tree follows one seed
+    this.subEmitters = (config.subEmitters || []).map(
+      sub => new ParticleSystem(sub.config, { seed: this.random.nextUint32(), emitting: false })
+    );
+  }
+
+  // ===== Simulation =====
+  // 模拟
+
+  /**
+   * Age, move and retire particles, then emit new ones from bursts and the emission rate
+   * 推进粒子年龄、移动并回收粒子，然后按爆发计划和发射速率发射新粒子
+   *
+   * Particles from the emission rate are spread evenly across the step, so a long step leaves
+   * a trail instead of a clump at the emitter.
+   * 按发射速率产生的粒子在步长内均匀分布，因此较长的步长会留下拖尾而不是在发射器处聚成一团。
+   */
+  update(deltaTime: Fixed): void {
+    if (!deltaTime.greaterThan(Fixed.ZERO)) return;
+
+    // Children first, so particles emitted by deaths below start at age zero
+    for (const child of this.subEmitters) {
+      child.update(deltaTime);
+    }
+
+    const forces = this.getStepForces(deltaTime);
+    let alive = 0;
+    for (let i = 0; i < this.count; i++) {
+      const particle = this.pool[i];
+      particle.age = particle.age.add(deltaTime);
+      if (!particle.age.lessThan(particle.lifetime)) {
+        this.emitSubParticles(particle);
+        continue;
+      }
+
+      this.advance(particle, deltaTime, forces);
+      // Compact in place so the pool keeps emission order
+      if (alive !== i) {
+        this.pool[i] = this.pool[alive];
+        this.pool[alive] = particle;
+      }
+      alive++;
+    }
+    this.count = alive;
+
+    const previous = this.elapsed;
+    this.elapsed = this.elapsed.add(deltaTime);
+    if (!this.emitting) return;
+
+    this.emitBursts(previous);
+    this.emissionDebt = this.emissionDebt.add(this.config.emissionRate.multiply(deltaTime));
+    let owed = 0;
+    while (!this.emissionDebt.lessThan(Fixed.ONE)) {
+      this.emissionDebt = this.emissionDebt.subtract(Fixed.ONE);
+      owed++;
+    }
+
+    // Spread the particles owed for this step across it, oldest first: particle k of n was
+    // emitted k/n of the step ago and is advanced by that age
+    for (let k = owed - 1; k >= 0; k--) {
+      const age = deltaTime.multiply(new Fixed(k)).divide(new Fixed(owed));
+      if (!age.lessThan(this.config.lifetime)) continue;
+      const particle = this.spawn(this.position, null);
+      if (particle && k > 0) {
+        particle.age = age;
+        this.advance(particle, age, this.getStepForces(age));
+      }
+    }
+  }
+
+  /**
+   * Emit particles immediately, up to the free pool capacity
+   * 立即发射粒子，数量不超过对象池剩余容量
+   */
+  emit(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.spawn(this.position, null);
+    }
+  }
+
+  /**
+   * Remove all particles, pending emission and sub-emitter particles, and restart the burst
+   * schedule, keeping the random sequence position
+   * 移除所有粒子、待发射量和子发射器粒子，并重新开始爆发计划，保留随机序列位置
+   */
+  clear(): void {
+    this.count = 0;
+    this.emissionDebt = Fixed.ZERO;
+    this.elapsed = Fixed.ZERO;
+    this.burstCycles = this.burstCycles.map(() => 0);
+    for (const child of this.subEmitters) {
+      child.clear();
+    }
+  }
+
+  // ===== State =====
+  // 状态
+
+  getParticleCount(): number {
+    return this.count;
+  }
+
+  getParticles(): readonly Particle[] {
+    return this.pool.slice(0, this.count);
+  }
+
+  getSubEmitters(): readonly ParticleSystem[] {
+    return this.subEmitters;
+  }
+
+  /**
+   * Hash of the particle and random generator state including sub-emitters, for desync
+   * checks between clients
+   * 包含子发射器在内的粒子和随机数生成器状态的哈希，用于客户端之间的不同步检查
+   */
+  getStateHash(): number {
+    let hash = hashValue(0x811c9dc5, this.random.getState());
+    hash = hashValue(hash, this.count);
+    hash = hashValue(hash, this.emissionDebt.toNumber() * 65536);
+    hash = hashValue(hash, this.elapsed.toNumber() * 65536);
+    for (let i = 0; i < this.count; i++) {
+      const { position, velocity, rotation, angularVelocity, age } = this.pool[i];
+      const { x, y } = position;
+      for (const value of [x, y, velocity.x, velocity.y, rotation, angularVelocity, age]) {
+        hash = hashValue(hash, value.toNumber() * 65536);
+      }
+    }
+    for (const child of this.subEmitters) {
+      hash = hashValue(hash, child.getStateHash());
+    }
+    return hash;
+  }
+
+  // ===== Rendering =====
+  // 渲染
+
+  /**
+   * Draw every particle as the config texture centered on its position
+   * 将每个粒子绘制为以其位置为中心的配置纹理
+   */
+  draw(renderer: IRenderer): void {
+    const { texture } = this.config;
+    const textureSize = Math.max(texture.width, texture.height);
+    if (textureSize > 0) {
+      for (let i = 0; i < this.count; i++) {
+        this.drawParticle(renderer, this.pool[i], textureSize);
+      }
+    }
+    for (const child of this.subEmitters) {
+      child.draw(renderer);
+    }
+  }
+
+  private drawParticle(renderer: IRenderer, particle: Particle, textureSize: number): void {
+    const { startSize, endSize } = this.config;
+    const t = particle.age.divide(particle.lifetime);
+    let size = startSize.add(endSize.subtract(startSize).multiply(t));
+    if (this.curves.size) {
+      size = size.multiply(evaluateParticleCurve(this.curves.size, t));
+    }
+    let rotation = particle.rotation;
+    if (this.curves.rotation) {
+      rotation = rotation.add(evaluateParticleCurve(this.curves.rotation, t));
+    }
+
+    const scale = size.toNumber() / textureSize;
+    const style: TextureStyle = {
+      tint: this.getColor(t.toNumber()),
+      scale: new FixedVector2(new Fixed(scale), new Fixed(scale)),
+      anchor: PARTICLE_ANCHOR,
+      opacity: this.getFade(particle).toNumber()
+    };
+    if (!rotation.equals(Fixed.ZERO)) {
+      style.rotation = rotation;
+    }
+    renderer.drawTexture(this.config.texture, particle.position, style);
+  }
+
+  private getColor(t: number): Color {
+    if (this.colorStops) return getGradientColor(this.colorStops, t);
+    return ColorUtils.lerp(this.config.startColor, this.config.endColor, t);
+  }
+
+  // Opacity ramping up over fadeIn after emission and down over fadeOut before death
+  private getFade(particle: Particle): Fixed {
+    let fade = Fixed.ONE;
+    const { fadeIn, fadeOut } = this.config;
+    if (fadeIn.greaterThan(Fixed.ZERO) && particle.age.lessThan(fadeIn)) {
+      fade = particle.age.divide(fadeIn);
+    }
+    const remaining = particle.lifetime.subtract(particle.age);
+    if (fadeOut.greaterThan(Fixed.ZERO) && remaining.lessThan(fadeOut)) {
+      const out = remaining.divide(fadeOut);
+      if (out.lessThan(fade)) fade = out;
+    }
+    return fade;
+  }
+
+  // Gravity and drag applied to every particle moved by the same time. Drag keeps
+  // (1 - drag)^deltaTime of the velocity, so the slowdown does not depend on the step size,
+  // and the power is taken in fixed point so every client damps by the same value
+  private getStepForces(deltaTime: Fixed): StepForces {
+    const drag = this.config.drag || Fixed.ZERO;
+    let damping: Fixed | null = null;
+    if (drag.greaterThan(Fixed.ZERO)) {
+      damping = this.dragRoots
+        ? getPower(Fixed.ONE.subtract(drag), this.dragRoots, deltaTime)
+        : Fixed.ZERO;
+    }
+    return { gravity: this.config.gravity.multiply(deltaTime), damping };
+  }
+
+  // Move and rotate a particle by deltaTime, its age already including that time
+  private advance(particle: Particle, deltaTime: Fixed, forces: StepForces): void {
+    particle.velocity = particle.velocity.add(forces.gravity);
+    if (forces.damping) {
+      particle.velocity = particle.velocity.multiply(forces.damping);
+    }
+    let step = particle.velocity.multiply(deltaTime);
+    if (this.curves.velocity) {
+      const t = particle.age.divide(particle.lifetime);
+      step = step.multiply(evaluateParticleCurve(this.curves.velocity, t));
+    }
+    particle.position = particle.position.add(step);
+    particle.rotation = particle.rotation.add(particle.angularVelocity.multiply(deltaTime));
+  }
+
+  // ===== Emission =====
+  // 发射
+
+  // Fire every burst cycle scheduled in [previous, elapsed)
+  private emitBursts(previous: Fixed): void {
+    const bursts = this.config.bursts || [];
+    bursts.forEach((burst, index) => {
+      const cycles = burst.cycles ?? 1;
+      while (this.burstCycles[index] < cycles) {
+        const time = getBurstTime(burst, this.burstCycles[index]);
+        if (!this.elapsed.greaterThan(time)) break;
+        this.burstCycles[index]++;
+        if (!time.lessThan(previous)) {
+          this.emit(burst.count);
+        }
+      }
+    });
+  }
+
+  private emitSubParticles(particle: Particle): void {
+    const subEmitters = this.config.subEmitters || [];
+    subEmitters.forEach((sub, index) => {
+      const inherited = sub.inheritVelocity
+        ? particle.velocity.multiply(sub.inheritVelocity)
+        : null;
+      for (let i = 0; i < sub.count; i++) {
+        this.subEmitters[index].spawn(particle.position, inherited);
+      }
+    });
+  }
+
+  private spawn(origin: FixedVector2, inheritedVelocity: FixedVector2 | null): Particle | null {
+    if (this.count >= this.config.maxParticles) return null;
+    if (!this.config.lifetime.greaterThan(Fixed.ZERO)) return null;
+
+    // Random values are drawn in a fixed order, and only for features the config uses
+    const random = this.random;
+    const position = origin.add(this.sampleShape());
+    const { startVelocity, velocityVariation } = this.config;
+    let velocity = new FixedVector2(
+      startVelocity.x.add(velocityVariation.x.multiply(random.nextSigned())),
+      startVelocity.y.add(velocityVariation.y.multiply(random.nextSigned()))
+    );
+    if (inheritedVelocity) {
+      velocity = velocity.add(inheritedVelocity);
+    }
+    let rotation = this.config.startRotation || Fixed.ZERO;
+    if (this.config.rotationVariation) {
+      rotation = rotation.add(this.config.rotationVariation.multiply(random.nextSigned()));
+    }
+    let angularVelocity = this.config.angularVelocity || Fixed.ZERO;
+    if (this.config.angularVelocityVariation) {
+      const variation = this.config.angularVelocityVariation.multiply(random.nextSigned());
+      angularVelocity = angularVelocity.add(variation);
+    }
+
+    let particle = this.pool[this.count];
+    if (!particle) {
+      particle = {
+        position,
+        velocity,
+        rotation,
+        angularVelocity,
+        age: Fixed.ZERO,
+        lifetime: this.config.lifetime
+      };
+      this.pool[this.count] = particle;
+    } else {
+      particle.position = position;
+      particle.velocity = velocity;
+      particle.rotation = rotation;
+      particle.angularVelocity = angularVelocity;
+      particle.age = Fixed.ZERO;
+      particle.lifetime = this.config.lifetime;
+    }
+    this.count++;
+    return particle;
+  }
+
+  // Offset from the emitter position within the emitter shape
+  private sampleShape(): FixedVector2 {
+    const shape: ParticleEmitterShape = this.config.shape || { type: 'point' };
+    const random = this.random;
+    switch (shape.type) {
+      case 'point':
+        return FixedVector2.ZERO;
+      case 'circle':
+        return this.sampleDisc().multiply(shape.radius);
+      case 'ring': {
+        const point = this.sampleDisc();
+        const direction =
+          point.x.equals(Fixed.ZERO) && point.y.equals(Fixed.ZERO)
+            ? new FixedVector2(Fixed.ONE, Fixed.ZERO)
+            : point.normalize();
+        const radius = random.range(shape.innerRadius, shape.outerRadius);
+        return direction.multiply(radius);
+      }
+      case 'rect': {
+        const halfWidth = shape.width.divide(Fixed.TWO);
+        const halfHeight = shape.height.divide(Fixed.TWO);
+        return new FixedVector2(
+          halfWidth.multiply(random.nextSigned()),
+          halfHeight.multiply(random.nextSigned())
+        );
+      }
+      case 'line':
+        return shape.start.add(shape.end.subtract(shape.start).multiply(random.nextFixed()));
+      case 'polygonEdge':
+        return this.samplePolygonEdge(shape.vertices);
+    }
+  }
+
+  // Uniform point in the unit disc by rejection sampling, which needs no square roots
+  private sampleDisc(): FixedVector2 {
+    for (let i = 0; i < MAX_DISC_SAMPLES; i++) {
+      const x = this.random.nextSigned();
+      const y = this.random.nextSigned();
+      if (x.multiply(x).add(y.multiply(y)).lessThan(Fixed.ONE)) {
+        return new FixedVector2(x, y);
+      }
+    }
+    return FixedVector2.ZERO;
+  }
+
+  private samplePolygonEdge(vertices: readonly FixedVector2[]): FixedVector2 {
+    const total = this.edgeLengths.reduce((sum, length) => sum.add(length), Fixed.ZERO);
+    if (!total.greaterThan(Fixed.ZERO)) {
+      return vertices.length > 0 ? vertices[0] : FixedVector2.ZERO;
+    }
+
+    let distance = total.multiply(this.random.nextFixed());
+    for (let i = 0; i < vertices.length; i++) {
+      const length = this.edgeLengths[i];
+      if (distance.lessThan(length)) {
+        const start = vertices[i];
+        const end = vertices[(i + 1) % vertices.length];
+        return start.add(end.subtract(start).multiply(distance.divide(length)));
+      }
+      distance = distance.subtract(length);
+    }
+    return vertices[0];
+  }
+}
+
+function sortCurve(curve?: ParticleCurve): ParticleCurve | null {
+  if (!curve || curve.length === 0) return null;
+  return [...curve].sort((a, b) => a.time.toNumber() - b.time.toNumber());
+}
+
+function getBurstTime(burst: ParticleBurst, cycle: number): Fixed {
+  if (cycle === 0) return burst.time;
+  return burst.time.add((burst.interval || Fixed.ONE).multiply(new Fixed(cycle)));
+}
+
+// Lengths of the closed outline's edges, measured against their own unit direction
+function getEdgeLengths(vertices: readonly FixedVector2[]): Fixed[] {
+  return vertices.map((start, i) => {
+    const edge = vertices[(i + 1) % vertices.length].subtract(start);
+    if (edge.x.equals(Fixed.ZERO) && edge.y.equals(Fixed.ZERO)) return Fixed.ZERO;
+    const unit = edge.normalize();
+    return edge.x.multiply(unit.x).add(edge.y.multiply(unit.y));
+  });
+}
+
+// value^(1/2), value^(1/4) and so on for a value in (0, 1]
+function getRepeatedRoots(value: Fixed, count: number): Fixed[] {
+  const roots: Fixed[] = [];
+  let root = value;
+  for (let i = 0; i < count; i++) {
+    root = getSquareRoot(root);
+    roots.push(root);
+  }
+  return roots;
+}
+
+// Newton's method from above decreases until it settles, so every client stops at the same
+// value; the value is in (0, 1], so one is above its root
+function getSquareRoot(value: Fixed): Fixed {
+  let root = Fixed.ONE;
+  for (;;) {
+    const next = root.add(value.divide(root)).divide(Fixed.TWO);
+    if (!next.lessThan(root)) return root;
+    root = next;
+  }
+}
+
+// base^exponent for a non-negative exponent using fixed-point multiplication only: whole
+// powers by squaring, then the root of base matching each set bit of the fraction
+function getPower(base: Fixed, roots: readonly Fixed[], exponent: Fixed): Fixed {
+  let result = Fixed.ONE;
+  let square = base;
+  for (let whole = exponent.floor().toNumber(); whole > 0; whole = Math.floor(whole / 2)) {
+    if (whole % 2 === 1) result = result.multiply(square);
+    square = square.multiply(square);
+  }
+
+  let fraction = exponent.subtract(exponent.floor());
+  for (const root of roots) {
+    fraction = fraction.add(fraction);
+    if (!fraction.lessThan(Fixed.ONE)) {
+      result = result.multiply(root);
+      fraction = fraction.subtract(Fixed.ONE);
+    }
+  }
+  return result;
+}
+
+// FNV-1a over the 32-bit integer form of a value
+function hashValue(hash: number, value: number): number {
+  let h = hash;
+  let v = Math.round(value) | 0;
+  for (let i = 0; i < 4; i++) {
+    h = Math.imul(h ^ (v & 0xff), 0x01000193);
+    v >>>= 8;
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,72 @@
+/**
+ * Seeded pseudo-random generator for deterministic simulation
+ * 用于确定性模拟的带种子伪随机数生成器
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+
+// Random fractions keep 16 bits so they convert to Fixed exactly
+const FRACTION_SCALE = 65536;
+
+/**
+ * Pseudo-random generator producing the same sequence for the same seed on every platform
+ * 相同种子在所有平台上产生相同序列的伪随机数生成器
+ *
+ * Mulberry32 on 32-bit integer arithmetic, so no floating point rounding is involved.
+ * 基于32位整数运算的Mulberry32，因此不涉及浮点舍入。
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed = 1) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next unsigned 32-bit integer
+   * 下一个无符号32位整数
+   */
+  nextUint32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Next value in [0, 1)
+   * [0, 1) 内的下一个值
+   */
+  nextFixed(): Fixed {
+    return new Fixed((this.nextUint32() >>> 16) / FRACTION_SCALE);
+  }
+
+  /**
+   * Next value in [-1, 1)
+   * [-1, 1) 内的下一个值
+   */
+  nextSigned(): Fixed {
+    return new Fixed(((this.nextUint32() >>> 15) - FRACTION_SCALE) / FRACTION_SCALE);
+  }
+
+  /**
+   * Next value in [min, max)
+   * [min, max) 内的下一个值
+   */
+  range(min: Fixed, max: Fixed): Fixed {
+    return min.add(max.subtract(min).multiply(this.nextFixed()));
+  }
+
+  /**
+   * Internal state, which restores the exact sequence when passed to setState
+   * 内部状态，传给setState可恢复完全相同的序列
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
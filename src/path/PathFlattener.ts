@@ -0,0 +1,157 @@
+/**
+ * Conversion of vector paths to polylines for backends without native curves
+ * 为不支持原生曲线的后端将矢量路径转换为折线
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { VectorPath, getArcSweep, getArcPoint } from './VectorPath';
+
+/**
+ * Flattened subpath; closed contours do not repeat their first point
+ * 展平后的子路径；闭合轮廓不重复其第一个点
+ */
+export interface PathContour {
+  points: FixedVector2[];
+  closed: boolean;
+}
+
+/**
+ * Default maximum distance between a curve and its polyline, in screen pixels
+ * 曲线与其折线之间的默认最大距离，以屏幕像素为单位
+ */
+export const DEFAULT_PATH_TOLERANCE = 0.25;
+
+// Segment count caps, so a tiny tolerance cannot explode the point count
+const MAX_CURVE_SEGMENTS = 256;
+const MAX_ARC_SEGMENTS_PER_TURN = 512;
+
+/**
+ * Flatten a path into polylines whose distance to the true curves stays within tolerance
+ * 将路径展平为折线，使其与真实曲线的距离保持在容差之内
+ *
+ * The tolerance is in path units; renderers derive it from DEFAULT_PATH_TOLERANCE and the
+ * current zoom so curves stay smooth on screen at any scale.
+ * 容差以路径单位计；渲染器根据DEFAULT_PATH_TOLERANCE和当前缩放得出容差，使曲线在任意缩放下都平滑。
+ */
+export function flattenPath(path: VectorPath, tolerance: Fixed): PathContour[] {
+  const contours: PathContour[] = [];
+  const limit = Math.max(tolerance.toNumber(), 1e-6);
+  let contour: PathContour | null = null;
+
+  const finish = (): void => {
+    if (contour && contour.points.length > 1) {
+      contours.push(contour);
+    }
+    contour = null;
+  };
+  const add = (point: FixedVector2): void => {
+    if (!contour) {
+      contour = { points: [point], closed: false };
+      return;
+    }
+    const last = contour.points[contour.points.length - 1];
+    if (!last.x.equals(point.x) || !last.y.equals(point.y)) {
+      contour.points.push(point);
+    }
+  };
+  const current = (): FixedVector2 => {
+    const points = (contour as PathContour).points;
+    return points[points.length - 1];
+  };
+
+  for (const command of path.getCommands()) {
+    switch (command.type) {
+      case 'moveTo':
+        finish();
+        add(command.point);
+        break;
+      case 'lineTo':
+        add(command.point);
+        break;
+      case 'quadraticCurveTo': {
+        const start = current();
+        const { control, point } = command;
+        const deviation = Math.hypot(
+          start.x.toNumber() - 2 * control.x.toNumber() + point.x.toNumber(),
+          start.y.toNumber() - 2 * control.y.toNumber() + point.y.toNumber()
+        );
+        const segments = getSegmentCount(Math.sqrt(deviation / (4 * limit)));
+        for (let i = 1; i < segments; i++) {
+          add(evaluateCurve([start, control, point], i / segments));
+        }
+        add(point);
+        break;
+      }
+      case 'bezierCurveTo': {
+        const start = current();
+        const { control1, control2, point } = command;
+        const deviation = Math.max(
+          Math.hypot(
+            start.x.toNumber() - 2 * control1.x.toNumber() + control2.x.toNumber(),
+            start.y.toNumber() - 2 * control1.y.toNumber() + control2.y.toNumber()
+          ),
+          Math.hypot(
+            control1.x.toNumber() - 2 * control2.x.toNumber() + point.x.toNumber(),
+            control1.y.toNumber() - 2 * control2.y.toNumber() + point.y.toNumber()
+          )
+        );
+        const segments = getSegmentCount(Math.sqrt((3 * deviation) / (4 * limit)));
+        for (let i = 1; i < segments; i++) {
+          add(evaluateCurve([start, control1, control2, point], i / segments));
+        }
+        add(point);
+        break;
+      }
+      case 'arc': {
+        const startAngle = command.startAngle.toNumber();
+        const endAngle = command.endAngle.toNumber();
+        const sweep = getArcSweep(startAngle, endAngle, command.counterclockwise);
+        const radius = command.radius.toNumber();
+        // Largest step whose sagitta r(1 - cos(step / 2)) stays within the tolerance
+        const step = radius > limit ? 2 * Math.acos(1 - limit / radius) : Math.PI / 2;
+        const segments = Math.min(
+          Math.ceil((Math.abs(sweep) / (Math.PI * 2)) * MAX_ARC_SEGMENTS_PER_TURN),
+          Math.max(1, Math.ceil(Math.abs(sweep) / step))
+        );
+        for (let i = 0; i <= segments; i++) {
+          add(getArcPoint(command.center, command.radius, startAngle + (sweep * i) / segments));
+        }
+        break;
+      }
+      case 'closePath':
+        if (contour) {
+          const closing = contour as PathContour;
+          const first = closing.points[0];
+          const last = closing.points[closing.points.length - 1];
+          if (closing.points.length > 1 && first.x.equals(last.x) && first.y.equals(last.y)) {
+            closing.points.pop();
+          }
+          closing.closed = true;
+          finish();
+          // Drawing continues from the start of the closed subpath
+          add(first);
+        }
+        break;
+    }
+  }
+
+  finish();
+  return contours;
+}
+
+function getSegmentCount(estimate: number): number {
+  return Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(estimate)));
+}
+
+// De Casteljau evaluation of a Bézier curve given by its control points
+function evaluateCurve(points: FixedVector2[], t: number): FixedVector2 {
+  const xs = points.map(point => point.x.toNumber());
+  const ys = points.map(point => point.y.toNumber());
+  for (let level = points.length - 1; level > 0; level--) {
+    for (let i = 0; i < level; i++) {
+      xs[i] += (xs[i + 1] - xs[i]) * t;
+      ys[i] += (ys[i + 1] - ys[i]) * t;
+    }
+  }
+  return new FixedVector2(new Fixed(xs[0]), new Fixed(ys[0]));
+}
@@ -0,0 +1,351 @@
+/**
+ * Conversion of stroked polylines to triangles with width, joins, caps and dashes
+ * 将描边折线转换为带宽度、连接、端点和虚线的三角形
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { LineStyle, ShapeStyle, DEFAULT_MITER_LIMIT } from '../types/RenderTypes';
+import { DEFAULT_PATH_TOLERANCE } from './PathFlattener';
+import { TriangleMesh } from './Tessellation';
+
+/**
+ * Stroke parameters in the units of the stroked points
+ * 以被描边点的单位表示的描边参数
+ */
+export interface StrokeOptions {
+  width: number;
+  lineJoin?: 'miter' | 'round' | 'bevel'; // Default 'miter'
+  lineCap?: 'butt' | 'round' | 'square'; // Default 'butt'
+  miterLimit?: number; // Default DEFAULT_MITER_LIMIT
+  dashPattern?: readonly number[];
+  dashOffset?: number;
+  tolerance?: number; // Maximum deviation of round joins and caps, default DEFAULT_PATH_TOLERANCE
+}
+
+/**
+ * Turn a polyline into a triangle mesh covering its stroke
+ * 将折线转换为覆盖其描边的三角形网格
+ *
+ * Triangles of segments, joins and caps may overlap and have either winding, so backends that
+ * blend should draw the mesh as one union rather than triangle by triangle.
+ * 线段、连接和端点的三角形可能重叠且环绕方向不定，因此需要混合的后端应将网格作为整体并集绘制，
+ * 而不是逐个三角形绘制。
+ */
+export function strokePolyline(
+  points: readonly FixedVector2[],
+  closed: boolean,
+  options: StrokeOptions
+): TriangleMesh {
+  const coords: number[] = [];
+  for (const point of points) {
+    coords.push(point.x.toNumber(), point.y.toNumber());
+  }
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  if (options.width > 0) {
+    const pieces = options.dashPattern
+      ? dashCoords(coords, closed, options.dashPattern, options.dashOffset || 0)
+      : [{ coords, closed }];
+    for (const piece of pieces) {
+      strokeCoords(piece.coords, piece.closed, options, positions, indices);
+    }
+  }
+
+  const vertices: FixedVector2[] = [];
+  for (let i = 0; i < positions.length; i += 2) {
+    vertices.push(new FixedVector2(new Fixed(positions[i]), new Fixed(positions[i + 1])));
+  }
+  return { vertices, indices };
+}
+
+/**
+ * Split a polyline into the open polylines of its dashes, following canvas dash rules
+ * 按canvas虚线规则将折线拆分为各段虚线的开放折线
+ *
+ * Odd-length patterns repeat twice; empty, all-zero or negative patterns leave the line solid.
+ * The offset shifts the pattern start along the line, so animating it makes the dashes march.
+ * 奇数长度的模式重复两次；空、全零或含负数的模式保持实线。偏移沿线移动模式起点，因此对其做动画会使虚线行进。
+ */
+export function dashPolyline(
+  points: readonly FixedVector2[],
+  closed: boolean,
+  dashPattern: readonly number[],
+  dashOffset = 0
+): FixedVector2[][] {
+  const coords: number[] = [];
+  for (const point of points) {
+    coords.push(point.x.toNumber(), point.y.toNumber());
+  }
+  return dashCoords(coords, closed, dashPattern, dashOffset).map(piece => {
+    const dash: FixedVector2[] = [];
+    for (let i = 0; i < piece.coords.length; i += 2) {
+      dash.push(new FixedVector2(new Fixed(piece.coords[i]), new Fixed(piece.coords[i + 1])));
+    }
+    return dash;
+  });
+}
+
+/**
+ * Stroke options for a line style; scale converts the style's units to the stroked points' units
+ * 线条样式对应的描边选项；scale将样式单位转换为被描边点的单位
+ */
+export function getStrokeOptions(style: LineStyle, scale = 1, tolerance?: number): StrokeOptions {
+  return {
+    width: style.thickness.toNumber() * scale,
+    lineJoin: style.lineJoin || 'miter',
+    lineCap: style.lineCap || 'butt',
+    miterLimit: style.miterLimit ? style.miterLimit.toNumber() : DEFAULT_MITER_LIMIT,
+    ...(style.dashPattern && {
+      dashPattern: style.dashPattern.map(dash => dash.toNumber() * scale)
+    }),
+    ...(style.dashOffset && { dashOffset: style.dashOffset.toNumber() * scale }),
+    ...(tolerance === undefined ? {} : { tolerance })
+  };
+}
+
+/**
+ * Line style of a shape outline, or null when the shape has no stroke
+ * 形状轮廓的线条样式，形状无描边时为null
+ */
+export function getShapeStrokeStyle(style: ShapeStyle): LineStyle | null {
+  if (!style.strokeColor) return null;
+  return {
+    color: style.strokeColor,
+    thickness: style.strokeThickness || Fixed.ONE,
+    ...(style.dashPattern && { dashPattern: style.dashPattern }),
+    ...(style.dashOffset && { dashOffset: style.dashOffset }),
+    ...(style.strokeUnit && { strokeUnit: style.strokeUnit })
+  };
+}
+
+interface CoordPiece {
+  coords: number[];
+  closed: boolean;
+}
+
+function dashCoords(
+  coords: number[],
+  closed: boolean,
+  dashPattern: readonly number[],
+  dashOffset: number
+): CoordPiece[] {
+  const total = dashPattern.reduce((sum, dash) => sum + dash, 0);
+  if (
+    dashPattern.length === 0 ||
+    !(total > 0) ||
+    dashPattern.some(dash => dash < 0 || !Number.isFinite(dash))
+  ) {
+    return [{ coords, closed }];
+  }
+  const pattern = dashPattern.length % 2 === 1 ? [...dashPattern, ...dashPattern] : dashPattern;
+  const cycle = pattern === dashPattern ? total : total * 2;
+
+  // Advance through the pattern by the offset
+  let index = 0;
+  let remaining = pattern[0];
+  let skip = ((dashOffset % cycle) + cycle) % cycle;
+  while (skip > 0) {
+    if (skip >= remaining) {
+      skip -= remaining;
+      index = (index + 1) % pattern.length;
+      remaining = pattern[index];
+    } else {
+      remaining -= skip;
+      skip = 0;
+    }
+  }
+
+  const pieces: CoordPiece[] = [];
+  const count = coords.length / 2;
+  if (count === 0) return pieces;
+  let dash: number[] | null = index % 2 === 0 ? [coords[0], coords[1]] : null;
+  const segmentCount = closed ? count : count - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const j = (i + 1) % count;
+    const ax = coords[i * 2];
+    const ay = coords[i * 2 + 1];
+    const dx = coords[j * 2] - ax;
+    const dy = coords[j * 2 + 1] - ay;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) continue;
+
+    let position = 0;
+    while (position < length || remaining === 0) {
+      const step = Math.min(remaining, length - position);
+      position += step;
+      remaining -= step;
+      const x = ax + (dx * position) / length;
+      const y = ay + (dy * position) / length;
+      if (dash) dash.push(x, y);
+      if (remaining > 0) break;
+
+      if (dash) {
+        pieces.push({ coords: dash, closed: false });
+        dash = null;
+      }
+      index = (index + 1) % pattern.length;
+      remaining = pattern[index];
+      if (index % 2 === 0) dash = [x, y];
+    }
+  }
+  if (dash && dash.length >= 4) {
+    pieces.push({ coords: dash, closed: false });
+  }
+  return pieces;
+}
+
+function strokeCoords(
+  input: number[],
+  closed: boolean,
+  options: StrokeOptions,
+  positions: number[],
+  indices: number[]
+): void {
+  // Drop repeated points, which have no direction
+  const coords: number[] = [];
+  for (let i = 0; i < input.length; i += 2) {
+    const last = coords.length - 2;
+    if (last < 0 || coords[last] !== input[i] || coords[last + 1] !== input[i + 1]) {
+      coords.push(input[i], input[i + 1]);
+    }
+  }
+  const end = coords.length - 2;
+  if (closed && end > 0 && coords[0] === coords[end] && coords[1] === coords[end + 1]) {
+    coords.length = end;
+  }
+
+  const count = coords.length / 2;
+  const half = options.width / 2;
+  const tolerance = Math.max(options.tolerance ?? DEFAULT_PATH_TOLERANCE, 1e-6);
+  const cap = options.lineCap || 'butt';
+  const vertex = (x: number, y: number): number => {
+    positions.push(x, y);
+    return positions.length / 2 - 1;
+  };
+  const triangle = (a: number, b: number, c: number): void => {
+    indices.push(a, b, c);
+  };
+  // Fan around a center from an offset vector, rotated by the given angle
+  const fan = (x: number, y: number, ox: number, oy: number, angle: number): void => {
+    const step = half > tolerance ? 2 * Math.acos(1 - tolerance / half) : Math.PI / 2;
+    const segments = Math.min(128, Math.max(1, Math.ceil(Math.abs(angle) / step)));
+    const center = vertex(x, y);
+    let previous = vertex(x + ox, y + oy);
+    for (let i = 1; i <= segments; i++) {
+      const cos = Math.cos((angle * i) / segments);
+      const sin = Math.sin((angle * i) / segments);
+      const current = vertex(x + ox * cos - oy * sin, y + ox * sin + oy * cos);
+      triangle(center, previous, current);
+      previous = current;
+    }
+  };
+
+  if (count === 0) return;
+  if (count === 1) {
+    // A zero-length line only shows its caps
+    const [x, y] = coords;
+    if (cap === 'round') {
+      fan(x, y, half, 0, Math.PI * 2);
+    } else if (cap === 'square') {
+      const a = vertex(x - half, y - half);
+      const b = vertex(x + half, y - half);
+      const c = vertex(x + half, y + half);
+      const d = vertex(x - half, y + half);
+      triangle(a, b, c);
+      triangle(a, c, d);
+    }
+    return;
+  }
+
+  const direction = (from: number, to: number): [number, number] => {
+    const dx = coords[to * 2] - coords[from * 2];
+    const dy = coords[to * 2 + 1] - coords[from * 2 + 1];
+    const distance = Math.hypot(dx, dy);
+    return [dx / distance, dy / distance];
+  };
+
+  const segmentCount = closed ? count : count - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const j = (i + 1) % count;
+    const [dx, dy] = direction(i, j);
+    const nx = -dy * half;
+    const ny = dx * half;
+    const a = vertex(coords[i * 2] + nx, coords[i * 2 + 1] + ny);
+    const b = vertex(coords[j * 2] + nx, coords[j * 2 + 1] + ny);
+    const c = vertex(coords[j * 2] - nx, coords[j * 2 + 1] - ny);
+    const d = vertex(coords[i * 2] - nx, coords[i * 2 + 1] - ny);
+    triangle(a, b, c);
+    triangle(a, c, d);
+  }
+
+  // Joins fill the gap on the outer side of every vertex between two segments
+  const join = options.lineJoin || 'miter';
+  const miterLimit = options.miterLimit ?? DEFAULT_MITER_LIMIT;
+  const first = closed ? 0 : 1;
+  const last = closed ? count : count - 1;
+  for (let i = first; i < last; i++) {
+    const [ax, ay] = direction((i - 1 + count) % count, i);
+    const [bx, by] = direction(i, (i + 1) % count);
+    const cross = ax * by - ay * bx;
+    const dot = ax * bx + ay * by;
+    if (Math.abs(cross) < 1e-9 && dot > 0) continue;
+
+    const x = coords[i * 2];
+    const y = coords[i * 2 + 1];
+    // The outer side of the turn is opposite to the direction it turns towards
+    const side = cross > 0 ? -1 : 1;
+    const n0x = -ay * half * side;
+    const n0y = ax * half * side;
+    const n1x = -by * half * side;
+    const n1y = bx * half * side;
+
+    if (join === 'round') {
+      // A full reversal turns around the front of the vertex
+      const angle =
+        Math.abs(cross) < 1e-9
+          ? -Math.PI
+          : Math.atan2(n0x * n1y - n0y * n1x, n0x * n1x + n0y * n1y);
+      fan(x, y, n0x, n0y, angle);
+      continue;
+    }
+
+    const center = vertex(x, y);
+    const start = vertex(x + n0x, y + n0y);
+    const end = vertex(x + n1x, y + n1y);
+    // Miter length relative to the width is 1 / cos(half the angle between the normals)
+    const cosine = Math.sqrt(Math.max(0, (1 + dot) / 2));
+    if (join === 'miter' && cosine > 0 && 1 / cosine <= miterLimit) {
+      const mx = n0x + n1x;
+      const my = n0y + n1y;
+      const scale = half / (cosine * Math.hypot(mx, my));
+      const tip = vertex(x + mx * scale, y + my * scale);
+      triangle(center, start, tip);
+      triangle(center, tip, end);
+    } else {
+      triangle(center, start, end);
+    }
+  }
+
+  if (closed || cap === 'butt') return;
+  const ends: Array<[number, number, number]> = [
+    [0, ...direction(1, 0)],
+    [count - 1, ...direction(count - 2, count - 1)]
+  ];
+  for (const [index, dx, dy] of ends) {
+    const x = coords[index * 2];
+    const y = coords[index * 2 + 1];
+    const nx = -dy * half;
+    const ny = dx * half;
+    if (cap === 'round') {
+      fan(x, y, nx, ny, -Math.PI);
+    } else {
+      const a = vertex(x + nx, y + ny);
+      const b = vertex(x + nx + dx * half, y + ny + dy * half);
+      const c = vertex(x - nx + dx * half, y - ny + dy * half);
+      const d = vertex(x - nx, y - ny);
+      triangle(a, b, c);
+      triangle(a, c, d);
+    }
+  }
+}
@@ -0,0 +1,680 @@
+/**
+ * Triangulation of polygons and paths for backends that draw triangles
+ * 为绘制三角形的后端对多边形和路径进行三角剖分
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { FillRule } from '../types/RenderTypes';
+import { PathContour } from './PathFlattener';
+
+/**
+ * Indexed triangle list, three indices per triangle
+ * 索引三角形列表，每个三角形三个索引
+ */
+export interface TriangleMesh {
+  vertices: FixedVector2[];
+  indices: number[];
+}
+
+/**
+ * Filled region of a path: an outer contour and the holes cut out of it
+ * 路径的填充区域：一个外轮廓及从中挖去的孔洞
+ */
+export interface ContourGroup {
+  outer: FixedVector2[];
+  holes: FixedVector2[][];
+}
+
+/**
+ * Triangulate a simple polygon with optional holes by ear clipping
+ * 通过耳切法对带可选孔洞的简单多边形进行三角剖分
+ *
+ * Indices refer to the outer vertices followed by each hole's vertices. Winding does not
+ * matter, and every ring vertex is kept, so a polygon of n vertices and h holes always yields
+ * n + 2h - 2 triangles. Only simple polygons are supported: self-intersecting rings give
+ * overlapping triangles that do not match any fill rule, so triangulate such outlines with
+ * triangulateContours, which splits them at their crossings first.
+ * 索引依次指向外轮廓顶点和各孔洞顶点。环绕方向无关紧要，且保留所有顶点，因此n个顶点、h个孔洞的
+ * 多边形总是得到n + 2h - 2个三角形。仅支持简单多边形：自相交的环会产生不符合任何填充规则的
+ * 重叠三角形，因此此类轮廓应使用triangulateContours，它会先在交叉处将其拆分。
+ */
+export function triangulatePolygon(
+  outer: readonly FixedVector2[],
+  holes: readonly (readonly FixedVector2[])[] = []
+): number[] {
+  if (outer.length < 3) return [];
+
+  const coords: number[] = [];
+  for (const ring of [outer, ...holes]) {
+    for (const point of ring) {
+      coords.push(point.x.toNumber(), point.y.toNumber());
+    }
+  }
+
+  let ring = orientRing(createRange(0, outer.length), coords, 1);
+  const holeRings: number[][] = [];
+  let offset = outer.length;
+  for (const hole of holes) {
+    if (hole.length >= 3) {
+      holeRings.push(orientRing(createRange(offset, hole.length), coords, -1));
+    }
+    offset += hole.length;
+  }
+
+  // Bridge the right-most holes first so later bridges cannot cross earlier ones
+  holeRings.sort((a, b) => getMaxX(b, coords) - getMaxX(a, coords));
+  for (let i = 0; i < holeRings.length; i++) {
+    ring = bridgeHole(ring, holeRings[i], holeRings.slice(i + 1), coords);
+  }
+  return clipEars(ring, coords);
+}
+
+/**
+ * Split flattened path contours into filled regions according to the fill rule
+ * 根据填充规则将展平的路径轮廓划分为填充区域
+ *
+ * Contours that cross themselves or each other are first split at their crossings into loops
+ * that do not cross and fill the same area. Loops are classified by the winding number just
+ * outside and just inside them, so nested loops become holes or islands as the fill rule
+ * dictates. Open contours are closed implicitly.
+ * 自相交或相互交叉的轮廓先在交叉处拆分为互不交叉且填充区域相同的环。各环按其外侧和内侧的环绕数分类，
+ * 因此嵌套的环会按填充规则成为孔洞或岛屿。开放轮廓被隐式闭合。
+ */
+export function groupContours(
+  contours: readonly PathContour[],
+  fillRule: FillRule
+): ContourGroup[] {
+  const isFilled = (winding: number): boolean =>
+    fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+  const sources = contours
+    .filter(contour => contour.points.length >= 3)
+    .map(contour => ({ points: contour.points, coords: toCoords(contour.points) }));
+  const isFilledAt = (x: number, y: number): boolean =>
+    isFilled(sources.reduce((sum, source) => sum + getWindingNumber(source.coords, x, y), 0));
+
+  const rings = splitAtCrossings(sources, isFilledAt).map(points => ({
+    points,
+    coords: toCoords(points)
+  }));
+
+  const outers: Array<{ index: number; area: number; group: ContourGroup }> = [];
+  const holes: number[] = [];
+  rings.forEach((ring, i) => {
+    const [x, y] = getSamplePoint(rings, i);
+    let outside = 0;
+    rings.forEach((other, j) => {
+      if (j !== i) outside += getWindingNumber(other.coords, x, y);
+    });
+    const area = getSignedArea(ring.coords);
+    const inside = outside + Math.sign(area);
+    if (isFilled(inside) && !isFilled(outside)) {
+      outers.push({ index: i, area: Math.abs(area), group: { outer: ring.points, holes: [] } });
+    } else if (!isFilled(inside) && isFilled(outside)) {
+      holes.push(i);
+    }
+  });
+
+  // Each hole belongs to the smallest outer contour around it
+  for (const hole of holes) {
+    const [x, y] = getSamplePoint(rings, hole);
+    let owner: (typeof outers)[number] | null = null;
+    for (const outer of outers) {
+      if (getWindingNumber(rings[outer.index].coords, x, y) !== 0) {
+        if (!owner || outer.area < owner.area) owner = outer;
+      }
+    }
+    owner?.group.holes.push(rings[hole].points);
+  }
+
+  return outers.map(outer => outer.group);
+}
+
+/**
+ * Triangulate flattened path contours into a single mesh
+ * 将展平的路径轮廓三角剖分为单个网格
+ */
+export function triangulateContours(
+  contours: readonly PathContour[],
+  fillRule: FillRule
+): TriangleMesh {
+  const vertices: FixedVector2[] = [];
+  const indices: number[] = [];
+  for (const group of groupContours(contours, fillRule)) {
+    const base = vertices.length;
+    vertices.push(...group.outer);
+    for (const hole of group.holes) {
+      vertices.push(...hole);
+    }
+    for (const index of triangulatePolygon(group.outer, group.holes)) {
+      indices.push(base + index);
+    }
+  }
+  return { vertices, indices };
+}
+
+/**
+ * Number of segments used to tessellate a circle or ellipse of the given radius in pixels
+ * 对给定像素半径的圆或椭圆进行细分时使用的段数
+ */
+export function getEllipseSegmentCount(screenRadius: number): number {
+  return Math.min(256, Math.max(12, Math.ceil(screenRadius * Math.PI)));
+}
+
+function createRange(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+/**
+ * Split closed rings at the points where their edges cross into loops that do not cross
+ * 在环的边相互交叉处将其拆分为互不交叉的环
+ *
+ * Crossings are found within each ring and between rings. At each crossing the four arms are
+ * reconnected in pairs around two opposite corners. The default keeps each pass's direction, so
+ * the loops' winding numbers add up to the rings'. When the other two corners are filled, which
+ * only happens with the even-odd rule, the arms around those corners are joined instead; this
+ * reverses part of a ring but keeps the parity. Either way the loops only touch at the former
+ * crossings.
+ * 在每个环内部以及环与环之间查找交叉。在每个交叉处，四条臂围绕两个相对的角两两重新连接。默认保持
+ * 每次经过的方向，因此各环的环绕数之和等于原环的环绕数。当另外两个角被填充时（仅在奇偶规则下发生），
+ * 改为连接围绕这两个角的臂；这会反转环的一部分但保持奇偶性。无论哪种方式，各环只在原交叉处接触。
+ */
+function splitAtCrossings(
+  rings: ReadonlyArray<{ points: FixedVector2[]; coords: number[] }>,
+  isFilledAt: (x: number, y: number) => boolean
+): FixedVector2[][] {
+  // Every edge of every ring, with the crossings along it as the fraction of the edge and a
+  // shared crossing id
+  const edges: Array<{ ring: number; index: number; cuts: Array<{ t: number; id: number }> }> = [];
+  rings.forEach((ring, r) => {
+    for (let index = 0; index < ring.points.length; index++) {
+      edges.push({ ring: r, index, cuts: [] });
+    }
+  });
+  const getEnd = (edge: (typeof edges)[number], offset: number): [number, number] => {
+    const { coords } = rings[edge.ring];
+    const k = (edge.index + offset) % (coords.length / 2);
+    return [coords[k * 2], coords[k * 2 + 1]];
+  };
+
+  const crossings: Array<{ point: FixedVector2; x: number; y: number }> = [];
+  const addCrossing = (i: number, t: number, j: number, u: number, x: number, y: number): void => {
+    const id = crossings.length;
+    crossings.push({ point: new FixedVector2(new Fixed(x), new Fixed(y)), x, y });
+    edges[i].cuts.push({ t, id });
+    edges[j].cuts.push({ t: u, id });
+  };
+  for (let i = 0; i < edges.length; i++) {
+    const [ax, ay] = getEnd(edges[i], 0);
+    const [bx, by] = getEnd(edges[i], 1);
+    const [nx, ny] = getEnd(edges[i], 2);
+    for (let j = i + 1; j < edges.length; j++) {
+      if (edges[j].ring === edges[i].ring) {
+        const count = rings[edges[i].ring].points.length;
+        const gap = edges[j].index - edges[i].index;
+        if (gap === 1 || gap === count - 1) continue;
+      }
+      const [cx, cy] = getEnd(edges[j], 0);
+      const [dx, dy] = getEnd(edges[j], 1);
+      if (segmentsCross(ax, ay, bx, by, cx, cy, dx, dy)) {
+        const denominator = cross(bx - ax, by - ay, dx - cx, dy - cy);
+        const t = cross(cx - ax, cy - ay, dx - cx, dy - cy) / denominator;
+        const u = cross(cx - ax, cy - ay, bx - ax, by - ay) / denominator;
+        addCrossing(i, t, j, u, ax + (bx - ax) * t, ay + (by - ay) * t);
+        continue;
+      }
+
+      // A path running through a vertex that lies on the other edge, counted at the edge ending
+      // there; paths that only touch an edge or run along it are left alone
+      const passOther = getVertexPass(ax, ay, bx, by, nx, ny, cx, cy, dx, dy);
+      if (passOther !== null) addCrossing(i, 1, j, passOther, bx, by);
+      const [ex, ey] = getEnd(edges[j], 2);
+      const passThis = getVertexPass(cx, cy, dx, dy, ex, ey, ax, ay, bx, by);
+      if (passThis !== null) addCrossing(j, 1, i, passThis, dx, dy);
+
+      // Two paths crossing at a shared vertex
+      if (
+        bx === dx &&
+        by === dy &&
+        armsInterleave({ x: bx, y: by }, [
+          { x: ax, y: ay },
+          { x: nx, y: ny },
+          { x: cx, y: cy },
+          { x: ex, y: ey }
+        ])
+      ) {
+        addCrossing(i, 1, j, 1, bx, by);
+      }
+    }
+  }
+  if (crossings.length === 0) return rings.map(ring => ring.points);
+
+  // Node k is a vertex or one pass through a crossing; piece k runs from node k to next[k]
+  const nodes: Array<{ point: FixedVector2; x: number; y: number }> = [];
+  const next: number[] = [];
+  const previous: number[] = [];
+  const passes: number[][] = crossings.map(() => []);
+  let ringStart = 0;
+  edges.forEach((edge, e) => {
+    const [x, y] = getEnd(edge, 0);
+    nodes.push({ point: rings[edge.ring].points[edge.index], x, y });
+    for (const { id } of edge.cuts.sort((a, b) => a.t - b.t)) {
+      passes[id].push(nodes.length);
+      nodes.push(crossings[id]);
+    }
+    if (e + 1 === edges.length || edges[e + 1].ring !== edge.ring) {
+      for (let k = ringStart; k < nodes.length; k++) {
+        next.push(k + 1 < nodes.length ? k + 1 : ringStart);
+        previous.push(k > ringStart ? k - 1 : nodes.length - 1);
+      }
+      ringStart = nodes.length;
+    }
+  });
+
+  // Nearest node along the ring that is apart from a crossing, which may lie on a vertex
+  const getArmEnd = (node: number, step: number[]): CornerPoint => {
+    let end = step[node];
+    while (end !== node && nodes[end].x === nodes[node].x && nodes[end].y === nodes[node].y) {
+      end = step[end];
+    }
+    return nodes[end];
+  };
+
+  const partners: number[] = nodes.map(() => -1);
+  const reversing: boolean[] = nodes.map(() => false);
+  for (const [first, second] of passes) {
+    partners[first] = second;
+    partners[second] = first;
+    // The corner between the incoming arms is merged with its opposite by default, while the
+    // corners between an incoming and the other outgoing arm are kept apart
+    const crossing = nodes[first];
+    const in1 = getArmEnd(first, previous);
+    const in2 = getArmEnd(second, previous);
+    const out1 = getArmEnd(first, next);
+    const out2 = getArmEnd(second, next);
+    const isCornerFilled = (a: CornerPoint, b: CornerPoint): boolean | null => {
+      const sample = getCornerSample(crossing, a, b);
+      return sample && isFilledAt(sample[0], sample[1]);
+    };
+    if (
+      isCornerFilled(in1, in2) === true &&
+      isCornerFilled(in1, out2) === false &&
+      isCornerFilled(in2, out1) === false
+    ) {
+      reversing[first] = true;
+      reversing[second] = true;
+    }
+  }
+
+  const loops: FixedVector2[][] = [];
+  const used: boolean[] = nodes.map(() => false);
+  for (let start = 0; start < nodes.length; start++) {
+    const loop: FixedVector2[] = [];
+    let piece = start;
+    let forward = true;
+    while (!used[piece]) {
+      used[piece] = true;
+      const node = forward ? next[piece] : piece;
+      // Crossings rounded onto a vertex would repeat it
+      const last = loop[loop.length - 1];
+      const { point } = nodes[node];
+      if (!last || !last.x.equals(point.x) || !last.y.equals(point.y)) loop.push(point);
+      const partner = partners[node];
+      if (partner < 0) {
+        piece = forward ? node : previous[node];
+      } else if (forward !== reversing[node]) {
+        // Incoming arm to the partner's outgoing arm, or outgoing to outgoing when reversing
+        piece = partner;
+        forward = true;
+      } else {
+        piece = previous[partner];
+        forward = false;
+      }
+    }
+    const first = loop[0];
+    const last = loop[loop.length - 1];
+    if (loop.length > 1 && first.x.equals(last.x) && first.y.equals(last.y)) loop.pop();
+    if (loop.length >= 3) loops.push(loop);
+  }
+  return loops;
+}
+
+interface CornerPoint {
+  x: number;
+  y: number;
+}
+
+// Point just off a crossing inside the corner between two arms, or null for a degenerate arm
+function getCornerSample(
+  corner: CornerPoint,
+  a: CornerPoint,
+  b: CornerPoint
+): [number, number] | null {
+  const lengthA = Math.hypot(a.x - corner.x, a.y - corner.y);
+  const lengthB = Math.hypot(b.x - corner.x, b.y - corner.y);
+  if (lengthA === 0 || lengthB === 0) return null;
+  const reach = Math.min(lengthA, lengthB) / 64;
+  return [
+    corner.x + ((a.x - corner.x) / lengthA + (b.x - corner.x) / lengthB) * reach,
+    corner.y + ((a.y - corner.y) / lengthA + (b.y - corner.y) / lengthB) * reach
+  ];
+}
+
+function toCoords(points: readonly FixedVector2[]): number[] {
+  const coords: number[] = [];
+  for (const point of points) {
+    coords.push(point.x.toNumber(), point.y.toNumber());
+  }
+  return coords;
+}
+
+// Midpoint of the first edge of a ring that lies on no other ring, where the winding numbers of
+// the others are unambiguous
+function getSamplePoint(
+  rings: ReadonlyArray<{ coords: number[] }>,
+  index: number
+): [number, number] {
+  const { coords } = rings[index];
+  const count = coords.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const x = (coords[i * 2] + coords[j * 2]) / 2;
+    const y = (coords[i * 2 + 1] + coords[j * 2 + 1]) / 2;
+    if (rings.every((other, k) => k === index || !isOnRing(other.coords, x, y))) return [x, y];
+  }
+  return [coords[0], coords[1]];
+}
+
+function isOnRing(coords: number[], x: number, y: number): boolean {
+  const count = coords.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const ax = coords[i * 2];
+    const ay = coords[i * 2 + 1];
+    const bx = coords[j * 2];
+    const by = coords[j * 2 + 1];
+    if (
+      cross(bx - ax, by - ay, x - ax, y - ay) === 0 &&
+      x >= Math.min(ax, bx) &&
+      x <= Math.max(ax, bx) &&
+      y >= Math.min(ay, by) &&
+      y <= Math.max(ay, by)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function getSignedArea(coords: number[]): number {
+  let area = 0;
+  const count = coords.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    area += coords[i * 2] * coords[j * 2 + 1] - coords[j * 2] * coords[i * 2 + 1];
+  }
+  return area / 2;
+}
+
+// Orient a ring of vertex indices so its signed area has the given sign
+function orientRing(ring: number[], coords: number[], sign: number): number[] {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    area += coords[a * 2] * coords[b * 2 + 1] - coords[b * 2] * coords[a * 2 + 1];
+  }
+  return area * sign < 0 ? ring.reverse() : ring;
+}
+
+function getMaxX(ring: number[], coords: number[]): number {
+  return Math.max(...ring.map(index => coords[index * 2]));
+}
+
+// Winding number of a closed ring around a point, positive for positive-area rings
+function getWindingNumber(coords: number[], x: number, y: number): number {
+  let winding = 0;
+  const count = coords.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const ax = coords[i * 2];
+    const ay = coords[i * 2 + 1];
+    const bx = coords[j * 2];
+    const by = coords[j * 2 + 1];
+    const side = (bx - ax) * (y - ay) - (x - ax) * (by - ay);
+    if (ay <= y && by > y && side > 0) winding++;
+    else if (ay > y && by <= y && side < 0) winding--;
+  }
+  return winding;
+}
+
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+/**
+ * Join a hole into the outer ring through a bridge to the nearest visible ring vertex
+ * 通过连接到最近可见环顶点的桥，将孔洞并入外环
+ */
+function bridgeHole(
+  ring: number[],
+  hole: number[],
+  otherHoles: number[][],
+  coords: number[]
+): number[] {
+  // Start from the hole's right-most vertex
+  let start = 0;
+  for (let i = 1; i < hole.length; i++) {
+    if (coords[hole[i] * 2] > coords[hole[start] * 2]) start = i;
+  }
+  const mx = coords[hole[start] * 2];
+  const my = coords[hole[start] * 2 + 1];
+
+  const candidates = ring
+    .map((index, position) => ({
+      position,
+      distance: Math.hypot(coords[index * 2] - mx, coords[index * 2 + 1] - my)
+    }))
+    .sort((a, b) => a.distance - b.distance);
+  const edges = [ring, hole, ...otherHoles];
+  const visible = candidates.find(({ position }) =>
+    isBridgeValid(ring, position, mx, my, edges, coords)
+  );
+  const position = (visible || candidates[0]).position;
+
+  const rotated = [...hole.slice(start), ...hole.slice(0, start)];
+  return [
+    ...ring.slice(0, position + 1),
+    ...rotated,
+    hole[start],
+    ring[position],
+    ...ring.slice(position + 1)
+  ];
+}
+
+function isBridgeValid(
+  ring: number[],
+  position: number,
+  mx: number,
+  my: number,
+  rings: number[][],
+  coords: number[]
+): boolean {
+  const count = ring.length;
+  const p = ring[position];
+  const a = ring[(position - 1 + count) % count];
+  const b = ring[(position + 1) % count];
+  const px = coords[p * 2];
+  const py = coords[p * 2 + 1];
+
+  // The bridge must leave the ring vertex into the polygon interior
+  const ax = coords[a * 2] - px;
+  const ay = coords[a * 2 + 1] - py;
+  const bx = coords[b * 2] - px;
+  const by = coords[b * 2 + 1] - py;
+  const dx = mx - px;
+  const dy = my - py;
+  const inside =
+    cross(-ax, -ay, bx, by) > 0
+      ? cross(bx, by, dx, dy) > 0 && cross(dx, dy, ax, ay) > 0
+      : !(cross(ax, ay, dx, dy) >= 0 && cross(dx, dy, bx, by) >= 0);
+  if (!inside) return false;
+
+  for (const edgeRing of rings) {
+    for (let i = 0; i < edgeRing.length; i++) {
+      const e0 = edgeRing[i];
+      const e1 = edgeRing[(i + 1) % edgeRing.length];
+      if (
+        segmentsCross(
+          px,
+          py,
+          mx,
+          my,
+          coords[e0 * 2],
+          coords[e0 * 2 + 1],
+          coords[e1 * 2],
+          coords[e1 * 2 + 1]
+        )
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Proper crossing only, so segments touching at an end point do not count
+// Fraction of segment CD where the path from A through B to N crosses it at vertex B, or null
+// when B is not inside CD or the path does not pass from one side of it to the other
+function getVertexPass(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  nx: number,
+  ny: number,
+  cx: number,
+  cy: number,
+  dx: number,
+  dy: number
+): number | null {
+  if (cross(dx - cx, dy - cy, bx - cx, by - cy) !== 0) return null;
+  const sideA = cross(dx - cx, dy - cy, ax - cx, ay - cy);
+  const sideN = cross(dx - cx, dy - cy, nx - cx, ny - cy);
+  if (sideA === 0 || sideN === 0 || sideA > 0 === sideN > 0) return null;
+  const lengthSquared = (dx - cx) * (dx - cx) + (dy - cy) * (dy - cy);
+  const u = ((bx - cx) * (dx - cx) + (by - cy) * (dy - cy)) / lengthSquared;
+  return u > 0 && u < 1 ? u : null;
+}
+
+// Whether the arms of two paths through a point, given as [in1, out1, in2, out2], alternate
+// around it; arms pointing the same way leave the order undecided and count as not crossing
+function armsInterleave(corner: CornerPoint, arms: CornerPoint[]): boolean {
+  const [in1, out1, in2, out2] = arms.map(arm => [arm.x - corner.x, arm.y - corner.y]);
+  const directions = [in1, out1, in2, out2];
+  for (let a = 0; a < 4; a++) {
+    for (let b = a + 1; b < 4; b++) {
+      const [ax, ay] = directions[a];
+      const [bx, by] = directions[b];
+      if (cross(ax, ay, bx, by) === 0 && ax * bx + ay * by >= 0) return false;
+    }
+  }
+  // Strictly inside the counterclockwise sweep from in1 to out1
+  const isInSweep = ([x, y]: number[]): boolean => {
+    const afterIn = cross(in1[0], in1[1], x, y) > 0;
+    const beforeOut = cross(x, y, out1[0], out1[1]) > 0;
+    return cross(in1[0], in1[1], out1[0], out1[1]) > 0
+      ? afterIn && beforeOut
+      : afterIn || beforeOut;
+  };
+  return isInSweep(in2) !== isInSweep(out2);
+}
+
+function segmentsCross(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  cx: number,
+  cy: number,
+  dx: number,
+  dy: number
+): boolean {
+  const d1 = cross(bx - ax, by - ay, cx - ax, cy - ay);
+  const d2 = cross(bx - ax, by - ay, dx - ax, dy - ay);
+  const d3 = cross(dx - cx, dy - cy, ax - cx, ay - cy);
+  const d4 = cross(dx - cx, dy - cy, bx - cx, by - cy);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * Clip ears from a positive-area ring until one triangle is left
+ * 从正面积环上切除耳朵，直到只剩一个三角形
+ *
+ * Passes relax the ear test when no strict ear exists: first convex ears with no vertex inside,
+ * then any non-reflex corner, then any corner, so degenerate input always terminates.
+ * 不存在严格耳朵时逐步放宽耳朵判定：先是内部无顶点的凸耳，然后是任何非凹角，最后是任意角，
+ * 因此退化输入也总能结束。
+ */
+function clipEars(ring: number[], coords: number[]): number[] {
+  const count = ring.length;
+  if (count < 3) return [];
+
+  const next = createRange(1, count);
+  next[count - 1] = 0;
+  const prev = createRange(-1, count);
+  prev[0] = count - 1;
+  const x = (node: number): number => coords[ring[node] * 2];
+  const y = (node: number): number => coords[ring[node] * 2 + 1];
+
+  const isEar = (node: number, pass: number): boolean => {
+    const a = prev[node];
+    const c = next[node];
+    const turn = cross(x(node) - x(a), y(node) - y(a), x(c) - x(node), y(c) - y(node));
+    if (pass === 2) return true;
+    if (pass === 1) return turn >= 0;
+    if (turn <= 0) return false;
+
+    for (let other = next[c]; other !== a; other = next[other]) {
+      const px = x(other);
+      const py = y(other);
+      // Bridge duplicates share a position with the corner and do not block it
+      if (
+        (px === x(a) && py === y(a)) ||
+        (px === x(node) && py === y(node)) ||
+        (px === x(c) && py === y(c))
+      ) {
+        continue;
+      }
+      if (
+        cross(x(node) - x(a), y(node) - y(a), px - x(a), py - y(a)) >= 0 &&
+        cross(x(c) - x(node), y(c) - y(node), px - x(node), py - y(node)) >= 0 &&
+        cross(x(a) - x(c), y(a) - y(c), px - x(c), py - y(c)) >= 0
+      ) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const triangles: number[] = [];
+  let remaining = count;
+  let node = 0;
+  let stop = node;
+  let pass = 0;
+  while (remaining > 3) {
+    if (isEar(node, pass)) {
+      triangles.push(ring[prev[node]], ring[node], ring[next[node]]);
+      next[prev[node]] = next[node];
+      prev[next[node]] = prev[node];
+      node = next[node];
+      stop = node;
+      remaining--;
+      pass = 0;
+      continue;
+    }
+    node = next[node];
+    if (node === stop) pass++;
+  }
+  triangles.push(ring[prev[node]], ring[node], ring[next[node]]);
+  return triangles;
+}
@@ -0,0 +1,305 @@
+/**
+ * Vector path made of lines, Bézier curves and arcs, built like a canvas path
+ * 由直线、贝塞尔曲线和圆弧组成的矢量路径，构建方式与canvas路径相同
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { boundsOfPoints } from '../types/RenderTypes';
+
+/**
+ * Path segment command; arcs connect to the current point with a straight line as in canvas
+ * 路径段命令；圆弧与canvas一样以直线连接到当前点
+ */
+export type PathCommand =
+  | { type: 'moveTo'; point: FixedVector2 }
+  | { type: 'lineTo'; point: FixedVector2 }
+  | { type: 'quadraticCurveTo'; control: FixedVector2; point: FixedVector2 }
+  | {
+      type: 'bezierCurveTo';
+      control1: FixedVector2;
+      control2: FixedVector2;
+      point: FixedVector2;
+    }
+  | {
+      type: 'arc';
+      center: FixedVector2;
+      radius: Fixed;
+      startAngle: Fixed; // Radians, clockwise on screen because y points down
+      endAngle: Fixed;
+      counterclockwise: boolean;
+    }
+  | { type: 'closePath' };
+
+/**
+ * Target of path building calls, implemented by VectorPath and renderers
+ * 路径构建调用的目标，由VectorPath和渲染器实现
+ */
+export interface PathBuilder {
+  moveTo(_point: FixedVector2): void;
+  lineTo(_point: FixedVector2): void;
+  quadraticCurveTo(_control: FixedVector2, _point: FixedVector2): void;
+  bezierCurveTo(_control1: FixedVector2, _control2: FixedVector2, _point: FixedVector2): void;
+  arc(
+    _center: FixedVector2,
+    _radius: Fixed,
+    _startAngle: Fixed,
+    _endAngle: Fixed,
+    _counterclockwise?: boolean
+  ): void;
+  arcTo(_point1: FixedVector2, _point2: FixedVector2, _radius: Fixed): void;
+  closePath(): void;
+}
+
+/**
+ * Path recorded as commands; arcTo is resolved to lines and arcs when added
+ * 以命令记录的路径；arcTo在添加时解析为直线和圆弧
+ */
+export class VectorPath implements PathBuilder {
+  private commands: PathCommand[] = [];
+  private currentPoint: FixedVector2 | null = null;
+  private subpathStart: FixedVector2 | null = null;
+
+  constructor(commands: readonly PathCommand[] = []) {
+    for (const command of commands) {
+      this.push(command);
+    }
+  }
+
+  moveTo(point: FixedVector2): void {
+    this.push({ type: 'moveTo', point });
+  }
+
+  lineTo(point: FixedVector2): void {
+    this.push(this.currentPoint ? { type: 'lineTo', point } : { type: 'moveTo', point });
+  }
+
+  quadraticCurveTo(control: FixedVector2, point: FixedVector2): void {
+    this.ensureSubpath(control);
+    this.push({ type: 'quadraticCurveTo', control, point });
+  }
+
+  bezierCurveTo(control1: FixedVector2, control2: FixedVector2, point: FixedVector2): void {
+    this.ensureSubpath(control1);
+    this.push({ type: 'bezierCurveTo', control1, control2, point });
+  }
+
+  arc(
+    center: FixedVector2,
+    radius: Fixed,
+    startAngle: Fixed,
+    endAngle: Fixed,
+    counterclockwise = false
+  ): void {
+    if (radius.lessThan(Fixed.ZERO)) {
+      throw new Error(`Arc radius must not be negative, got ${radius.toNumber()}`);
+    }
+    this.push({ type: 'arc', center, radius, startAngle, endAngle, counterclockwise });
+  }
+
+  /**
+   * Round the corner at point1 between the current point and point2 with a circular arc
+   * 以圆弧圆化当前点与point2之间位于point1的拐角
+   */
+  arcTo(point1: FixedVector2, point2: FixedVector2, radius: Fixed): void {
+    if (radius.lessThan(Fixed.ZERO)) {
+      throw new Error(`Arc radius must not be negative, got ${radius.toNumber()}`);
+    }
+    const start = this.currentPoint;
+    if (!start) {
+      this.moveTo(point1);
+      return;
+    }
+
+    const x1 = point1.x.toNumber();
+    const y1 = point1.y.toNumber();
+    const ax = start.x.toNumber() - x1;
+    const ay = start.y.toNumber() - y1;
+    const bx = point2.x.toNumber() - x1;
+    const by = point2.y.toNumber() - y1;
+    const lengthA = Math.hypot(ax, ay);
+    const lengthB = Math.hypot(bx, by);
+    const cross = ax * by - ay * bx;
+    const r = radius.toNumber();
+
+    // Degenerate corners become a straight line to point1
+    if (lengthA === 0 || lengthB === 0 || r === 0 || Math.abs(cross) < 1e-9 * lengthA * lengthB) {
+      this.lineTo(point1);
+      return;
+    }
+
+    const ux = ax / lengthA;
+    const uy = ay / lengthA;
+    const vx = bx / lengthB;
+    const vy = by / lengthB;
+    const angle = Math.acos(Math.max(-1, Math.min(1, ux * vx + uy * vy)));
+    const tangent = r / Math.tan(angle / 2);
+    const bisectorLength = Math.hypot(ux + vx, uy + vy);
+    const centerDistance = r / Math.sin(angle / 2);
+    const cx = x1 + ((ux + vx) / bisectorLength) * centerDistance;
+    const cy = y1 + ((uy + vy) / bisectorLength) * centerDistance;
+    const tx0 = x1 + ux * tangent;
+    const ty0 = y1 + uy * tangent;
+    const tx1 = x1 + vx * tangent;
+    const ty1 = y1 + vy * tangent;
+
+    this.arc(
+      new FixedVector2(new Fixed(cx), new Fixed(cy)),
+      radius,
+      new Fixed(Math.atan2(ty0 - cy, tx0 - cx)),
+      new Fixed(Math.atan2(ty1 - cy, tx1 - cx)),
+      cross > 0
+    );
+  }
+
+  closePath(): void {
+    if (this.currentPoint) {
+      this.push({ type: 'closePath' });
+    }
+  }
+
+  getCommands(): readonly PathCommand[] {
+    return this.commands;
+  }
+
+  isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  getCurrentPoint(): FixedVector2 | null {
+    return this.currentPoint;
+  }
+
+  clone(): VectorPath {
+    return new VectorPath(this.commands);
+  }
+
+  /**
+   * Replay the commands onto another path builder, such as a renderer
+   * 将命令回放到另一个路径构建器（如渲染器）上
+   */
+  appendTo(target: PathBuilder): void {
+    for (const command of this.commands) {
+      switch (command.type) {
+        case 'moveTo':
+          target.moveTo(command.point);
+          break;
+        case 'lineTo':
+          target.lineTo(command.point);
+          break;
+        case 'quadraticCurveTo':
+          target.quadraticCurveTo(command.control, command.point);
+          break;
+        case 'bezierCurveTo':
+          target.bezierCurveTo(command.control1, command.control2, command.point);
+          break;
+        case 'arc':
+          target.arc(
+            command.center,
+            command.radius,
+            command.startAngle,
+            command.endAngle,
+            command.counterclockwise
+          );
+          break;
+        case 'closePath':
+          target.closePath();
+          break;
+      }
+    }
+  }
+
+  /**
+   * Conservative bounds: curves are bounded by their control points and arcs by their circle
+   * 保守包围盒：曲线以其控制点为界，圆弧以其所在圆为界
+   */
+  getBounds(): FixedRect {
+    const points: FixedVector2[] = [];
+    for (const command of this.commands) {
+      switch (command.type) {
+        case 'moveTo':
+        case 'lineTo':
+          points.push(command.point);
+          break;
+        case 'quadraticCurveTo':
+          points.push(command.control, command.point);
+          break;
+        case 'bezierCurveTo':
+          points.push(command.control1, command.control2, command.point);
+          break;
+        case 'arc': {
+          const extent = new FixedVector2(command.radius, command.radius);
+          points.push(command.center.subtract(extent), command.center.add(extent));
+          break;
+        }
+      }
+    }
+    return boundsOfPoints(points);
+  }
+
+  private ensureSubpath(point: FixedVector2): void {
+    if (!this.currentPoint) {
+      this.moveTo(point);
+    }
+  }
+
+  private push(command: PathCommand): void {
+    this.commands.push(command);
+    switch (command.type) {
+      case 'moveTo':
+        this.subpathStart = command.point;
+        this.currentPoint = command.point;
+        break;
+      case 'arc': {
+        const sweep = getArcSweep(
+          command.startAngle.toNumber(),
+          command.endAngle.toNumber(),
+          command.counterclockwise
+        );
+        const start = command.startAngle.toNumber();
+        if (!this.currentPoint) {
+          this.subpathStart = getArcPoint(command.center, command.radius, start);
+        }
+        this.currentPoint = getArcPoint(command.center, command.radius, start + sweep);
+        break;
+      }
+      case 'closePath':
+        this.currentPoint = this.subpathStart;
+        break;
+      default:
+        this.currentPoint = command.point;
+    }
+  }
+}
+
+/**
+ * Signed sweep of an arc in radians, following the canvas rules: a sweep of a full turn or
+ * more draws a circle, anything else is reduced to less than a full turn in the arc direction
+ * 圆弧的有符号扫过角（弧度），遵循canvas规则：扫过一整圈或以上时绘制整圆，否则沿圆弧方向
+ * 缩减到不足一整圈
+ */
+export function getArcSweep(
+  startAngle: number,
+  endAngle: number,
+  counterclockwise: boolean
+): number {
+  const fullTurn = Math.PI * 2;
+  const delta = endAngle - startAngle;
+  if (!counterclockwise) {
+    if (delta >= fullTurn) return fullTurn;
+    return ((delta % fullTurn) + fullTurn) % fullTurn;
+  }
+  if (-delta >= fullTurn) return -fullTurn;
+  return -(((-delta % fullTurn) + fullTurn) % fullTurn);
+}
+
+/**
+ * Point on a circle at an angle
+ * 圆上某角度处的点
+ */
+export function getArcPoint(center: FixedVector2, radius: Fixed, angle: number): FixedVector2 {
+  const r = radius.toNumber();
+  return new FixedVector2(
+    new Fixed(center.x.toNumber() + Math.cos(angle) * r),
+    new Fixed(center.y.toNumber() + Math.sin(angle) * r)
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Inspectable, serializable and replayable display list
+ * 可检查、可序列化、可回放的显示列表
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { IRenderer } from '../interfaces/IRenderer';
+import { Transform2D, ITexture } from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import {
+  DrawCommand,
+  DrawCommandType,
+  SerializedDisplayList,
+  SerializedTextureRef
+} from './DrawCommands';
+
+/**
+ * Current serialized display list format version
+ * 当前序列化显示列表格式版本
+ */
+export const DISPLAY_LIST_VERSION = 1;
+
+/**
+ * Resolves a serialized texture reference back to a texture
+ * 将序列化的纹理引用解析回纹理
+ */
+export type TextureResolver = (ref: SerializedTextureRef, index: number) => ITexture;
+
+/**
+ * Ordered list of draw commands recorded for one frame
+ * 为一帧记录的有序绘制命令列表
+ */
+export class DisplayList {
+  private commands: DrawCommand[];
+
+  constructor(commands: DrawCommand[] = []) {
+    this.commands = [...commands];
+  }
+
+  get length(): number {
+    return this.commands.length;
+  }
+
+  push(command: DrawCommand): void {
+    this.commands.push(command);
+  }
+
+  /**
+   * Remove and return the last command
+   * 移除并返回最后一条命令
+   */
+  pop(): DrawCommand | undefined {
+    return this.commands.pop();
+  }
+
+  clear(): void {
+    this.commands = [];
+  }
+
+  getCommands(): readonly DrawCommand[] {
+    return this.commands;
+  }
+
+  getCommandsOfType<T extends DrawCommandType>(type: T): Array<Extract<DrawCommand, { type: T }>> {
+    return this.commands.filter(
+      (command): command is Extract<DrawCommand, { type: T }> => command.type === type
+    );
+  }
+
+  clone(): DisplayList {
+    return new DisplayList(this.commands);
+  }
+
+  /**
+   * Replay all commands onto another renderer, relative to its current transform
+   * 将所有命令回放到另一个渲染器上，相对于其当前变换
+   *
+   * Each recorded transform pops the previously replayed one and pushes its own, unless it is
+   * the identity. Recorders keep only the last of several transforms set back to back, so
+   * recording a replay onto an untransformed renderer gives an equal list.
+   * 每个记录的变换会弹出之前回放的变换并压入自身，单位变换除外。记录器对连续设置的多个变换
+   * 只保留最后一个，因此在未变换的渲染器上记录回放结果会得到相同的列表。
+   */
+  replay(target: IRenderer): void {
+    let transformPushed = false;
+
+    for (const command of this.commands) {
+      switch (command.type) {
+        case 'clear':
+          target.clear(command.color);
+          break;
+        case 'line':
+          target.drawLine(command.start, command.end, command.style);
+          break;
+        case 'circle':
+          target.drawCircle(command.center, command.radius, command.style);
+          break;
+        case 'rect':
+          target.drawRect(command.bounds, command.style);
+          break;
+        case 'polygon':
+          target.drawPolygon(command.vertices, command.style);
+          break;
+        case 'ellipse':
+          target.drawEllipse(command.bounds, command.style);
+          break;
+        case 'fillPath':
+          target.beginPath();
+          new VectorPath(command.commands).appendTo(target);
+          target.fillPath(command.paint, command.fillRule);
+          break;
+        case 'strokePath':
+          target.beginPath();
+          new VectorPath(command.commands).appendTo(target);
+          target.strokePath(command.style);
+          break;
+        case 'text':
+          target.drawText(command.text, command.position, command.style);
+          break;
+        case 'texture':
+          target.drawTexture(command.texture, command.position, command.style);
+          break;
+        case 'textureRegion':
+          target.drawTextureRegion(
+            command.texture,
+            command.sourceRect,
+            command.destRect,
+            command.style
+          );
+          break;
+        case 'renderState':
+          target.setRenderState(command.state);
+          break;
+        case 'transform':
+          // Recorded transforms are absolute, so replace the previously replayed one; an
+          // identity transform only needs the target's own transform back
+          if (transformPushed) {
+            target.popTransform();
+            transformPushed = false;
+          }
+          if (!isIdentityTransform(command.transform)) {
+            target.pushTransform(command.transform);
+            transformPushed = true;
+          }
+          break;
+        case 'viewport':
+          target.setViewport(command.viewport);
+          break;
+      }
+    }
+
+    if (transformPushed) {
+      target.popTransform();
+    }
+  }
+
+  // ===== Serialization =====
+  // 序列化
+
+  toJSON(): SerializedDisplayList {
+    const textures: SerializedTextureRef[] = [];
+    const textureIndices = new Map<ITexture, number>();
+
+    const commands = this.commands.map(command => {
+      const encoded: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(command)) {
+        if (value === undefined) continue;
+        if (key === 'texture') {
+          const texture = value as ITexture;
+          let index = textureIndices.get(texture);
+          if (index === undefined) {
+            index = textures.length;
+            textures.push({ width: texture.width, height: texture.height });
+            textureIndices.set(texture, index);
+          }
+          encoded[key] = index;
+        } else {
+          encoded[key] = encodeValue(value);
+        }
+      }
+      return encoded;
+    });
+
+    return { version: DISPLAY_LIST_VERSION, textures, commands };
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  static fromJSON(data: SerializedDisplayList, resolveTexture?: TextureResolver): DisplayList {
+    if (data.version !== DISPLAY_LIST_VERSION) {
+      throw new Error(`Unsupported display list version: ${data.version}`);
+    }
+
+    const resolver = resolveTexture || createPlaceholderTexture;
+    const textures = data.textures.map((ref, index) => resolver(ref, index));
+
+    const commands = data.commands.map(encoded => {
+      const command: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(encoded)) {
+        if (key === 'texture') {
+          const texture = textures[value as number];
+          if (!texture) {
+            throw new Error(`Invalid texture reference: ${value}`);
+          }
+          command[key] = texture;
+        } else {
+          command[key] = decodeValue(value);
+        }
+      }
+      return command as unknown as DrawCommand;
+    });
+
+    return new DisplayList(commands);
+  }
+
+  static deserialize(json: string, resolveTexture?: TextureResolver): DisplayList {
+    return DisplayList.fromJSON(JSON.parse(json) as SerializedDisplayList, resolveTexture);
+  }
+}
+
+function isIdentityTransform(transform: Transform2D): boolean {
+  return (
+    transform.position.x.equals(Fixed.ZERO) &&
+    transform.position.y.equals(Fixed.ZERO) &&
+    transform.rotation.equals(Fixed.ZERO) &&
+    transform.scale.x.equals(Fixed.ONE) &&
+    transform.scale.y.equals(Fixed.ONE) &&
+    transform.skew.equals(Fixed.ZERO)
+  );
+}
+
+// Fixed values are stored as plain numbers; toNumber/new Fixed round-trips the raw value exactly
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Fixed) {
+    return { $fixed: value.toNumber() };
+  }
+  if (value instanceof FixedVector2) {
+    return { $vec2: [value.x.toNumber(), value.y.toNumber()] };
+  }
+  if (value instanceof FixedRect) {
+    return {
+      $rect: [
+        value.x.toNumber(),
+        value.y.toNumber(),
+        value.width.toNumber(),
+        value.height.toNumber()
+      ]
+    };
+  }
+  if (value instanceof Transform2D) {
+    return {
+      $transform: {
+        position: encodeValue(value.position),
+        rotation: encodeValue(value.rotation),
+        scale: encodeValue(value.scale),
+        skew: encodeValue(value.skew)
+      }
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        result[key] = encodeValue(entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  if ('$fixed' in record) {
+    return new Fixed(record.$fixed as number);
+  }
+  if ('$vec2' in record) {
+    const [x, y] = record.$vec2 as number[];
+    return new FixedVector2(new Fixed(x), new Fixed(y));
+  }
+  if ('$rect' in record) {
+    const [x, y, width, height] = record.$rect as number[];
+    return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+  }
+  if ('$transform' in record) {
+    const transform = record.$transform as Record<string, unknown>;
+    return new Transform2D(
+      decodeValue(transform.position) as FixedVector2,
+      decodeValue(transform.rotation) as Fixed,
+      decodeValue(transform.scale) as FixedVector2,
+      transform.skew === undefined ? Fixed.ZERO : (decodeValue(transform.skew) as Fixed)
+    );
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(record)) {
+    result[key] = decodeValue(entry);
+  }
+  return result;
+}
+
+function createPlaceholderTexture(ref: SerializedTextureRef): ITexture {
+  return {
+    width: ref.width,
+    height: ref.height,
+    isLoaded: false,
+    source: null
+  };
+}
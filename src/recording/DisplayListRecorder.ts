@@ -0,0 +1,200 @@
+/**
+ * Shared display list recorder used by the recording renderers
+ * 记录渲染器共用的显示列表记录器
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  FillRule,
+  Paint
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { isWideCharacter } from '../text/LineBreaker';
+import { DisplayList } from './DisplayList';
+
+/**
+ * Recording renderer options
+ * 记录渲染器选项
+ */
+export interface RecordingRendererOptions {
+  /**
+   * Custom text measurement, defaults to a fixed advance per character
+   * 自定义文本测量，默认每个字符使用固定步进
+   */
+  measureText?: (text: string, style: TextStyle) => FixedVector2;
+}
+
+/**
+ * Approximate text size used when no measurement function is supplied; wide and full-width
+ * characters take a full em, others 0.6 em
+ * 未提供测量函数时使用的近似文本尺寸；宽字符和全角字符占一个全角宽度，其余占0.6个
+ */
+export function estimateTextSize(text: string, style: TextStyle): FixedVector2 {
+  let narrow = 0;
+  let wide = 0;
+  for (const char of text) {
+    if (isWideCharacter(char.codePointAt(0) as number)) wide++;
+    else narrow++;
+  }
+  const advance = style.fontSize.multiply(new Fixed(0.6));
+  const width = advance.multiply(new Fixed(narrow)).add(style.fontSize.multiply(new Fixed(wide)));
+  return new FixedVector2(width, style.fontSize);
+}
+
+/**
+ * Records primitives into a per-frame display list with the conventions shared by every
+ * recording renderer
+ * 使用所有记录渲染器共享的约定将图元记录到每帧显示列表中
+ *
+ * Styles and vertex arrays are copied, so callers may reuse their objects after drawing.
+ * 样式和顶点数组会被复制，因此调用方在绘制后可以复用自己的对象。
+ */
+export class DisplayListRecorder {
+  private displayList = new DisplayList();
+  private lastFrame: DisplayList | null = null;
+  private options: RecordingRendererOptions;
+
+  constructor(options: RecordingRendererOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Get the display list of the frame being recorded
+   * 获取正在记录的帧的显示列表
+   */
+  getDisplayList(): DisplayList {
+    return this.displayList;
+  }
+
+  /**
+   * Get the display list of the last completed frame
+   * 获取最后完成帧的显示列表
+   */
+  getLastFrame(): DisplayList | null {
+    return this.lastFrame;
+  }
+
+  beginFrame(): void {
+    this.displayList = new DisplayList();
+  }
+
+  endFrame(): void {
+    this.lastFrame = this.displayList;
+  }
+
+  /**
+   * Drop the frame being recorded and the last completed frame
+   * 丢弃正在记录的帧和最后完成的帧
+   */
+  reset(): void {
+    this.displayList.clear();
+    this.lastFrame = null;
+  }
+
+  /**
+   * Copy of the frame recorded so far
+   * 目前已记录帧的副本
+   */
+  snapshot(): DisplayList {
+    return this.displayList.clone();
+  }
+
+  clear(color: Color): void {
+    this.displayList.push({ type: 'clear', color: { ...color } });
+  }
+
+  setTransform(transform: Transform2D): void {
+    // A transform replaced before anything else is recorded has no effect, so keep the latest
+    const commands = this.displayList.getCommands();
+    if (commands.length > 0 && commands[commands.length - 1].type === 'transform') {
+      this.displayList.pop();
+    }
+    this.displayList.push({ type: 'transform', transform });
+  }
+
+  drawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.displayList.push({ type: 'line', start, end, style: { ...style } });
+  }
+
+  drawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.displayList.push({ type: 'circle', center, radius, style: { ...style } });
+  }
+
+  drawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.displayList.push({ type: 'rect', bounds, style: { ...style } });
+  }
+
+  drawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.displayList.push({ type: 'polygon', vertices: [...vertices], style: { ...style } });
+  }
+
+  drawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.displayList.push({ type: 'ellipse', bounds, style: { ...style } });
+  }
+
+  fillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.displayList.push({
+      type: 'fillPath',
+      commands: [...path.getCommands()],
+      paint: { ...paint },
+      fillRule
+    });
+  }
+
+  strokePath(path: VectorPath, style: LineStyle): void {
+    this.displayList.push({
+      type: 'strokePath',
+      commands: [...path.getCommands()],
+      style: { ...style }
+    });
+  }
+
+  drawText(text: string, position: FixedVector2, style: TextStyle): void {
+    this.displayList.push({ type: 'text', text, position, style: { ...style } });
+  }
+
+  measureText(text: string, style: TextStyle): FixedVector2 {
+    return (this.options.measureText || estimateTextSize)(text, style);
+  }
+
+  drawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    this.displayList.push({
+      type: 'texture',
+      texture,
+      position,
+      ...(style && { style: { ...style } })
+    });
+  }
+
+  drawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    this.displayList.push({
+      type: 'textureRegion',
+      texture,
+      sourceRect,
+      destRect,
+      ...(style && { style: { ...style } })
+    });
+  }
+
+  setRenderState(state: RenderState): void {
+    this.displayList.push({ type: 'renderState', state: { ...state } });
+  }
+
+  setViewport(viewport: Viewport): void {
+    this.displayList.push({ type: 'viewport', viewport: { ...viewport } });
+  }
+}
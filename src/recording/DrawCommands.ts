@@ -0,0 +1,208 @@
+/**
+ * Draw command types recorded into a display list
+ * 记录到显示列表中的绘制命令类型
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  FillRule,
+  Paint
+} from '../types/RenderTypes';
+import { PathCommand } from '../path/VectorPath';
+
+/**
+ * Clear the render target
+ * 清除渲染目标
+ */
+export interface ClearCommand {
+  type: 'clear';
+  color: Color;
+}
+
+/**
+ * Draw a line
+ * 绘制线条
+ */
+export interface LineCommand {
+  type: 'line';
+  start: FixedVector2;
+  end: FixedVector2;
+  style: LineStyle;
+}
+
+/**
+ * Draw a circle
+ * 绘制圆
+ */
+export interface CircleCommand {
+  type: 'circle';
+  center: FixedVector2;
+  radius: Fixed;
+  style: ShapeStyle;
+}
+
+/**
+ * Draw a rectangle
+ * 绘制矩形
+ */
+export interface RectCommand {
+  type: 'rect';
+  bounds: FixedRect;
+  style: ShapeStyle;
+}
+
+/**
+ * Draw a polygon
+ * 绘制多边形
+ */
+export interface PolygonCommand {
+  type: 'polygon';
+  vertices: FixedVector2[];
+  style: ShapeStyle;
+}
+
+/**
+ * Draw an ellipse
+ * 绘制椭圆
+ */
+export interface EllipseCommand {
+  type: 'ellipse';
+  bounds: FixedRect;
+  style: ShapeStyle;
+}
+
+/**
+ * Fill a vector path
+ * 填充矢量路径
+ */
+export interface FillPathCommand {
+  type: 'fillPath';
+  commands: PathCommand[];
+  paint: Paint;
+  fillRule: FillRule;
+}
+
+/**
+ * Stroke a vector path
+ * 描边矢量路径
+ */
+export interface StrokePathCommand {
+  type: 'strokePath';
+  commands: PathCommand[];
+  style: LineStyle;
+}
+
+/**
+ * Draw text
+ * 绘制文本
+ */
+export interface TextCommand {
+  type: 'text';
+  text: string;
+  position: FixedVector2;
+  style: TextStyle;
+}
+
+/**
+ * Draw a whole texture
+ * 绘制完整纹理
+ */
+export interface TextureCommand {
+  type: 'texture';
+  texture: ITexture;
+  position: FixedVector2;
+  style?: TextureStyle;
+}
+
+/**
+ * Draw a region of a texture
+ * 绘制纹理的一部分
+ */
+export interface TextureRegionCommand {
+  type: 'textureRegion';
+  texture: ITexture;
+  sourceRect: FixedRect;
+  destRect: FixedRect;
+  style?: TextureStyle;
+}
+
+/**
+ * Render state change
+ * 渲染状态变更
+ */
+export interface RenderStateCommand {
+  type: 'renderState';
+  state: RenderState;
+}
+
+/**
+ * Combined transform change
+ * 组合变换变更
+ */
+export interface TransformCommand {
+  type: 'transform';
+  transform: Transform2D;
+}
+
+/**
+ * Viewport change
+ * 视口变更
+ */
+export interface ViewportCommand {
+  type: 'viewport';
+  viewport: Viewport;
+}
+
+/**
+ * Any recorded draw command
+ * 任意已记录的绘制命令
+ */
+export type DrawCommand =
+  | ClearCommand
+  | LineCommand
+  | CircleCommand
+  | RectCommand
+  | PolygonCommand
+  | EllipseCommand
+  | FillPathCommand
+  | StrokePathCommand
+  | TextCommand
+  | TextureCommand
+  | TextureRegionCommand
+  | RenderStateCommand
+  | TransformCommand
+  | ViewportCommand;
+
+/**
+ * Draw command type names
+ * 绘制命令类型名称
+ */
+export type DrawCommandType = DrawCommand['type'];
+
+/**
+ * Texture reference stored in a serialized display list
+ * 序列化显示列表中存储的纹理引用
+ */
+export interface SerializedTextureRef {
+  width: number;
+  height: number;
+}
+
+/**
+ * JSON representation of a display list
+ * 显示列表的JSON表示
+ */
+export interface SerializedDisplayList {
+  version: number;
+  textures: SerializedTextureRef[];
+  commands: Array<Record<string, unknown>>;
+}
@@ -0,0 +1,186 @@
+/**
+ * Headless physics debug renderer that records draw calls into a display list
+ * 将绘制调用记录到显示列表中的无头物理调试渲染器
+ */
+
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BasePhysicsDebugRenderer } from '../base/BasePhysicsDebugRenderer';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  FillRule,
+  Paint
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { DisplayList } from './DisplayList';
+import { DisplayListRecorder, RecordingRendererOptions } from './DisplayListRecorder';
+
+/**
+ * Physics debug renderer recording every draw into a per-frame display list
+ * 将每次绘制记录到每帧显示列表中的物理调试渲染器
+ *
+ * Bodies, fixtures and joints are expected to already be in the extracted info shape.
+ * 刚体、夹具和关节应已是提取后的信息结构。
+ */
+export class RecordingDebugRenderer extends BasePhysicsDebugRenderer {
+  protected recorder: DisplayListRecorder;
+  protected renderTarget: unknown = null;
+  protected viewMatrix: FixedMatrix2x2 | null = null;
+
+  constructor(options: RecordingRendererOptions = {}) {
+    super();
+    this.recorder = new DisplayListRecorder(options);
+  }
+
+  /**
+   * Get the display list of the frame being recorded
+   * 获取正在记录的帧的显示列表
+   */
+  getDisplayList(): DisplayList {
+    return this.recorder.getDisplayList();
+  }
+
+  /**
+   * Get the display list of the last completed frame
+   * 获取最后完成帧的显示列表
+   */
+  getLastFrame(): DisplayList | null {
+    return this.recorder.getLastFrame();
+  }
+
+  dispose(): void {
+    this.recorder.reset();
+  }
+
+  getRenderTarget(): unknown {
+    return this.renderTarget;
+  }
+
+  setRenderTarget(target: unknown): void {
+    this.renderTarget = target;
+  }
+
+  // ===== Base Renderer Hooks =====
+  // 基础渲染器钩子
+
+  protected onBeginFrame(): void {
+    this.recorder.beginFrame();
+  }
+
+  protected onEndFrame(): void {
+    this.recorder.endFrame();
+  }
+
+  protected onClear(color: Color): void {
+    this.recorder.clear(color);
+  }
+
+  protected onSetViewMatrix(matrix: FixedMatrix2x2): void {
+    this.viewMatrix = matrix;
+  }
+
+  protected applyTransform(transform: Transform2D): void {
+    this.recorder.setTransform(transform);
+  }
+
+  protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.recorder.drawLine(start, end, style);
+  }
+
+  protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.recorder.drawCircle(center, radius, style);
+  }
+
+  protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.recorder.drawRect(bounds, style);
+  }
+
+  protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.recorder.drawPolygon(vertices, style);
+  }
+
+  protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.recorder.drawEllipse(bounds, style);
+  }
+
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.recorder.fillPath(path, paint, fillRule);
+  }
+
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    this.recorder.strokePath(path, style);
+  }
+
+  protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
+    this.recorder.drawText(text, position, style);
+  }
+
+  protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
+    return this.recorder.measureText(text, style);
+  }
+
+  protected onDrawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    this.recorder.drawTexture(texture, position, style);
+  }
+
+  protected onDrawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    this.recorder.drawTextureRegion(texture, sourceRect, destRect, style);
+  }
+
+  protected onSetRenderState(state: RenderState): void {
+    this.recorder.setRenderState(state);
+  }
+
+  protected onSetViewport(viewport: Viewport): void {
+    this.recorder.setViewport(viewport);
+  }
+
+  protected onSupportsFeature(feature: string): boolean {
+    return this.onGetRendererInfo().capabilities.includes(feature);
+  }
+
+  protected onGetRendererInfo(): {
+    name: string;
+    version: string;
+    vendor?: string;
+    capabilities: string[];
+  } {
+    return {
+      name: 'RecordingDebugRenderer',
+      version: '1.0.0',
+      vendor: 'esengine',
+      capabilities: ['recording', 'headless', 'replay', 'serialization', 'debug', 'physics-debug']
+    };
+  }
+
+  // ===== Debug Renderer Hooks =====
+  // 调试渲染器钩子
+
+  protected async onTakeScreenshot(): Promise<Blob | null> {
+    return null;
+  }
+
+  protected extractBodyInfo(body: unknown): any {
+    return body ?? null;
+  }
+
+  protected extractFixtureInfo(fixture: unknown): any {
+    return fixture ?? null;
+  }
+
+  protected extractJointInfo(joint: unknown): any {
+    return joint ?? null;
+  }
+}
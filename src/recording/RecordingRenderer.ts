@@ -0,0 +1,202 @@
+/**
+ * Headless game renderer that records draw calls into a display list
+ * 将绘制调用记录到显示列表中的无头游戏渲染器
+ */
+
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BaseGameRenderer } from '../base/BaseGameRenderer';
+import { LightConfig, PostProcessEffect, CameraConfig } from '../interfaces/IGameRenderer';
+import { LightMap } from '../lighting/Lighting';
+import {
+  Color,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  RenderLayer,
+  FillRule,
+  Paint
+} from '../types/RenderTypes';
+import { VectorPath } from '../path/VectorPath';
+import { DisplayList } from './DisplayList';
+import { DisplayListRecorder, RecordingRendererOptions } from './DisplayListRecorder';
+
+/**
+ * Game renderer recording every draw into a per-frame display list
+ * 将每次绘制记录到每帧显示列表中的游戏渲染器
+ */
+export class RecordingRenderer extends BaseGameRenderer {
+  protected recorder: DisplayListRecorder;
+  protected renderTarget: unknown = null;
+  protected viewMatrix: FixedMatrix2x2 | null = null;
+
+  constructor(options: RecordingRendererOptions = {}) {
+    super();
+    this.recorder = new DisplayListRecorder(options);
+  }
+
+  /**
+   * Get the display list of the frame being recorded
+   * 获取正在记录的帧的显示列表
+   */
+  getDisplayList(): DisplayList {
+    return this.recorder.getDisplayList();
+  }
+
+  /**
+   * Get the display list of the last completed frame
+   * 获取最后完成帧的显示列表
+   */
+  getLastFrame(): DisplayList | null {
+    return this.recorder.getLastFrame();
+  }
+
+  dispose(): void {
+    this.recorder.reset();
+  }
+
+  getRenderTarget(): unknown {
+    return this.renderTarget;
+  }
+
+  setRenderTarget(target: unknown): void {
+    this.renderTarget = target;
+  }
+
+  // ===== Base Renderer Hooks =====
+  // 基础渲染器钩子
+
+  protected onBeginFrame(): void {
+    this.recorder.beginFrame();
+  }
+
+  protected onEndFrame(): void {
+    this.recorder.endFrame();
+  }
+
+  protected onClear(color: Color): void {
+    this.recorder.clear(color);
+  }
+
+  protected onSetViewMatrix(matrix: FixedMatrix2x2): void {
+    this.viewMatrix = matrix;
+  }
+
+  protected applyTransform(transform: Transform2D): void {
+    this.recorder.setTransform(transform);
+  }
+
+  protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    this.recorder.drawLine(start, end, style);
+  }
+
+  protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    this.recorder.drawCircle(center, radius, style);
+  }
+
+  protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.recorder.drawRect(bounds, style);
+  }
+
+  protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    this.recorder.drawPolygon(vertices, style);
+  }
+
+  protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    this.recorder.drawEllipse(bounds, style);
+  }
+
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    this.recorder.fillPath(path, paint, fillRule);
+  }
+
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    this.recorder.strokePath(path, style);
+  }
+
+  protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
+    this.recorder.drawText(text, position, style);
+  }
+
+  protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
+    return this.recorder.measureText(text, style);
+  }
+
+  protected onDrawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    this.recorder.drawTexture(texture, position, style);
+  }
+
+  protected onDrawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    this.recorder.drawTextureRegion(texture, sourceRect, destRect, style);
+  }
+
+  protected onSetRenderState(state: RenderState): void {
+    this.recorder.setRenderState(state);
+  }
+
+  protected onSetViewport(viewport: Viewport): void {
+    this.recorder.setViewport(viewport);
+  }
+
+  protected onSupportsFeature(feature: string): boolean {
+    return this.onGetRendererInfo().capabilities.includes(feature);
+  }
+
+  protected onGetRendererInfo(): {
+    name: string;
+    version: string;
+    vendor?: string;
+    capabilities: string[];
+  } {
+    return {
+      name: 'RecordingRenderer',
+      version: '1.0.0',
+      vendor: 'esengine',
+      capabilities: ['recording', 'headless', 'replay', 'serialization']
+    };
+  }
+
+  // ===== Game Renderer Hooks =====
+  // 游戏渲染器钩子
+
+  protected onLightAdded(_id: string, _light: LightConfig): void {}
+  protected onLightRemoved(_id: string): void {}
+  protected onLightUpdated(_id: string, _light: LightConfig): void {}
+  protected onAmbientLightChanged(_color: Color): void {}
+  protected onLightingEnabledChanged(_enabled: boolean): void {}
+  protected onDrawLightMap(_lightMap: LightMap): void {}
+  protected onLayerCreated(_layer: RenderLayer): void {}
+  protected onLayerRemoved(_id: string): void {}
+  protected onLayerVisibilityChanged(_id: string, _visible: boolean): void {}
+  protected onLayerDepthChanged(_id: string, _depth: number): void {}
+  protected onCameraChanged(_config: CameraConfig): void {}
+  protected onPostProcessEffectAdded(_effect: PostProcessEffect): void {}
+  protected onPostProcessEffectRemoved(_name: string): void {}
+  protected onPostProcessEffectEnabledChanged(_name: string, _enabled: boolean): void {}
+  protected onPostProcessEffectUpdated(_name: string, _effect: PostProcessEffect): void {}
+  protected onBeginBatch(): void {}
+  protected onEndBatch(): void {}
+  protected onFlushBatch(): void {}
+
+  protected onCreateRenderTexture(width: number, height: number): ITexture {
+    return { width, height, isLoaded: true, source: new DisplayList() };
+  }
+
+  protected onCaptureFrame(): ITexture {
+    return {
+      width: this.viewport.width,
+      height: this.viewport.height,
+      isLoaded: true,
+      source: this.recorder.snapshot()
+    };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * In-memory RGBA framebuffer used by the software renderer
+ * 软件渲染器使用的内存RGBA帧缓冲
+ */
+
+import { Color, ITexture, BlendMode } from '../types/RenderTypes';
+
+/**
+ * RGBA8 pixel data, compatible with ImageData
+ * RGBA8像素数据，与ImageData兼容
+ */
+export interface PixelData {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+}
+
+/**
+ * Check whether a value carries RGBA8 pixel data
+ * 检查值是否携带RGBA8像素数据
+ */
+export function isPixelData(value: unknown): value is PixelData {
+  if (value === null || typeof value !== 'object') return false;
+  const candidate = value as Partial<PixelData>;
+  return (
+    typeof candidate.width === 'number' &&
+    typeof candidate.height === 'number' &&
+    candidate.data instanceof Uint8ClampedArray &&
+    candidate.data.length >= candidate.width * candidate.height * 4
+  );
+}
+
+/**
+ * Create a texture backed by pixel data
+ * 创建由像素数据支持的纹理
+ */
+export function createPixelTexture(pixels: PixelData): ITexture {
+  return {
+    width: pixels.width,
+    height: pixels.height,
+    isLoaded: true,
+    source: pixels
+  };
+}
+
+/**
+ * RGBA8 framebuffer with blend-mode aware pixel writes
+ * 支持混合模式像素写入的RGBA8帧缓冲
+ */
+export class SoftwareFramebuffer implements PixelData {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+
+  constructor(width: number, height: number, data?: Uint8ClampedArray) {
+    this.width = width;
+    this.height = height;
+    this.data = data || new Uint8ClampedArray(width * height * 4);
+  }
+
+  clear(color: Color): void {
+    const r = color.r * 255;
+    const g = color.g * 255;
+    const b = color.b * 255;
+    const a = color.a * 255;
+    for (let i = 0; i < this.data.length; i += 4) {
+      this.data[i] = r;
+      this.data[i + 1] = g;
+      this.data[i + 2] = b;
+      this.data[i + 3] = a;
+    }
+  }
+
+  getPixel(x: number, y: number): Color {
+    const i = (y * this.width + x) * 4;
+    return {
+      r: this.data[i] / 255,
+      g: this.data[i + 1] / 255,
+      b: this.data[i + 2] / 255,
+      a: this.data[i + 3] / 255
+    };
+  }
+
+  /**
+   * Composite a source color (channels 0-1) over the pixel at x, y
+   * 将源颜色（通道0-1）合成到x, y处的像素上
+   */
+  blendPixel(
+    x: number,
+    y: number,
+    r: number,
+    g: number,
+    b: number,
+    a: number,
+    mode: BlendMode
+  ): void {
+    if (a <= 0) return;
+
+    const i = (y * this.width + x) * 4;
+    const db = this.data;
+    const ab = db[i + 3] / 255;
+    const cb = [db[i] / 255, db[i + 1] / 255, db[i + 2] / 255];
+    const cs = [r, g, b];
+
+    if (mode === BlendMode.Add) {
+      const ao = Math.min(1, a + ab);
+      for (let c = 0; c < 3; c++) {
+        const premultiplied = Math.min(1, a * cs[c] + ab * cb[c]);
+        db[i + c] = (ao > 0 ? Math.min(1, premultiplied / ao) : 0) * 255;
+      }
+      db[i + 3] = ao * 255;
+      return;
+    }
+
+    // Separable blend followed by source-over compositing (W3C compositing model)
+    const ao = a + ab * (1 - a);
+    for (let c = 0; c < 3; c++) {
+      const mixed = (1 - ab) * cs[c] + ab * blendChannel(mode, cb[c], cs[c]);
+      const premultiplied = a * mixed + ab * cb[c] * (1 - a);
+      db[i + c] = (ao > 0 ? premultiplied / ao : 0) * 255;
+    }
+    db[i + 3] = ao * 255;
+  }
+
+  clone(): SoftwareFramebuffer {
+    return new SoftwareFramebuffer(this.width, this.height, new Uint8ClampedArray(this.data));
+  }
+}
+
+function blendChannel(mode: BlendMode, cb: number, cs: number): number {
+  switch (mode) {
+    case BlendMode.Multiply:
+      return cb * cs;
+    case BlendMode.Screen:
+      return cb + cs - cb * cs;
+    case BlendMode.Overlay:
+      return cb <= 0.5 ? 2 * cb * cs : 1 - 2 * (1 - cb) * (1 - cs);
+    case BlendMode.Darken:
+      return Math.min(cb, cs);
+    case BlendMode.Lighten:
+      return Math.max(cb, cs);
+    default:
+      return cs;
+  }
+}
@@ -0,0 +1,676 @@
+/**
+ * Debug renderer exporting each frame as an SVG document
+ * 将每帧导出为SVG文档的调试渲染器
+ */
+
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BaseDebugRenderer } from '../base/BaseDebugRenderer';
+import {
+  Color,
+  ColorUtils,
+  LineStyle,
+  ShapeStyle,
+  TextStyle,
+  TextureStyle,
+  Transform2D,
+  ITexture,
+  Viewport,
+  RenderState,
+  BlendMode,
+  FillRule,
+  Paint,
+  Gradient,
+  ConicGradient,
+  DEFAULT_MITER_LIMIT,
+  boundsOfPoints
+} from '../types/RenderTypes';
+import { estimateTextSize } from '../recording/DisplayListRecorder';
+import { VectorPath, getArcSweep, getArcPoint } from '../path/VectorPath';
+import { getShapeStrokeStyle } from '../path/Stroker';
+import {
+  isGradient,
+  getShapeFillPaint,
+  getGradientAverageColor,
+  getGradientColor
+} from '../paint/Gradient';
+
+/**
+ * SVG renderer options
+ * SVG渲染器选项
+ */
+export interface SvgRendererOptions {
+  /**
+   * Resolve the href used for a texture's `<image>`, defaults to string sources or `texture-N`
+   * 解析纹理 `<image>` 使用的href，默认使用字符串源或 `texture-N`
+   */
+  resolveTextureHref?: (texture: ITexture) => string;
+
+  /**
+   * Decimal places kept when writing coordinates
+   * 写入坐标时保留的小数位数
+   */
+  precision?: number;
+}
+
+// Wedges approximating a conic gradient, each filled with the color at its middle angle
+const CONIC_GRADIENT_SEGMENTS = 64;
+
+const BLEND_MODE_CSS: Record<BlendMode, string> = {
+  [BlendMode.Normal]: 'normal',
+  [BlendMode.Add]: 'plus-lighter',
+  [BlendMode.Multiply]: 'multiply',
+  [BlendMode.Screen]: 'screen',
+  [BlendMode.Overlay]: 'overlay',
+  [BlendMode.Darken]: 'darken',
+  [BlendMode.Lighten]: 'lighten'
+};
+
+const TEXT_ANCHOR: Record<NonNullable<TextStyle['textAlign']>, string> = {
+  left: 'start',
+  center: 'middle',
+  right: 'end'
+};
+
+const DOMINANT_BASELINE: Record<NonNullable<TextStyle['textBaseline']>, string> = {
+  top: 'text-before-edge',
+  middle: 'central',
+  bottom: 'text-after-edge',
+  alphabetic: 'alphabetic'
+};
+
+/**
+ * Debug renderer turning draw calls into a diffable SVG document
+ * 将绘制调用转换为可比较差异的SVG文档的调试渲染器
+ *
+ * World coordinates map directly to SVG user units. `RenderState.clipRect` is in
+ * screen units and wraps all transform groups. SVG has no conic gradients, so they fill with a
+ * pattern of 64 solid wedges around the center covering the shape's bounds.
+ * 世界坐标直接映射为SVG用户单位。`RenderState.clipRect` 使用屏幕单位并包裹所有变换组。
+ * SVG没有锥形渐变，因此以覆盖形状包围盒、绕中心排列的64个纯色楔形组成的图案填充。
+ */
+export class SvgRenderer extends BaseDebugRenderer {
+  protected elements: string[] = [];
+  protected transformGroups: string[] = [];
+  protected clipId: string | null = null;
+  protected clipCounter = 0;
+  protected gradientCounter = 0;
+  protected textureHrefs = new Map<ITexture, string>();
+  protected lastDocument = '';
+  protected renderTarget: unknown = null;
+  protected viewMatrix: FixedMatrix2x2 | null = null;
+  protected options: SvgRendererOptions;
+
+  constructor(width: number, height: number, options: SvgRendererOptions = {}) {
+    super();
+    this.viewport = { x: 0, y: 0, width, height };
+    this.options = options;
+  }
+
+  /**
+   * Get the SVG document of the last completed frame
+   * 获取最后完成帧的SVG文档
+   */
+  getSvg(): string {
+    return this.lastDocument;
+  }
+
+  dispose(): void {
+    this.elements = [];
+    this.transformGroups = [];
+    this.clipId = null;
+    this.textureHrefs.clear();
+    this.lastDocument = '';
+  }
+
+  getRenderTarget(): unknown {
+    return this.renderTarget;
+  }
+
+  setRenderTarget(target: unknown): void {
+    this.renderTarget = target;
+  }
+
+  pushTransform(transform: Transform2D): void {
+    super.pushTransform(transform);
+    const tag = `<g transform="${this.formatTransform(transform)}">`;
+    this.openGroup(tag);
+    this.transformGroups.push(tag);
+  }
+
+  popTransform(): void {
+    if (this.transformStack.length === 0) return;
+    super.popTransform();
+    this.transformGroups.pop();
+    this.closeGroup();
+  }
+
+  // ===== Base Renderer Hooks =====
+  // 基础渲染器钩子
+
+  protected onBeginFrame(): void {
+    this.elements = [];
+    this.clipCounter = 0;
+    this.gradientCounter = 0;
+    this.clipId = null;
+    this.writeClipPath(this.currentRenderState.clipRect);
+    this.reopenGroups();
+  }
+
+  protected onEndFrame(): void {
+    this.closeGroups();
+    const { x, y, width, height } = this.viewport;
+    this.lastDocument = [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+      ...this.elements,
+      '</svg>',
+      ''
+    ].join('\n');
+    this.clipId = null;
+  }
+
+  protected onClear(color: Color): void {
+    // Everything drawn so far is erased, keep only the open group structure
+    this.closeGroups();
+    this.elements = [];
+    const { x, y, width, height } = this.viewport;
+    this.elements.push(
+      `  <rect x="${x}" y="${y}" width="${width}" height="${height}"${this.formatPaint('fill', color)}/>`
+    );
+    this.writeClipPath(this.currentRenderState.clipRect);
+    this.reopenGroups();
+  }
+
+  protected onSetViewMatrix(matrix: FixedMatrix2x2): void {
+    this.viewMatrix = matrix;
+  }
+
+  protected applyTransform(_transform: Transform2D): void {
+    // Transforms are emitted as nested groups by pushTransform/popTransform
+  }
+
+  protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
+    const attributes = this.formatStroke(style, false) + this.formatStateAttributes(1);
+    this.addElement(
+      `<line x1="${this.formatNumber(start.x)}" y1="${this.formatNumber(start.y)}" ` +
+        `x2="${this.formatNumber(end.x)}" y2="${this.formatNumber(end.y)}"${attributes}/>`
+    );
+  }
+
+  protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
+    const extent = new FixedVector2(radius, radius);
+    const bounds = boundsOfPoints([center.subtract(extent), center.add(extent)]);
+    this.addElement(
+      `<circle cx="${this.formatNumber(center.x)}" cy="${this.formatNumber(center.y)}" ` +
+        `r="${this.formatNumber(radius)}"${this.formatShapeStyle(style, bounds)}/>`
+    );
+  }
+
+  protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
+    this.addElement(
+      `<rect x="${this.formatNumber(bounds.x)}" y="${this.formatNumber(bounds.y)}" ` +
+        `width="${this.formatNumber(bounds.width)}" height="${this.formatNumber(bounds.height)}"` +
+        `${this.formatShapeStyle(style, bounds)}/>`
+    );
+  }
+
+  protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
+    const points = vertices
+      .map(vertex => `${this.formatNumber(vertex.x)},${this.formatNumber(vertex.y)}`)
+      .join(' ');
+    const attributes = this.formatShapeStyle(style, boundsOfPoints(vertices));
+    this.addElement(`<polygon points="${points}"${attributes}/>`);
+  }
+
+  protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
+    const rx = bounds.width.divide(Fixed.TWO);
+    const ry = bounds.height.divide(Fixed.TWO);
+    this.addElement(
+      `<ellipse cx="${this.formatNumber(bounds.x.add(rx))}" cy="${this.formatNumber(bounds.y.add(ry))}" ` +
+        `rx="${this.formatNumber(rx)}" ry="${this.formatNumber(ry)}"` +
+        `${this.formatShapeStyle(style, bounds)}/>`
+    );
+  }
+
+  protected onFillPath(path: VectorPath, paint: Paint, fillRule: FillRule): void {
+    const rule = fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+    this.addElement(
+      `<path d="${this.formatPathData(path)}"${this.formatFill(paint, path.getBounds())}${rule}` +
+        `${this.formatStateAttributes(1)}/>`
+    );
+  }
+
+  protected onStrokePath(path: VectorPath, style: LineStyle): void {
+    const attributes =
+      ' fill="none"' + this.formatStroke(style, true) + this.formatStateAttributes(1);
+    this.addElement(`<path d="${this.formatPathData(path)}"${attributes}/>`);
+  }
+
+  protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
+    let attributes =
+      this.formatPaint('fill', style.color) + ` font-size="${this.formatNumber(style.fontSize)}"`;
+    if (style.fontFamily) attributes += ` font-family="${escapeXml(style.fontFamily)}"`;
+    if (style.fontWeight) attributes += ` font-weight="${style.fontWeight}"`;
+    if (style.fontStyle) attributes += ` font-style="${style.fontStyle}"`;
+    if (style.textAlign) attributes += ` text-anchor="${TEXT_ANCHOR[style.textAlign]}"`;
+    if (style.textBaseline) {
+      attributes += ` dominant-baseline="${DOMINANT_BASELINE[style.textBaseline]}"`;
+    }
+    attributes += this.formatStateAttributes(1);
+
+    this.addElement(
+      `<text x="${this.formatNumber(position.x)}" y="${this.formatNumber(position.y)}"` +
+        `${attributes}>${escapeXml(text)}</text>`
+    );
+  }
+
+  protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
+    return estimateTextSize(text, style);
+  }
+
+  protected onDrawTexture(texture: ITexture, position: FixedVector2, style?: TextureStyle): void {
+    const href = escapeXml(this.getTextureHref(texture));
+    this.addElement(
+      `<image href="${href}" xlink:href="${href}" x="0" y="0" ` +
+        `width="${texture.width}" height="${texture.height}" preserveAspectRatio="none"` +
+        `${this.formatTextureStyle(position, texture.width, texture.height, style)}/>`
+    );
+  }
+
+  protected onDrawTextureRegion(
+    texture: ITexture,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    // A nested viewport crops the image to the source rectangle
+    const href = escapeXml(this.getTextureHref(texture));
+    const width = this.formatNumber(destRect.width);
+    const height = this.formatNumber(destRect.height);
+    const viewBox = [sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height]
+      .map(value => this.formatNumber(value))
+      .join(' ');
+    this.addElement(
+      `<svg x="0" y="0" width="${width}" height="${height}" viewBox="${viewBox}" ` +
+        `preserveAspectRatio="none" overflow="hidden"` +
+        `${this.formatTextureStyle(
+          new FixedVector2(destRect.x, destRect.y),
+          destRect.width.toNumber(),
+          destRect.height.toNumber(),
+          style
+        )}>` +
+        `<image href="${href}" xlink:href="${href}" width="${texture.width}" height="${texture.height}"/>` +
+        '</svg>'
+    );
+  }
+
+  protected onSetRenderState(state: RenderState): void {
+    // Clip groups sit below every transform group, so rebuild the stack around them
+    this.closeGroups();
+    this.clipId = null;
+    this.writeClipPath(state.clipRect);
+    this.reopenGroups();
+  }
+
+  protected onSetViewport(_viewport: Viewport): void {
+    // The viewport becomes the document viewBox when the frame ends
+  }
+
+  protected onSupportsFeature(feature: string): boolean {
+    return this.onGetRendererInfo().capabilities.includes(feature);
+  }
+
+  protected onGetRendererInfo(): {
+    name: string;
+    version: string;
+    vendor?: string;
+    capabilities: string[];
+  } {
+    return {
+      name: 'SvgRenderer',
+      version: '1.0.0',
+      vendor: 'esengine',
+      capabilities: [
+        'headless',
+        'vector',
+        'debug',
+        'blend-modes',
+        'clip-rect',
+        'dash-pattern',
+        'gradients'
+      ]
+    };
+  }
+
+  // ===== Debug Renderer Hooks =====
+  // 调试渲染器钩子
+
+  protected async onTakeScreenshot(): Promise<Blob | null> {
+    if (typeof Blob === 'undefined') return null;
+    return new Blob([this.lastDocument], { type: 'image/svg+xml' });
+  }
+
+  // ===== SVG Helpers =====
+  // SVG辅助方法
+
+  protected addElement(element: string): void {
+    this.elements.push(`${'  '.repeat(this.getDepth())}${element}`);
+  }
+
+  protected getDepth(): number {
+    return 1 + (this.clipId ? 1 : 0) + this.transformGroups.length;
+  }
+
+  protected openGroup(tag: string): void {
+    this.addElement(tag);
+  }
+
+  protected closeGroup(): void {
+    this.addElement('</g>');
+  }
+
+  protected writeClipPath(clipRect?: FixedRect): void {
+    if (!clipRect) return;
+    this.clipId = `clip-${++this.clipCounter}`;
+    this.elements.push(
+      `  <clipPath id="${this.clipId}"><rect x="${this.formatNumber(clipRect.x)}" ` +
+        `y="${this.formatNumber(clipRect.y)}" width="${this.formatNumber(clipRect.width)}" ` +
+        `height="${this.formatNumber(clipRect.height)}"/></clipPath>`
+    );
+  }
+
+  protected reopenGroups(): void {
+    if (this.clipId) {
+      this.elements.push(`  <g clip-path="url(#${this.clipId})">`);
+    }
+    const base = this.clipId ? 2 : 1;
+    this.transformGroups.forEach((tag, index) => {
+      this.elements.push(`${'  '.repeat(base + index)}${tag}`);
+    });
+  }
+
+  protected closeGroups(): void {
+    const base = this.clipId ? 2 : 1;
+    for (let index = this.transformGroups.length - 1; index >= 0; index--) {
+      this.elements.push(`${'  '.repeat(base + index)}</g>`);
+    }
+    if (this.clipId) {
+      this.elements.push('  </g>');
+    }
+  }
+
+  protected getTextureHref(texture: ITexture): string {
+    if (this.options.resolveTextureHref) {
+      return this.options.resolveTextureHref(texture);
+    }
+    if (typeof texture.source === 'string') {
+      return texture.source;
+    }
+
+    let href = this.textureHrefs.get(texture);
+    if (!href) {
+      href = `texture-${this.textureHrefs.size}`;
+      this.textureHrefs.set(texture, href);
+    }
+    return href;
+  }
+
+  protected formatNumber(value: Fixed | number): string {
+    const n = typeof value === 'number' ? value : value.toNumber();
+    return Number(n.toFixed(this.options.precision ?? 4)).toString();
+  }
+
+  protected formatTransform(transform: Transform2D): string {
+    const parts: string[] = [];
+    if (!transform.position.x.equals(Fixed.ZERO) || !transform.position.y.equals(Fixed.ZERO)) {
+      parts.push(
+        `translate(${this.formatNumber(transform.position.x)} ${this.formatNumber(transform.position.y)})`
+      );
+    }
+    if (!transform.rotation.equals(Fixed.ZERO)) {
+      parts.push(`rotate(${this.formatNumber((transform.rotation.toNumber() * 180) / Math.PI)})`);
+    }
+    if (!transform.skew.equals(Fixed.ZERO)) {
+      parts.push(`skewX(${this.formatNumber((transform.skew.toNumber() * 180) / Math.PI)})`);
+    }
+    if (!transform.scale.x.equals(Fixed.ONE) || !transform.scale.y.equals(Fixed.ONE)) {
+      parts.push(
+        `scale(${this.formatNumber(transform.scale.x)} ${this.formatNumber(transform.scale.y)})`
+      );
+    }
+    return parts.join(' ');
+  }
+
+  protected formatPaint(attribute: 'fill' | 'stroke', color: Color): string {
+    const hex = ColorUtils.toHex(color).slice(0, 7);
+    const paint = ` ${attribute}="${hex}"`;
+    return color.a < 1 ? `${paint} ${attribute}-opacity="${this.formatNumber(color.a)}"` : paint;
+  }
+
+  // Conic gradients are drawn over the bounds of the filled shape
+  protected formatFill(paint: Paint | undefined, bounds: FixedRect): string {
+    if (!paint) return ' fill="none"';
+    if (!isGradient(paint)) return this.formatPaint('fill', paint);
+    const id = this.writeGradient(paint, bounds);
+    return id ? ` fill="url(#${id})"` : this.formatPaint('fill', getGradientAverageColor(paint));
+  }
+
+  // Gradients are defined right before the element using them, in its local user space
+  protected writeGradient(gradient: Gradient, bounds: FixedRect): string | null {
+    if (gradient.type === 'conic') return this.writeConicGradient(gradient, bounds);
+
+    const id = `gradient-${++this.gradientCounter}`;
+    let tag: string;
+    if (gradient.type === 'linear') {
+      tag =
+        `linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+        `x1="${this.formatNumber(gradient.start.x)}" y1="${this.formatNumber(gradient.start.y)}" ` +
+        `x2="${this.formatNumber(gradient.end.x)}" y2="${this.formatNumber(gradient.end.y)}"`;
+    } else {
+      tag =
+        `radialGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+        `cx="${this.formatNumber(gradient.center.x)}" ` +
+        `cy="${this.formatNumber(gradient.center.y)}" r="${this.formatNumber(gradient.radius)}"`;
+    }
+
+    const stops = [...gradient.stops]
+      .sort((a, b) => a.offset - b.offset)
+      .map(stop => {
+        const offset = this.formatNumber(Math.min(1, Math.max(0, stop.offset)));
+        const color = ColorUtils.toHex(stop.color).slice(0, 7);
+        const opacity =
+          stop.color.a < 1 ? ` stop-opacity="${this.formatNumber(stop.color.a)}"` : '';
+        return `<stop offset="${offset}" stop-color="${color}"${opacity}/>`;
+      })
+      .join('');
+    this.addElement(`<defs><${tag}>${stops}</${tag.split(' ')[0]}></defs>`);
+    return id;
+  }
+
+  // Pattern tile over the bounds holding the gradient's wedges, which reach past every corner;
+  // empty bounds give null so the fill falls back to the average color
+  protected writeConicGradient(gradient: ConicGradient, bounds: FixedRect): string | null {
+    const left = bounds.x.toNumber();
+    const top = bounds.y.toNumber();
+    const width = bounds.width.toNumber();
+    const height = bounds.height.toNumber();
+    if (width <= 0 || height <= 0) return null;
+
+    // Pattern content is placed relative to the tile's corner
+    const cx = gradient.center.x.toNumber() - left;
+    const cy = gradient.center.y.toNumber() - top;
+    const step = (Math.PI * 2) / CONIC_GRADIENT_SEGMENTS;
+    const corners = [
+      [0, 0],
+      [width, 0],
+      [0, height],
+      [width, height]
+    ];
+    const reach =
+      Math.max(...corners.map(([x, y]) => Math.hypot(x - cx, y - cy))) / Math.cos(step / 2);
+    const point = (angle: number): string =>
+      `${this.formatNumber(cx + Math.cos(angle) * reach)} ` +
+      `${this.formatNumber(cy + Math.sin(angle) * reach)}`;
+
+    const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    const start = gradient.startAngle.toNumber();
+    const center = `${this.formatNumber(cx)} ${this.formatNumber(cy)}`;
+    const wedges: string[] = [];
+    for (let i = 0; i < CONIC_GRADIENT_SEGMENTS; i++) {
+      const color = getGradientColor(stops, (i + 0.5) / CONIC_GRADIENT_SEGMENTS);
+      const from = point(start + i * step);
+      const to = point(start + (i + 1) * step);
+      wedges.push(`<path d="M${center} L${from} L${to}Z"${this.formatPaint('fill', color)}/>`);
+    }
+
+    const id = `gradient-${++this.gradientCounter}`;
+    this.addElement(
+      `<defs><pattern id="${id}" patternUnits="userSpaceOnUse" ` +
+        `x="${this.formatNumber(left)}" y="${this.formatNumber(top)}" ` +
+        `width="${this.formatNumber(width)}" height="${this.formatNumber(height)}">` +
+        `<g shape-rendering="crispEdges">${wedges.join('')}</g></pattern></defs>`
+    );
+    return id;
+  }
+
+  // Screen-unit strokes keep their pixel width inside scaled groups
+  protected formatStroke(style: LineStyle, joins: boolean): string {
+    let attributes =
+      this.formatPaint('stroke', style.color) +
+      ` stroke-width="${this.formatNumber(style.thickness)}"` +
+      this.formatDash(style.dashPattern, style.dashOffset) +
+      this.formatLineShape(style, joins);
+    if (style.strokeUnit !== 'world' && this.getPixelScale() !== 1) {
+      attributes += ' vector-effect="non-scaling-stroke"';
+    }
+    return attributes;
+  }
+
+  protected formatDash(dashPattern?: Fixed[], dashOffset?: Fixed): string {
+    if (!dashPattern || dashPattern.length === 0) return '';
+    const dashes = dashPattern.map(dash => this.formatNumber(dash)).join(' ');
+    const offset = dashOffset ? ` stroke-dashoffset="${this.formatNumber(dashOffset)}"` : '';
+    return ` stroke-dasharray="${dashes}"${offset}`;
+  }
+
+  // Joins only matter where segments meet, so single lines skip them; SVG's default miter
+  // limit is 4, so paths always state the canvas default
+  protected formatLineShape(style: LineStyle, joins: boolean): string {
+    let attributes = style.lineCap ? ` stroke-linecap="${style.lineCap}"` : '';
+    if (joins) {
+      if (style.lineJoin) attributes += ` stroke-linejoin="${style.lineJoin}"`;
+      if (!style.lineJoin || style.lineJoin === 'miter') {
+        const limit = style.miterLimit ? style.miterLimit.toNumber() : DEFAULT_MITER_LIMIT;
+        attributes += ` stroke-miterlimit="${this.formatNumber(limit)}"`;
+      }
+    }
+    return attributes;
+  }
+
+  protected formatPathData(path: VectorPath): string {
+    const parts: string[] = [];
+    const point = (value: FixedVector2): string =>
+      `${this.formatNumber(value.x)} ${this.formatNumber(value.y)}`;
+    let hasCurrentPoint = false;
+
+    for (const command of path.getCommands()) {
+      switch (command.type) {
+        case 'moveTo':
+          parts.push(`M${point(command.point)}`);
+          break;
+        case 'lineTo':
+          parts.push(`L${point(command.point)}`);
+          break;
+        case 'quadraticCurveTo':
+          parts.push(`Q${point(command.control)} ${point(command.point)}`);
+          break;
+        case 'bezierCurveTo':
+          parts.push(
+            `C${point(command.control1)} ${point(command.control2)} ${point(command.point)}`
+          );
+          break;
+        case 'arc': {
+          const start = command.startAngle.toNumber();
+          const sweep = getArcSweep(start, command.endAngle.toNumber(), command.counterclockwise);
+          const radius = this.formatNumber(command.radius);
+          const flag = sweep > 0 ? 1 : 0;
+          const from = getArcPoint(command.center, command.radius, start);
+          parts.push(`${hasCurrentPoint ? 'L' : 'M'}${point(from)}`);
+          // SVG arcs cannot draw a full turn, so sweeps over half a turn are split in two
+          const halves = Math.abs(sweep) > Math.PI ? 2 : 1;
+          for (let i = 1; i <= halves; i++) {
+            const end = getArcPoint(command.center, command.radius, start + (sweep * i) / halves);
+            parts.push(`A${radius} ${radius} 0 0 ${flag} ${point(end)}`);
+          }
+          break;
+        }
+        case 'closePath':
+          parts.push('Z');
+          break;
+      }
+      hasCurrentPoint = true;
+    }
+    return parts.join(' ');
+  }
+
+  protected formatShapeStyle(style: ShapeStyle, bounds: FixedRect): string {
+    let attributes = this.formatFill(getShapeFillPaint(style), bounds);
+    const strokeStyle = getShapeStrokeStyle(style);
+    if (strokeStyle) {
+      attributes += this.formatStroke(strokeStyle, false);
+    }
+    return attributes + this.formatStateAttributes(1);
+  }
+
+  protected formatTextureStyle(
+    position: FixedVector2,
+    width: number,
+    height: number,
+    style?: TextureStyle
+  ): string {
+    const parts = [`translate(${this.formatNumber(position.x)} ${this.formatNumber(position.y)})`];
+    if (style?.rotation && !style.rotation.equals(Fixed.ZERO)) {
+      parts.push(`rotate(${this.formatNumber((style.rotation.toNumber() * 180) / Math.PI)})`);
+    }
+
+    const scaleX = (style?.scale ? style.scale.x.toNumber() : 1) * (style?.flipX ? -1 : 1);
+    const scaleY = (style?.scale ? style.scale.y.toNumber() : 1) * (style?.flipY ? -1 : 1);
+    if (scaleX !== 1 || scaleY !== 1) {
+      parts.push(`scale(${this.formatNumber(scaleX)} ${this.formatNumber(scaleY)})`);
+    }
+
+    // Anchor offset, mirrored around the quad center when flipped
+    const anchorX = style?.anchor ? style.anchor.x.toNumber() : 0;
+    const anchorY = style?.anchor ? style.anchor.y.toNumber() : 0;
+    const offsetX = style?.flipX ? (anchorX - 1) * width : -anchorX * width;
+    const offsetY = style?.flipY ? (anchorY - 1) * height : -anchorY * height;
+    if (offsetX !== 0 || offsetY !== 0) {
+      parts.push(`translate(${this.formatNumber(offsetX)} ${this.formatNumber(offsetY)})`);
+    }
+
+    const tintAlpha = style?.tint ? style.tint.a : 1;
+    const opacity = (style?.opacity ?? 1) * tintAlpha;
+    return ` transform="${parts.join(' ')}"${this.formatStateAttributes(opacity)}`;
+  }
+
+  protected formatStateAttributes(opacity: number): string {
+    let attributes = '';
+    const combined = opacity * this.currentRenderState.opacity;
+    if (combined < 1) {
+      attributes += ` opacity="${this.formatNumber(combined)}"`;
+    }
+    if (this.currentRenderState.blendMode !== BlendMode.Normal) {
+      attributes += ` style="mix-blend-mode:${BLEND_MODE_CSS[this.currentRenderState.blendMode]}"`;
+    }
+    return attributes;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,188 @@
+/**
+ * Loader for BMFont descriptors in text, XML and JSON form
+ * 文本、XML和JSON形式的BMFont描述文件加载器
+ */
+
+import { ITexture } from '../types/RenderTypes';
+import { BitmapFont, BitmapGlyph, BitmapKerning } from './BitmapFont';
+
+/**
+ * BMFont JSON descriptor, as written by msdf-bmfont and similar tools
+ * BMFont JSON描述文件，由msdf-bmfont等工具写出
+ */
+export interface BMFontJsonData {
+  info: { face: string; size: number };
+  common: { lineHeight: number; base: number; scaleW?: number; scaleH?: number };
+  pages: string[];
+  chars: Array<{
+    id: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    xoffset: number;
+    yoffset: number;
+    xadvance: number;
+    page?: number;
+  }>;
+  kernings?: Array<{ first: number; second: number; amount: number }>;
+}
+
+/**
+ * Parsed BMFont descriptor, with page image file names still to be resolved
+ * 已解析的BMFont描述文件，页面图像文件名尚待解析
+ */
+export interface BMFontData {
+  face: string;
+  size: number;
+  lineHeight: number;
+  base: number;
+  pages: string[];
+  glyphs: BitmapGlyph[];
+  kernings: BitmapKerning[];
+}
+
+/**
+ * Parse a BMFont descriptor, detecting the text, XML or JSON variant
+ * 解析BMFont描述文件，自动识别文本、XML或JSON格式
+ */
+export function parseBMFont(source: string | BMFontJsonData): BMFontData {
+  if (typeof source !== 'string') {
+    return parseBMFontJson(source);
+  }
+
+  const text = source.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('{')) {
+    return parseBMFontJson(JSON.parse(text) as BMFontJsonData);
+  }
+  if (text.startsWith('<')) {
+    return parseBMFontTags(text, /<(info|common|page|char|kerning)\b([^>]*?)\/?>/g);
+  }
+  if (text.startsWith('info')) {
+    return parseBMFontTags(text, /^\s*(info|common|page|char|kerning)\b(.*)$/gm);
+  }
+  throw new Error('Unrecognized BMFont format; binary descriptors are not supported');
+}
+
+/**
+ * Load a BMFont descriptor and resolve its page images to textures
+ * 加载BMFont描述文件并将其页面图像解析为纹理
+ */
+export function loadBMFont(
+  source: string | BMFontJsonData,
+  getTexture: (file: string) => ITexture
+): BitmapFont {
+  const data = parseBMFont(source);
+  return new BitmapFont({
+    face: data.face,
+    size: data.size,
+    lineHeight: data.lineHeight,
+    base: data.base,
+    pages: data.pages.map(file => getTexture(file)),
+    glyphs: data.glyphs,
+    kernings: data.kernings
+  });
+}
+
+function parseBMFontJson(json: BMFontJsonData): BMFontData {
+  if (!json || !json.info || !json.common || !Array.isArray(json.chars)) {
+    throw new Error('BMFont JSON is missing info, common or chars');
+  }
+
+  return {
+    face: json.info.face,
+    size: Math.abs(json.info.size),
+    lineHeight: json.common.lineHeight,
+    base: json.common.base,
+    pages: json.pages || [],
+    glyphs: json.chars.map(char => ({
+      id: char.id,
+      x: char.x,
+      y: char.y,
+      width: char.width,
+      height: char.height,
+      xOffset: char.xoffset,
+      yOffset: char.yoffset,
+      xAdvance: char.xadvance,
+      page: char.page || 0
+    })),
+    kernings: (json.kernings || []).map(({ first, second, amount }) => ({ first, second, amount }))
+  };
+}
+
+// The text and XML variants share tag and attribute names, differing only in how tags are found
+function parseBMFontTags(text: string, tagPattern: RegExp): BMFontData {
+  const data: BMFontData = {
+    face: '',
+    size: 0,
+    lineHeight: 0,
+    base: 0,
+    pages: [],
+    glyphs: [],
+    kernings: []
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const attributes = parseAttributes(match[2]);
+    const number = (name: string): number => Number(attributes[name] || 0);
+
+    switch (match[1]) {
+      case 'info':
+        data.face = attributes.face || '';
+        data.size = Math.abs(number('size'));
+        break;
+      case 'common':
+        data.lineHeight = number('lineHeight');
+        data.base = number('base');
+        break;
+      case 'page':
+        data.pages[number('id')] = attributes.file || '';
+        break;
+      case 'char':
+        data.glyphs.push({
+          id: number('id'),
+          x: number('x'),
+          y: number('y'),
+          width: number('width'),
+          height: number('height'),
+          xOffset: number('xoffset'),
+          yOffset: number('yoffset'),
+          xAdvance: number('xadvance'),
+          page: number('page')
+        });
+        break;
+      case 'kerning':
+        data.kernings.push({
+          first: number('first'),
+          second: number('second'),
+          amount: number('amount')
+        });
+        break;
+    }
+  }
+
+  if (data.lineHeight === 0 || data.glyphs.length === 0) {
+    throw new Error('BMFont descriptor is missing common line height or chars');
+  }
+  return data;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,246 @@
+/**
+ * Bitmap font with glyph metrics and deterministic Fixed text layout
+ * 具有字形度量和确定性定点文本布局的位图字体
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { ITexture } from '../types/RenderTypes';
+
+/**
+ * Glyph of a bitmap font, in texture pixels at the font's native size
+ * 位图字体的字形，以字体原始尺寸下的纹理像素为单位
+ */
+export interface BitmapGlyph {
+  id: number; // Unicode code point
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xOffset: number;
+  yOffset: number; // From the top of the line
+  xAdvance: number;
+  page: number;
+}
+
+/**
+ * Kerning adjustment between two code points, in pixels at the native size
+ * 两个码位之间的字距调整，以原始尺寸像素为单位
+ */
+export interface BitmapKerning {
+  first: number;
+  second: number;
+  amount: number;
+}
+
+/**
+ * Bitmap font description with its page textures
+ * 带页面纹理的位图字体描述
+ */
+export interface BitmapFontData {
+  face: string;
+  size: number; // Native size in pixels
+  lineHeight: number;
+  base: number; // Distance from the top of the line to the baseline
+  pages: ITexture[];
+  glyphs: BitmapGlyph[];
+  kernings?: BitmapKerning[];
+}
+
+/**
+ * Glyph placed by a text layout, relative to the layout origin
+ * 文本布局放置的字形，相对于布局原点
+ */
+export interface BitmapGlyphPlacement {
+  glyph: BitmapGlyph;
+  texture: ITexture;
+  sourceRect: FixedRect;
+  destRect: FixedRect;
+  line: number;
+}
+
+/**
+ * Glyph placements of a text with its size
+ * 文本的字形放置及其尺寸
+ */
+export interface BitmapTextLayout {
+  glyphs: BitmapGlyphPlacement[];
+  width: Fixed; // Widest line
+  height: Fixed; // Line count times line height
+  lineWidths: Fixed[];
+}
+
+/**
+ * Code point drawn in place of characters the font lacks, when the font has it
+ * 字体缺少字符时用于替代绘制的码位（若字体包含）
+ */
+export const BITMAP_FONT_FALLBACK_CHAR = 0x3f; // '?'
+
+/**
+ * Bitmap font; all metrics are computed in Fixed so layouts match on every platform
+ * 位图字体；所有度量均以定点数计算，因此布局在所有平台上一致
+ */
+export class BitmapFont {
+  readonly face: string;
+  readonly size: number;
+  readonly lineHeight: number;
+  readonly base: number;
+  readonly pages: ITexture[];
+  private glyphs = new Map<number, BitmapGlyph>();
+  private kernings = new Map<number, Map<number, number>>();
+
+  constructor(data: BitmapFontData) {
+    if (data.size <= 0 || data.lineHeight <= 0) {
+      throw new Error(`Bitmap font "${data.face}" must have a positive size and line height`);
+    }
+
+    this.face = data.face;
+    this.size = data.size;
+    this.lineHeight = data.lineHeight;
+    this.base = data.base;
+    this.pages = data.pages;
+    for (const glyph of data.glyphs) {
+      if (!data.pages[glyph.page]) {
+        throw new Error(`Glyph ${glyph.id} of "${data.face}" refers to missing page ${glyph.page}`);
+      }
+      this.glyphs.set(glyph.id, glyph);
+    }
+    for (const kerning of data.kernings || []) {
+      let pairs = this.kernings.get(kerning.first);
+      if (!pairs) {
+        pairs = new Map();
+        this.kernings.set(kerning.first, pairs);
+      }
+      pairs.set(kerning.second, kerning.amount);
+    }
+  }
+
+  getGlyph(codePoint: number): BitmapGlyph | undefined {
+    return this.glyphs.get(codePoint);
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.glyphs.has(codePoint);
+  }
+
+  getKerning(first: number, second: number): number {
+    return this.kernings.get(first)?.get(second) || 0;
+  }
+
+  /**
+   * Scale from native pixels to the given font size
+   * 从原始像素到指定字号的缩放
+   */
+  getScale(fontSize: Fixed): Fixed {
+    return fontSize.divide(new Fixed(this.size));
+  }
+
+  getLineHeight(fontSize: Fixed): Fixed {
+    return new Fixed(this.lineHeight).multiply(this.getScale(fontSize));
+  }
+
+  getBaseline(fontSize: Fixed): Fixed {
+    return new Fixed(this.base).multiply(this.getScale(fontSize));
+  }
+
+  /**
+   * Advance of a single line including kerning, ignoring line breaks
+   * 单行的前进宽度（含字距调整），忽略换行
+   */
+  measureLine(text: string, fontSize: Fixed): Fixed {
+    const scale = this.getScale(fontSize);
+    let advance = 0;
+    let previous = -1;
+    for (const char of text) {
+      const glyph = this.resolveGlyph(char.codePointAt(0) as number);
+      if (!glyph) continue;
+      if (previous >= 0) advance += this.getKerning(previous, glyph.id);
+      advance += glyph.xAdvance;
+      previous = glyph.id;
+    }
+    return new Fixed(advance).multiply(scale);
+  }
+
+  /**
+   * Measure text with line breaks: widest line by line count times line height
+   * 测量含换行的文本：最宽行宽度乘以行数乘行高
+   */
+  measureText(text: string, fontSize: Fixed): FixedVector2 {
+    const lines = text.split(/\r?\n/);
+    let width = Fixed.ZERO;
+    for (const line of lines) {
+      const lineWidth = this.measureLine(line, fontSize);
+      if (lineWidth.greaterThan(width)) width = lineWidth;
+    }
+    return new FixedVector2(width, this.getLineHeight(fontSize).multiply(new Fixed(lines.length)));
+  }
+
+  /**
+   * Place the glyphs of a text; x is relative to the aligned edge and y to the first line's top
+   * 放置文本的字形；x相对于对齐边缘，y相对于第一行顶部
+   */
+  layoutText(
+    text: string,
+    fontSize: Fixed,
+    textAlign: 'left' | 'center' | 'right' = 'left'
+  ): BitmapTextLayout {
+    const scale = this.getScale(fontSize);
+    const lineHeight = this.getLineHeight(fontSize);
+    const lines = text.split(/\r?\n/);
+    const glyphs: BitmapGlyphPlacement[] = [];
+    const lineWidths: Fixed[] = [];
+    let width = Fixed.ZERO;
+
+    lines.forEach((line, index) => {
+      const lineWidth = this.measureLine(line, fontSize);
+      lineWidths.push(lineWidth);
+      if (lineWidth.greaterThan(width)) width = lineWidth;
+
+      let startX = Fixed.ZERO;
+      if (textAlign === 'center') startX = lineWidth.divide(Fixed.TWO).negate();
+      if (textAlign === 'right') startX = lineWidth.negate();
+      const top = lineHeight.multiply(new Fixed(index));
+
+      // Positions are accumulated in native pixels and scaled once, so they never drift
+      let cursor = 0;
+      let previous = -1;
+      for (const char of line) {
+        const glyph = this.resolveGlyph(char.codePointAt(0) as number);
+        if (!glyph) continue;
+        if (previous >= 0) cursor += this.getKerning(previous, glyph.id);
+        previous = glyph.id;
+
+        if (glyph.width > 0 && glyph.height > 0) {
+          glyphs.push({
+            glyph,
+            texture: this.pages[glyph.page],
+            sourceRect: new FixedRect(
+              new Fixed(glyph.x),
+              new Fixed(glyph.y),
+              new Fixed(glyph.width),
+              new Fixed(glyph.height)
+            ),
+            destRect: new FixedRect(
+              startX.add(new Fixed(cursor + glyph.xOffset).multiply(scale)),
+              top.add(new Fixed(glyph.yOffset).multiply(scale)),
+              new Fixed(glyph.width).multiply(scale),
+              new Fixed(glyph.height).multiply(scale)
+            ),
+            line: index
+          });
+        }
+        cursor += glyph.xAdvance;
+      }
+    });
+
+    return {
+      glyphs,
+      width,
+      height: lineHeight.multiply(new Fixed(lines.length)),
+      lineWidths
+    };
+  }
+
+  private resolveGlyph(codePoint: number): BitmapGlyph | undefined {
+    return this.glyphs.get(codePoint) || this.glyphs.get(BITMAP_FONT_FALLBACK_CHAR);
+  }
+}
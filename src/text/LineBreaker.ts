@@ -0,0 +1,234 @@
+/**
+ * Unicode line breaking (UAX #14 subset) with kinsoku shori for CJK punctuation
+ * Unicode换行（UAX #14子集），包含中日文标点的避头尾处理
+ */
+
+/**
+ * Line break classes of UAX #14 supported here; unlisted classes resolve to AL or ID
+ * 此处支持的UAX #14换行类别；未列出的类别归为AL或ID
+ */
+export type LineBreakClass =
+  | 'BK' // Mandatory break
+  | 'CR'
+  | 'LF'
+  | 'SP' // Space
+  | 'ZW' // Zero width space
+  | 'WJ' // Word joiner
+  | 'GL' // Non-breaking glue
+  | 'CM' // Combining mark
+  | 'OP' // Opening punctuation, never ends a line
+  | 'CL' // Closing punctuation, never starts a line
+  | 'CP' // Closing parenthesis, never starts a line and sticks to a following word
+  | 'EX' // Exclamation and question marks
+  | 'IS' // Infix separator
+  | 'NS' // Nonstarter
+  | 'IN' // Inseparable, such as ellipses
+  | 'HY' // Hyphen
+  | 'BA' // Break after
+  | 'B2' // Break on either side, but not within a pair
+  | 'PR' // Prefix numeric
+  | 'PO' // Postfix numeric
+  | 'QU' // Ambiguous quotation
+  | 'NU' // Numeric
+  | 'AL' // Alphabetic
+  | 'ID'; // Ideographic, breakable on either side
+
+/**
+ * Position where a line may end; the next line starts at `position`
+ * 可结束一行的位置；下一行从 `position` 开始
+ */
+export interface LineBreakOpportunity {
+  position: number;
+  mandatory: boolean;
+}
+
+// Single code points with a class other than their block's default
+const CLASS_BY_CHAR = new Map<number, LineBreakClass>();
+const assign = (lineBreakClass: LineBreakClass, chars: string): void => {
+  for (const char of chars) {
+    CLASS_BY_CHAR.set(char.codePointAt(0) as number, lineBreakClass);
+  }
+};
+assign('BK', '\u000B\u000C\u2028\u2029');
+assign('CR', '\r');
+assign('LF', '\n');
+assign('SP', ' ');
+assign('ZW', '\u200B');
+assign('WJ', '\u2060\uFEFF');
+assign('GL', '\u00A0\u2007\u202F\u180E');
+assign('CM', '\u200D');
+// Chinese and Japanese curly quotes open and close like brackets rather than ambiguous QU
+assign('OP', '([{¡¿‘“（［｛「『【〔〈《〖〘〚｟｢');
+assign('CL', '}’”）］｝」』】〕〉》〗〙〛｠｣、。，．､｡');
+assign('CP', ')]');
+assign('EX', '!?！？‼⁇⁈⁉');
+assign('IS', ',.:;');
+assign(
+  'NS',
+  'ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶー々〻ゝゞヽヾ・：；〜～ㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ'
+);
+assign('IN', '…‥⋯');
+assign('HY', '-');
+assign('BA', '\t\u2010\u2013\u3000|');
+assign('B2', '—⸺⸻');
+assign('PR', '$£¥€＄￥￡+\\');
+assign('PO', '%‰¢°％℃');
+assign('QU', '"\'«»‹›');
+
+/**
+ * Get the line break class of a code point
+ * 获取码位的换行类别
+ */
+export function getLineBreakClass(codePoint: number): LineBreakClass {
+  const assigned = CLASS_BY_CHAR.get(codePoint);
+  if (assigned) return assigned;
+
+  if (codePoint >= 0x30 && codePoint <= 0x39) return 'NU';
+  if (
+    (codePoint >= 0x0300 && codePoint <= 0x036f) ||
+    (codePoint >= 0xfe00 && codePoint <= 0xfe0f) ||
+    (codePoint >= 0xe0100 && codePoint <= 0xe01ef)
+  ) {
+    return 'CM';
+  }
+  if (isIdeographic(codePoint)) return 'ID';
+  return 'AL';
+}
+
+/**
+ * Whether a code point is wide or full-width (East Asian Width W or F), taking a full em
+ * 码位是否为宽字符或全角字符（东亚宽度W或F），占据一个全角宽度
+ */
+export function isWideCharacter(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) || // Hangul Jamo
+    (codePoint >= 0x2e80 && codePoint <= 0x303e) || // CJK radicals, symbols and punctuation
+    (codePoint >= 0x3041 && codePoint <= 0x33ff) || // Kana, Bopomofo, CJK compatibility
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) ||
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) ||
+    (codePoint >= 0xa000 && codePoint <= 0xa4cf) || // Yi
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) || // Hangul syllables
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe10 && codePoint <= 0xfe19) || // Vertical forms
+    (codePoint >= 0xfe30 && codePoint <= 0xfe6f) || // CJK compatibility forms
+    (codePoint >= 0xff01 && codePoint <= 0xff60) || // Full-width forms
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1f64f) || // Emoji
+    (codePoint >= 0x1f900 && codePoint <= 0x1f9ff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  );
+}
+
+/**
+ * Find where lines may end in a sequence of code points (one string per code point)
+ * 在码位序列（每个码位一个字符串）中查找可结束行的位置
+ *
+ * Opening punctuation never ends a line and closing punctuation, full stops, commas, small
+ * kana and the prolonged sound mark never start one (kinsoku shori); ideographs may break
+ * on either side and Latin words break after spaces and hyphens. A break is always
+ * reported at the end of the text.
+ * 开括号不出现在行尾，闭括号、句号、逗号、小假名和长音符不出现在行首（避头尾）；
+ * 表意文字两侧均可换行，拉丁单词在空格和连字符后换行。文本末尾总会报告一个换行位置。
+ */
+export function findLineBreaks(chars: string[]): LineBreakOpportunity[] {
+  const breaks: LineBreakOpportunity[] = [];
+  const classes = resolveClasses(chars);
+  let lastNonSpace: LineBreakClass | null = classes.length > 0 ? classes[0] : null;
+
+  for (let i = 1; i < classes.length; i++) {
+    const before = classes[i - 1];
+    const after = classes[i];
+    const result = getPairBreak(before, after, lastNonSpace as LineBreakClass);
+    if (result !== null) {
+      breaks.push({ position: i, mandatory: result });
+    }
+    if (after !== 'SP') lastNonSpace = after;
+  }
+
+  breaks.push({ position: chars.length, mandatory: true });
+  return breaks;
+}
+
+// Combining marks take the class of the character they attach to (LB9, LB10)
+function resolveClasses(chars: string[]): LineBreakClass[] {
+  const classes: LineBreakClass[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const lineBreakClass = getLineBreakClass(chars[i].codePointAt(0) as number);
+    if (lineBreakClass === 'CM') {
+      const base = i > 0 ? classes[i - 1] : 'AL';
+      const attachable = base !== 'SP' && base !== 'BK' && base !== 'CR' && base !== 'LF';
+      classes.push(attachable && base !== 'ZW' ? base : 'AL');
+    } else {
+      classes.push(lineBreakClass);
+    }
+  }
+  return classes;
+}
+
+// Break between two characters: true mandatory, false allowed, null prohibited
+function getPairBreak(
+  before: LineBreakClass,
+  after: LineBreakClass,
+  lastNonSpace: LineBreakClass
+): boolean | null {
+  // LB4, LB5: hard breaks
+  if (before === 'CR') return after === 'LF' ? null : true;
+  if (before === 'BK' || before === 'LF') return true;
+  if (after === 'BK' || after === 'CR' || after === 'LF') return null;
+
+  // LB7, LB8: never before spaces; after a zero width space, even across spaces
+  if (after === 'SP' || after === 'ZW') return null;
+  if (lastNonSpace === 'ZW') return false;
+
+  // LB11, LB12, LB12a: joiners and glue
+  if (before === 'WJ' || after === 'WJ' || before === 'GL') return null;
+  if (after === 'GL' && before !== 'SP' && before !== 'BA' && before !== 'HY') return null;
+
+  // LB13: closing punctuation never starts a line
+  if (after === 'CL' || after === 'CP' || after === 'EX' || after === 'IS') return null;
+
+  // LB14: opening punctuation never ends a line, even before spaces
+  if (lastNonSpace === 'OP') return null;
+
+  // LB15, LB17 subset: B2 pairs stay together across spaces
+  if (lastNonSpace === 'B2' && after === 'B2') return null;
+
+  // LB18: break after spaces
+  if (before === 'SP') return false;
+
+  // LB19: ambiguous quotes stick to both neighbours
+  if (before === 'QU' || after === 'QU') return null;
+
+  // LB21, LB22: nonstarters, hyphens and inseparables attach to what precedes them
+  if (after === 'BA' || after === 'HY' || after === 'NS' || after === 'IN') return null;
+
+  // LB23 to LB30 subset: words, numbers and their affixes
+  const wordLike = (lineBreakClass: LineBreakClass): boolean =>
+    lineBreakClass === 'AL' || lineBreakClass === 'NU';
+  if (wordLike(before) && wordLike(after)) return null;
+  if (before === 'PR' && wordLike(after)) return null;
+  if (before === 'NU' && (after === 'PO' || after === 'PR')) return null;
+  if ((before === 'HY' || before === 'IS') && after === 'NU') return null;
+  if (before === 'IS' && after === 'AL') return null;
+  if (wordLike(before) && after === 'OP') return null;
+  if (before === 'CP' && wordLike(after)) return null;
+
+  // LB31: break everywhere else
+  return false;
+}
+
+function isIdeographic(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x2e80 && codePoint <= 0x2fdf) || // CJK and Kangxi radicals
+    (codePoint >= 0x3001 && codePoint <= 0x33ff) || // CJK symbols, kana, Bopomofo, compatibility
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) ||
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) ||
+    (codePoint >= 0xa000 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff01 && codePoint <= 0xff60) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1faff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  );
+}
@@ -0,0 +1,604 @@
+/**
+ * Text block layout with word wrap, alignment, overflow and inline markup
+ * 支持自动换行、对齐、溢出和内联标记的文本块布局
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+import { ColorUtils, TextStyle, TextBlockStyle } from '../types/RenderTypes';
+import { findLineBreaks, LineBreakOpportunity } from './LineBreaker';
+
+/**
+ * Measures the advance width of single-line text in a style
+ * 测量单行文本在某样式下的前进宽度
+ */
+export type TextMeasureFunction = (text: string, style: TextStyle) => Fixed;
+
+/**
+ * Piece of text sharing one style, as produced by markup parsing
+ * 共享同一样式的文本片段，由标记解析产生
+ */
+export interface TextSpan {
+  text: string;
+  style: TextStyle;
+}
+
+/**
+ * Styled text placed on a line; x is relative to the block's left edge and y is the
+ * baseline relative to its top edge
+ * 放置在行上的带样式文本；x相对于文本块左边缘，y为相对于其上边缘的基线
+ */
+export interface TextRun {
+  text: string;
+  style: TextStyle;
+  x: Fixed;
+  y: Fixed;
+  width: Fixed;
+}
+
+/**
+ * Laid out line, relative to the block's top-left corner; in vertical mode a line is a
+ * column and baseline is its center x
+ * 已布局的行，相对于文本块左上角；竖排模式下一行即一列，baseline为其中心x
+ */
+export interface TextLine {
+  runs: TextRun[];
+  x: Fixed;
+  y: Fixed;
+  baseline: Fixed;
+  width: Fixed;
+  height: Fixed;
+}
+
+/**
+ * Result of laying out a text block
+ * 文本块布局结果
+ */
+export interface TextBlockLayout {
+  lines: TextLine[];
+  width: Fixed;
+  height: Fixed;
+  truncated: boolean; // Lines or characters were dropped by maxLines, maxHeight or overflow
+}
+
+/**
+ * Line height and ascent of backend fonts as fractions of the font size; bitmap fonts use
+ * their own metrics
+ * 后端字体的行高和上升高度占字号的比例；位图字体使用自身度量
+ */
+export const DEFAULT_LINE_HEIGHT_FACTOR = 1.2;
+export const DEFAULT_ASCENT_FACTOR = 0.8;
+
+// Punctuation replaced by its vertical presentation form in vertical text
+const VERTICAL_FORMS = new Map<string, string>([
+  ['，', '︐'],
+  ['、', '︑'],
+  ['。', '︒'],
+  ['：', '︓'],
+  ['；', '︔'],
+  ['！', '︕'],
+  ['？', '︖'],
+  ['〖', '︗'],
+  ['〗', '︘'],
+  ['…', '︙'],
+  ['‥', '︰'],
+  ['—', '︱'],
+  ['（', '︵'],
+  ['）', '︶'],
+  ['｛', '︷'],
+  ['｝', '︸'],
+  ['〔', '︹'],
+  ['〕', '︺'],
+  ['【', '︻'],
+  ['】', '︼'],
+  ['《', '︽'],
+  ['》', '︾'],
+  ['〈', '︿'],
+  ['〉', '﹀'],
+  ['「', '﹁'],
+  ['」', '﹂'],
+  ['『', '﹃'],
+  ['』', '﹄'],
+  ['［', '﹇'],
+  ['］', '﹈']
+]);
+
+const MARKUP_PATTERN = /\[\[|\[(\/?)(color|size|b|i)(?:=([^\]]*))?\]/g;
+
+/**
+ * Split text into styled spans following [color=#rrggbb], [size=n], [b] and [i] tags;
+ * `[[` is a literal bracket and malformed or unknown tags are kept as text
+ * 按 [color=#rrggbb]、[size=n]、[b] 和 [i] 标签将文本拆分为带样式的片段；
+ * `[[` 表示字面方括号，格式错误或未知的标签保留为文本
+ */
+export function parseTextMarkup(text: string, style: TextBlockStyle): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const stack: Array<{ tag: string; style: TextStyle }> = [];
+  const baseStyle = getRunStyle(style);
+  let current = baseStyle;
+  let buffer = '';
+  let last = 0;
+
+  const flush = (): void => {
+    if (buffer.length > 0) {
+      spans.push({ text: buffer, style: current });
+      buffer = '';
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  MARKUP_PATTERN.lastIndex = 0;
+  while ((match = MARKUP_PATTERN.exec(text)) !== null) {
+    buffer += text.slice(last, match.index);
+    last = match.index + match[0].length;
+
+    if (match[0] === '[[') {
+      buffer += '[';
+      continue;
+    }
+
+    const [source, closing, tag, value] = match;
+    if (closing) {
+      if (value !== undefined || stack.length === 0 || stack[stack.length - 1].tag !== tag) {
+        buffer += source;
+        continue;
+      }
+      flush();
+      stack.pop();
+      current = stack.length > 0 ? stack[stack.length - 1].style : baseStyle;
+      continue;
+    }
+
+    const next = applyMarkupTag(current, tag, value, style);
+    if (!next) {
+      buffer += source;
+      continue;
+    }
+    flush();
+    stack.push({ tag, style: next });
+    current = next;
+  }
+
+  buffer += text.slice(last);
+  flush();
+  return spans;
+}
+
+/**
+ * Lay out a text block into lines of positioned runs
+ * 将文本块布局为由定位片段组成的行
+ *
+ * Lines break at Unicode line break opportunities, so CJK text wraps between ideographs
+ * but never before closing punctuation or after opening punctuation. In vertical mode every
+ * character is set upright in a 1 em cell, columns run right to left and maxHeight is the
+ * wrap length; maxWidth and maxLines then limit the columns.
+ * 行在Unicode换行机会处断开，因此中日韩文本在表意文字之间换行，但不会在闭标点前或开标点后换行。
+ * 竖排模式下每个字符直立于1em的字格中，列从右向左排列，maxHeight为换行长度；
+ * 此时maxWidth和maxLines限制列数。
+ */
+export function layoutTextBlock(
+  text: string,
+  style: TextBlockStyle,
+  measure: TextMeasureFunction
+): TextBlockLayout {
+  const spans = style.markup ? parseTextMarkup(text, style) : [{ text, style: getRunStyle(style) }];
+  const vertical = style.writingMode === 'vertical';
+  const content = new TextContent(spans, getRunStyle(style), vertical ? measureCells : measure);
+  const overflow = style.overflow || 'visible';
+  const lineLimit = vertical ? style.maxHeight : style.maxWidth;
+  const crossLimit = vertical ? style.maxWidth : style.maxHeight;
+  const wrap = style.wordWrap !== false && lineLimit !== undefined;
+
+  let ranges = wrap ? content.wrap(lineLimit as Fixed) : content.paragraphs();
+  let truncated = false;
+
+  // Overflow of unwrapped lines along the text direction
+  if (!wrap && lineLimit && overflow !== 'visible') {
+    ranges = ranges.map(range => {
+      const fitted = content.truncate(range, lineLimit, overflow === 'ellipsis');
+      if (fitted !== range) truncated = true;
+      return fitted;
+    });
+  }
+
+  // Overflow of lines across the text direction
+  if (overflow !== 'visible') {
+    let limit = Math.min(ranges.length, style.maxLines ?? Infinity);
+    if (crossLimit) {
+      let extent = Fixed.ZERO;
+      for (let i = 0; i < limit; i++) {
+        extent = extent.add(content.getLineMetrics(ranges[i], style.lineHeight).height);
+        if (extent.greaterThan(crossLimit)) {
+          limit = i;
+          break;
+        }
+      }
+    }
+    if (limit < ranges.length) {
+      truncated = true;
+      ranges = ranges.slice(0, limit);
+      if (overflow === 'ellipsis' && limit > 0) {
+        const last = ranges[limit - 1];
+        ranges[limit - 1] = content.truncate(last, lineLimit, true, true);
+      }
+    }
+  }
+
+  return vertical
+    ? placeColumns(content, ranges, style, measure, truncated)
+    : placeLines(content, ranges, style, truncated);
+}
+function placeLines(
+  content: TextContent,
+  ranges: LineRange[],
+  style: TextBlockStyle,
+  truncated: boolean
+): TextBlockLayout {
+  const lines: TextLine[] = [];
+  let y = Fixed.ZERO;
+  let width = Fixed.ZERO;
+  for (const range of ranges) {
+    const runs = content.getRuns(range);
+    const lineWidth = runs.reduce((total, run) => total.add(run.width), Fixed.ZERO);
+    const metrics = content.getLineMetrics(range, style.lineHeight);
+    const baseline = y.add(metrics.baseline);
+    for (const run of runs) {
+      run.y = baseline;
+    }
+    lines.push({ runs, x: Fixed.ZERO, y, baseline, width: lineWidth, height: metrics.height });
+    y = y.add(metrics.height);
+    if (lineWidth.greaterThan(width)) width = lineWidth;
+  }
+
+  const alignWidth = style.maxWidth || width;
+  for (const line of lines) {
+    line.x = getAlignOffset(style, alignWidth, line.width);
+    for (const run of line.runs) {
+      run.x = run.x.add(line.x);
+    }
+  }
+
+  return { lines, width, height: y, truncated };
+}
+
+// Columns from right to left with characters centered in their cells
+function placeColumns(
+  content: TextContent,
+  ranges: LineRange[],
+  style: TextBlockStyle,
+  measure: TextMeasureFunction,
+  truncated: boolean
+): TextBlockLayout {
+  const columns = ranges.map(range => ({
+    runs: content.getRuns(range),
+    metrics: content.getLineMetrics(range, style.lineHeight)
+  }));
+  const width = columns.reduce((total, column) => total.add(column.metrics.height), Fixed.ZERO);
+  let height = Fixed.ZERO;
+  for (const column of columns) {
+    const length = column.runs.reduce((total, run) => total.add(run.width), Fixed.ZERO);
+    if (length.greaterThan(height)) height = length;
+  }
+
+  const lines: TextLine[] = [];
+  const alignHeight = style.maxHeight || height;
+  let right = width;
+  for (const column of columns) {
+    const pitch = column.metrics.height;
+    const left = right.subtract(pitch);
+    const center = left.add(pitch.divide(Fixed.TWO));
+    const length = column.runs.reduce((total, run) => total.add(run.width), Fixed.ZERO);
+    const top = getAlignOffset(style, alignHeight, length);
+
+    const runs: TextRun[] = [];
+    let cursor = top;
+    for (const run of column.runs) {
+      const metrics = getFontMetrics(run.style);
+      const cellBaseline = metrics.ascent.subtract(
+        metrics.height.subtract(run.style.fontSize).divide(Fixed.TWO)
+      );
+      for (const char of run.text) {
+        const text = getVerticalForm(char, run.style);
+        const charWidth = measure(text, run.style);
+        runs.push({
+          text,
+          style: run.style,
+          x: center.subtract(charWidth.divide(Fixed.TWO)),
+          y: cursor.add(cellBaseline),
+          width: charWidth
+        });
+        cursor = cursor.add(run.style.fontSize);
+      }
+    }
+
+    lines.push({ runs, x: left, y: top, baseline: center, width: pitch, height: length });
+    right = left;
+  }
+
+  return { lines, width, height, truncated };
+}
+
+// Vertical text advances one font size per character
+function measureCells(text: string, style: TextStyle): Fixed {
+  return style.fontSize.multiply(new Fixed(Array.from(text).length));
+}
+
+function getVerticalForm(char: string, style: TextStyle): string {
+  const form = VERTICAL_FORMS.get(char);
+  if (!form) return char;
+  if (style.bitmapFont && !style.bitmapFont.hasGlyph(form.codePointAt(0) as number)) return char;
+  return form;
+}
+
+function getAlignOffset(style: TextBlockStyle, available: Fixed, used: Fixed): Fixed {
+  if (style.textAlign === 'center') return available.subtract(used).divide(Fixed.TWO);
+  if (style.textAlign === 'right') return available.subtract(used);
+  return Fixed.ZERO;
+}
+
+// Style of drawn runs: the text style fields only, aligned left on the alphabetic baseline
+function getRunStyle(style: TextBlockStyle): TextStyle {
+  return {
+    color: style.color,
+    fontSize: style.fontSize,
+    textAlign: 'left',
+    textBaseline: 'alphabetic',
+    ...(style.fontFamily && { fontFamily: style.fontFamily }),
+    ...(style.fontWeight && { fontWeight: style.fontWeight }),
+    ...(style.fontStyle && { fontStyle: style.fontStyle }),
+    ...(style.bitmapFont && { bitmapFont: style.bitmapFont })
+  };
+}
+
+function applyMarkupTag(
+  current: TextStyle,
+  tag: string,
+  value: string | undefined,
+  blockStyle: TextBlockStyle
+): TextStyle | null {
+  switch (tag) {
+    case 'color': {
+      if (!value) return null;
+      try {
+        return { ...current, color: ColorUtils.fromHex(value) };
+      } catch {
+        return null;
+      }
+    }
+    case 'size': {
+      const size = Number(value);
+      return value && size > 0 ? { ...current, fontSize: new Fixed(size) } : null;
+    }
+    case 'b':
+      if (value !== undefined) return null;
+      return {
+        ...current,
+        fontWeight: 'bold',
+        ...(current.bitmapFont &&
+          blockStyle.boldBitmapFont && { bitmapFont: blockStyle.boldBitmapFont })
+      };
+    case 'i':
+      return value !== undefined ? null : { ...current, fontStyle: 'italic' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Range of characters forming a line, with an optional ellipsis appended
+ * 组成一行的字符范围，可附加省略号
+ */
+interface LineRange {
+  start: number;
+  end: number;
+  ellipsis?: boolean;
+}
+
+// Spaces and hard breaks, dropped at line ends; the ideographic space is kept like a character
+const WHITESPACE = /^[ \t\r\n\u000B\u000C\u2028\u2029]$/;
+const HARD_BREAK = /^[\r\n\u000B\u000C\u2028\u2029]$/;
+
+/**
+ * Styled text flattened to code points, measured through the measure function
+ * 展平为码位的带样式文本，通过测量函数进行测量
+ */
+class TextContent {
+  private chars: string[] = [];
+  private styles: TextStyle[] = [];
+  private breaks: LineBreakOpportunity[];
+  private baseStyle: TextStyle;
+  private measure: TextMeasureFunction;
+
+  constructor(spans: TextSpan[], baseStyle: TextStyle, measure: TextMeasureFunction) {
+    for (const span of spans) {
+      for (const char of span.text) {
+        this.chars.push(char);
+        this.styles.push(span.style);
+      }
+    }
+    this.baseStyle = baseStyle;
+    this.measure = measure;
+    this.breaks = findLineBreaks(this.chars);
+  }
+
+  // Lines split at mandatory breaks only
+  paragraphs(): LineRange[] {
+    const ranges: LineRange[] = [];
+    let start = 0;
+    for (const opportunity of this.breaks) {
+      if (opportunity.mandatory) {
+        ranges.push({ start, end: this.trimEnd(start, opportunity.position) });
+        start = opportunity.position;
+      }
+    }
+    // Text ending in a hard break ends with an empty line
+    const last = this.chars[this.chars.length - 1];
+    if (last !== undefined && HARD_BREAK.test(last)) {
+      ranges.push({ start: this.chars.length, end: this.chars.length });
+    }
+    return ranges;
+  }
+
+  // Greedy wrap at break opportunities, breaking elsewhere only when one piece alone is too wide
+  wrap(maxWidth: Fixed): LineRange[] {
+    const ranges: LineRange[] = [];
+    for (const paragraph of this.paragraphs()) {
+      let start = paragraph.start;
+      const end = paragraph.end;
+      while (start < end) {
+        let fit = -1;
+        for (const position of this.getBreakOpportunities(start, end)) {
+          if (this.measureRange(start, this.trimEnd(start, position)).greaterThan(maxWidth)) break;
+          fit = position;
+        }
+        if (fit < 0) {
+          fit = this.fitCharacters(start, end, maxWidth);
+        }
+        ranges.push({ start, end: this.trimEnd(start, fit) });
+        start = this.skipSpaces(fit, end);
+      }
+      if (paragraph.start === paragraph.end) {
+        ranges.push(paragraph);
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * Cut a line to maxWidth, optionally ending it with an ellipsis; force adds the ellipsis even
+   * when the line already fits, for lines followed by dropped ones
+   * 将行裁切到maxWidth，可选以省略号结尾；force表示即使行已适合也添加省略号，用于其后有被丢弃行的情况
+   */
+  truncate(
+    range: LineRange,
+    maxWidth: Fixed | undefined,
+    ellipsis: boolean,
+    force = false
+  ): LineRange {
+    const width = this.measureRange(range.start, range.end);
+    if (!force && (!maxWidth || !width.greaterThan(maxWidth))) return range;
+
+    if (!ellipsis) {
+      const end = this.fitCharacters(range.start, range.end, maxWidth as Fixed, 0);
+      return { start: range.start, end: this.trimEnd(range.start, end) };
+    }
+
+    let end = range.end;
+    if (maxWidth) {
+      while (end > range.start) {
+        const style = this.styles[end - 1];
+        const ellipsisWidth = this.measure(this.getEllipsis(style), style);
+        if (!this.measureRange(range.start, end).add(ellipsisWidth).greaterThan(maxWidth)) break;
+        end--;
+      }
+    }
+    return { start: range.start, end: this.trimEnd(range.start, end), ellipsis: true };
+  }
+
+  getRuns(range: LineRange): TextRun[] {
+    const runs: TextRun[] = [];
+    let x = Fixed.ZERO;
+    let start = range.start;
+    for (let i = range.start + 1; i <= range.end; i++) {
+      if (i === range.end || this.styles[i] !== this.styles[start]) {
+        const text = this.chars.slice(start, i).join('');
+        const width = this.measure(text, this.styles[start]);
+        runs.push({ text, style: this.styles[start], x, y: Fixed.ZERO, width });
+        x = x.add(width);
+        start = i;
+      }
+    }
+
+    if (range.ellipsis) {
+      const style =
+        range.end > range.start ? this.styles[range.end - 1] : this.getStyleAt(range.start);
+      const text = this.getEllipsis(style);
+      runs.push({ text, style, x, y: Fixed.ZERO, width: this.measure(text, style) });
+    }
+    return runs;
+  }
+
+  getLineMetrics(range: LineRange, lineHeight?: Fixed): { height: Fixed; baseline: Fixed } {
+    let height = Fixed.ZERO;
+    let ascent = Fixed.ZERO;
+    const styles =
+      range.end > range.start
+        ? this.styles.slice(range.start, range.end)
+        : [this.getStyleAt(range.start)];
+    for (const style of styles) {
+      const metrics = getFontMetrics(style);
+      if (metrics.height.greaterThan(height)) height = metrics.height;
+      if (metrics.ascent.greaterThan(ascent)) ascent = metrics.ascent;
+    }
+
+    if (!lineHeight) return { height, baseline: ascent };
+    // A fixed line height centers the natural line within it
+    const leading = lineHeight.subtract(height).divide(Fixed.TWO);
+    return { height: lineHeight, baseline: ascent.add(leading) };
+  }
+
+  // Positions inside a paragraph where a line may end, followed by the paragraph end
+  private getBreakOpportunities(start: number, end: number): number[] {
+    const positions: number[] = [];
+    for (const opportunity of this.breaks) {
+      if (opportunity.position > start && opportunity.position < end) {
+        positions.push(opportunity.position);
+      }
+    }
+    positions.push(end);
+    return positions;
+  }
+
+  // Longest prefix fitting maxWidth, at least `minimum` characters so wrapping always advances
+  private fitCharacters(start: number, end: number, maxWidth: Fixed, minimum = 1): number {
+    let fit = Math.min(end, start + minimum);
+    for (let i = fit + 1; i <= end; i++) {
+      if (this.measureRange(start, i).greaterThan(maxWidth)) break;
+      fit = i;
+    }
+    return fit;
+  }
+
+  private measureRange(start: number, end: number): Fixed {
+    let width = Fixed.ZERO;
+    let runStart = start;
+    for (let i = start + 1; i <= end; i++) {
+      if (i === end || this.styles[i] !== this.styles[runStart]) {
+        const text = this.chars.slice(runStart, i).join('');
+        width = width.add(this.measure(text, this.styles[runStart]));
+        runStart = i;
+      }
+    }
+    return width;
+  }
+
+  private trimEnd(start: number, end: number): number {
+    while (end > start && WHITESPACE.test(this.chars[end - 1])) end--;
+    return end;
+  }
+
+  private skipSpaces(start: number, end: number): number {
+    while (start < end && WHITESPACE.test(this.chars[start])) start++;
+    return start;
+  }
+
+  private getStyleAt(index: number): TextStyle {
+    return this.styles[Math.min(index, this.styles.length - 1)] || this.baseStyle;
+  }
+
+  private getEllipsis(style: TextStyle): string {
+    return style.bitmapFont && !style.bitmapFont.hasGlyph(0x2026) ? '...' : '…';
+  }
+}
+
+function getFontMetrics(style: TextStyle): { height: Fixed; ascent: Fixed } {
+  if (style.bitmapFont) {
+    return {
+      height: style.bitmapFont.getLineHeight(style.fontSize),
+      ascent: style.bitmapFont.getBaseline(style.fontSize)
+    };
+  }
+  return {
+    height: style.fontSize.multiply(new Fixed(DEFAULT_LINE_HEIGHT_FACTOR)),
+    ascent: style.fontSize.multiply(new Fixed(DEFAULT_ASCENT_FACTOR))
+  };
+}
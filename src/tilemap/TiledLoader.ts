@@ -0,0 +1,408 @@
+/**
+ * Loader for Tiled JSON maps (.tmj)
+ * Tiled JSON地图（.tmj）加载器
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ITexture } from '../types/RenderTypes';
+import {
+  Tilemap,
+  Tileset,
+  TileLayer,
+  ObjectLayer,
+  TilemapObject,
+  TilemapProperties,
+  TileAnimationFrame
+} from './Tilemap';
+
+/**
+ * Custom property as written by Tiled
+ * Tiled写出的自定义属性
+ */
+export interface TiledPropertyData {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+/**
+ * Tileset entry of a Tiled map, embedded or referencing an external file through `source`
+ * Tiled地图的图块集条目，内嵌或通过 `source` 引用外部文件
+ */
+export interface TiledTilesetData {
+  firstgid?: number; // Present in maps, absent in external tileset files
+  source?: string;
+  name?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  margin?: number;
+  spacing?: number;
+  tiles?: Array<{
+    id: number;
+    animation?: Array<{ tileid: number; duration: number }>; // duration in milliseconds
+    properties?: TiledPropertyData[];
+  }>;
+}
+
+/**
+ * Object of a Tiled object layer
+ * Tiled对象层中的对象
+ */
+export interface TiledObjectData {
+  id: number;
+  name?: string;
+  type?: string;
+  class?: string; // Replaces `type` since Tiled 1.9
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number; // in degrees, clockwise
+  visible?: boolean;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: Array<{ x: number; y: number }>;
+  polyline?: Array<{ x: number; y: number }>;
+  text?: { text: string };
+  properties?: TiledPropertyData[];
+}
+
+/**
+ * Chunk of an infinite Tiled map layer
+ * Tiled无限地图层的分块
+ */
+export interface TiledChunkData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: number[] | string;
+}
+
+/**
+ * Layer of a Tiled map
+ * Tiled地图的层
+ */
+export interface TiledLayerData {
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+  name: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  chunks?: TiledChunkData[];
+  objects?: TiledObjectData[];
+  layers?: TiledLayerData[];
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  properties?: TiledPropertyData[];
+}
+
+/**
+ * Tiled JSON map
+ * Tiled JSON地图
+ */
+export interface TiledMapData {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation?: string;
+  infinite?: boolean;
+  layers: TiledLayerData[];
+  tilesets: TiledTilesetData[];
+  properties?: TiledPropertyData[];
+}
+
+/**
+ * Tiled loader options
+ * Tiled加载器选项
+ */
+export interface TiledLoaderOptions {
+  /**
+   * Get the texture for a tileset image path, as written in the map
+   * 根据地图中写出的图块集图像路径获取纹理
+   */
+  getTexture: (image: string) => ITexture;
+
+  /**
+   * Load an external tileset file referenced by `source`
+   * 加载通过 `source` 引用的外部图块集文件
+   */
+  resolveTileset?: (source: string) => TiledTilesetData;
+
+  chunkSize?: number; // Chunk size of the created Tilemap, in tiles
+}
+
+/**
+ * Load an orthogonal Tiled JSON map, with tile and object layers, tile animations and flip flags
+ * 加载正交Tiled JSON地图，包括图块层和对象层、图块动画和翻转标志
+ *
+ * Group layers are flattened into their children, infinite maps become layers covering their
+ * chunks with the layer offset moved accordingly, and image layers are skipped. Base64 layer
+ * data must be uncompressed.
+ * 组层被展开为其子层，无限地图变为覆盖其分块的层并相应移动层偏移，图像层被跳过。
+ * Base64层数据必须未压缩。
+ */
+export function loadTiledMap(data: TiledMapData, options: TiledLoaderOptions): Tilemap {
+  if (data.orientation && data.orientation !== 'orthogonal') {
+    throw new Error(`Unsupported Tiled map orientation: ${data.orientation}`);
+  }
+
+  const tilemap = new Tilemap(
+    data.width,
+    data.height,
+    data.tilewidth,
+    data.tileheight,
+    options.chunkSize
+  );
+  tilemap.properties = convertProperties(data.properties);
+
+  for (const tileset of data.tilesets || []) {
+    tilemap.addTileset(convertTileset(tileset, options));
+  }
+  addLayers(tilemap, data.layers || [], FixedVector2.ZERO, 1, true);
+  return tilemap;
+}
+
+function convertTileset(entry: TiledTilesetData, options: TiledLoaderOptions): Tileset {
+  let data = entry;
+  if (entry.source) {
+    if (!options.resolveTileset) {
+      throw new Error(`Tileset "${entry.source}" is external; provide resolveTileset to load it`);
+    }
+    data = {
+      ...options.resolveTileset(entry.source),
+      ...(entry.firstgid !== undefined && { firstgid: entry.firstgid })
+    };
+  }
+
+  const name = data.name || entry.source || 'tileset';
+  if (!data.image) {
+    throw new Error(`Tileset "${name}" is an image collection, which is not supported`);
+  }
+  if (data.firstgid === undefined || !data.tilewidth || !data.tileheight) {
+    throw new Error(`Tileset "${name}" is missing firstgid or tile size`);
+  }
+
+  const margin = data.margin || 0;
+  const spacing = data.spacing || 0;
+  const imageWidth = (data.imagewidth || 0) - margin * 2 + spacing;
+  const columns = data.columns || Math.max(1, Math.floor(imageWidth / (data.tilewidth + spacing)));
+  const animations = new Map<number, TileAnimationFrame[]>();
+  const tileProperties = new Map<number, TilemapProperties>();
+  for (const tile of data.tiles || []) {
+    if (tile.animation && tile.animation.length > 0) {
+      animations.set(
+        tile.id,
+        tile.animation.map(frame => ({
+          tileId: frame.tileid,
+          duration: new Fixed(frame.duration / 1000)
+        }))
+      );
+    }
+    if (tile.properties) {
+      tileProperties.set(tile.id, convertProperties(tile.properties));
+    }
+  }
+
+  return {
+    name,
+    texture: options.getTexture(data.image),
+    firstGid: data.firstgid,
+    tileWidth: data.tilewidth,
+    tileHeight: data.tileheight,
+    tileCount: data.tilecount ?? columns * Math.floor((data.imageheight || 0) / data.tileheight),
+    columns,
+    margin,
+    spacing,
+    animations,
+    tileProperties
+  };
+}
+
+// Add layers in drawing order, folding group offsets, opacity and visibility into children
+function addLayers(
+  tilemap: Tilemap,
+  layers: TiledLayerData[],
+  parentOffset: FixedVector2,
+  parentOpacity: number,
+  parentVisible: boolean
+): void {
+  for (const layer of layers) {
+    const offset = parentOffset.add(
+      new FixedVector2(new Fixed(layer.offsetx || 0), new Fixed(layer.offsety || 0))
+    );
+    const opacity = parentOpacity * (layer.opacity ?? 1);
+    const visible = parentVisible && layer.visible !== false;
+    const properties = convertProperties(layer.properties);
+
+    switch (layer.type) {
+      case 'tilelayer':
+        tilemap.addLayer(convertTileLayer(tilemap, layer, offset, opacity, visible, properties));
+        break;
+      case 'objectgroup': {
+        const objectLayer: ObjectLayer = {
+          type: 'object',
+          name: layer.name,
+          objects: (layer.objects || []).map(convertObject),
+          visible,
+          opacity,
+          offset,
+          properties
+        };
+        tilemap.addLayer(objectLayer);
+        break;
+      }
+      case 'group':
+        addLayers(tilemap, layer.layers || [], offset, opacity, visible);
+        break;
+      default:
+        // Image layers have no counterpart in the tilemap model
+        break;
+    }
+  }
+}
+
+function convertTileLayer(
+  tilemap: Tilemap,
+  layer: TiledLayerData,
+  offset: FixedVector2,
+  opacity: number,
+  visible: boolean,
+  properties: TilemapProperties
+): TileLayer {
+  const base = { type: 'tile' as const, name: layer.name, visible, opacity, properties };
+
+  if (!layer.chunks) {
+    const width = layer.width ?? tilemap.width;
+    const height = layer.height ?? tilemap.height;
+    const data = decodeTileData(layer, layer.data || [], width * height);
+    return { ...base, width, height, data, offset };
+  }
+
+  // Infinite maps: cover all chunks and move the layer to the top-left one
+  if (layer.chunks.length === 0) {
+    return { ...base, width: 0, height: 0, data: new Uint32Array(0), offset };
+  }
+  const left = Math.min(...layer.chunks.map(chunk => chunk.x));
+  const top = Math.min(...layer.chunks.map(chunk => chunk.y));
+  const width = Math.max(...layer.chunks.map(chunk => chunk.x + chunk.width)) - left;
+  const height = Math.max(...layer.chunks.map(chunk => chunk.y + chunk.height)) - top;
+  const data = new Uint32Array(width * height);
+  for (const chunk of layer.chunks) {
+    const chunkData = decodeTileData(layer, chunk.data, chunk.width * chunk.height);
+    for (let y = 0; y < chunk.height; y++) {
+      const row = chunkData.subarray(y * chunk.width, (y + 1) * chunk.width);
+      data.set(row, (chunk.y - top + y) * width + (chunk.x - left));
+    }
+  }
+
+  return {
+    ...base,
+    width,
+    height,
+    data,
+    offset: offset.add(
+      new FixedVector2(new Fixed(left * tilemap.tileWidth), new Fixed(top * tilemap.tileHeight))
+    )
+  };
+}
+
+function decodeTileData(
+  layer: TiledLayerData,
+  data: number[] | string,
+  expectedLength: number
+): Uint32Array {
+  let tiles: Uint32Array;
+  if (typeof data === 'string') {
+    if (layer.compression) {
+      throw new Error(
+        `Layer "${layer.name}" uses ${layer.compression} compression; export it uncompressed`
+      );
+    }
+    const bytes = decodeBase64(data);
+    tiles = new Uint32Array(bytes.length >> 2);
+    for (let i = 0; i < tiles.length; i++) {
+      const byte = i * 4;
+      // Little-endian, unsigned so the flip flags survive
+      tiles[i] =
+        (bytes[byte] |
+          (bytes[byte + 1] << 8) |
+          (bytes[byte + 2] << 16) |
+          (bytes[byte + 3] << 24)) >>>
+        0;
+    }
+  } else {
+    tiles = Uint32Array.from(data);
+  }
+
+  if (tiles.length !== expectedLength) {
+    throw new Error(`Layer "${layer.name}" has ${tiles.length} tiles, expected ${expectedLength}`);
+  }
+  return tiles;
+}
+
+function convertObject(object: TiledObjectData): TilemapObject {
+  const toPoints = (points: Array<{ x: number; y: number }>): FixedVector2[] =>
+    points.map(point => new FixedVector2(new Fixed(point.x), new Fixed(point.y)));
+
+  return {
+    id: object.id,
+    name: object.name || '',
+    type: object.class || object.type || '',
+    x: new Fixed(object.x),
+    y: new Fixed(object.y),
+    width: new Fixed(object.width || 0),
+    height: new Fixed(object.height || 0),
+    rotation: new Fixed(((object.rotation || 0) * Math.PI) / 180),
+    visible: object.visible !== false,
+    properties: convertProperties(object.properties),
+    ...(object.gid !== undefined && { gid: object.gid >>> 0 }),
+    ...(object.point && { point: true }),
+    ...(object.ellipse && { ellipse: true }),
+    ...(object.polygon && { polygon: toPoints(object.polygon) }),
+    ...(object.polyline && { polyline: toPoints(object.polyline) }),
+    ...(object.text && { text: object.text.text })
+  };
+}
+
+// Keep primitive property values; class-typed properties have no flat representation
+function convertProperties(properties: TiledPropertyData[] | undefined): TilemapProperties {
+  const result: TilemapProperties = {};
+  for (const property of properties || []) {
+    const value = property.value;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      result[property.name] = value;
+    }
+  }
+  return result;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (const char of clean) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(char)) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+}
@@ -0,0 +1,458 @@
+/**
+ * Tilemap model with tilesets, tile layers, object layers and animated tiles
+ * 包含图块集、图块层、对象层和动画图块的瓦片地图模型
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { ITexture } from '../types/RenderTypes';
+
+/**
+ * Tile flip flags stored in the high bits of a global tile id, as in Tiled
+ * 存储在全局图块ID高位中的图块翻转标志，与Tiled一致
+ */
+export const TILE_FLIP_HORIZONTAL = 0x80000000;
+export const TILE_FLIP_VERTICAL = 0x40000000;
+export const TILE_FLIP_DIAGONAL = 0x20000000; // Swap x and y, i.e. turn the tile a quarter
+export const TILE_GID_MASK = 0x1fffffff;
+
+/**
+ * Default size of a cached chunk, in tiles
+ * 缓存分块的默认尺寸（以图块为单位）
+ */
+export const DEFAULT_TILEMAP_CHUNK_SIZE = 16;
+
+/**
+ * Custom properties attached to maps, layers, tiles and objects
+ * 附加到地图、层、图块和对象上的自定义属性
+ */
+export type TilemapProperties = Record<string, string | number | boolean>;
+
+/**
+ * Frame of an animated tile
+ * 动画图块的一帧
+ */
+export interface TileAnimationFrame {
+  tileId: number; // Local id within the tileset
+  duration: Fixed; // in seconds
+}
+
+/**
+ * Grid of tiles cut from one texture
+ * 从一个纹理切分出的图块网格
+ */
+export interface Tileset {
+  name: string;
+  texture: ITexture;
+  firstGid: number;
+  tileWidth: number;
+  tileHeight: number;
+  tileCount: number;
+  columns: number;
+  margin: number;
+  spacing: number;
+  animations: Map<number, TileAnimationFrame[]>; // Keyed by local tile id
+  tileProperties: Map<number, TilemapProperties>;
+}
+
+/**
+ * Layer of tiles; each cell holds a global tile id with flip flags, 0 for empty
+ * 图块层；每个单元格存放带翻转标志的全局图块ID，0表示空
+ */
+export interface TileLayer {
+  type: 'tile';
+  name: string;
+  width: number;
+  height: number;
+  data: Uint32Array;
+  visible: boolean;
+  opacity: number;
+  offset: FixedVector2; // In map pixels, added to the layer's placement
+  properties: TilemapProperties;
+}
+
+/**
+ * Shape or marker placed in an object layer
+ * 放置在对象层中的形状或标记
+ */
+export interface TilemapObject {
+  id: number;
+  name: string;
+  type: string;
+  x: Fixed;
+  y: Fixed;
+  width: Fixed;
+  height: Fixed;
+  rotation: Fixed; // in radians, clockwise
+  visible: boolean;
+  gid?: number; // Tile objects, with flip flags
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: FixedVector2[]; // Relative to x, y
+  polyline?: FixedVector2[]; // Relative to x, y
+  text?: string;
+  properties: TilemapProperties;
+}
+
+/**
+ * Layer of objects, kept as data for gameplay code
+ * 对象层，作为数据供游戏逻辑使用
+ */
+export interface ObjectLayer {
+  type: 'object';
+  name: string;
+  objects: TilemapObject[];
+  visible: boolean;
+  opacity: number;
+  offset: FixedVector2;
+  properties: TilemapProperties;
+}
+
+export type TilemapLayer = TileLayer | ObjectLayer;
+
+/**
+ * Cached tile of a chunk, positioned in map pixels
+ * 分块中的缓存图块，以地图像素定位
+ */
+export interface TileChunkEntry {
+  gid: number; // With flip flags
+  tileset: Tileset;
+  sourceRect: FixedRect; // Resolved again at draw time when animated
+  destRect: FixedRect; // Upright cell rect, bottom-aligned like Tiled for oversized tiles
+  bounds: FixedRect; // Area covered once drawn, turned a quarter by a diagonal flip
+  animated: boolean;
+}
+
+/**
+ * Block of tiles of one layer, cached until a tile in it changes
+ * 单个层的图块块，在其中的图块变化前保持缓存
+ */
+export interface TileChunk {
+  bounds: FixedRect; // In map pixels, covering oversized tiles
+  entries: TileChunkEntry[];
+}
+
+/**
+ * Orthogonal tilemap
+ * 正交瓦片地图
+ */
+export class Tilemap {
+  readonly width: number;
+  readonly height: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  readonly chunkSize: number;
+  readonly tilesets: Tileset[] = [];
+  readonly layers: TilemapLayer[] = [];
+  properties: TilemapProperties = {};
+  private time = Fixed.ZERO;
+  private chunks = new Map<TileLayer, Map<number, TileChunk>>();
+
+  constructor(
+    width: number,
+    height: number,
+    tileWidth: number,
+    tileHeight: number,
+    chunkSize: number = DEFAULT_TILEMAP_CHUNK_SIZE
+  ) {
+    if (width < 0 || height < 0 || tileWidth <= 0 || tileHeight <= 0 || chunkSize < 1) {
+      throw new Error(
+        `Invalid tilemap size: ${width}x${height} tiles of ${tileWidth}x${tileHeight} pixels`
+      );
+    }
+
+    this.width = width;
+    this.height = height;
+    this.tileWidth = tileWidth;
+    this.tileHeight = tileHeight;
+    this.chunkSize = chunkSize;
+  }
+
+  // ===== Tilesets =====
+  // 图块集
+
+  addTileset(tileset: Tileset): void {
+    this.tilesets.push(tileset);
+    this.tilesets.sort((a, b) => a.firstGid - b.firstGid);
+    this.chunks.clear();
+  }
+
+  /**
+   * Find the tileset owning a global tile id; flip flags are ignored
+   * 查找拥有全局图块ID的图块集；忽略翻转标志
+   */
+  getTilesetForGid(gid: number): Tileset | null {
+    const id = gid & TILE_GID_MASK;
+    if (id === 0) return null;
+
+    for (let i = this.tilesets.length - 1; i >= 0; i--) {
+      const tileset = this.tilesets[i];
+      if (id >= tileset.firstGid) {
+        return id < tileset.firstGid + tileset.tileCount ? tileset : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the texture region of a tile, following tile animations at the current map time
+   * 获取图块的纹理区域，按当前地图时间跟随图块动画
+   */
+  getTileSourceRect(gid: number): FixedRect | null {
+    const tileset = this.getTilesetForGid(gid);
+    if (!tileset) return null;
+
+    const localId = this.getAnimatedTileId(tileset, (gid & TILE_GID_MASK) - tileset.firstGid);
+    const column = localId % tileset.columns;
+    const row = Math.floor(localId / tileset.columns);
+    return new FixedRect(
+      new Fixed(tileset.margin + column * (tileset.tileWidth + tileset.spacing)),
+      new Fixed(tileset.margin + row * (tileset.tileHeight + tileset.spacing)),
+      new Fixed(tileset.tileWidth),
+      new Fixed(tileset.tileHeight)
+    );
+  }
+
+  // ===== Layers =====
+  // 层
+
+  addLayer(layer: TilemapLayer): void {
+    if (layer.type === 'tile' && layer.data.length !== layer.width * layer.height) {
+      throw new Error(`Tile layer "${layer.name}" data does not match its size`);
+    }
+    this.layers.push(layer);
+  }
+
+  /**
+   * Create an empty tile layer covering the map
+   * 创建覆盖整个地图的空图块层
+   */
+  createTileLayer(name: string): TileLayer {
+    const layer: TileLayer = {
+      type: 'tile',
+      name,
+      width: this.width,
+      height: this.height,
+      data: new Uint32Array(this.width * this.height),
+      visible: true,
+      opacity: 1,
+      offset: FixedVector2.ZERO,
+      properties: {}
+    };
+    this.addLayer(layer);
+    return layer;
+  }
+
+  getLayer(name: string): TilemapLayer | undefined {
+    return this.layers.find(layer => layer.name === name);
+  }
+
+  getTile(layer: TileLayer, x: number, y: number): number {
+    if (x < 0 || y < 0 || x >= layer.width || y >= layer.height) return 0;
+    return layer.data[y * layer.width + x];
+  }
+
+  /**
+   * Set a global tile id, with optional flip flags, and invalidate its cached chunk
+   * 设置全局图块ID（可带翻转标志），并使其缓存分块失效
+   */
+  setTile(layer: TileLayer, x: number, y: number, gid: number): void {
+    if (x < 0 || y < 0 || x >= layer.width || y >= layer.height) {
+      throw new Error(`Tile ${x},${y} is outside layer "${layer.name}"`);
+    }
+
+    layer.data[y * layer.width + x] = gid >>> 0;
+    const chunkX = Math.floor(x / this.chunkSize);
+    const chunkY = Math.floor(y / this.chunkSize);
+    this.chunks.get(layer)?.delete(this.getChunkKey(layer, chunkX, chunkY));
+  }
+
+  /**
+   * Drop cached chunks after editing layer data directly
+   * 直接编辑层数据后丢弃缓存分块
+   */
+  invalidateChunks(layer?: TileLayer): void {
+    if (layer) {
+      this.chunks.delete(layer);
+    } else {
+      this.chunks.clear();
+    }
+  }
+
+  // ===== Chunks =====
+  // 分块
+
+  /**
+   * Get the cached chunks of a layer overlapping a rect in layer pixels
+   * 获取与层像素矩形重叠的层缓存分块
+   */
+  getChunksInRect(layer: TileLayer, rect: FixedRect): TileChunk[] {
+    const chunkWidth = this.chunkSize * this.tileWidth;
+    const chunkHeight = this.chunkSize * this.tileHeight;
+    const columns = Math.ceil(layer.width / this.chunkSize);
+    const rows = Math.ceil(layer.height / this.chunkSize);
+
+    // Oversized tiles reach up and right out of their chunk, so look further left and down;
+    // diagonally flipped tiles reach as far as their other side
+    let overhangX = 0;
+    let overhangY = 0;
+    for (const tileset of this.tilesets) {
+      const size = Math.max(tileset.tileWidth, tileset.tileHeight);
+      overhangX = Math.max(overhangX, size - this.tileWidth);
+      overhangY = Math.max(overhangY, size - this.tileHeight);
+    }
+    const left = rect.x.toNumber() - overhangX;
+    const top = rect.y.toNumber();
+    const right = rect.x.toNumber() + rect.width.toNumber();
+    const bottom = top + rect.height.toNumber() + overhangY;
+    const firstColumn = Math.max(0, Math.floor(left / chunkWidth));
+    const lastColumn = Math.min(columns - 1, Math.floor(right / chunkWidth));
+    const firstRow = Math.max(0, Math.floor(top / chunkHeight));
+    const lastRow = Math.min(rows - 1, Math.floor(bottom / chunkHeight));
+
+    const chunks: TileChunk[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const chunk = this.getChunk(layer, column, row);
+        if (chunk.entries.length > 0 && rectsOverlap(chunk.bounds, rect)) {
+          chunks.push(chunk);
+        }
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * Get a chunk of a layer, building and caching it on first use
+   * 获取层的分块，首次使用时构建并缓存
+   */
+  getChunk(layer: TileLayer, chunkX: number, chunkY: number): TileChunk {
+    let layerChunks = this.chunks.get(layer);
+    if (!layerChunks) {
+      layerChunks = new Map();
+      this.chunks.set(layer, layerChunks);
+    }
+
+    const key = this.getChunkKey(layer, chunkX, chunkY);
+    let chunk = layerChunks.get(key);
+    if (!chunk) {
+      chunk = this.buildChunk(layer, chunkX, chunkY);
+      layerChunks.set(key, chunk);
+    }
+    return chunk;
+  }
+
+  // ===== Animation =====
+  // 动画
+
+  /**
+   * Advance animated tiles
+   * 推进动画图块
+   */
+  update(deltaTime: Fixed): void {
+    this.time = this.time.add(deltaTime);
+  }
+
+  getTime(): Fixed {
+    return this.time;
+  }
+
+  setTime(time: Fixed): void {
+    this.time = time;
+  }
+
+  // ===== Internal =====
+  // 内部
+
+  private getChunkKey(layer: TileLayer, chunkX: number, chunkY: number): number {
+    return chunkY * Math.ceil(layer.width / this.chunkSize) + chunkX;
+  }
+
+  private buildChunk(layer: TileLayer, chunkX: number, chunkY: number): TileChunk {
+    const entries: TileChunkEntry[] = [];
+    const startX = chunkX * this.chunkSize;
+    const startY = chunkY * this.chunkSize;
+    const endX = Math.min(layer.width, startX + this.chunkSize);
+    const endY = Math.min(layer.height, startY + this.chunkSize);
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const gid = layer.data[y * layer.width + x];
+        const tileset = this.getTilesetForGid(gid);
+        if (!tileset) continue;
+
+        // Tiles larger than the grid extend up and right from the cell's bottom-left corner,
+        // about which a diagonal flip turns them
+        const left = x * this.tileWidth;
+        const bottom = (y + 1) * this.tileHeight;
+        const turned = (gid & TILE_FLIP_DIAGONAL) !== 0;
+        const width = turned ? tileset.tileHeight : tileset.tileWidth;
+        const height = turned ? tileset.tileWidth : tileset.tileHeight;
+        minX = Math.min(minX, left);
+        minY = Math.min(minY, bottom - height);
+        maxX = Math.max(maxX, left + width);
+        maxY = Math.max(maxY, bottom);
+        entries.push({
+          gid,
+          tileset,
+          sourceRect: this.getTileSourceRect(gid) as FixedRect,
+          destRect: new FixedRect(
+            new Fixed(left),
+            new Fixed(bottom - tileset.tileHeight),
+            new Fixed(tileset.tileWidth),
+            new Fixed(tileset.tileHeight)
+          ),
+          bounds: new FixedRect(
+            new Fixed(left),
+            new Fixed(bottom - height),
+            new Fixed(width),
+            new Fixed(height)
+          ),
+          animated: tileset.animations.has((gid & TILE_GID_MASK) - tileset.firstGid)
+        });
+      }
+    }
+
+    if (entries.length === 0) {
+      return { bounds: new FixedRect(Fixed.ZERO, Fixed.ZERO, Fixed.ZERO, Fixed.ZERO), entries };
+    }
+    const bounds = new FixedRect(
+      new Fixed(minX),
+      new Fixed(minY),
+      new Fixed(maxX - minX),
+      new Fixed(maxY - minY)
+    );
+    return { bounds, entries };
+  }
+
+  private getAnimatedTileId(tileset: Tileset, localId: number): number {
+    const frames = tileset.animations.get(localId);
+    if (!frames || frames.length === 0) return localId;
+
+    let total = Fixed.ZERO;
+    for (const frame of frames) {
+      total = total.add(frame.duration);
+    }
+    if (!total.greaterThan(Fixed.ZERO)) return frames[0].tileId;
+
+    const cycles = this.time.divide(total).floor();
+    let time = this.time.subtract(cycles.multiply(total));
+    for (const frame of frames) {
+      if (time.lessThan(frame.duration)) return frame.tileId;
+      time = time.subtract(frame.duration);
+    }
+    return frames[frames.length - 1].tileId;
+  }
+}
+
+function rectsOverlap(a: FixedRect, b: FixedRect): boolean {
+  return (
+    a.x.lessThanOrEqual(b.x.add(b.width)) &&
+    b.x.lessThanOrEqual(a.x.add(a.width)) &&
+    a.y.lessThanOrEqual(b.y.add(b.height)) &&
+    b.y.lessThanOrEqual(a.y.add(a.height))
+  );
+}
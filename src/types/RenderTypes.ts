@@ -4,6 +4,7 @@
  */
 
 import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { BitmapFont } from '../text/BitmapFont';
 
 /**
  * Color representation with RGBA components
@@ -67,17 +68,104 @@ export interface LineStyle {
   color: Color;
   thickness: Fixed;
   dashPattern?: Fixed[]; // Optional dash pattern
+  dashOffset?: Fixed; // Distance into the dash pattern at the start of the line
+  strokeUnit?: StrokeUnit; // Unit of thickness and dashes, default 'screen'
+  lineJoin?: 'miter' | 'round' | 'bevel'; // Default 'miter'
+  lineCap?: 'butt' | 'round' | 'square'; // Default 'butt'
+  miterLimit?: Fixed; // Miter length to thickness ratio beyond which joins are beveled, default 10
 }
 
+/**
+ * Unit of stroke thickness and dash lengths: screen pixels, or drawing units that scale with
+ * transforms and camera zoom
+ * 描边粗细和虚线长度的单位：屏幕像素，或随变换和相机缩放而缩放的绘制单位
+ */
+export type StrokeUnit = 'screen' | 'world';
+
+/**
+ * Rule deciding which regions of a self-overlapping path are inside
+ * 决定自重叠路径哪些区域位于内部的规则
+ */
+export type FillRule = 'nonzero' | 'evenodd';
+
+/**
+ * Miter limit used when a line style does not set one
+ * 线条样式未设置时使用的斜接限制
+ */
+export const DEFAULT_MITER_LIMIT = 10;
+
+/**
+ * Color at a position along a gradient, offset from 0 to 1
+ * 渐变上某位置的颜色，偏移从0到1
+ */
+export interface GradientStop {
+  offset: number;
+  color: Color;
+}
+
+/**
+ * Space of gradient coordinates: the drawing's local units, or world units unaffected by
+ * pushed transforms
+ * 渐变坐标所在空间：绘制的局部单位，或不受压入变换影响的世界单位
+ */
+export type GradientSpace = 'local' | 'world';
+
+/**
+ * Gradient varying along the line from start to end
+ * 沿起点到终点的直线变化的渐变
+ */
+export interface LinearGradient {
+  type: 'linear';
+  start: FixedVector2;
+  end: FixedVector2;
+  stops: GradientStop[];
+  space?: GradientSpace; // Default 'local'
+}
+
+/**
+ * Gradient varying with the distance from a center
+ * 随到中心距离变化的渐变
+ */
+export interface RadialGradient {
+  type: 'radial';
+  center: FixedVector2;
+  radius: Fixed;
+  stops: GradientStop[];
+  space?: GradientSpace;
+}
+
+/**
+ * Gradient varying with the angle around a center, clockwise on screen from startAngle
+ * 随绕中心角度变化的渐变，从startAngle起在屏幕上顺时针
+ */
+export interface ConicGradient {
+  type: 'conic';
+  center: FixedVector2;
+  startAngle: Fixed; // Radians
+  stops: GradientStop[];
+  space?: GradientSpace;
+}
+
+export type Gradient = LinearGradient | RadialGradient | ConicGradient;
+
+/**
+ * Fill paint: a solid color or a gradient
+ * 填充颜料：纯色或渐变
+ */
+export type Paint = Color | Gradient;
+
 /**
  * Shape drawing style
  * 形状绘制样式
  */
 export interface ShapeStyle {
   fillColor?: Color;
+  fillGradient?: Gradient; // Takes precedence over fillColor
   strokeColor?: Color;
   strokeThickness?: Fixed;
   dashPattern?: Fixed[];
+  dashOffset?: Fixed;
+  strokeUnit?: StrokeUnit;
 }
 
 /**
@@ -92,6 +180,23 @@ export interface TextStyle {
   fontStyle?: 'normal' | 'italic' | 'oblique';
   textAlign?: 'left' | 'center' | 'right';
   textBaseline?: 'top' | 'middle' | 'bottom' | 'alphabetic';
+  bitmapFont?: BitmapFont; // Draw glyphs from this font instead of the backend's text support
+}
+
+/**
+ * Text block style, adding wrapping, line height, overflow and markup to a text style
+ * 文本块样式，在文本样式基础上增加换行、行高、溢出和标记
+ */
+export interface TextBlockStyle extends TextStyle {
+  maxWidth?: Fixed;
+  maxHeight?: Fixed;
+  maxLines?: number;
+  lineHeight?: Fixed; // Distance between lines; defaults to the tallest span on each line
+  wordWrap?: boolean; // Wrap at maxWidth, default true
+  overflow?: 'visible' | 'clip' | 'ellipsis'; // Default 'visible'
+  markup?: boolean; // Parse [color], [b], [i] and [size] tags, default false
+  boldBitmapFont?: BitmapFont; // Used by [b] spans when drawing with a bitmap font
+  writingMode?: 'horizontal' | 'vertical'; // Vertical: columns right to left, wrap at maxHeight
 }
 
 /**
@@ -118,72 +223,245 @@ export interface GridStyle {
   majorLineInterval?: number; // Every N lines is a major line
 }
 
+/**
+ * 2x3 affine matrix in Fixed math, mapping (x, y) to (a*x + c*y + tx, b*x + d*y + ty)
+ * 定点数学的2x3仿射矩阵，将(x, y)映射为(a*x + c*y + tx, b*x + d*y + ty)
+ */
+export class Matrix2x3 {
+  public a: Fixed;
+  public b: Fixed;
+  public c: Fixed;
+  public d: Fixed;
+  public tx: Fixed;
+  public ty: Fixed;
+
+  constructor(
+    a: Fixed = Fixed.ONE,
+    b: Fixed = Fixed.ZERO,
+    c: Fixed = Fixed.ZERO,
+    d: Fixed = Fixed.ONE,
+    tx: Fixed = Fixed.ZERO,
+    ty: Fixed = Fixed.ZERO
+  ) {
+    this.a = a;
+    this.b = b;
+    this.c = c;
+    this.d = d;
+    this.tx = tx;
+    this.ty = ty;
+  }
+
+  static identity(): Matrix2x3 {
+    return new Matrix2x3();
+  }
+
+  /**
+   * Compose with another matrix; `other` is applied first
+   * 与另一个矩阵组合；先应用 `other`
+   */
+  multiply(other: Matrix2x3): Matrix2x3 {
+    return new Matrix2x3(
+      this.a.multiply(other.a).add(this.c.multiply(other.b)),
+      this.b.multiply(other.a).add(this.d.multiply(other.b)),
+      this.a.multiply(other.c).add(this.c.multiply(other.d)),
+      this.b.multiply(other.c).add(this.d.multiply(other.d)),
+      this.a.multiply(other.tx).add(this.c.multiply(other.ty)).add(this.tx),
+      this.b.multiply(other.tx).add(this.d.multiply(other.ty)).add(this.ty)
+    );
+  }
+
+  determinant(): Fixed {
+    return this.a.multiply(this.d).subtract(this.b.multiply(this.c));
+  }
+
+  invert(): Matrix2x3 {
+    const det = this.determinant();
+    if (det.equals(Fixed.ZERO)) {
+      throw new Error('Cannot invert a singular matrix');
+    }
+
+    return new Matrix2x3(
+      this.d.divide(det),
+      this.b.negate().divide(det),
+      this.c.negate().divide(det),
+      this.a.divide(det),
+      this.c.multiply(this.ty).subtract(this.d.multiply(this.tx)).divide(det),
+      this.b.multiply(this.tx).subtract(this.a.multiply(this.ty)).divide(det)
+    );
+  }
+
+  /**
+   * Transform a point, including translation
+   * 变换点（包含平移）
+   */
+  transformPoint(point: FixedVector2): FixedVector2 {
+    return new FixedVector2(
+      this.a.multiply(point.x).add(this.c.multiply(point.y)).add(this.tx),
+      this.b.multiply(point.x).add(this.d.multiply(point.y)).add(this.ty)
+    );
+  }
+
+  /**
+   * Transform a direction or offset, ignoring translation
+   * 变换方向或偏移（忽略平移）
+   */
+  transformVector(vector: FixedVector2): FixedVector2 {
+    return new FixedVector2(
+      this.a.multiply(vector.x).add(this.c.multiply(vector.y)),
+      this.b.multiply(vector.x).add(this.d.multiply(vector.y))
+    );
+  }
+
+  /**
+   * Axis-aligned bounds of a rectangle after transformation
+   * 矩形变换后的轴对齐包围盒
+   */
+  transformBounds(rect: FixedRect): FixedRect {
+    const right = rect.x.add(rect.width);
+    const bottom = rect.y.add(rect.height);
+    return boundsOfPoints([
+      this.transformPoint(new FixedVector2(rect.x, rect.y)),
+      this.transformPoint(new FixedVector2(right, rect.y)),
+      this.transformPoint(new FixedVector2(right, bottom)),
+      this.transformPoint(new FixedVector2(rect.x, bottom))
+    ]);
+  }
+
+  /**
+   * Decompose into position, rotation, skew and scale
+   * 分解为位置、旋转、倾斜和缩放
+   */
+  decompose(): Transform2D {
+    const a = this.a.toNumber();
+    const b = this.b.toNumber();
+    const c = this.c.toNumber();
+    const d = this.d.toNumber();
+    const position = new FixedVector2(this.tx, this.ty);
+
+    const scaleX = Math.sqrt(a * a + b * b);
+    if (scaleX === 0) {
+      // X axis collapsed, only the Y axis carries rotation and scale
+      return new Transform2D(
+        position,
+        new Fixed(Math.atan2(-c, d)),
+        new FixedVector2(Fixed.ZERO, new Fixed(Math.sqrt(c * c + d * d)))
+      );
+    }
+
+    // Linear part is R(rotation) * Skew * S(scale), with mirroring carried by scale.y
+    const scaleY = (a * d - b * c) / scaleX;
+    const shear = scaleY === 0 ? 0 : (a * c + b * d) / (scaleX * scaleY);
+    return new Transform2D(
+      position,
+      new Fixed(Math.atan2(b, a)),
+      new FixedVector2(new Fixed(scaleX), new Fixed(scaleY)),
+      new Fixed(Math.atan(shear))
+    );
+  }
+
+  equals(other: Matrix2x3): boolean {
+    return (
+      this.a.equals(other.a) &&
+      this.b.equals(other.b) &&
+      this.c.equals(other.c) &&
+      this.d.equals(other.d) &&
+      this.tx.equals(other.tx) &&
+      this.ty.equals(other.ty)
+    );
+  }
+}
+
+/**
+ * Axis-aligned bounds enclosing a set of points
+ * 包含一组点的轴对齐包围盒
+ */
+export function boundsOfPoints(points: FixedVector2[]): FixedRect {
+  if (points.length === 0) {
+    return new FixedRect(Fixed.ZERO, Fixed.ZERO, Fixed.ZERO, Fixed.ZERO);
+  }
+
+  let minX = points[0].x;
+  let minY = points[0].y;
+  let maxX = points[0].x;
+  let maxY = points[0].y;
+  for (const point of points) {
+    if (point.x.lessThan(minX)) minX = point.x;
+    if (point.y.lessThan(minY)) minY = point.y;
+    if (point.x.greaterThan(maxX)) maxX = point.x;
+    if (point.y.greaterThan(maxY)) maxY = point.y;
+  }
+  return new FixedRect(minX, minY, maxX.subtract(minX), maxY.subtract(minY));
+}
+
 /**
  * 2D Transform representation
  * 2D变换表示
+ *
+ * Applied as scale, then skew (X axis shear by the skew angle), then rotation, then translation.
+ * 依次应用缩放、倾斜（按倾斜角沿X轴剪切）、旋转和平移。
  */
 export class Transform2D {
   public position: FixedVector2;
   public rotation: Fixed;
   public scale: FixedVector2;
+  public skew: Fixed;
 
   constructor(
     position: FixedVector2 = FixedVector2.ZERO,
     rotation: Fixed = Fixed.ZERO,
-    scale: FixedVector2 = FixedVector2.ONE
+    scale: FixedVector2 = FixedVector2.ONE,
+    skew: Fixed = Fixed.ZERO
   ) {
     this.position = position;
     this.rotation = rotation;
     this.scale = scale;
+    this.skew = skew;
   }
 
   static identity(): Transform2D {
     return new Transform2D();
   }
 
-  multiply(other: Transform2D): Transform2D {
-    // Simplified transform multiplication
-    // In a real implementation, this would use proper matrix math
-    return new Transform2D(
-      this.position.add(other.position),
-      this.rotation.add(other.rotation),
-      new FixedVector2(
-        this.scale.x.multiply(other.scale.x),
-        this.scale.y.multiply(other.scale.y)
-      )
+  static fromMatrix(matrix: Matrix2x3): Transform2D {
+    return matrix.decompose();
+  }
+
+  toMatrix(): Matrix2x3 {
+    const angle = this.rotation.toNumber();
+    const cos = new Fixed(Math.cos(angle));
+    const sin = new Fixed(Math.sin(angle));
+    const shear = this.skew.equals(Fixed.ZERO)
+      ? Fixed.ZERO
+      : new Fixed(Math.tan(this.skew.toNumber()));
+
+    return new Matrix2x3(
+      cos.multiply(this.scale.x),
+      sin.multiply(this.scale.x),
+      cos.multiply(shear).subtract(sin).multiply(this.scale.y),
+      sin.multiply(shear).add(cos).multiply(this.scale.y),
+      this.position.x,
+      this.position.y
     );
   }
 
+  /**
+   * Compose with a child transform; `other` is applied first
+   * 与子变换组合；先应用 `other`
+   */
+  multiply(other: Transform2D): Transform2D {
+    return this.toMatrix().multiply(other.toMatrix()).decompose();
+  }
+
   inverse(): Transform2D {
-    return new Transform2D(
-      this.position.negate(),
-      this.rotation.negate(),
-      new FixedVector2(
-        Fixed.ONE.divide(this.scale.x),
-        Fixed.ONE.divide(this.scale.y)
-      )
-    );
+    return this.toMatrix().invert().decompose();
   }
 
   transformPoint(point: FixedVector2): FixedVector2 {
-    // Apply scale, rotation, then translation
-    let result = new FixedVector2(
-      point.x.multiply(this.scale.x),
-      point.y.multiply(this.scale.y)
-    );
-
-    // Apply rotation (simplified - in real implementation use rotation matrix)
-    if (!this.rotation.equals(Fixed.ZERO)) {
-      // For now, use approximation since Fixed.cos/sin might not exist
-      const angle = this.rotation.toNumber();
-      const cos = new Fixed(Math.cos(angle));
-      const sin = new Fixed(Math.sin(angle));
-      const x = result.x.multiply(cos).subtract(result.y.multiply(sin));
-      const y = result.x.multiply(sin).add(result.y.multiply(cos));
-      result = new FixedVector2(x, y);
-    }
+    return this.toMatrix().transformPoint(point);
+  }
 
-    return result.add(this.position);
+  transformVector(vector: FixedVector2): FixedVector2 {
+    return this.toMatrix().transformVector(vector);
   }
 }
 
@@ -198,6 +476,22 @@ export interface ITexture {
   readonly source: unknown; // Platform-specific texture data
 }
 
+/**
+ * Reason a sprite batch was split
+ * 精灵批次被拆分的原因
+ *
+ * `primitive` is a non-sprite draw between sprites and `flush` an explicit flushBatch call.
+ * `primitive` 表示精灵之间的非精灵绘制，`flush` 表示显式调用flushBatch。
+ */
+export type BatchBreakReason =
+  | 'texture'
+  | 'blendMode'
+  | 'clip'
+  | 'layer'
+  | 'capacity'
+  | 'primitive'
+  | 'flush';
+
 /**
  * Render statistics
  * 渲染统计信息
@@ -207,6 +501,8 @@ export interface RenderStatistics {
   triangles: number;
   vertices: number;
   textureBinds: number;
+  culledDrawCalls: number; // Draws skipped by culling
+  batchBreaks: Record<BatchBreakReason, number>;
   frameTime: number; // milliseconds
 }
 
@@ -263,4 +559,5 @@ export interface RenderState {
   opacity: number; // 0-1
   clipRect?: FixedRect;
   layer?: RenderLayer;
+  sortKey?: number; // Order within a layer when rendering is deferred, lower first
 }
@@ -0,0 +1,154 @@
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { AnimationFrameEvent, AnimationPlayer } from '../../src/animation/AnimationPlayer';
+import { SpriteAnimation } from '../../src/interfaces/IGameRenderer';
+
+const QUARTER = new Fixed(0.25);
+
+function createAnimation(
+  name: string,
+  durations: number[],
+  overrides: Partial<SpriteAnimation> = {}
+): SpriteAnimation {
+  const texture = { width: 16, height: 16, isLoaded: true, source: null };
+  return {
+    name,
+    frames: durations.map(duration => ({
+      texture,
+      sourceRect: new FixedRect(Fixed.ZERO, Fixed.ZERO, new Fixed(16), new Fixed(16)),
+      duration: new Fixed(duration)
+    })),
+    loop: true,
+    playbackSpeed: Fixed.ONE,
+    ...overrides
+  };
+}
+
+// Frame index after each of `steps` quarter-second updates, starting with the first frame
+function getFrameOrder(player: AnimationPlayer, steps: number): number[] {
+  const order = [player.getCurrentFrameIndex()];
+  for (let step = 0; step < steps; step++) {
+    player.update(QUARTER);
+    order.push(player.getCurrentFrameIndex());
+  }
+  return order;
+}
+
+describe('AnimationPlayer', () => {
+  test('reverse and ping-pong modes order the frames of a looping clip', () => {
+    const player = new AnimationPlayer([createAnimation('walk', [0.25, 0.25, 0.25, 0.25])]);
+
+    player.play('walk', { mode: 'reverse' });
+    expect(getFrameOrder(player, 5)).toEqual([3, 2, 1, 0, 3, 2]);
+
+    player.play('walk', { mode: 'pingPong' });
+    expect(getFrameOrder(player, 8)).toEqual([0, 1, 2, 3, 2, 1, 0, 1, 2]);
+  });
+
+  test('a queued clip takes over at the end of the cycle with the leftover time', () => {
+    const walk = createAnimation('walk', [0.25, 0.25]);
+    const jump = createAnimation('jump', [0.25, 0.25, 0.25], { loop: false });
+    const player = new AnimationPlayer([walk, jump]);
+    const completed: string[] = [];
+    player.onComplete(animation => completed.push(animation.name));
+
+    player.play('walk');
+    player.queue('jump');
+    player.update(new Fixed(0.625));
+
+    expect(completed).toEqual(['walk']);
+    expect(player.getCurrentAnimation()).toBe(jump);
+    expect(player.getCurrentFrameIndex()).toBe(0);
+    expect(player.getTime().toNumber()).toBeCloseTo(0.125, 4);
+
+    player.update(new Fixed(0.125));
+    expect(player.getCurrentFrameIndex()).toBe(1);
+  });
+
+  test('frame events fire on entering a frame, including when a loop wraps', () => {
+    const player = new AnimationPlayer([createAnimation('walk', [0.25, 0.25])]);
+    player.addFrameEvent('walk', 0, 'step');
+    player.addFrameEvent('walk', 1, 'lift');
+    const events: AnimationFrameEvent[] = [];
+    const removeListener = player.onFrameEvent(event => events.push(event));
+
+    player.play('walk');
+    player.update(Fixed.ZERO);
+    player.update(new Fixed(0.5));
+    expect(events.map(event => `${event.name}@${event.frame}`)).toEqual([
+      'step@0',
+      'lift@1',
+      'step@0'
+    ]);
+
+    removeListener();
+    player.update(QUARTER);
+    expect(events).toHaveLength(3);
+  });
+
+  test('a non-looping clip completes once and holds its last frame', () => {
+    const player = new AnimationPlayer([
+      createAnimation('attack', [0.25, 0.25], { loop: false })
+    ]);
+    let completions = 0;
+    player.onComplete(() => completions++);
+
+    player.play('attack');
+    player.update(Fixed.ONE);
+    player.update(Fixed.ONE);
+
+    expect(completions).toBe(1);
+    expect(player.isPlaying()).toBe(false);
+    expect(player.getCurrentFrameIndex()).toBe(1);
+    expect(player.getTime().toNumber()).toBeCloseTo(0.5, 4);
+  });
+
+  test('seek wraps looping clips, clamps the others and emits no events', () => {
+    const animation = createAnimation('walk', [0.25, 0.25, 0.25, 0.25]);
+    const player = new AnimationPlayer([animation]);
+    player.addFrameEvent('walk', 2, 'land');
+    const events: string[] = [];
+    player.onFrameEvent(event => events.push(event.name));
+
+    player.play('walk');
+    player.seek(new Fixed(1.625));
+    expect(player.getCurrentFrameIndex()).toBe(2);
+    expect(player.getTime().toNumber()).toBeCloseTo(0.625, 4);
+    player.update(Fixed.ZERO);
+    expect(events).toEqual([]);
+
+    player.play('walk', { loop: false, restart: true });
+    player.seek(new Fixed(5));
+    expect(player.getCurrentFrameIndex()).toBe(3);
+    expect(player.getTime().toNumber()).toBeCloseTo(1, 4);
+  });
+
+  test('seekFrame finds the first cycle position showing the frame', () => {
+    const player = new AnimationPlayer([createAnimation('walk', [0.25, 0.25, 0.25])]);
+
+    player.play('walk', { mode: 'reverse' });
+    player.seekFrame(0);
+    expect(player.getTime().toNumber()).toBeCloseTo(0.5, 4);
+
+    player.play('walk', { mode: 'pingPong' });
+    player.seekFrame(2);
+    player.update(QUARTER);
+    expect(player.getCurrentFrameIndex()).toBe(1);
+
+    expect(() => player.seekFrame(3)).toThrow('Frame 3 is out of range for animation "walk"');
+  });
+
+  test('update steps over zero-length frames but stops after one cycle of them', () => {
+    const player = new AnimationPlayer([
+      createAnimation('blink', [0.25, 0, 0.25]),
+      createAnimation('empty', [0, 0, 0])
+    ]);
+
+    player.play('blink');
+    player.update(QUARTER);
+    expect(player.getCurrentFrameIndex()).toBe(2);
+
+    player.play('empty');
+    player.update(Fixed.ONE);
+    expect(player.isPlaying()).toBe(true);
+  });
+});
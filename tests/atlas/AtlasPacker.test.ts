@@ -0,0 +1,141 @@
+import { AtlasImage, AtlasLayout, AtlasPacker } from '../../src/atlas/AtlasPacker';
+
+function createImages(count: number, seed: number): AtlasImage[] {
+  let state = seed;
+  const next = (max: number) => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return 1 + (state % max);
+  };
+  const images: AtlasImage[] = [];
+  for (let i = 0; i < count; i++) {
+    images.push({ name: `image${i}`, width: next(60), height: next(40) });
+  }
+  return images;
+}
+
+interface Cell {
+  page: number;
+  x: number;
+  y: number;
+  right: number;
+  bottom: number;
+}
+
+// Region rects grown by extrusion and padding, which must not overlap either
+function getCells(layout: AtlasLayout, extrude: number, padding: number): Cell[] {
+  return layout.pages.reduce<Cell[]>((cells, page, index) => {
+    for (const region of page.regions) {
+      const { x, y, width, height } = region.rect;
+      cells.push({
+        page: index,
+        x: x.toNumber() - extrude,
+        y: y.toNumber() - extrude,
+        right: x.toNumber() + width.toNumber() + extrude + padding,
+        bottom: y.toNumber() + height.toNumber() + extrude + padding
+      });
+    }
+    return cells;
+  }, []);
+}
+
+function expectNoOverlaps(cells: Cell[]): void {
+  for (let i = 0; i < cells.length; i++) {
+    for (let j = i + 1; j < cells.length; j++) {
+      const a = cells[i];
+      const b = cells[j];
+      const overlaps =
+        a.page === b.page && a.x < b.right && b.x < a.right && a.y < b.bottom && b.y < a.bottom;
+      expect(overlaps).toBe(false);
+    }
+  }
+}
+
+describe('AtlasPacker', () => {
+  const cases = [
+    { algorithm: 'maxRects' as const, allowRotation: false },
+    { algorithm: 'maxRects' as const, allowRotation: true },
+    { algorithm: 'skyline' as const, allowRotation: false },
+    { algorithm: 'skyline' as const, allowRotation: true }
+  ];
+
+  test.each(cases)('$algorithm (rotation $allowRotation) packs without overlaps', options => {
+    const images = createImages(120, 17);
+    const extrude = 1;
+    const padding = 2;
+    const packer = new AtlasPacker({
+      ...options,
+      maxWidth: 256,
+      maxHeight: 256,
+      extrude,
+      padding
+    });
+    const layout = packer.pack(images);
+
+    expect(layout.regions.size).toBe(images.length);
+    expect(layout.pages.length).toBeGreaterThan(1);
+    for (const image of images) {
+      const region = layout.regions.get(image.name);
+      expect(region).toBeDefined();
+      if (!region) continue;
+      const width = region.rect.width.toNumber();
+      const height = region.rect.height.toNumber();
+      expect([width, height]).toEqual(
+        region.rotated ? [image.height, image.width] : [image.width, image.height]
+      );
+      if (!options.allowRotation) {
+        expect(region.rotated).toBe(false);
+      }
+    }
+
+    const cells = getCells(layout, extrude, padding);
+    for (const cell of cells) {
+      const page = layout.pages[cell.page];
+      expect(cell.x).toBeGreaterThanOrEqual(0);
+      expect(cell.y).toBeGreaterThanOrEqual(0);
+      expect(cell.right - padding).toBeLessThanOrEqual(page.width);
+      expect(cell.bottom - padding).toBeLessThanOrEqual(page.height);
+      expect(page.width).toBeLessThanOrEqual(256);
+      expect(page.height).toBeLessThanOrEqual(256);
+    }
+    expectNoOverlaps(cells);
+  });
+
+  test('power-of-two pages are rounded up', () => {
+    const layout = new AtlasPacker({ powerOfTwo: true }).pack(createImages(10, 3));
+
+    for (const page of layout.pages) {
+      expect(page.width & (page.width - 1)).toBe(0);
+      expect(page.height & (page.height - 1)).toBe(0);
+    }
+  });
+
+  test('pixels are copied into the page at the region rect', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]);
+    const pixels = { width: 2, height: 1, data };
+    const layout = new AtlasPacker({ padding: 1 }).pack([
+      { name: 'big', width: 4, height: 4 },
+      { name: 'pair', width: 2, height: 1, pixels }
+    ]);
+    const region = layout.regions.get('pair');
+    const page = region && layout.pages[region.page];
+    expect(page?.pixels).toBeDefined();
+    if (!region || !page?.pixels) return;
+
+    const offset = (region.rect.y.toNumber() * page.width + region.rect.x.toNumber()) * 4;
+    expect(Array.from(page.pixels.data.slice(offset, offset + 8))).toEqual(Array.from(data));
+  });
+
+  test('rejects duplicate names and images larger than a page', () => {
+    const packer = new AtlasPacker({ maxWidth: 64, maxHeight: 64 });
+
+    expect(() =>
+      packer.pack([
+        { name: 'a', width: 4, height: 4 },
+        { name: 'a', width: 4, height: 4 }
+      ])
+    ).toThrow('Duplicate atlas image name: a');
+    expect(() => packer.pack([{ name: 'wide', width: 65, height: 4 }])).toThrow(
+      'Image "wide" (65x4) does not fit in a 64x64 atlas page'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { Fixed } from '@esengine/nova-ecs-math';
+import {
+  AsepriteFrameTagData,
+  SpriteSheetData,
+  SpriteSheetFrameData,
+  loadAsepriteSheet,
+  loadTexturePackerSheet
+} from '../../src/atlas/SpriteSheetLoader';
+import { SpriteAnimation } from '../../src/interfaces/IGameRenderer';
+
+const TEXTURE = { width: 256, height: 256, isLoaded: true, source: null };
+
+function frameData(x: number, overrides: Partial<SpriteSheetFrameData> = {}): SpriteSheetFrameData {
+  return { frame: { x, y: 0, w: 16, h: 16 }, ...overrides };
+}
+
+// Frames are told apart by their x position in the texture
+function getFrameXs(animation: SpriteAnimation | undefined): number[] {
+  return (animation?.frames ?? []).map(frame => frame.sourceRect.x.toNumber());
+}
+
+// Aseprite array export of four frames at x = 0, 10, 20 and 30
+function createAsepriteData(frameTags?: AsepriteFrameTagData[]): SpriteSheetData {
+  return {
+    frames: [0, 10, 20, 30].map(x => frameData(x, { duration: 100 + x * 10 })),
+    meta: { image: 'sprites/hero.png', ...(frameTags && { frameTags }) }
+  };
+}
+
+describe('loadTexturePackerSheet', () => {
+  test('trimmed and rotated frames keep their offset, source size and orientation', () => {
+    const sheet = loadTexturePackerSheet(
+      {
+        frames: {
+          'trimmed.png': frameData(0, {
+            frame: { x: 0, y: 0, w: 10, h: 12 },
+            trimmed: true,
+            spriteSourceSize: { x: 3, y: 2, w: 10, h: 12 },
+            sourceSize: { w: 16, h: 16 }
+          }),
+          'rotated.png': frameData(20, { frame: { x: 20, y: 0, w: 8, h: 24 }, rotated: true }),
+          'plain.png': frameData(40, { sourceSize: { w: 16, h: 16 } })
+        }
+      },
+      TEXTURE
+    );
+
+    const trimmed = sheet.frames.get('trimmed.png');
+    expect(trimmed?.offset?.x.toNumber()).toBe(3);
+    expect(trimmed?.offset?.y.toNumber()).toBe(2);
+    expect(trimmed?.sourceSize?.x.toNumber()).toBe(16);
+    expect(trimmed?.sourceRect.width.toNumber()).toBe(10);
+
+    // The upright 8x24 frame occupies a 24x8 region of the texture
+    const rotated = sheet.frames.get('rotated.png');
+    expect(rotated?.rotated).toBe(true);
+    expect(rotated?.sourceRect.width.toNumber()).toBe(24);
+    expect(rotated?.sourceRect.height.toNumber()).toBe(8);
+
+    const plain = sheet.frames.get('plain.png');
+    expect(plain?.offset).toBeUndefined();
+    expect(plain?.sourceSize).toBeUndefined();
+    expect(plain?.rotated).toBeUndefined();
+  });
+
+  test('frames are grouped by name in frame number order without an animations section', () => {
+    const sheet = loadTexturePackerSheet(
+      {
+        frames: {
+          'walk_10.png': frameData(30),
+          'walk_02.png': frameData(20),
+          'walk_01.png': frameData(10),
+          'idle.png': frameData(0)
+        }
+      },
+      TEXTURE,
+      { frameDuration: new Fixed(0.25), loop: false }
+    );
+
+    expect(getFrameXs(sheet.animations.get('walk'))).toEqual([10, 20, 30]);
+    expect(getFrameXs(sheet.animations.get('idle'))).toEqual([0]);
+    expect(sheet.animations.get('walk')?.loop).toBe(false);
+    expect(sheet.frames.get('idle.png')?.duration.toNumber()).toBe(0.25);
+  });
+
+  test('the animations section names the frame lists', () => {
+    const frames = { 'a.png': frameData(0), 'b.png': frameData(10) };
+    const sheet = loadTexturePackerSheet(
+      { frames, animations: { swing: ['b.png', 'a.png', 'b.png'] } },
+      TEXTURE
+    );
+
+    expect([...sheet.animations.keys()]).toEqual(['swing']);
+    expect(getFrameXs(sheet.animations.get('swing'))).toEqual([10, 0, 10]);
+    expect(() =>
+      loadTexturePackerSheet({ frames, animations: { swing: ['c.png'] } }, TEXTURE)
+    ).toThrow('Animation "swing" references unknown frame "c.png"');
+  });
+});
+
+describe('loadAsepriteSheet', () => {
+  test('tag directions order the frames of each animation', () => {
+    const sheet = loadAsepriteSheet(
+      createAsepriteData([
+        { name: 'forward', from: 0, to: 3 },
+        { name: 'reverse', from: 0, to: 3, direction: 'reverse' },
+        { name: 'pingpong', from: 0, to: 3, direction: 'pingpong' },
+        { name: 'pingpongReverse', from: 1, to: 3, direction: 'pingpong_reverse' }
+      ]),
+      TEXTURE
+    );
+
+    expect(getFrameXs(sheet.animations.get('forward'))).toEqual([0, 10, 20, 30]);
+    expect(getFrameXs(sheet.animations.get('reverse'))).toEqual([30, 20, 10, 0]);
+    expect(getFrameXs(sheet.animations.get('pingpong'))).toEqual([0, 10, 20, 30, 20, 10]);
+    expect(getFrameXs(sheet.animations.get('pingpongReverse'))).toEqual([30, 20, 10, 20]);
+    expect(sheet.animations.get('forward')?.frames[2]?.duration.toNumber()).toBeCloseTo(0.3, 4);
+  });
+
+  test('a finite repeat unrolls the cycle and stops looping', () => {
+    const sheet = loadAsepriteSheet(
+      createAsepriteData([
+        { name: 'twice', from: 1, to: 2, direction: 'reverse', repeat: '2' },
+        { name: 'forever', from: 1, to: 2, repeat: 0 }
+      ]),
+      TEXTURE
+    );
+
+    const twice = sheet.animations.get('twice');
+    expect(getFrameXs(twice)).toEqual([20, 10, 20, 10]);
+    expect(twice?.loop).toBe(false);
+    expect(sheet.animations.get('forever')?.loop).toBe(true);
+  });
+
+  test('untagged sheets form one animation named after the image', () => {
+    const sheet = loadAsepriteSheet(createAsepriteData(), TEXTURE);
+
+    expect(getFrameXs(sheet.animations.get('hero'))).toEqual([0, 10, 20, 30]);
+  });
+
+  test('invalid tag ranges and missing frames are rejected', () => {
+    expect(() =>
+      loadAsepriteSheet(createAsepriteData([{ name: 'run', from: 2, to: 4 }]), TEXTURE)
+    ).toThrow('Frame tag "run" has an invalid range: 2-4');
+    expect(() => loadAsepriteSheet({} as SpriteSheetData, TEXTURE)).toThrow(
+      'Sprite sheet data has no frames'
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import { TILE_FLIP_DIAGONAL, Tilemap, Tileset } from '../../src/tilemap/Tilemap';
+import { BlendMode, ColorUtils } from '../../src/types/RenderTypes';
+
+function createTileset(tileWidth: number, tileHeight: number): Tileset {
+  return {
+    name: 'tiles',
+    texture: { width: 64, height: 64, isLoaded: true, source: null },
+    firstGid: 1,
+    tileWidth,
+    tileHeight,
+    tileCount: 4,
+    columns: 2,
+    margin: 0,
+    spacing: 0,
+    animations: new Map(),
+    tileProperties: new Map()
+  };
+}
+
+// Renderer whose 100x80 view spans -50..50 by -40..40 in world pixels
+function drawTilemap(tilemap: Tilemap, position?: FixedVector2): number {
+  const renderer = new RecordingRenderer();
+  renderer.setViewport({ x: 0, y: 0, width: 100, height: 80 });
+  renderer.beginFrame();
+  renderer.drawTilemap(tilemap, position);
+  renderer.endFrame();
+  const commands = renderer.getLastFrame()?.getCommands() ?? [];
+  return commands.filter(command => command.type === 'textureRegion').length;
+}
+
+interface Piece {
+  source: number[]; // x, y, width, height
+  dest: number[]; // left, top, right, bottom, local to the destination rect
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+function drawPieces(draw: (renderer: RecordingRenderer) => void): Piece[] {
+  const renderer = new RecordingRenderer();
+  renderer.beginFrame();
+  draw(renderer);
+  renderer.endFrame();
+  const pieces: Piece[] = [];
+  for (const command of renderer.getLastFrame()?.getCommands() ?? []) {
+    if (command.type !== 'textureRegion') continue;
+    const { sourceRect, destRect } = command;
+    pieces.push({
+      source: [sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height].map(value =>
+        value.toNumber()
+      ),
+      dest: [
+        destRect.x,
+        destRect.y,
+        destRect.x.add(destRect.width),
+        destRect.y.add(destRect.height)
+      ].map(value => value.toNumber())
+    });
+  }
+  return pieces;
+}
+
+describe('BaseGameRenderer', () => {
+  test('drawTilemap only draws the tiles of a visible chunk that reach the view', () => {
+    const tilemap = new Tilemap(64, 64, 16, 16);
+    tilemap.addTileset(createTileset(16, 16));
+    const layer = tilemap.createTileLayer('ground');
+    layer.data.fill(1);
+
+    // Columns 0 to 3 and rows 0 to 2 of the first 16x16 chunk are on screen
+    expect(drawTilemap(tilemap)).toBe(4 * 3);
+  });
+
+  test('drawTilemap keeps tiles whose diagonal flip turns them into the view', () => {
+    const tilemap = new Tilemap(8, 8, 16, 16);
+    tilemap.addTileset(createTileset(16, 48));
+    const layer = tilemap.createTileLayer('walls');
+    const position = new FixedVector2(new Fixed(-100), Fixed.ZERO);
+
+    // The upright 16x48 tile spans -68..-52, the turned one -68..-20
+    tilemap.setTile(layer, 2, 2, 1);
+    expect(drawTilemap(tilemap, position)).toBe(0);
+    tilemap.setTile(layer, 2, 2, 1 | TILE_FLIP_DIAGONAL);
+    expect(drawTilemap(tilemap, position)).toBe(1);
+  });
+
+  test('deferred draws are sorted by layer depth and hidden layers are dropped', () => {
+    const renderer = new RecordingRenderer();
+    const top = renderer.createLayer('top', 2);
+    const bottom = renderer.createLayer('bottom', 1);
+    const hidden = renderer.createLayer('hidden', 0);
+    renderer.setLayerVisible('hidden', false);
+    renderer.setDeferredRendering(true);
+
+    const state = { blendMode: BlendMode.Normal, opacity: 1 };
+    const style = { fillColor: ColorUtils.WHITE };
+    const draw = (x: number) =>
+      renderer.drawRect(new FixedRect(new Fixed(x), Fixed.ZERO, Fixed.ONE, Fixed.ONE), style);
+    renderer.beginFrame();
+    renderer.setRenderState({ ...state, layer: top });
+    draw(0);
+    renderer.setRenderState({ ...state, layer: hidden });
+    draw(1);
+    renderer.setRenderState({ ...state, layer: bottom });
+    draw(2);
+    draw(3);
+    renderer.endFrame();
+
+    // States reach the display list only when the sorted draws are flushed
+    const commands = renderer.getLastFrame()?.getCommands() ?? [];
+    const summary = commands.map(command => {
+      if (command.type === 'renderState') return `state ${command.state.layer?.id}`;
+      if (command.type === 'rect') return `rect ${command.bounds.x.toNumber()}`;
+      return command.type;
+    });
+    expect(summary).toEqual(['state bottom', 'rect 2', 'rect 3', 'state top', 'rect 0']);
+  });
+
+  test('nine-slice pieces share their edges at fractional sizes', () => {
+    const texture = { width: 64, height: 64, isLoaded: true, source: null };
+    const inset = new Fixed(10);
+    const insets = { left: inset, top: inset, right: inset, bottom: inset };
+    const pieces = drawPieces(renderer =>
+      renderer.drawNineSlice(texture, rect(0, 0, 30, 30), insets, rect(5, 5, 25.3, 12.7))
+    );
+
+    // Too short for both insets, the corners shrink to share the height and the middle row goes
+    expect(pieces).toHaveLength(6);
+    const top = pieces.slice(0, 3);
+    const bottom = pieces.slice(3);
+    for (const row of [top, bottom]) {
+      expect(row[0]?.dest[0]).toBe(0);
+      expect(row[0]?.dest[2]).toBe(row[1]?.dest[0]);
+      expect(row[1]?.dest[2]).toBe(row[2]?.dest[0]);
+      expect(row[2]?.dest[2]).toBeCloseTo(25.3, 4);
+    }
+    expect(top[0]?.dest[3]).toBe(bottom[0]?.dest[1]);
+    expect(top[0]?.dest[3]).toBeCloseTo(6.35, 4);
+    expect(bottom[0]?.dest[3]).toBeCloseTo(12.7, 4);
+    // Corners keep their whole source inset and the centre column stretches its middle strip
+    expect(top.map(piece => piece.source)).toEqual([
+      [0, 0, 10, 10],
+      [10, 0, 10, 10],
+      [20, 0, 10, 10]
+    ]);
+  });
+
+  test('tiled textures clip partial tiles at both ends after the offset', () => {
+    const texture = { width: 64, height: 64, isLoaded: true, source: null };
+    const scale = new FixedVector2(Fixed.TWO, Fixed.TWO);
+    const draw = (offsetX: number) =>
+      drawPieces(renderer =>
+        renderer.drawTiledTexture(
+          texture,
+          rect(16, 0, 16, 16),
+          rect(0, 0, 80, 40),
+          scale,
+          new FixedVector2(new Fixed(offsetX), Fixed.ZERO)
+        )
+      );
+
+    // 32 pixel tiles shifted right by 8: a quarter tile, two whole ones and a final eighth
+    const shifted = draw(8);
+    expect(shifted).toHaveLength(8);
+    expect(shifted.slice(0, 4)).toEqual([
+      { source: [28, 0, 4, 16], dest: [0, 0, 8, 32] },
+      { source: [16, 0, 16, 16], dest: [8, 0, 40, 32] },
+      { source: [16, 0, 16, 16], dest: [40, 0, 72, 32] },
+      { source: [16, 0, 4, 16], dest: [72, 0, 80, 32] }
+    ]);
+    expect(shifted[4]).toEqual({ source: [28, 0, 4, 4], dest: [0, 32, 8, 40] });
+
+    // Shifted left by 8, the first tile loses its left quarter instead
+    expect(draw(-8)[0]).toEqual({ source: [20, 0, 12, 16], dest: [0, 0, 24, 32] });
+  });
+});
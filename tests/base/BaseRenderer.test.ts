@@ -0,0 +1,88 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import { ColorUtils, ShapeStyle, Transform2D } from '../../src/types/RenderTypes';
+
+const FILL: ShapeStyle = { fillColor: ColorUtils.WHITE };
+const EIGHTH_TURN = new Fixed(Math.PI / 4);
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+// Culling renderer whose 100x80 view spans -50..50 by -40..40 in world pixels
+function createRenderer(): RecordingRenderer {
+  const renderer = new RecordingRenderer();
+  renderer.setViewport({ x: 0, y: 0, width: 100, height: 80 });
+  renderer.setCullingEnabled(true);
+  renderer.beginFrame();
+  return renderer;
+}
+
+describe('BaseRenderer culling', () => {
+  test('local bounds are culled after the rotated transform moves them', () => {
+    const renderer = createRenderer();
+    // Both rectangles touch the view unrotated; turned by 45 degrees around the origin the first
+    // lands at (12.7, 55.2), below the view, and the second at (-31.8, 31.8), inside it
+    renderer.drawRect(rect(48, 30, 4, 4), FILL);
+    renderer.drawRect(rect(0, 36, 4, 4), FILL);
+    expect(renderer.getStatistics().culledDrawCalls).toBe(0);
+
+    renderer.pushTransform(new Transform2D(FixedVector2.ZERO, EIGHTH_TURN));
+    renderer.drawRect(rect(48, 30, 4, 4), FILL);
+    renderer.drawRect(rect(0, 36, 4, 4), FILL);
+    renderer.popTransform();
+
+    const statistics = renderer.getStatistics();
+    expect(statistics.culledDrawCalls).toBe(1);
+    expect(statistics.drawCalls).toBe(3);
+  });
+
+  test('a rotated texture is culled by its turned quad', () => {
+    const renderer = createRenderer();
+    const texture = { width: 40, height: 4, isLoaded: true, source: null };
+    const position = new FixedVector2(new Fixed(-20), new Fixed(-45));
+
+    // The 40x4 strip starts above the view, but turned upright it reaches into it
+    renderer.drawTexture(texture, position);
+    renderer.drawTexture(texture, position, { rotation: new Fixed(Math.PI / 2) });
+
+    const statistics = renderer.getStatistics();
+    expect(statistics.culledDrawCalls).toBe(1);
+    expect(statistics.drawCalls).toBe(1);
+  });
+
+  test('a rotated camera widens the view to the bounds of its turned corners', () => {
+    const renderer = createRenderer();
+    renderer.drawRect(rect(55, 0, 4, 4), FILL);
+    expect(renderer.getStatistics().culledDrawCalls).toBe(1);
+
+    // Half extents of the turned 100x80 view are 50cos45 + 40sin45, about 63.6, on both axes
+    renderer.setCamera({ ...renderer.getCamera(), rotation: EIGHTH_TURN });
+    renderer.drawRect(rect(55, 0, 4, 4), FILL);
+    renderer.drawRect(rect(0, 60, 4, 4), FILL);
+    renderer.drawRect(rect(0, 66, 4, 4), FILL);
+
+    expect(renderer.getStatistics().culledDrawCalls).toBe(2);
+  });
+
+  test('half the screen stroke thickness pads the view', () => {
+    const renderer = createRenderer();
+    const stroked: ShapeStyle = { strokeColor: ColorUtils.WHITE, strokeThickness: new Fixed(4) };
+
+    renderer.drawRect(rect(51, 0, 2, 2), FILL);
+    renderer.drawRect(rect(51, 0, 2, 2), stroked);
+
+    expect(renderer.getStatistics().culledDrawCalls).toBe(1);
+  });
+
+  test('nothing is culled or counted while culling is disabled', () => {
+    const renderer = createRenderer();
+    renderer.setCullingEnabled(false);
+    renderer.pushTransform(new Transform2D(FixedVector2.ZERO, EIGHTH_TURN));
+    renderer.drawRect(rect(500, 500, 4, 4), FILL);
+
+    const statistics = renderer.getStatistics();
+    expect(statistics.culledDrawCalls).toBe(0);
+    expect(statistics.drawCalls).toBe(1);
+  });
+});
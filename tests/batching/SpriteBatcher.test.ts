@@ -0,0 +1,161 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import {
+  SPRITE_VERTEX_STRIDE,
+  SpriteBatch,
+  SpriteBatcher
+} from '../../src/batching/SpriteBatcher';
+import {
+  BlendMode,
+  ITexture,
+  Matrix2x3,
+  RenderState,
+  Transform2D
+} from '../../src/types/RenderTypes';
+
+function createTexture(width = 4, height = 4): ITexture {
+  return { width, height, isLoaded: true, source: null };
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+function createState(overrides: Partial<RenderState> = {}): RenderState {
+  return { blendMode: BlendMode.Normal, opacity: 1, ...overrides };
+}
+
+function addQuad(batcher: SpriteBatcher, texture: ITexture, state: RenderState): void {
+  batcher.add(
+    texture,
+    rect(0, 0, texture.width, texture.height),
+    rect(0, 0, texture.width, texture.height),
+    undefined,
+    state,
+    Matrix2x3.identity(),
+    Transform2D.identity()
+  );
+}
+
+describe('SpriteBatcher', () => {
+  test('getBreakReason names what keeps a quad out of the pending batch', () => {
+    const batcher = new SpriteBatcher(() => undefined);
+    const texture = createTexture();
+    const state = createState({ clipRect: rect(0, 0, 10, 10) });
+
+    expect(batcher.getBreakReason(texture, state)).toBeNull();
+    addQuad(batcher, texture, state);
+
+    expect(batcher.getBreakReason(texture, createState({ clipRect: rect(0, 0, 10, 10) })))
+      .toBeNull();
+    expect(batcher.getBreakReason(texture, { ...state, opacity: 0.5 })).toBeNull();
+    expect(batcher.getBreakReason(createTexture(), state)).toBe('texture');
+    expect(batcher.getBreakReason(texture, { ...state, blendMode: BlendMode.Add })).toBe(
+      'blendMode'
+    );
+    expect(batcher.getBreakReason(texture, { ...state, clipRect: rect(0, 0, 10, 5) })).toBe(
+      'clip'
+    );
+    expect(batcher.getBreakReason(texture, createState())).toBe('clip');
+    const layer = { id: 'ui', depth: 1, visible: true };
+    expect(batcher.getBreakReason(texture, { ...state, layer })).toBe('layer');
+  });
+
+  test('a full batch breaks for capacity before anything else', () => {
+    const batches: SpriteBatch[] = [];
+    const batcher = new SpriteBatcher(batch => batches.push(batch), 2);
+    const texture = createTexture();
+    addQuad(batcher, texture, createState());
+    expect(batcher.getBreakReason(texture, createState())).toBeNull();
+    addQuad(batcher, texture, createState());
+
+    expect(batcher.getBreakReason(texture, createState())).toBe('capacity');
+    expect(batcher.getBreakReason(createTexture(), createState())).toBe('capacity');
+
+    batcher.flush();
+    expect(batches).toHaveLength(1);
+    expect(batches[0]?.quadCount).toBe(2);
+    expect(Array.from(batches[0]?.indices ?? [])).toEqual([0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7]);
+    expect(batcher.isEmpty()).toBe(true);
+    expect(batcher.getBreakReason(texture, createState())).toBeNull();
+  });
+
+  test('quads carry anchored, flipped and tinted vertices', () => {
+    const batches: SpriteBatch[] = [];
+    const batcher = new SpriteBatcher(batch => batches.push(batch));
+    const texture = createTexture(8, 8);
+    const anchor = new FixedVector2(new Fixed(0.5), new Fixed(0.5));
+    const tint = { r: 1, g: 0.5, b: 0, a: 1 };
+    batcher.add(
+      texture,
+      rect(4, 0, 4, 8),
+      rect(10, 20, 4, 8),
+      { anchor, flipX: true, tint, opacity: 0.5 },
+      createState(),
+      Matrix2x3.identity(),
+      Transform2D.identity()
+    );
+    batcher.flush();
+
+    const vertices = Array.from(batches[0]?.vertices ?? []);
+    expect(vertices).toHaveLength(4 * SPRITE_VERTEX_STRIDE);
+    // Top-left corner: centred on (10, 20), with the right edge of the region as U
+    expect(vertices.slice(0, SPRITE_VERTEX_STRIDE)).toEqual([8, 16, 1, 0, 1, 0.5, 0, 0.5]);
+    // Bottom-right corner
+    expect(vertices.slice(2 * SPRITE_VERTEX_STRIDE, 2 * SPRITE_VERTEX_STRIDE + 4)).toEqual([
+      12, 24, 0.5, 1
+    ]);
+  });
+
+  test('batch sizes outside the 16-bit index range are rejected', () => {
+    expect(() => new SpriteBatcher(() => undefined, 0)).toThrow('Batch size must be between');
+    expect(() => new SpriteBatcher(() => undefined, 16385)).toThrow('Batch size must be between');
+  });
+});
+
+describe('BaseGameRenderer sprite batching', () => {
+  test('counts each batch break, draw call and texture bind', () => {
+    const renderer = new RecordingRenderer();
+    const first = createTexture();
+    const second = createTexture();
+    const origin = FixedVector2.ZERO;
+    const layer = renderer.createLayer('ui', 1);
+    const additive = createState({ blendMode: BlendMode.Add });
+    const clipped = { ...additive, clipRect: rect(-50, -50, 100, 100) };
+
+    renderer.beginFrame();
+    renderer.beginBatch();
+    renderer.drawTexture(first, origin);
+    renderer.drawTexture(first, origin);
+    renderer.drawTexture(second, origin);
+    renderer.setRenderState(additive);
+    renderer.drawTexture(second, origin);
+    renderer.setRenderState(clipped);
+    renderer.drawTexture(second, origin);
+    renderer.setRenderState({ ...clipped, layer });
+    renderer.drawTexture(second, origin);
+    // Opacity is folded into the vertex colors, so it keeps the batch going
+    renderer.setRenderState({ ...clipped, layer, opacity: 0.5 });
+    renderer.drawTexture(second, origin);
+    renderer.drawRect(rect(0, 0, 1, 1), { fillColor: { r: 1, g: 1, b: 1, a: 1 } });
+    renderer.drawTexture(first, origin);
+    renderer.flushBatch();
+    renderer.endBatch();
+
+    const statistics = renderer.getStatistics();
+    expect(statistics.batchBreaks).toEqual({
+      texture: 1,
+      blendMode: 1,
+      clip: 1,
+      layer: 1,
+      capacity: 0,
+      primitive: 1,
+      flush: 1
+    });
+    // Six sprite batches and the rectangle
+    expect(statistics.drawCalls).toBe(7);
+    // The second texture stays bound across its four batches
+    expect(statistics.textureBinds).toBe(3);
+    renderer.endFrame();
+  });
+});
@@ -0,0 +1,164 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { Canvas2DRenderer } from '../../src/canvas/Canvas2DRenderer';
+import { ICanvasContext2D, ICanvasGradient } from '../../src/canvas/ICanvasContext2D';
+import { BlendMode, ColorUtils, ITexture } from '../../src/types/RenderTypes';
+
+/**
+ * Context recording each method call with the state that affects drawing
+ */
+class StubContext implements ICanvasContext2D {
+  readonly canvas = { width: 64, height: 64 };
+  calls: Array<{ name: string; args: unknown[] }> = [];
+
+  globalAlpha = 1;
+  globalCompositeOperation = 'source-over';
+  fillStyle: unknown = '#000';
+  strokeStyle: unknown = '#000';
+  lineWidth = 1;
+  lineJoin = 'miter';
+  lineCap = 'butt';
+  miterLimit = 10;
+  lineDashOffset = 0;
+  font = '10px sans-serif';
+  textAlign = 'start';
+  textBaseline = 'alphabetic';
+
+  save(): void { this.record('save'); }
+  restore(): void { this.record('restore'); }
+  setTransform(...args: number[]): void { this.record('setTransform', args); }
+  translate(...args: number[]): void { this.record('translate', args); }
+  rotate(...args: number[]): void { this.record('rotate', args); }
+  scale(...args: number[]): void { this.record('scale', args); }
+  beginPath(): void { this.record('beginPath'); }
+  closePath(): void { this.record('closePath'); }
+  moveTo(...args: number[]): void { this.record('moveTo', args); }
+  lineTo(...args: number[]): void { this.record('lineTo', args); }
+  quadraticCurveTo(...args: number[]): void { this.record('quadraticCurveTo', args); }
+  bezierCurveTo(...args: number[]): void { this.record('bezierCurveTo', args); }
+  rect(...args: number[]): void { this.record('rect', args); }
+  arc(...args: unknown[]): void { this.record('arc', args); }
+  ellipse(...args: number[]): void { this.record('ellipse', args); }
+  fill(...args: unknown[]): void {
+    this.record('fill', [...args, this.globalCompositeOperation, this.globalAlpha]);
+  }
+  stroke(): void { this.record('stroke'); }
+  clip(): void { this.record('clip'); }
+  setLineDash(segments: number[]): void { this.record('setLineDash', [segments]); }
+  createLinearGradient(): ICanvasGradient { return { addColorStop: () => undefined }; }
+  createRadialGradient(): ICanvasGradient { return { addColorStop: () => undefined }; }
+  clearRect(...args: number[]): void { this.record('clearRect', args); }
+  fillRect(...args: number[]): void { this.record('fillRect', args); }
+  fillText(text: string, x: number, y: number): void {
+    this.record('fillText', [text, x, y, this.textAlign, this.textBaseline]);
+  }
+  measureText(text: string): { width: number } { return { width: text.length * 6 }; }
+  drawImage(...args: unknown[]): void { this.record('drawImage', args); }
+
+  names(): string[] {
+    return this.calls.map(call => call.name);
+  }
+
+  find(name: string): unknown[] | undefined {
+    return this.calls.find(call => call.name === name)?.args;
+  }
+
+  private record(name: string, args: unknown[] = []): void {
+    this.calls.push({ name, args });
+  }
+}
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+// Renderer in a frame, with the calls made by beginFrame dropped
+function createRenderer(): { renderer: Canvas2DRenderer; context: StubContext } {
+  const context = new StubContext();
+  const renderer = new Canvas2DRenderer(context);
+  renderer.beginFrame();
+  context.calls = [];
+  return { renderer, context };
+}
+
+describe('Canvas2DRenderer', () => {
+  const image = {};
+  const texture: ITexture = { width: 8, height: 4, isLoaded: true, source: image };
+
+  test('texture anchors are fractions of the drawn size', () => {
+    const { renderer, context } = createRenderer();
+    renderer.drawTexture(texture, vector(10, 20), { anchor: vector(0.25, 0.5) });
+
+    expect(context.find('translate')).toEqual([10, 20]);
+    expect(context.find('scale')).toEqual([1, 1]);
+    expect(context.find('drawImage')).toEqual([image, 0, 0, 8, 4, -2, -2, 8, 4]);
+  });
+
+  test('flipped textures mirror the anchor offset to keep the anchor in place', () => {
+    const { renderer, context } = createRenderer();
+    renderer.drawTexture(texture, vector(10, 20), { anchor: vector(0.25, 0.5), flipX: true });
+
+    expect(context.find('scale')).toEqual([-1, 1]);
+    expect(context.find('drawImage')).toEqual([image, 0, 0, 8, 4, -6, -2, 8, 4]);
+  });
+
+  test('text is drawn with its textBaseline, alphabetic by default', () => {
+    const { renderer, context } = createRenderer();
+    const style = { color: ColorUtils.WHITE, fontSize: new Fixed(12) };
+    renderer.drawText('top', vector(1, 2), { ...style, textBaseline: 'top' });
+    renderer.drawText('plain', vector(1, 2), style);
+
+    const texts = context.calls.filter(call => call.name === 'fillText').map(call => call.args);
+    expect(texts).toEqual([
+      ['top', 1, 2, 'left', 'top'],
+      ['plain', 1, 2, 'left', 'alphabetic']
+    ]);
+  });
+
+  test('blend modes map to globalCompositeOperation', () => {
+    const expected: Record<BlendMode, string> = {
+      [BlendMode.Normal]: 'source-over',
+      [BlendMode.Add]: 'lighter',
+      [BlendMode.Multiply]: 'multiply',
+      [BlendMode.Screen]: 'screen',
+      [BlendMode.Overlay]: 'overlay',
+      [BlendMode.Darken]: 'darken',
+      [BlendMode.Lighten]: 'lighten'
+    };
+
+    for (const mode of Object.values(BlendMode)) {
+      const { renderer, context } = createRenderer();
+      renderer.setRenderState({ blendMode: mode, opacity: 0.5 });
+      renderer.drawRect(rect(0, 0, 4, 4), { fillColor: ColorUtils.WHITE });
+
+      expect(context.find('fill'), mode).toEqual([expected[mode], 0.5]);
+    }
+  });
+
+  test('clip rects are set in screen pixels and restored when the state changes', () => {
+    const { renderer, context } = createRenderer();
+    const state = { blendMode: BlendMode.Normal, opacity: 1 };
+    renderer.setRenderState({ ...state, clipRect: rect(2, 3, 4, 5) });
+
+    expect(context.names()).toEqual([
+      'save',
+      'setTransform',
+      'beginPath',
+      'rect',
+      'clip',
+      'setTransform'
+    ]);
+    expect(context.calls[1].args).toEqual([1, 0, 0, 1, 0, 0]);
+    expect(context.find('rect')).toEqual([2, 3, 4, 5]);
+
+    // Replacing the clip restores the previous one first, and clearing it restores it once
+    context.calls = [];
+    renderer.setRenderState({ ...state, clipRect: rect(0, 0, 1, 1) });
+    renderer.setRenderState(state);
+    const saves = context.names().filter(name => name === 'save' || name === 'restore');
+    expect(saves).toEqual(['restore', 'save', 'restore']);
+  });
+});
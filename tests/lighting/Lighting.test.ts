@@ -0,0 +1,120 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { LightConfig } from '../../src/interfaces/IGameRenderer';
+import {
+  createLightMap,
+  createLightMapSampler,
+  cullLights,
+  getLightAttenuation,
+  sampleLightMap,
+  sampleLighting
+} from '../../src/lighting/Lighting';
+import { getOccluderSegments, hasLineOfSight } from '../../src/lighting/Shadows';
+import { Color } from '../../src/types/RenderTypes';
+
+const AMBIENT: Color = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+const VIEW = new FixedRect(new Fixed(-20), new Fixed(-20), new Fixed(40), new Fixed(40));
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function createLight(overrides: Partial<LightConfig> = {}): LightConfig {
+  return {
+    position: vector(0, 0),
+    color: { r: 1, g: 0.5, b: 0, a: 1 },
+    intensity: Fixed.ONE,
+    radius: new Fixed(10),
+    falloff: 'linear',
+    castShadows: false,
+    ...overrides
+  };
+}
+
+describe('Lighting', () => {
+  test('attenuation follows the falloff and ends at the radius', () => {
+    const at = (falloff: LightConfig['falloff'], distance: number) =>
+      getLightAttenuation(createLight({ falloff }), new Fixed(distance)).toNumber();
+
+    expect(at('constant', 9)).toBe(1);
+    expect(at('linear', 5)).toBeCloseTo(0.5, 4);
+    expect(at('quadratic', 5)).toBeCloseTo(0.25, 4);
+    expect(at('linear', 10)).toBe(0);
+    expect(at('constant', 12)).toBe(0);
+  });
+
+  test('sampling adds each light to the ambient color and clamps to 1', () => {
+    const lights = [createLight(), createLight({ position: vector(4, 0) })];
+
+    const color = sampleLighting(lights, AMBIENT, vector(2, 0));
+    // 0.2 + 0.8 + 0.8 in red, 0.2 + 0.4 + 0.4 in green, ambient only in blue
+    expect(color.r).toBe(1);
+    expect(color.g).toBeCloseTo(1, 4);
+    expect(color.b).toBeCloseTo(0.2, 4);
+    expect(sampleLighting(lights, AMBIENT, vector(30, 0)).r).toBeCloseTo(AMBIENT.r, 4);
+  });
+
+  test('shadowed points get no light, matching line of sight', () => {
+    const occluders = getOccluderSegments({
+      type: 'segment',
+      start: vector(2, -1),
+      end: vector(2, 1)
+    });
+    const light = createLight({ castShadows: true });
+
+    for (const point of [vector(5, 0), vector(3, 0.5), vector(-5, 0), vector(3, 5)]) {
+      const lit = sampleLighting([light], AMBIENT, point, occluders).r > AMBIENT.r;
+      expect(lit).toBe(hasLineOfSight(light.position, point, occluders));
+    }
+  });
+
+  test('culling drops lights outside the view or without strength', () => {
+    const lights = new Map<string, LightConfig>([
+      ['visible', createLight()],
+      ['outside', createLight({ position: vector(100, 0) })],
+      ['dark', createLight({ intensity: Fixed.ZERO })],
+      ['empty', createLight({ radius: Fixed.ZERO })],
+      ['edge', createLight({ position: vector(25, 0) })]
+    ]);
+
+    expect(cullLights(lights, VIEW).map(entry => entry.id)).toEqual(['visible', 'edge']);
+  });
+
+  test('only shadow-casting lights carry a visibility polygon', () => {
+    const lights = new Map<string, LightConfig>([
+      ['plain', createLight()],
+      ['shadowed', createLight({ castShadows: true })]
+    ]);
+    const occluders = getOccluderSegments({
+      type: 'box',
+      center: vector(4, 0),
+      size: vector(2, 2),
+      rotation: Fixed.ZERO
+    });
+    const [plain, shadowed] = cullLights(lights, VIEW, occluders);
+
+    expect(plain.visibility).toBeUndefined();
+    expect(shadowed.visibility?.length).toBeGreaterThan(3);
+  });
+
+  test('the light map sampler agrees with fixed-point sampling', () => {
+    const lights = new Map<string, LightConfig>([
+      ['a', createLight({ castShadows: true })],
+      ['b', createLight({ position: vector(-6, 3), falloff: 'quadratic' })]
+    ]);
+    const occluders = getOccluderSegments({
+      type: 'segment',
+      start: vector(2, -1),
+      end: vector(2, 1)
+    });
+    const lightMap = createLightMap(lights, AMBIENT, VIEW, occluders);
+    const sample = createLightMapSampler(lightMap);
+
+    for (const [x, y] of [[1, 0], [5, 0.25], [-4, 2], [3, 6], [15, 15]]) {
+      const expected = sampleLightMap(lightMap, vector(x, y));
+      const actual = sample(x, y);
+      expect(actual.r).toBeCloseTo(expected.r, 3);
+      expect(actual.g).toBeCloseTo(expected.g, 3);
+      expect(actual.b).toBeCloseTo(expected.b, 3);
+    }
+  });
+});
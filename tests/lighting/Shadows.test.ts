@@ -0,0 +1,102 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { LightConfig } from '../../src/interfaces/IGameRenderer';
+import {
+  OccluderSegment,
+  getLightVisibility,
+  getOccluderSegments,
+  hasLineOfSight,
+  isPointInPolygon
+} from '../../src/lighting/Shadows';
+import { ColorUtils } from '../../src/types/RenderTypes';
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function createLight(overrides: Partial<LightConfig> = {}): LightConfig {
+  return {
+    position: vector(0, 0),
+    color: ColorUtils.WHITE,
+    intensity: Fixed.ONE,
+    radius: new Fixed(10),
+    falloff: 'linear',
+    castShadows: true,
+    ...overrides
+  };
+}
+
+// Wall across the +x axis at x = 2, from y = -1 to 1
+const WALL: OccluderSegment[] = getOccluderSegments({
+  type: 'segment',
+  start: vector(2, -1),
+  end: vector(2, 1)
+});
+
+describe('Shadows', () => {
+  test('box occluders are rotated about their center', () => {
+    const segments = getOccluderSegments({
+      type: 'box',
+      center: vector(10, 10),
+      size: vector(4, 2),
+      rotation: new Fixed(Math.PI / 2)
+    });
+    const corners = segments.map(segment => [segment.start.x, segment.start.y]);
+
+    const expected = [
+      [11, 8],
+      [11, 12],
+      [9, 12],
+      [9, 8]
+    ];
+    corners.forEach(([x, y], i) => {
+      expect(x.toNumber()).toBeCloseTo(expected[i][0], 3);
+      expect(y.toNumber()).toBeCloseTo(expected[i][1], 3);
+    });
+  });
+
+  test('box rotation matches the angle at any number of turns', () => {
+    for (const angle of [-7, -2, 0, 0.5, 2, 3, 7, 100]) {
+      // A flat box of width 2 has its second corner on the unit circle
+      const [, second] = getOccluderSegments({
+        type: 'box',
+        center: vector(0, 0),
+        size: vector(2, 0),
+        rotation: new Fixed(angle)
+      });
+
+      expect(second.start.x.toNumber(), `cos ${angle}`).toBeCloseTo(Math.cos(angle), 3);
+      expect(second.start.y.toNumber(), `sin ${angle}`).toBeCloseTo(Math.sin(angle), 3);
+    }
+  });
+
+  test('visibility polygons leave the area behind occluders dark', () => {
+    const visibility = getLightVisibility(createLight(), WALL) as FixedVector2[];
+
+    expect(visibility).toBeDefined();
+    expect(isPointInPolygon(visibility, vector(5, 0))).toBe(false);
+    expect(isPointInPolygon(visibility, vector(9, 1))).toBe(false);
+    expect(isPointInPolygon(visibility, vector(1, 0))).toBe(true);
+    expect(isPointInPolygon(visibility, vector(-5, 0))).toBe(true);
+    expect(isPointInPolygon(visibility, vector(3, 5))).toBe(true);
+    // Nothing reaches past the radius
+    expect(isPointInPolygon(visibility, vector(0, 11))).toBe(false);
+  });
+
+  test('visibility is undefined without shadows or nearby occluders', () => {
+    expect(getLightVisibility(createLight({ castShadows: false }), WALL)).toBeUndefined();
+    expect(getLightVisibility(createLight({ position: vector(50, 50) }), WALL)).toBeUndefined();
+  });
+
+  test('line of sight is blocked only by occluders crossing the line', () => {
+    expect(hasLineOfSight(vector(0, 0), vector(5, 0), WALL)).toBe(false);
+    expect(hasLineOfSight(vector(5, 0), vector(0, 0), WALL)).toBe(false);
+    expect(hasLineOfSight(vector(0, 0), vector(5, 5), WALL)).toBe(true);
+    expect(hasLineOfSight(vector(0, 0), vector(1, 0), WALL)).toBe(true);
+    expect(hasLineOfSight(vector(0, 0), vector(5, 0), [])).toBe(true);
+  });
+
+  test('touching an occluder at an end point does not block the line', () => {
+    expect(hasLineOfSight(vector(0, 0), vector(2, 0), WALL)).toBe(true);
+    expect(hasLineOfSight(vector(2, 0.5), vector(6, 0), WALL)).toBe(true);
+  });
+});
@@ -0,0 +1,157 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ParticleConfig } from '../../src/interfaces/IGameRenderer';
+import {
+  PARTICLE_EFFECT_VERSION,
+  ParticleEffectData,
+  loadParticleEffect,
+  saveParticleEffect
+} from '../../src/particles/ParticleEffectLoader';
+import { ColorUtils, ITexture } from '../../src/types/RenderTypes';
+
+const TEXTURES: Record<string, ITexture> = {
+  spark: { width: 8, height: 8, isLoaded: true, source: null },
+  ember: { width: 4, height: 4, isLoaded: true, source: null }
+};
+
+function getTexture(name: string): ITexture {
+  return TEXTURES[name];
+}
+
+function getTextureName(texture: ITexture): string {
+  return Object.keys(TEXTURES).find(name => TEXTURES[name] === texture) as string;
+}
+
+function createConfig(): ParticleConfig {
+  return {
+    texture: TEXTURES.spark,
+    maxParticles: 200,
+    emissionRate: new Fixed(90),
+    lifetime: new Fixed(1.5),
+    startColor: ColorUtils.WHITE,
+    endColor: ColorUtils.TRANSPARENT,
+    startSize: new Fixed(4),
+    endSize: new Fixed(1),
+    startVelocity: new FixedVector2(new Fixed(0), new Fixed(-40)),
+    velocityVariation: new FixedVector2(new Fixed(20), new Fixed(10)),
+    gravity: new FixedVector2(new Fixed(0), new Fixed(30)),
+    fadeIn: new Fixed(0.1),
+    fadeOut: new Fixed(0.3),
+    shape: { type: 'ring', innerRadius: new Fixed(2), outerRadius: new Fixed(5) },
+    bursts: [
+      { time: Fixed.ZERO, count: 30 },
+      { time: new Fixed(0.5), count: 5, cycles: Infinity, interval: new Fixed(0.25) }
+    ],
+    colorOverLifetime: [
+      { offset: 0, color: ColorUtils.WHITE },
+      { offset: 1, color: ColorUtils.RED }
+    ],
+    sizeOverLifetime: [
+      { time: Fixed.ZERO, value: Fixed.ONE },
+      { time: Fixed.ONE, value: new Fixed(0.25) }
+    ],
+    rotationVariation: new Fixed(1),
+    angularVelocityVariation: new Fixed(2),
+    drag: new Fixed(0.5),
+    subEmitters: [
+      {
+        config: {
+          texture: TEXTURES.ember,
+          maxParticles: 400,
+          emissionRate: Fixed.ZERO,
+          lifetime: new Fixed(0.5),
+          startColor: ColorUtils.RED,
+          endColor: ColorUtils.RED,
+          startSize: new Fixed(2),
+          endSize: new Fixed(2),
+          startVelocity: FixedVector2.ZERO,
+          velocityVariation: new FixedVector2(new Fixed(15), new Fixed(15)),
+          gravity: FixedVector2.ZERO,
+          fadeIn: Fixed.ZERO,
+          fadeOut: Fixed.ZERO
+        },
+        count: 2,
+        inheritVelocity: new Fixed(0.5)
+      }
+    ]
+  };
+}
+
+function createDocument(): ParticleEffectData {
+  return saveParticleEffect(createConfig(), getTextureName, 'sparks');
+}
+
+describe('ParticleEffectLoader', () => {
+  test('saved effects load back to the same document', () => {
+    const document = createDocument();
+    const loaded = loadParticleEffect(JSON.stringify(document), getTexture);
+
+    expect(document.version).toBe(PARTICLE_EFFECT_VERSION);
+    expect(document.name).toBe('sparks');
+    expect(saveParticleEffect(loaded, getTextureName, 'sparks')).toEqual(document);
+  });
+
+  test('loading resolves textures and restores endless bursts', () => {
+    const config = loadParticleEffect(createDocument(), getTexture);
+
+    expect(config.texture).toBe(TEXTURES.spark);
+    expect(config.subEmitters?.[0].config.texture).toBe(TEXTURES.ember);
+    expect(config.bursts?.[1].cycles).toBe(Infinity);
+    expect(config.drag?.toNumber()).toBeCloseTo(0.5);
+  });
+
+  test('endless bursts are written as "infinite"', () => {
+    const document = createDocument();
+
+    expect(document.emitter.bursts?.[1].cycles).toBe('infinite');
+    expect(JSON.parse(JSON.stringify(document)).emitter.bursts[1].cycles).toBe('infinite');
+  });
+
+  test('invalid fields are reported by their path', () => {
+    const load = (change: (document: any) => void): (() => ParticleConfig) => {
+      const document: any = createDocument();
+      change(document);
+      return () => loadParticleEffect(document, getTexture);
+    };
+
+    expect(load(document => (document.emitter.bursts[0].count = -2))).toThrow(
+      'Invalid particle effect: emitter.bursts[0].count must be a non-negative integer, got -2'
+    );
+    expect(load(document => delete document.emitter.lifetime)).toThrow(
+      'Invalid particle effect: emitter.lifetime must be a finite number, got nothing'
+    );
+    expect(load(document => (document.emitter.shape = { type: 'star' }))).toThrow(
+      'Invalid particle effect: emitter.shape.type must be one of point, circle, ring, rect, ' +
+        'line, polygonEdge, got "star"'
+    );
+    expect(load(document => (document.emitter.subEmitters[0].emitter.texture = ''))).toThrow(
+      'Invalid particle effect: emitter.subEmitters[0].emitter.texture must be a texture name, ' +
+        'got ""'
+    );
+    expect(load(document => (document.emitter.sizeOverLifetime = {}))).toThrow(
+      'Invalid particle effect: emitter.sizeOverLifetime must be an array, got an object'
+    );
+    expect(load(document => (document.name = 3))).toThrow(
+      'Invalid particle effect: name must be a string, got 3'
+    );
+  });
+
+  test('unsupported versions and malformed JSON are rejected', () => {
+    const withVersion = (version: number): ParticleEffectData => ({
+      ...createDocument(),
+      version
+    });
+
+    expect(() => loadParticleEffect(withVersion(7), getTexture)).toThrow(
+      `Particle effect version 7 is newer than the supported version ${PARTICLE_EFFECT_VERSION}`
+    );
+    expect(() => loadParticleEffect(withVersion(0), getTexture)).toThrow(
+      'Particle effect version 0 is no longer supported'
+    );
+    expect(() => loadParticleEffect('{"version": 1,', getTexture)).toThrow(
+      /^Particle effect is not valid JSON: /
+    );
+    expect(() => loadParticleEffect('[]', getTexture)).toThrow(
+      'Invalid particle effect: effect must be an object, got an array'
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { ParticleConfig } from '../../src/interfaces/IGameRenderer';
+import { ParticleSystem } from '../../src/particles/ParticleSystem';
+import { ColorUtils } from '../../src/types/RenderTypes';
+
+const STEP = new Fixed(1 / 60);
+
+function createConfig(overrides: Partial<ParticleConfig> = {}): ParticleConfig {
+  return {
+    texture: { width: 8, height: 8, isLoaded: true, source: null },
+    maxParticles: 200,
+    emissionRate: new Fixed(90),
+    lifetime: new Fixed(1.5),
+    startColor: ColorUtils.WHITE,
+    endColor: ColorUtils.TRANSPARENT,
+    startSize: new Fixed(4),
+    endSize: new Fixed(1),
+    startVelocity: new FixedVector2(new Fixed(0), new Fixed(-40)),
+    velocityVariation: new FixedVector2(new Fixed(20), new Fixed(10)),
+    gravity: new FixedVector2(new Fixed(0), new Fixed(30)),
+    fadeIn: new Fixed(0.1),
+    fadeOut: new Fixed(0.3),
+    shape: { type: 'circle', radius: new Fixed(5) },
+    rotationVariation: new Fixed(1),
+    angularVelocityVariation: new Fixed(2),
+    drag: new Fixed(0.5),
+    subEmitters: [
+      {
+        config: {
+          texture: { width: 4, height: 4, isLoaded: true, source: null },
+          maxParticles: 400,
+          emissionRate: Fixed.ZERO,
+          lifetime: new Fixed(0.5),
+          startColor: ColorUtils.RED,
+          endColor: ColorUtils.RED,
+          startSize: new Fixed(2),
+          endSize: new Fixed(2),
+          startVelocity: FixedVector2.ZERO,
+          velocityVariation: new FixedVector2(new Fixed(15), new Fixed(15)),
+          gravity: FixedVector2.ZERO,
+          fadeIn: Fixed.ZERO,
+          fadeOut: Fixed.ZERO
+        },
+        count: 2
+      }
+    ],
+    ...overrides
+  };
+}
+
+function run(system: ParticleSystem, steps: number): number[] {
+  const hashes: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    system.update(STEP);
+    hashes.push(system.getStateHash());
+  }
+  return hashes;
+}
+
+describe('ParticleSystem', () => {
+  test('the same seed and updates give the same state hash every step', () => {
+    const a = new ParticleSystem(createConfig(), { seed: 42 });
+    const b = new ParticleSystem(createConfig(), { seed: 42 });
+
+    expect(run(a, 180)).toEqual(run(b, 180));
+    expect(a.getParticleCount()).toBeGreaterThan(0);
+    expect(a.getSubEmitters()[0].getParticleCount()).toBeGreaterThan(0);
+  });
+
+  test('the same seed gives bit-identical particles', () => {
+    const a = new ParticleSystem(createConfig(), { seed: 7 });
+    const b = new ParticleSystem(createConfig(), { seed: 7 });
+    run(a, 90);
+    run(b, 90);
+
+    const raw = (system: ParticleSystem) =>
+      system
+        .getParticles()
+        .map(p => [p.position.x, p.position.y, p.velocity.x, p.velocity.y, p.rotation, p.age])
+        .map(values => values.map(value => value.toNumber()));
+    expect(raw(a)).toEqual(raw(b));
+  });
+
+  test('different seeds diverge', () => {
+    const a = new ParticleSystem(createConfig(), { seed: 1 });
+    const b = new ParticleSystem(createConfig(), { seed: 2 });
+
+    expect(run(a, 30)).not.toEqual(run(b, 30));
+  });
+
+  test('the state hash tracks particle state', () => {
+    const system = new ParticleSystem(createConfig(), { seed: 3 });
+    run(system, 20);
+    const hash = system.getStateHash();
+
+    system.getParticles()[0].position = new FixedVector2(new Fixed(999), new Fixed(999));
+    expect(system.getStateHash()).not.toBe(hash);
+  });
+
+  test('clear keeps the random sequence position', () => {
+    const system = new ParticleSystem(createConfig(), { seed: 5 });
+    const fresh = new ParticleSystem(createConfig(), { seed: 5 });
+    run(system, 10);
+    system.clear();
+
+    expect(system.getParticleCount()).toBe(0);
+    expect(run(system, 10)).not.toEqual(run(fresh, 10));
+  });
+
+  test('the pool never exceeds maxParticles', () => {
+    const system = new ParticleSystem(createConfig({ maxParticles: 25 }), { seed: 9 });
+    run(system, 120);
+
+    expect(system.getParticleCount()).toBe(25);
+  });
+
+  test('a long step spreads emitted particles across it', () => {
+    const config = createConfig({
+      emissionRate: new Fixed(10),
+      startVelocity: new FixedVector2(new Fixed(0), new Fixed(-40)),
+      velocityVariation: FixedVector2.ZERO,
+      gravity: FixedVector2.ZERO,
+      shape: { type: 'point' },
+      drag: Fixed.ZERO,
+      subEmitters: []
+    });
+    const system = new ParticleSystem(config, { seed: 4 });
+    system.update(new Fixed(0.5));
+
+    const particles = system.getParticles();
+    const ages = [0.4, 0.3, 0.2, 0.1, 0];
+    expect(particles).toHaveLength(ages.length);
+    particles.forEach((particle, i) => {
+      expect(particle.age.toNumber()).toBeCloseTo(ages[i], 3);
+    });
+    for (const particle of particles) {
+      const expected = new Fixed(-40).multiply(particle.age).toNumber();
+      expect(particle.position.y.toNumber()).toBeCloseTo(expected, 3);
+    }
+  });
+
+  test('drag does not depend on the step size', () => {
+    const config = createConfig({
+      emissionRate: Fixed.ZERO,
+      velocityVariation: FixedVector2.ZERO,
+      gravity: FixedVector2.ZERO,
+      shape: { type: 'point' },
+      drag: new Fixed(0.75),
+      subEmitters: []
+    });
+    const coarse = new ParticleSystem(config);
+    const fine = new ParticleSystem(config);
+    coarse.emit(1);
+    fine.emit(1);
+
+    coarse.update(new Fixed(1));
+    for (let i = 0; i < 8; i++) {
+      fine.update(new Fixed(0.125));
+    }
+
+    // 40 * (1 - 0.75)^1 = 10
+    expect(coarse.getParticles()[0].velocity.y.toNumber()).toBeCloseTo(-10, 2);
+    expect(fine.getParticles()[0].velocity.y.toNumber()).toBeCloseTo(-10, 2);
+  });
+
+  test('drag is applied in fixed point, pinning the raw velocity for a seed', () => {
+    const system = new ParticleSystem(createConfig({ subEmitters: [] }), { seed: 42 });
+    run(system, 30);
+
+    // Raw Q16.16 values, which must match on every engine
+    const velocity = system.getParticles()[0].velocity;
+    expect(velocity.x.toNumber() * 65536).toBe(661151);
+    expect(velocity.y.toNumber() * 65536).toBe(-913856);
+  });
+});
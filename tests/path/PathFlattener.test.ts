@@ -0,0 +1,97 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { PathContour, flattenPath } from '../../src/path/PathFlattener';
+import { VectorPath } from '../../src/path/VectorPath';
+
+// Slack for points rounded to Q16.16
+const FIXED_SLACK = 1e-3;
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function toPoints(contour: PathContour | undefined): number[][] {
+  return (contour?.points ?? []).map(point => [point.x.toNumber(), point.y.toNumber()]);
+}
+
+// Largest distance between a chord of the polyline and the circle it approximates
+function getMaxSagitta(points: number[][], cx: number, cy: number, radius: number): number {
+  let max = 0;
+  for (let i = 1; i < points.length; i++) {
+    const midX = (points[i - 1][0] + points[i][0]) / 2;
+    const midY = (points[i - 1][1] + points[i][1]) / 2;
+    max = Math.max(max, radius - Math.hypot(midX - cx, midY - cy));
+  }
+  return max;
+}
+
+function flattenCircle(radius: number, tolerance: number): number[][] {
+  const path = new VectorPath();
+  path.arc(FixedVector2.ZERO, new Fixed(radius), Fixed.ZERO, new Fixed(Math.PI * 2));
+  return toPoints(flattenPath(path, new Fixed(tolerance))[0]);
+}
+
+describe('flattenPath', () => {
+  test('arc chords stay within the tolerance and use fewer segments as it grows', () => {
+    let previousCount = Infinity;
+    for (const tolerance of [0.01, 0.25, 1, 4]) {
+      const points = flattenCircle(50, tolerance);
+
+      for (const [x, y] of points) {
+        expect(Math.hypot(x, y)).toBeCloseTo(50, 2);
+      }
+      expect(getMaxSagitta(points, 0, 0, 50)).toBeLessThanOrEqual(tolerance + FIXED_SLACK);
+      // Not needlessly fine either: a chord is at least half as deep as the tolerance allows
+      expect(getMaxSagitta(points, 0, 0, 50)).toBeGreaterThan(tolerance / 2);
+      expect(points.length).toBeLessThan(previousCount);
+      previousCount = points.length;
+    }
+  });
+
+  test('arc segment counts are capped per turn and floored at quarter turns', () => {
+    // One point per segment plus the closing point of the turn
+    expect(flattenCircle(1000, 1e-9)).toHaveLength(512 + 1);
+    expect(flattenCircle(0.1, 0.25)).toHaveLength(4 + 1);
+
+    // A quarter turn gets a quarter of the cap, rounded up from the fixed-point sweep
+    const quarter = new Fixed(Math.PI / 2);
+    const path = new VectorPath();
+    path.arc(FixedVector2.ZERO, new Fixed(1000), Fixed.ZERO, quarter);
+    const segments = Math.ceil((quarter.toNumber() / (Math.PI * 2)) * 512);
+    expect(segments).toBeLessThanOrEqual(129);
+    expect(toPoints(flattenPath(path, new Fixed(1e-9))[0])).toHaveLength(segments + 1);
+  });
+
+  test('arcTo rounds the corner with an arc tangent to both edges', () => {
+    const path = new VectorPath();
+    path.moveTo(vector(0, 0));
+    path.arcTo(vector(10, 0), vector(10, 10), new Fixed(4));
+    path.lineTo(vector(10, 10));
+    const points = toPoints(flattenPath(path, new Fixed(0.05))[0]);
+
+    // The edges are cut back by the radius and the arc centre sits inside the corner
+    expect(points[0]).toEqual([0, 0]);
+    expect(points[1][0]).toBeCloseTo(6, 3);
+    expect(points[1][1]).toBeCloseTo(0, 3);
+    expect(points[points.length - 1]).toEqual([10, 10]);
+    const arc = points.slice(1, -1);
+    expect(arc[arc.length - 1][0]).toBeCloseTo(10, 3);
+    expect(arc[arc.length - 1][1]).toBeCloseTo(4, 3);
+    for (const [x, y] of arc) {
+      expect(Math.hypot(x - 6, y - 4)).toBeCloseTo(4, 2);
+      expect(x).toBeGreaterThanOrEqual(6 - FIXED_SLACK);
+      expect(y).toBeLessThanOrEqual(4 + FIXED_SLACK);
+    }
+    expect(getMaxSagitta(arc, 6, 4, 4)).toBeLessThanOrEqual(0.05 + FIXED_SLACK);
+  });
+
+  test('arcTo along a straight line degenerates to a line to the corner', () => {
+    const path = new VectorPath();
+    path.moveTo(vector(0, 0));
+    path.arcTo(vector(5, 0), vector(10, 0), new Fixed(4));
+
+    expect(toPoints(flattenPath(path, new Fixed(0.25))[0])).toEqual([
+      [0, 0],
+      [5, 0]
+    ]);
+  });
+});
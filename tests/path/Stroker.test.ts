@@ -0,0 +1,82 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { TriangleMesh } from '../../src/path/Tessellation';
+import { StrokeOptions, strokePolyline } from '../../src/path/Stroker';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import { ColorUtils, LineStyle } from '../../src/types/RenderTypes';
+
+// Horizontal line from x = 0 to x = 20
+const LINE = [FixedVector2.ZERO, new FixedVector2(new Fixed(20), Fixed.ZERO)];
+
+// Renderer exposing the stroke mesh it would draw at the current camera zoom
+class StrokeRenderer extends RecordingRenderer {
+  tessellate(style: LineStyle): TriangleMesh {
+    return this.tessellateStroke(LINE, false, style);
+  }
+}
+
+function getCoordinates(mesh: TriangleMesh, axis: 'x' | 'y'): number[] {
+  const values = mesh.vertices.map(vertex => Math.round(vertex[axis].toNumber() * 1000) / 1000);
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+function strokeLine(options: Partial<StrokeOptions>): TriangleMesh {
+  return strokePolyline(LINE, false, { width: 2, lineCap: 'butt', ...options });
+}
+
+describe('strokePolyline', () => {
+  test('butt-capped dashes start where the dash offset puts them', () => {
+    // 4 on, 2 off, shifted 1 into the first dash
+    expect(getCoordinates(strokeLine({ dashPattern: [4, 2], dashOffset: 1 }), 'x')).toEqual([
+      0, 3, 5, 9, 11, 15, 17, 20
+    ]);
+    // Shifted back 1 from the start of the cycle, so the line opens in the gap
+    expect(getCoordinates(strokeLine({ dashPattern: [4, 2], dashOffset: -1 }), 'x')).toEqual([
+      1, 5, 7, 11, 13, 17, 19, 20
+    ]);
+    expect(getCoordinates(strokeLine({ dashPattern: [4, 2], dashOffset: 6 }), 'x')).toEqual(
+      getCoordinates(strokeLine({ dashPattern: [4, 2] }), 'x')
+    );
+    expect(getCoordinates(strokeLine({ dashPattern: [4, 2] }), 'y')).toEqual([-1, 1]);
+  });
+
+  test('odd dash patterns repeat with alternating dashes and gaps', () => {
+    expect(getCoordinates(strokeLine({ dashPattern: [3], dashOffset: 2 }), 'x')).toEqual([
+      0, 1, 4, 7, 10, 13, 16, 19
+    ]);
+  });
+
+  test('invalid dash patterns leave the line solid', () => {
+    for (const dashPattern of [[], [0, 0], [4, -2]]) {
+      expect(getCoordinates(strokeLine({ dashPattern, dashOffset: 1 }), 'x')).toEqual([0, 20]);
+    }
+  });
+});
+
+describe('stroke units', () => {
+  function tessellateAtZoom(strokeUnit: LineStyle['strokeUnit']): TriangleMesh {
+    const renderer = new StrokeRenderer();
+    renderer.setCamera({ ...renderer.getCamera(), zoom: Fixed.TWO });
+    return renderer.tessellate({
+      color: ColorUtils.WHITE,
+      thickness: new Fixed(4),
+      dashPattern: [new Fixed(8), new Fixed(4)],
+      dashOffset: new Fixed(2),
+      lineCap: 'butt',
+      ...(strokeUnit && { strokeUnit })
+    });
+  }
+
+  test('screen units shrink thickness, dashes and offset by the zoom', () => {
+    const mesh = tessellateAtZoom(undefined);
+
+    expect(getCoordinates(mesh, 'y')).toEqual([-1, 1]);
+    expect(getCoordinates(mesh, 'x')).toEqual([0, 3, 5, 9, 11, 15, 17, 20]);
+  });
+
+  test('world units keep thickness, dashes and offset in drawing units', () => {
+    const mesh = tessellateAtZoom('world');
+
+    expect(getCoordinates(mesh, 'y')).toEqual([-2, 2]);
+    expect(getCoordinates(mesh, 'x')).toEqual([0, 6, 10, 18]);
+  });
+});
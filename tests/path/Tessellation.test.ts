@@ -0,0 +1,194 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { PathContour } from '../../src/path/PathFlattener';
+import { triangulateContours, triangulatePolygon } from '../../src/path/Tessellation';
+import { FillRule } from '../../src/types/RenderTypes';
+
+type Point = [number, number];
+
+function toVectors(points: Point[]): FixedVector2[] {
+  return points.map(([x, y]) => new FixedVector2(new Fixed(x), new Fixed(y)));
+}
+
+function toContours(...rings: Point[][]): PathContour[] {
+  return rings.map(ring => ({ points: toVectors(ring), closed: true }));
+}
+
+function getWinding(ring: Point[], x: number, y: number): number {
+  let winding = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [ax, ay] = ring[i];
+    const [bx, by] = ring[(i + 1) % ring.length];
+    const side = (bx - ax) * (y - ay) - (x - ax) * (by - ay);
+    if (ay <= y && by > y && side > 0) winding++;
+    else if (ay > y && by <= y && side < 0) winding--;
+  }
+  return winding;
+}
+
+function containsPoint(triangle: number[][], x: number, y: number): boolean {
+  const [[ax, ay], [bx, by], [cx, cy]] = triangle;
+  const d1 = (bx - ax) * (y - ay) - (by - ay) * (x - ax);
+  const d2 = (cx - bx) * (y - by) - (cy - by) * (x - bx);
+  const d3 = (ax - cx) * (y - cy) - (ay - cy) * (x - cx);
+  return (d1 >= 0 && d2 >= 0 && d3 >= 0) || (d1 <= 0 && d2 <= 0 && d3 <= 0);
+}
+
+// Every sample point must be covered by exactly one triangle where the fill rule fills it
+function expectCoverage(
+  vertices: FixedVector2[],
+  indices: number[],
+  rings: Point[][],
+  fillRule: FillRule
+): void {
+  const triangles: number[][][] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    triangles.push(
+      [indices[i], indices[i + 1], indices[i + 2]].map(index => [
+        vertices[index].x.toNumber(),
+        vertices[index].y.toNumber()
+      ])
+    );
+  }
+
+  let mismatches = 0;
+  for (let y = 0.137; y < 20; y += 0.5) {
+    for (let x = 0.291; x < 20; x += 0.5) {
+      const winding = rings.reduce((sum, ring) => sum + getWinding(ring, x, y), 0);
+      const filled = fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+      const covering = triangles.filter(triangle => containsPoint(triangle, x, y)).length;
+      if (covering !== (filled ? 1 : 0)) mismatches++;
+    }
+  }
+  expect(mismatches).toBe(0);
+}
+
+const SQUARE: Point[] = [
+  [2, 2],
+  [18, 2],
+  [18, 18],
+  [2, 18]
+];
+const INNER_SQUARE: Point[] = [
+  [6, 6],
+  [14, 6],
+  [14, 14],
+  [6, 14]
+];
+const CONCAVE: Point[] = [
+  [1, 1],
+  [19, 1],
+  [19, 19],
+  [10, 8],
+  [1, 19]
+];
+const BOWTIE: Point[] = [
+  [2, 2],
+  [18, 18],
+  [18, 2],
+  [2, 18]
+];
+const OVERLAPPING: Point[] = [
+  [10, 10],
+  [19, 10],
+  [19, 19],
+  [10, 19]
+];
+// Passes through the right edge of SQUARE_LEFT at its vertex (12, 7)
+const SQUARE_LEFT: Point[] = [
+  [2, 2],
+  [12, 2],
+  [12, 12],
+  [2, 12]
+];
+const THROUGH_VERTEX: Point[] = [
+  [8, 4],
+  [12, 7],
+  [16, 10],
+  [16, 4]
+];
+// Crosses itself at the vertex (8, 8) it visits twice
+const VERTEX_CROSSING: Point[] = [
+  [2, 2],
+  [8, 8],
+  [14, 14],
+  [14, 2],
+  [8, 8],
+  [2, 14]
+];
+const NOTCH: Point[] = [
+  [6, 2],
+  [12, 2],
+  [12, 9],
+  [6, 9]
+];
+const PENTAGRAM: Point[] = [0, 2, 4, 1, 3].map(k => {
+  const angle = -Math.PI / 2 + (k * 2 * Math.PI) / 5;
+  return [10 + 9 * Math.cos(angle), 10.5 + 9 * Math.sin(angle)];
+});
+
+describe('Tessellation', () => {
+  test('ear clipping a concave polygon covers it exactly', () => {
+    const vertices = toVectors(CONCAVE);
+    const indices = triangulatePolygon(vertices);
+
+    expect(indices).toHaveLength((CONCAVE.length - 2) * 3);
+    expectCoverage(vertices, indices, [CONCAVE], 'nonzero');
+  });
+
+  test('holes are bridged into n + 2h - 2 triangles', () => {
+    const outer = toVectors(SQUARE);
+    const hole = toVectors(INNER_SQUARE);
+    const indices = triangulatePolygon(outer, [hole]);
+
+    expect(indices).toHaveLength((4 + 4 + 2 - 2) * 3);
+    expectCoverage([...outer, ...hole], indices, [SQUARE, [...INNER_SQUARE].reverse()], 'nonzero');
+  });
+
+  test('winding direction of the input does not matter', () => {
+    const vertices = toVectors([...CONCAVE].reverse());
+
+    expectCoverage(vertices, triangulatePolygon(vertices), [CONCAVE], 'nonzero');
+  });
+
+  test('nested contours follow the fill rule', () => {
+    const contours = toContours(SQUARE, INNER_SQUARE);
+    const evenOdd = triangulateContours(contours, 'evenodd');
+    const nonZero = triangulateContours(contours, 'nonzero');
+
+    expectCoverage(evenOdd.vertices, evenOdd.indices, [SQUARE, INNER_SQUARE], 'evenodd');
+    expectCoverage(nonZero.vertices, nonZero.indices, [SQUARE, INNER_SQUARE], 'nonzero');
+  });
+
+  test.each(['nonzero', 'evenodd'] as const)('a bowtie is split at its crossing (%s)', rule => {
+    const mesh = triangulateContours(toContours(BOWTIE), rule);
+
+    expect(mesh.indices).toHaveLength(2 * 3);
+    expectCoverage(mesh.vertices, mesh.indices, [BOWTIE], rule);
+  });
+
+  test.each(['nonzero', 'evenodd'] as const)('a pentagram fills by the rule (%s)', rule => {
+    const mesh = triangulateContours(toContours(PENTAGRAM), rule);
+
+    expectCoverage(mesh.vertices, mesh.indices, [PENTAGRAM], rule);
+  });
+
+  test.each(['nonzero', 'evenodd'] as const)('contours crossing each other (%s)', rule => {
+    const mesh = triangulateContours(toContours(SQUARE, OVERLAPPING), rule);
+
+    expectCoverage(mesh.vertices, mesh.indices, [SQUARE, OVERLAPPING], rule);
+  });
+
+  test.each(['nonzero', 'evenodd'] as const)('crossings at vertices (%s)', rule => {
+    const through = triangulateContours(toContours(SQUARE_LEFT, THROUGH_VERTEX), rule);
+    const shared = triangulateContours(toContours(VERTEX_CROSSING), rule);
+
+    expectCoverage(through.vertices, through.indices, [SQUARE_LEFT, THROUGH_VERTEX], rule);
+    expectCoverage(shared.vertices, shared.indices, [VERTEX_CROSSING], rule);
+  });
+
+  test('a hole sharing part of the outline is not split', () => {
+    const mesh = triangulateContours(toContours(SQUARE, NOTCH), 'evenodd');
+
+    expectCoverage(mesh.vertices, mesh.indices, [SQUARE, NOTCH], 'evenodd');
+  });
+});
@@ -0,0 +1,102 @@
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { DisplayList } from '../../src/recording/DisplayList';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import { ColorUtils, ITexture, Transform2D } from '../../src/types/RenderTypes';
+
+const texture: ITexture = { width: 32, height: 16, isLoaded: true, source: null };
+
+function recordFrame(draw: (renderer: RecordingRenderer) => void): DisplayList {
+  const renderer = new RecordingRenderer();
+  renderer.beginFrame();
+  draw(renderer);
+  renderer.endFrame();
+  return renderer.getLastFrame() as DisplayList;
+}
+
+function drawScene(renderer: RecordingRenderer): void {
+  renderer.clear(ColorUtils.BLACK);
+  renderer.pushTransform(
+    new Transform2D(new FixedVector2(10, 20), new Fixed(0.5), new FixedVector2(2, 2))
+  );
+  renderer.drawRect(new FixedRect(new Fixed(0), new Fixed(0), new Fixed(4), new Fixed(3)), {
+    fillColor: ColorUtils.RED
+  });
+  renderer.pushTransform(new Transform2D(new FixedVector2(5, 0)));
+  renderer.drawLine(new FixedVector2(0, 0), new FixedVector2(8, 8), {
+    color: ColorUtils.GREEN,
+    thickness: new Fixed(1.5),
+    dashPattern: [new Fixed(2), new Fixed(1)]
+  });
+  renderer.popTransform();
+  renderer.beginPath();
+  renderer.moveTo(new FixedVector2(0, 0));
+  renderer.lineTo(new FixedVector2(6, 0));
+  renderer.quadraticCurveTo(new FixedVector2(6, 6), new FixedVector2(0, 6));
+  renderer.closePath();
+  renderer.fillPath(ColorUtils.BLUE);
+  renderer.popTransform();
+  renderer.drawTexture(texture, new FixedVector2(1, 2), { tint: ColorUtils.WHITE });
+  renderer.drawText('hello', new FixedVector2(3, 4), {
+    color: ColorUtils.WHITE,
+    fontSize: new Fixed(12)
+  });
+}
+
+describe('DisplayList', () => {
+  test('serialize and deserialize round-trip', () => {
+    const list = recordFrame(drawScene);
+    const json = list.serialize();
+    const restored = DisplayList.deserialize(json);
+
+    expect(restored.length).toBe(list.length);
+    expect(restored.serialize()).toBe(json);
+  });
+
+  test('deserialize resolves textures by index', () => {
+    const list = recordFrame(drawScene);
+    const resolved: ITexture = { width: 32, height: 16, isLoaded: true, source: 'atlas' };
+    const restored = DisplayList.deserialize(list.serialize(), ref => {
+      expect(ref).toEqual({ width: 32, height: 16 });
+      return resolved;
+    });
+
+    expect(restored.getCommandsOfType('texture')[0].texture).toBe(resolved);
+  });
+
+  test('deserialize rejects unknown versions', () => {
+    expect(() => DisplayList.fromJSON({ version: 99, textures: [], commands: [] })).toThrow(
+      'Unsupported display list version: 99'
+    );
+  });
+
+  test('record, replay and record again gives an equal list', () => {
+    const list = recordFrame(drawScene);
+    const replayed = recordFrame(renderer => list.replay(renderer));
+
+    expect(replayed.serialize()).toBe(list.serialize());
+  });
+
+  test('replaying a deserialized list matches the original recording', () => {
+    const list = recordFrame(drawScene);
+    const restored = DisplayList.deserialize(list.serialize(), () => texture);
+    const replayed = recordFrame(renderer => restored.replay(renderer));
+
+    expect(replayed.serialize()).toBe(list.serialize());
+  });
+
+  test('transforms set back to back keep only the latest', () => {
+    const list = recordFrame(renderer => {
+      renderer.pushTransform(new Transform2D(new FixedVector2(1, 1)));
+      renderer.pushTransform(new Transform2D(new FixedVector2(2, 2)));
+      renderer.drawCircle(new FixedVector2(0, 0), new Fixed(1), { fillColor: ColorUtils.RED });
+      renderer.popTransform();
+      renderer.popTransform();
+    });
+
+    expect(list.getCommands().map(command => command.type)).toEqual([
+      'transform',
+      'circle',
+      'transform'
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { SoftwareRenderer } from '../../src/software/SoftwareRenderer';
+import { createPixelTexture } from '../../src/software/SoftwareFramebuffer';
+import { BlendMode, Color, ColorUtils } from '../../src/types/RenderTypes';
+
+const RED: Color = { r: 1, g: 0, b: 0, a: 1 };
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+// Renderer whose camera maps world coordinates to the same pixel coordinates
+function createRenderer(width: number, height: number, background?: Color): SoftwareRenderer {
+  const renderer = new SoftwareRenderer(width, height);
+  renderer.setCamera({
+    position: vector(width / 2, height / 2),
+    zoom: Fixed.ONE,
+    rotation: Fixed.ZERO
+  });
+  renderer.beginFrame();
+  if (background) renderer.clear(background);
+  return renderer;
+}
+
+// Channels of a pixel as 0-255 integers
+function getPixel(renderer: SoftwareRenderer, x: number, y: number): number[] {
+  const { r, g, b, a } = renderer.getFramebuffer().getPixel(x, y);
+  return [r, g, b, a].map(channel => Math.round(channel * 255));
+}
+
+// Five-pointed star whose points are joined every second vertex, so the center is wound twice
+function getPentagram(cx: number, cy: number, radius: number): FixedVector2[] {
+  const vertices: FixedVector2[] = [];
+  for (let i = 0; i < 5; i++) {
+    const angle = -Math.PI / 2 + (i * 4 * Math.PI) / 5;
+    vertices.push(vector(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius));
+  }
+  return vertices;
+}
+
+describe('SoftwareRenderer', () => {
+  test('rects fill the pixels whose centers they cover', () => {
+    const renderer = createRenderer(8, 8);
+    renderer.drawRect(rect(2, 2, 4, 3), { fillColor: RED });
+
+    expect(getPixel(renderer, 2, 2)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(renderer, 5, 4)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(renderer, 6, 2)).toEqual([0, 0, 0, 0]);
+    expect(getPixel(renderer, 2, 5)).toEqual([0, 0, 0, 0]);
+    expect(getPixel(renderer, 1, 3)).toEqual([0, 0, 0, 0]);
+  });
+
+  test('self-overlapping polygons fill by the nonzero or evenodd rule', () => {
+    const star = getPentagram(10, 10, 9);
+    const nonzero = createRenderer(20, 20);
+    nonzero.drawPolygon(star, { fillColor: RED });
+
+    const evenodd = createRenderer(20, 20);
+    evenodd.beginPath();
+    evenodd.moveTo(star[0]);
+    star.slice(1).forEach(vertex => evenodd.lineTo(vertex));
+    evenodd.closePath();
+    evenodd.fillPath(RED, 'evenodd');
+
+    expect(getPixel(nonzero, 10, 10)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(evenodd, 10, 10)).toEqual([0, 0, 0, 0]);
+    // A point of the star is covered once under either rule
+    expect(getPixel(nonzero, 10, 3)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(evenodd, 10, 3)).toEqual([255, 0, 0, 255]);
+  });
+
+  test('clipRect limits drawing to its screen pixels', () => {
+    const renderer = createRenderer(8, 8);
+    const clipRect = rect(2, 3, 3, 2);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 1, clipRect });
+    renderer.drawRect(rect(0, 0, 8, 8), { fillColor: RED });
+
+    expect(getPixel(renderer, 2, 3)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(renderer, 4, 4)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(renderer, 5, 3)).toEqual([0, 0, 0, 0]);
+    expect(getPixel(renderer, 2, 5)).toEqual([0, 0, 0, 0]);
+    expect(getPixel(renderer, 1, 3)).toEqual([0, 0, 0, 0]);
+  });
+
+  test('opacity scales the source alpha', () => {
+    const renderer = createRenderer(4, 4, ColorUtils.BLACK);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 0.5 });
+    renderer.drawRect(rect(0, 0, 4, 4), { fillColor: RED });
+
+    expect(getPixel(renderer, 1, 1)).toEqual([128, 0, 0, 255]);
+  });
+
+  test('blend modes combine the source with an opaque backdrop', () => {
+    // Backdrop 0.4 and source 0.8 in every channel
+    const expected: Record<BlendMode, number> = {
+      [BlendMode.Normal]: 0.8,
+      [BlendMode.Add]: 1,
+      [BlendMode.Multiply]: 0.32,
+      [BlendMode.Screen]: 0.88,
+      [BlendMode.Overlay]: 0.64,
+      [BlendMode.Darken]: 0.4,
+      [BlendMode.Lighten]: 0.8
+    };
+
+    for (const mode of Object.values(BlendMode)) {
+      const renderer = createRenderer(2, 2, { r: 0.4, g: 0.4, b: 0.4, a: 1 });
+      renderer.setRenderState({ blendMode: mode, opacity: 1 });
+      renderer.drawRect(rect(0, 0, 2, 2), { fillColor: { r: 0.8, g: 0.8, b: 0.8, a: 1 } });
+
+      const value = Math.round(expected[mode] * 255);
+      expect(getPixel(renderer, 0, 0), mode).toEqual([value, value, value, 255]);
+    }
+  });
+
+  describe('textured quads', () => {
+    // Red, green / blue, white
+    const texture = createPixelTexture({
+      width: 2,
+      height: 2,
+      data: new Uint8ClampedArray([
+        255, 0, 0, 255, 0, 255, 0, 255,
+        0, 0, 255, 255, 255, 255, 255, 255
+      ])
+    });
+    // Texels twice their size, centered on 4, 4 so they cover 2..6
+    const style = { scale: vector(2, 2), anchor: vector(0.5, 0.5) };
+
+    test('anchor and scale place each texel', () => {
+      const renderer = createRenderer(8, 8);
+      renderer.drawTexture(texture, vector(4, 4), style);
+
+      expect(getPixel(renderer, 2, 2)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(renderer, 5, 2)).toEqual([0, 255, 0, 255]);
+      expect(getPixel(renderer, 3, 5)).toEqual([0, 0, 255, 255]);
+      expect(getPixel(renderer, 4, 4)).toEqual([255, 255, 255, 255]);
+      expect(getPixel(renderer, 1, 2)).toEqual([0, 0, 0, 0]);
+      expect(getPixel(renderer, 6, 6)).toEqual([0, 0, 0, 0]);
+    });
+
+    test('flips mirror the texels', () => {
+      const renderer = createRenderer(8, 8);
+      renderer.drawTexture(texture, vector(4, 4), { ...style, flipX: true, flipY: true });
+
+      expect(getPixel(renderer, 2, 2)).toEqual([255, 255, 255, 255]);
+      expect(getPixel(renderer, 5, 2)).toEqual([0, 0, 255, 255]);
+      expect(getPixel(renderer, 2, 5)).toEqual([0, 255, 0, 255]);
+      expect(getPixel(renderer, 5, 5)).toEqual([255, 0, 0, 255]);
+    });
+
+    test('tint multiplies the texel colors', () => {
+      const renderer = createRenderer(8, 8);
+      const tint = { r: 1, g: 0.6, b: 0.2, a: 1 };
+      renderer.drawTexture(texture, vector(4, 4), { ...style, tint });
+
+      expect(getPixel(renderer, 5, 5)).toEqual([255, 153, 51, 255]);
+      expect(getPixel(renderer, 5, 2)).toEqual([0, 153, 0, 255]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Fixed, FixedRect, FixedVector2 } from '@esengine/nova-ecs-math';
+import { SvgRenderer } from '../../src/svg/SvgRenderer';
+import { ColorUtils, ConicGradient } from '../../src/types/RenderTypes';
+
+function createConicGradient(): ConicGradient {
+  return {
+    type: 'conic',
+    center: new FixedVector2(new Fixed(10), new Fixed(10)),
+    startAngle: Fixed.ZERO,
+    stops: [
+      { offset: 0, color: ColorUtils.RED },
+      { offset: 1, color: ColorUtils.BLUE }
+    ]
+  };
+}
+
+function render(draw: (renderer: SvgRenderer) => void): string {
+  const renderer = new SvgRenderer(20, 20);
+  renderer.beginFrame();
+  draw(renderer);
+  renderer.endFrame();
+  return renderer.getSvg();
+}
+
+describe('SvgRenderer', () => {
+  test('conic gradients fill with a pattern of wedges over the shape bounds', () => {
+    const bounds = new FixedRect(new Fixed(2), new Fixed(4), new Fixed(12), new Fixed(8));
+    const style = { fillGradient: createConicGradient() };
+    const svg = render(renderer => renderer.drawRect(bounds, style));
+
+    expect(svg).toContain(
+      '<pattern id="gradient-1" patternUnits="userSpaceOnUse" x="2" y="4" width="12" height="8">'
+    );
+    expect(svg.match(/<path d="M/g)).toHaveLength(64);
+    expect(svg).toContain('fill="url(#gradient-1)"');
+  });
+
+  test('conic gradients over empty bounds fill with their average color', () => {
+    const bounds = new FixedRect(new Fixed(2), new Fixed(4), Fixed.ZERO, new Fixed(8));
+    const style = { fillGradient: createConicGradient() };
+    const svg = render(renderer => renderer.drawRect(bounds, style));
+
+    expect(svg).not.toContain('<pattern');
+    expect(svg).not.toContain('url(#');
+  });
+});
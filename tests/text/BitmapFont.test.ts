@@ -0,0 +1,101 @@
+import { Fixed } from '@esengine/nova-ecs-math';
+import { loadBMFont, parseBMFont } from '../../src/text/BMFontLoader';
+import { ITexture } from '../../src/types/RenderTypes';
+
+const TEXT_FONT = `info face="Pixel" size=16 bold=0
+common lineHeight=20 base=16 scaleW=64 scaleH=64 pages=1
+page id=0 file="pixel.png"
+chars count=3
+char id=65 x=0 y=0 width=8 height=10 xoffset=0 yoffset=2 xadvance=9 page=0
+char id=86 x=8 y=0 width=8 height=10 xoffset=1 yoffset=2 xadvance=9 page=0
+char id=63 x=16 y=0 width=6 height=10 xoffset=0 yoffset=2 xadvance=7 page=0
+kernings count=1
+kerning first=65 second=86 amount=-2`;
+
+const XML_FONT = `<?xml version="1.0"?>
+<font>
+  <info face="Pixel" size="16"/>
+  <common lineHeight="20" base="16" scaleW="64" scaleH="64" pages="1"/>
+  <pages><page id="0" file="pixel.png"/></pages>
+  <chars count="3">
+    <char id="65" x="0" y="0" width="8" height="10" xoffset="0" yoffset="2" xadvance="9" page="0"/>
+    <char id="86" x="8" y="0" width="8" height="10" xoffset="1" yoffset="2" xadvance="9" page="0"/>
+    <char id="63" x="16" y="0" width="6" height="10" xoffset="0" yoffset="2" xadvance="7" page="0"/>
+  </chars>
+  <kernings count="1"><kerning first="65" second="86" amount="-2"/></kernings>
+</font>`;
+
+const JSON_FONT = {
+  info: { face: 'Pixel', size: 16 },
+  common: { lineHeight: 20, base: 16 },
+  pages: ['pixel.png'],
+  chars: [
+    { id: 65, x: 0, y: 0, width: 8, height: 10, xoffset: 0, yoffset: 2, xadvance: 9 },
+    { id: 86, x: 8, y: 0, width: 8, height: 10, xoffset: 1, yoffset: 2, xadvance: 9 },
+    { id: 63, x: 16, y: 0, width: 6, height: 10, xoffset: 0, yoffset: 2, xadvance: 7 }
+  ],
+  kernings: [{ first: 65, second: 86, amount: -2 }]
+};
+
+const page: ITexture = { width: 64, height: 64, isLoaded: true, source: null };
+
+describe('BitmapFont', () => {
+  test('text, XML and JSON descriptors parse to the same font', () => {
+    const text = parseBMFont(TEXT_FONT);
+
+    expect(parseBMFont(XML_FONT)).toEqual(text);
+    expect(parseBMFont(JSON_FONT)).toEqual(text);
+    expect(parseBMFont(JSON.stringify(JSON_FONT))).toEqual(text);
+    expect(text.glyphs).toHaveLength(3);
+    expect(text.pages).toEqual(['pixel.png']);
+  });
+
+  test('resolves page files to textures', () => {
+    const files: string[] = [];
+    const font = loadBMFont(TEXT_FONT, file => {
+      files.push(file);
+      return page;
+    });
+
+    expect(files).toEqual(['pixel.png']);
+    expect(font.pages[0]).toBe(page);
+  });
+
+  test('measures lines with kerning, scaled to the font size', () => {
+    const font = loadBMFont(TEXT_FONT, () => page);
+
+    expect(font.measureLine('AV', new Fixed(16)).toNumber()).toBe(16);
+    expect(font.measureLine('VA', new Fixed(16)).toNumber()).toBe(18);
+    expect(font.measureLine('AV', new Fixed(32)).toNumber()).toBe(32);
+    expect(font.measureText('AV\nA', new Fixed(16)).y.toNumber()).toBe(40);
+  });
+
+  test('draws missing characters with the fallback glyph', () => {
+    const font = loadBMFont(TEXT_FONT, () => page);
+    const layout = font.layoutText('AZ', new Fixed(16));
+
+    expect(layout.glyphs.map(placement => placement.glyph.id)).toEqual([65, 63]);
+  });
+
+  test('lays out lines with alignment relative to the aligned edge', () => {
+    const font = loadBMFont(TEXT_FONT, () => page);
+    const layout = font.layoutText('AV\nA', new Fixed(16), 'center');
+
+    expect(layout.lineWidths.map(width => width.toNumber())).toEqual([16, 9]);
+    const [a, v, second] = layout.glyphs;
+    expect(a.destRect.x.toNumber()).toBe(-8);
+    expect(v.destRect.x.toNumber()).toBe(-8 + 9 - 2 + 1);
+    expect(second.destRect.x.toNumber()).toBe(-4.5);
+    expect(second.destRect.y.toNumber()).toBe(22);
+    expect(second.line).toBe(1);
+  });
+
+  test('rejects unknown formats and descriptors without chars', () => {
+    expect(() => parseBMFont('BMF\u0003')).toThrow(
+      'Unrecognized BMFont format; binary descriptors are not supported'
+    );
+    expect(() => parseBMFont('info face="x" size=8\ncommon lineHeight=10 base=8')).toThrow(
+      'BMFont descriptor is missing common line height or chars'
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { findLineBreaks, getLineBreakClass } from '../../src/text/LineBreaker';
+
+function getBreaks(text: string): number[] {
+  return findLineBreaks(Array.from(text)).map(opportunity => opportunity.position);
+}
+
+describe('LineBreaker', () => {
+  test('Latin words break after spaces and hyphens', () => {
+    expect(getBreaks('foo-bar baz')).toEqual([4, 8, 11]);
+  });
+
+  test('numbers keep their prefix and postfix', () => {
+    expect(getBreaks('$100% off')).toEqual([6, 9]);
+  });
+
+  test('newlines are mandatory breaks', () => {
+    expect(findLineBreaks(Array.from('a\nb'))).toEqual([
+      { position: 2, mandatory: true },
+      { position: 3, mandatory: true }
+    ]);
+  });
+
+  test('closing parentheses are their own class', () => {
+    expect(getLineBreakClass(')'.codePointAt(0) as number)).toBe('CP');
+    expect(getLineBreakClass(']'.codePointAt(0) as number)).toBe('CP');
+    expect(getLineBreakClass('}'.codePointAt(0) as number)).toBe('CL');
+    expect(getLineBreakClass('」'.codePointAt(0) as number)).toBe('CL');
+  });
+
+  test('closing parentheses stick to a following word or number', () => {
+    expect(getBreaks('(a)b')).toEqual([4]);
+    expect(getBreaks('[1]2')).toEqual([4]);
+    expect(getBreaks('a) b')).toEqual([3, 4]);
+  });
+
+  test('other closing punctuation may break before a word', () => {
+    expect(getBreaks('{x}y')).toEqual([3, 4]);
+    expect(getBreaks('」a')).toEqual([1, 2]);
+  });
+
+  test('ideographs break on either side, except around kinsoku punctuation', () => {
+    expect(getBreaks('「日本」語')).toEqual([2, 4, 5]);
+    expect(getBreaks('日本語。です')).toEqual([1, 2, 4, 5, 6]);
+    expect(getBreaks('ちょっと')).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,92 @@
+import { Fixed } from '@esengine/nova-ecs-math';
+import { layoutTextBlock, parseTextMarkup, TextBlockLayout } from '../../src/text/TextLayout';
+import { ColorUtils, TextBlockStyle, TextStyle } from '../../src/types/RenderTypes';
+
+// Monospace measurement: every character advances one font size
+function measure(text: string, style: TextStyle): Fixed {
+  return style.fontSize.multiply(new Fixed(Array.from(text).length));
+}
+
+function layout(text: string, style: Partial<TextBlockStyle> = {}): TextBlockLayout {
+  const base = { color: ColorUtils.WHITE, fontSize: new Fixed(10) };
+  return layoutTextBlock(text, { ...base, ...style }, measure);
+}
+
+function getLineTexts(result: TextBlockLayout): string[] {
+  return result.lines.map(line => line.runs.map(run => run.text).join(''));
+}
+
+describe('TextLayout', () => {
+  test('wraps words at maxWidth and drops the space at the break', () => {
+    const result = layout('the quick brown fox', { maxWidth: new Fixed(100) });
+
+    expect(getLineTexts(result)).toEqual(['the quick', 'brown fox']);
+    expect(result.width.toNumber()).toBe(90);
+    expect(result.lines[1].y.toNumber()).toBeCloseTo(12, 3);
+    expect(result.truncated).toBe(false);
+  });
+
+  test('newlines always start a new line', () => {
+    expect(getLineTexts(layout('a\nb'))).toEqual(['a', 'b']);
+  });
+
+  test('aligns lines within maxWidth', () => {
+    const right = layout('the quick brown fox', { maxWidth: new Fixed(100), textAlign: 'right' });
+    const center = layout('the quick', { maxWidth: new Fixed(100), textAlign: 'center' });
+
+    expect(right.lines[0].x.toNumber()).toBe(10);
+    expect(right.lines[0].runs[0].x.toNumber()).toBe(10);
+    expect(center.lines[0].x.toNumber()).toBe(5);
+  });
+
+  test('ellipsis marks lines dropped by maxLines', () => {
+    const result = layout('the quick brown fox', {
+      maxWidth: new Fixed(100),
+      maxLines: 1,
+      overflow: 'ellipsis'
+    });
+
+    expect(getLineTexts(result)).toEqual(['the quick…']);
+    expect(result.truncated).toBe(true);
+  });
+
+  test('clips unwrapped lines to maxWidth', () => {
+    const result = layout('the quick brown fox', {
+      maxWidth: new Fixed(60),
+      wordWrap: false,
+      overflow: 'clip'
+    });
+
+    expect(getLineTexts(result)).toEqual(['the qu']);
+    expect(result.truncated).toBe(true);
+  });
+
+  test('CJK text wraps between ideographs but keeps full stops off the line start', () => {
+    const result = layout('一二三四五六七八。九', { maxWidth: new Fixed(80) });
+
+    expect(getLineTexts(result)).toEqual(['一二三四五六七', '八。九']);
+  });
+
+  test('vertical text fills columns from right to left', () => {
+    const result = layout('日本語', { writingMode: 'vertical', maxHeight: new Fixed(20) });
+
+    expect(getLineTexts(result)).toEqual(['日本', '語']);
+    expect(result.lines[0].x.greaterThan(result.lines[1].x)).toBe(true);
+  });
+
+  test('markup splits styled spans and keeps escaped brackets', () => {
+    const style = { color: ColorUtils.WHITE, fontSize: new Fixed(10), markup: true };
+    const spans = parseTextMarkup('a[color=#ff0000]red[/color] [b]bold[/b] [[x]', style);
+
+    expect(spans.map(span => span.text)).toEqual(['a', 'red', ' ', 'bold', ' [x]']);
+    expect(spans[1].style.color).toEqual(ColorUtils.RED);
+    expect(spans[3].style.fontWeight).toBe('bold');
+  });
+
+  test('malformed and unknown tags stay as text', () => {
+    const style = { color: ColorUtils.WHITE, fontSize: new Fixed(10), markup: true };
+    const spans = parseTextMarkup('[u]x[/b]', style);
+
+    expect(spans.map(span => span.text).join('')).toBe('[u]x[/b]');
+  });
+});
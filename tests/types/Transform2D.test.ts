@@ -0,0 +1,84 @@
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { RecordingRenderer } from '../../src/recording/RecordingRenderer';
+import { Matrix2x3, Transform2D } from '../../src/types/RenderTypes';
+
+function vector(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function expectVector(actual: FixedVector2, x: number, y: number): void {
+  expect(actual.x.toNumber()).toBeCloseTo(x, 3);
+  expect(actual.y.toNumber()).toBeCloseTo(y, 3);
+}
+
+function expectTransform(actual: Transform2D, expected: Transform2D): void {
+  expectVector(actual.position, expected.position.x.toNumber(), expected.position.y.toNumber());
+  expect(actual.rotation.toNumber()).toBeCloseTo(expected.rotation.toNumber(), 3);
+  expectVector(actual.scale, expected.scale.x.toNumber(), expected.scale.y.toNumber());
+  expect(actual.skew.toNumber()).toBeCloseTo(expected.skew.toNumber(), 3);
+}
+
+// Scaled, skewed, rotated and moved, with a mirrored Y axis
+const SKEWED = new Transform2D(vector(3, -2), new Fixed(0.6), vector(2, -1.5), new Fixed(0.3));
+
+describe('Transform2D', () => {
+  test('a child pushed inside a rotated and scaled parent maps through both', () => {
+    const renderer = new RecordingRenderer();
+    const quarterTurn = new Fixed(Math.PI / 2);
+    renderer.pushTransform(new Transform2D(vector(10, 0), quarterTurn, vector(2, 3)));
+    renderer.pushTransform(new Transform2D(vector(1, 1), quarterTurn));
+
+    // Child: (1, 0) turns to (0, 1) and moves to (1, 2); parent: scaled to (2, 6), turned to
+    // (-6, 2) and moved to (4, 2)
+    const matrix = renderer.getCurrentMatrix();
+    expectVector(matrix.transformPoint(vector(1, 0)), 4, 2);
+    expectVector(matrix.transformPoint(vector(0, 0)), 7, 2);
+
+    // The non-uniform parent scale shears the turned child, which the transform keeps as skew
+    const transform = renderer.getCurrentTransform();
+    expectVector(transform.transformPoint(vector(1, 0)), 4, 2);
+    expectVector(transform.transformPoint(vector(0, 1)), 7, 0);
+
+    renderer.popTransform();
+    expectVector(renderer.getCurrentMatrix().transformPoint(vector(1, 0)), 10, 2);
+  });
+
+  test('multiply applies the child first', () => {
+    const parent = new Transform2D(vector(5, 0), new Fixed(Math.PI / 2), vector(2, 2));
+    const child = new Transform2D(vector(1, 0));
+
+    expectVector(parent.multiply(child).transformPoint(vector(0, 0)), 5, 2);
+    expectVector(child.multiply(parent).transformPoint(vector(0, 0)), 6, 0);
+  });
+
+  test('the inverse undoes the transform', () => {
+    expectTransform(SKEWED.inverse().multiply(SKEWED), Transform2D.identity());
+    expectTransform(SKEWED.multiply(SKEWED.inverse()), Transform2D.identity());
+
+    const point = vector(4, 7);
+    const inverse = SKEWED.inverse();
+    expectVector(inverse.transformPoint(SKEWED.transformPoint(point)), 4, 7);
+  });
+
+  test('decompose round-trips rotation, skew and mirrored scale', () => {
+    expectTransform(Transform2D.fromMatrix(SKEWED.toMatrix()), SKEWED);
+    expect(SKEWED.toMatrix().decompose().toMatrix().determinant().toNumber()).toBeCloseTo(
+      SKEWED.toMatrix().determinant().toNumber(),
+      3
+    );
+  });
+
+  test('transformVector ignores the translation that transformPoint applies', () => {
+    const transform = new Transform2D(vector(10, 20), new Fixed(Math.PI / 2), vector(2, 2));
+
+    expectVector(transform.transformPoint(vector(1, 0)), 10, 22);
+    expectVector(transform.transformVector(vector(1, 0)), 0, 2);
+    expectVector(new Matrix2x3().transformVector(vector(3, 4)), 3, 4);
+  });
+
+  test('singular matrices cannot be inverted', () => {
+    const flat = new Transform2D(vector(1, 1), Fixed.ZERO, vector(0, 1));
+
+    expect(() => flat.toMatrix().invert()).toThrow('Cannot invert a singular matrix');
+  });
+});